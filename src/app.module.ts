@@ -6,6 +6,7 @@ import { ThrottlerModule } from "@nestjs/throttler";
 import appConfig from "./config/app.config";
 import databaseConfig from "./config/database.config";
 import telegramConfig from "./config/telegram.config";
+import storageConfig from "./config/storage.config";
 
 import { BotModule } from "./modules/bot/bot.module";
 import { TicketModule } from "./modules/ticket/ticket.module";
@@ -17,12 +18,15 @@ import { MessagesModule } from "./modules/messages/messages.module";
 import { WebhookModule } from "./webhook/webhook.module";
 import { ApiModule } from "./modules/api/api.module";
 import { HooksModule } from "./modules/hooks/hooks.module";
+import { SlaModule } from "./modules/sla/sla.module";
+import { SearchModule } from "./modules/search/search.module";
+import { CannedResponsesModule } from "./modules/canned-responses/canned-responses.module";
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, databaseConfig, telegramConfig],
+      load: [appConfig, databaseConfig, telegramConfig, storageConfig],
     }),
     MongooseModule.forRootAsync({
       useFactory: () => ({
@@ -47,6 +51,9 @@ import { HooksModule } from "./modules/hooks/hooks.module";
     WebhookModule,
     ApiModule,
     HooksModule,
+    SlaModule,
+    SearchModule,
+    CannedResponsesModule,
   ],
 })
 export class AppModule {}
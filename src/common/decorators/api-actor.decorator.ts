@@ -0,0 +1,17 @@
+import { createParamDecorator, ExecutionContext } from "@nestjs/common";
+import { DomainEventActor } from "../../modules/events/domain-events.service";
+
+// Resolves the API key that authenticated the request (set by ApiKeyGuard)
+// into an actor for domain events.
+export const ApiActor = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): DomainEventActor => {
+    const request = context.switchToHttp().getRequest();
+    const apiKey = request.apiKey;
+
+    return {
+      id: apiKey?._id?.toString() || "api",
+      username: apiKey?.name,
+      source: "api",
+    };
+  },
+);
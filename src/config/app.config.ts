@@ -5,8 +5,10 @@ export default registerAs('app', () => ({
   port: parseInt(process.env.PORT, 10) || 3000,
   apiKeySecret: process.env.API_KEY_SECRET || 'default-secret-key',
   maxFileSize: process.env.MAX_FILE_SIZE || '50MB',
-  uploadDir: process.env.UPLOAD_DIR || './uploads',
   webhookTimeout: parseInt(process.env.WEBHOOK_TIMEOUT, 10) || 5000,
   webhookMaxRetries: parseInt(process.env.WEBHOOK_MAX_RETRIES, 10) || 3,
   logLevel: process.env.LOG_LEVEL || 'debug',
+  trustProxy: process.env.TRUST_PROXY === 'true', // ใช้ IP จาก X-Forwarded-For เมื่ออยู่หลัง reverse proxy
+  defaultLocale: process.env.DEFAULT_LOCALE || 'th', // th | en
+  defaultTimezone: process.env.DEFAULT_TIMEZONE || 'Asia/Bangkok',
 }));
\ No newline at end of file
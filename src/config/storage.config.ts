@@ -0,0 +1,23 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('storage', () => ({
+  driver: process.env.STORAGE_DRIVER || 'local', // local | s3 | gridfs
+  local: {
+    dir: process.env.UPLOAD_DIR || './uploads',
+  },
+  s3: {
+    endpoint: process.env.S3_ENDPOINT, // เช่น http://minio:9000 (ไม่ระบุ = AWS S3)
+    region: process.env.S3_REGION || 'us-east-1',
+    bucket: process.env.S3_BUCKET,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+  },
+  gridfs: {
+    bucketName: process.env.GRIDFS_BUCKET || 'attachments',
+  },
+  // ไม่มีค่า default - ถ้าไม่ตั้งไว้ AttachmentsService จะไม่ยอมเริ่มทำงาน
+  signedUrlSecret: process.env.STORAGE_SIGNING_SECRET || process.env.API_KEY_SECRET,
+  signedUrlTtl: parseInt(process.env.STORAGE_SIGNED_URL_TTL, 10) || 3600, // วินาที
+  publicBaseUrl: process.env.PUBLIC_BASE_URL || '',
+}));
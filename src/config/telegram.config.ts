@@ -1,7 +1,43 @@
 import { registerAs } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+// ช่วง IP ที่ Telegram ใช้ส่ง webhook (https://core.telegram.org/bots/webhooks)
+export const TELEGRAM_IP_RANGES = ['149.154.160.0/20', '91.108.4.0/22'];
+
+export type TelegramMode = 'webhook' | 'polling';
 
 export default registerAs('telegram', () => ({
   botToken: process.env.TELEGRAM_BOT_TOKEN,
+  // webhook (production) หรือ polling (dev ที่ไม่มี public URL) - รองรับ TELEGRAM_USE_WEBHOOK=false แบบเดิม
+  mode: (process.env.TELEGRAM_MODE ||
+    (process.env.TELEGRAM_USE_WEBHOOK === 'false' ? 'polling' : 'webhook')) as TelegramMode,
+  pollingTimeout: parseInt(process.env.TELEGRAM_POLLING_TIMEOUT, 10) || 25, // วินาทีของ long polling
   webhookUrl: process.env.TELEGRAM_WEBHOOK_URL,
   webhookPath: '/webhook/telegram',
+  // ถ้าไม่ตั้งค่า ใช้ค่าที่ derive จาก bot token เพื่อให้ทุก instance ได้ค่าเดียวกัน
+  webhookSecret:
+    process.env.TELEGRAM_WEBHOOK_SECRET ||
+    (process.env.TELEGRAM_BOT_TOKEN
+      ? crypto.createHash('sha256').update(`webhook:${process.env.TELEGRAM_BOT_TOKEN}`).digest('hex')
+      : undefined),
+  // CIDR คั่นด้วย comma หรือ "telegram" เพื่อใช้ช่วง IP ของ Telegram, ว่าง = ไม่ตรวจ IP
+  webhookAllowedIps: (process.env.TELEGRAM_WEBHOOK_IP_RANGES || '')
+    .split(',')
+    .map((range) => range.trim())
+    .filter(Boolean)
+    .flatMap((range) => (range === 'telegram' ? TELEGRAM_IP_RANGES : [range])),
+  supportGroupId: process.env.SUPPORT_GROUP_ID, // กลุ่มที่รับ ticket จากแชทส่วนตัว
+  // Telegram user ID ของผู้ดูแล Bot (คั่นด้วย comma) - ใช้คำสั่ง /debug_* ได้
+  operatorIds: (process.env.BOT_OPERATOR_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean),
+  updateConcurrency: parseInt(process.env.TELEGRAM_UPDATE_CONCURRENCY, 10) || 10, // จำนวนแชทที่ประมวลผลพร้อมกัน
+  shutdownTimeout: parseInt(process.env.TELEGRAM_SHUTDOWN_TIMEOUT, 10) || 10, // วินาทีที่รอ update ในคิวตอนปิด app
+  // จำกัดอัตราส่งข้อความตาม limit ของ Telegram (https://core.telegram.org/bots/faq#broadcasting-to-users)
+  rateLimit: {
+    globalPerSecond: parseInt(process.env.TELEGRAM_RATE_GLOBAL_PER_SECOND, 10) || 30,
+    groupPerMinute: parseInt(process.env.TELEGRAM_RATE_GROUP_PER_MINUTE, 10) || 20,
+    privatePerSecond: parseInt(process.env.TELEGRAM_RATE_PRIVATE_PER_SECOND, 10) || 1,
+  },
 }));
\ No newline at end of file
@@ -16,6 +16,14 @@ async function bootstrap() {
   const app = await NestFactory.create(AppModule);
   const configService = app.get(ConfigService);
 
+  // ให้ TelegramPollingService หยุด polling และงานค้างจบก่อนปิด process (SIGTERM/SIGINT)
+  app.enableShutdownHooks();
+
+  // ให้ request.ip มาจาก X-Forwarded-For เมื่ออยู่หลัง reverse proxy (ใช้ตรวจ IP ของ webhook/API key)
+  if (configService.get<boolean>("app.trustProxy")) {
+    app.getHttpAdapter().getInstance().set("trust proxy", true);
+  }
+
   app.useGlobalPipes(
     new ValidationPipe({
       transform: true,
@@ -48,10 +56,17 @@ Configure webhooks to receive real-time notifications for events:
 - \`ticket.created\` - When a new ticket is created
 - \`ticket.updated\` - When a ticket is updated
 - \`ticket.closed\` - When a ticket is closed
+- \`ticket.reopened\` - When a resolved or closed ticket is reopened
+- \`ticket.assigned\` - When a ticket is assigned to someone
+- \`ticket.sla_warning\` - When a ticket is close to an SLA deadline
+- \`ticket.sla_breached\` - When a ticket misses an SLA deadline
 - \`message.sent\` - When a message is sent
+- \`message.edited\` - When a message in a ticket topic is edited
 - \`user.mentioned\` - When a user is mentioned
 - \`topic.created\` - When a topic is created
 - \`topic.linked\` - When topics are linked
+- \`topic.unlinked\` - When topics are unlinked
+- \`attachment.rejected\` - When a file is rejected by the group's attachment policy
 - \`error.occurred\` - When an error occurs
     `,
     )
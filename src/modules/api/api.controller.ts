@@ -3,6 +3,7 @@ import {
   Get,
   Post,
   Put,
+  Patch,
   Delete,
   Body,
   Param,
@@ -12,40 +13,70 @@ import {
   HttpStatus,
   NotFoundException,
   BadRequestException,
+  Res,
+  StreamableFile,
+  DefaultValuePipe,
+  ParseEnumPipe,
 } from "@nestjs/common";
+import { Response } from "express";
 import { ApiKeyGuard } from "./guards/api-key.guard";
 import { RequireScope } from "../../common/decorators/api-scope.decorator";
+import { ApiActor } from "../../common/decorators/api-actor.decorator";
 import { ApiKeyScope } from "./schemas/api-key.schema";
 import { TicketService } from "../ticket/ticket.service";
+import { TicketTimelineService } from "../ticket/ticket-timeline.service";
 import { MessagesService } from "../messages/messages.service";
 import { TopicsService } from "../topics/topics.service";
 import { UsersService } from "../users/users.service";
 import { GroupsService } from "../groups/groups.service";
+import { GroupSettingsService } from "../groups/group-settings.service";
+import { MembershipsService } from "../groups/memberships.service";
 import { CreateTicketDto } from "./dto/create-ticket.dto";
 import { UpdateTicketDto } from "./dto/update-ticket.dto";
 import { SendMessageDto } from "./dto/send-message.dto";
 import { MentionUserDto } from "./dto/mention-user.dto";
+import { AssignTicketDto } from "./dto/assign-ticket.dto";
+import { ReopenTicketDto } from "./dto/reopen-ticket.dto";
+import { UpdateClosePolicyDto } from "./dto/update-close-policy.dto";
+import { UpdateGroupSettingsDto } from "./dto/update-group-settings.dto";
+import { UpdateMemberRoleDto } from "./dto/update-member-role.dto";
 import { QueryTicketsDto } from "./dto/query-tickets.dto";
 import { BotService } from "../bot/bot.service";
-import { TicketStatus } from "../ticket/schemas/ticket.schema";
+import { MessageBuilder, bold } from "../bot/formatting/message-builder";
+import { I18nService } from "../i18n/i18n.service";
+import {
+  TranscriptService,
+  TranscriptFormat,
+} from "../transcript/transcript.service";
+import { TicketStatus, TicketSource } from "../ticket/schemas/ticket.schema";
+import { MessageType } from "../messages/schemas/message.schema";
+import { DomainEventActor } from "../events/domain-events.service";
 
 @Controller("api/v1")
 @UseGuards(ApiKeyGuard)
 export class ApiController {
   constructor(
     private readonly ticketService: TicketService,
+    private readonly ticketTimelineService: TicketTimelineService,
     private readonly messagesService: MessagesService,
     private readonly topicsService: TopicsService,
     private readonly usersService: UsersService,
     private readonly groupsService: GroupsService,
+    private readonly groupSettingsService: GroupSettingsService,
+    private readonly membershipsService: MembershipsService,
     private readonly botService: BotService,
+    private readonly transcriptService: TranscriptService,
+    private readonly i18n: I18nService,
   ) {}
 
   // ==================== TICKETS ====================
 
   @Post("tickets")
   @RequireScope(ApiKeyScope.WRITE)
-  async createTicket(@Body() createTicketDto: CreateTicketDto) {
+  async createTicket(
+    @Body() createTicketDto: CreateTicketDto,
+    @ApiActor() actor: DomainEventActor,
+  ) {
     // Verify group exists
     const group = await this.groupsService.findByTelegramGroupId(
       createTicketDto.groupId,
@@ -57,14 +88,21 @@ export class ApiController {
     }
 
     // Create ticket
-    const ticket = await this.ticketService.createTicket({
-      title: createTicketDto.title,
-      description: createTicketDto.description,
-      groupId: createTicketDto.groupId,
-      createdBy: createTicketDto.createdBy,
-      priority: createTicketDto.priority,
-      assignedTo: createTicketDto.assignedTo,
-    });
+    const { defaultPriority } = await this.groupSettingsService.getSettings(
+      createTicketDto.groupId,
+    );
+    const ticket = await this.ticketService.createTicket(
+      {
+        title: createTicketDto.title,
+        description: createTicketDto.description,
+        groupId: createTicketDto.groupId,
+        createdBy: createTicketDto.createdBy,
+        priority: createTicketDto.priority ?? defaultPriority,
+        assignedTo: createTicketDto.assignedTo,
+        source: TicketSource.API,
+      },
+      actor,
+    );
 
     // Create forum topic
     const topicName = createTicketDto.title;
@@ -75,14 +113,17 @@ export class ApiController {
 
     if (topicResult && topicResult.message_thread_id) {
       // Create topic in database
-      await this.topicsService.createTopic({
-        telegramTopicId: topicResult.message_thread_id,
-        name: topicName,
-        groupId: createTicketDto.groupId,
-        ticketId: ticket.ticketId,
-        createdBy: createTicketDto.createdBy,
-        isPrimary: true,
-      });
+      await this.topicsService.createTopic(
+        {
+          telegramTopicId: topicResult.message_thread_id,
+          name: topicName,
+          groupId: createTicketDto.groupId,
+          ticketId: ticket.ticketId,
+          createdBy: createTicketDto.createdBy,
+          isPrimary: true,
+        },
+        actor,
+      );
 
       // Add creator as participant
       await this.ticketService.addParticipant(
@@ -91,13 +132,20 @@ export class ApiController {
       );
 
       // Send welcome message
+      const tr = await this.i18n.forChat(createTicketDto.groupId);
       const welcomeMessage =
-        `📋 Ticket: ${ticket.ticketId}\n` +
-        `📝 หัวข้อ: ${ticket.title}\n` +
+        tr.t("api.ticketWelcome", {
+          ticketId: ticket.ticketId,
+          title: ticket.title,
+        }) +
+        "\n" +
         (createTicketDto.description
-          ? `📖 รายละเอียด: ${createTicketDto.description}\n`
+          ? tr.t("api.description", {
+              description: createTicketDto.description,
+            }) + "\n"
           : "") +
-        `\n🔗 สร้างผ่าน API`;
+        "\n" +
+        tr.t("api.createdVia");
 
       await this.botService.sendMessageToTopic(
         createTicketDto.groupId,
@@ -160,6 +208,7 @@ export class ApiController {
   async updateTicket(
     @Param("ticketId") ticketId: string,
     @Body() updateTicketDto: UpdateTicketDto,
+    @ApiActor() actor: DomainEventActor,
   ) {
     const ticket = await this.ticketService.findByTicketId(ticketId);
     if (!ticket) {
@@ -169,6 +218,7 @@ export class ApiController {
     const updatedTicket = await this.ticketService.updateTicket(
       ticketId,
       updateTicketDto,
+      actor,
     );
 
     return {
@@ -180,7 +230,10 @@ export class ApiController {
   @Post("tickets/:ticketId/close")
   @RequireScope(ApiKeyScope.WRITE)
   @HttpCode(HttpStatus.OK)
-  async closeTicket(@Param("ticketId") ticketId: string) {
+  async closeTicket(
+    @Param("ticketId") ticketId: string,
+    @ApiActor() actor: DomainEventActor,
+  ) {
     const ticket = await this.ticketService.findByTicketId(ticketId);
     if (!ticket) {
       throw new NotFoundException(`Ticket ${ticketId} not found`);
@@ -190,22 +243,70 @@ export class ApiController {
       throw new BadRequestException("Ticket is already closed");
     }
 
-    // Close ticket
-    const closedTicket = await this.ticketService.closeTicket(ticketId);
+    // Close ticket (forum topics are closed by the bot on ticket.closed)
+    const closedTicket = await this.ticketService.closeTicket(ticketId, actor);
+
+    return {
+      success: true,
+      data: closedTicket,
+    };
+  }
 
-    // Close all topics
-    for (const topic of ticket.topics) {
-      try {
-        await this.botService.closeForumTopic(topic.groupId, topic.topicId);
-        await this.topicsService.deactivateTopic(topic.topicId, topic.groupId);
-      } catch (error) {
-        // Continue even if topic close fails
-      }
+  @Post("tickets/:ticketId/reopen")
+  @RequireScope(ApiKeyScope.WRITE)
+  @HttpCode(HttpStatus.OK)
+  async reopenTicket(
+    @Param("ticketId") ticketId: string,
+    @Body() reopenTicketDto: ReopenTicketDto,
+    @ApiActor() actor: DomainEventActor,
+  ) {
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
     }
 
+    // Forum topics are reopened (or recreated) by the bot on ticket.reopened
+    const reopenedTicket = await this.ticketService.reopenTicket(
+      ticketId,
+      actor,
+      reopenTicketDto.reason,
+    );
+
     return {
       success: true,
-      data: closedTicket,
+      data: reopenedTicket,
+    };
+  }
+
+  @Get("tickets/:ticketId/status-history")
+  @RequireScope(ApiKeyScope.READ)
+  async getStatusHistory(@Param("ticketId") ticketId: string) {
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+
+    const history = await this.ticketService.getStatusHistory(ticketId);
+
+    return {
+      success: true,
+      data: history,
+    };
+  }
+
+  @Get("tickets/:ticketId/timeline")
+  @RequireScope(ApiKeyScope.READ)
+  async getTimeline(@Param("ticketId") ticketId: string) {
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+
+    const timeline = await this.ticketTimelineService.getTimeline(ticketId);
+
+    return {
+      success: true,
+      data: timeline,
     };
   }
 
@@ -216,6 +317,7 @@ export class ApiController {
   async sendMessage(
     @Param("ticketId") ticketId: string,
     @Body() sendMessageDto: SendMessageDto,
+    @ApiActor() actor: DomainEventActor,
   ) {
     const ticket = await this.ticketService.findByTicketId(ticketId);
     if (!ticket) {
@@ -245,6 +347,26 @@ export class ApiController {
       options,
     );
 
+    // Record the message so it appears in history and fires message.sent
+    await this.messagesService.saveMessage(
+      {
+        telegramMessageId: sentMessage.message_id,
+        messageType: sendMessageDto.replyToMessageId
+          ? MessageType.REPLY
+          : MessageType.TEXT,
+        text: sendMessageDto.text,
+        senderId: sentMessage.from?.id?.toString() || actor.id,
+        // ส่งผ่าน bot แต่ผู้ส่งจริงคือ API key - ชื่อ key เป็น username, แสดงชื่อเป็น API
+        senderUsername: actor.username,
+        senderFirstName: actor.firstName || "API",
+        groupId: primaryTopic.groupId,
+        topicId: primaryTopic.topicId,
+        ticketId,
+        replyToMessageId: sendMessageDto.replyToMessageId,
+      },
+      actor,
+    );
+
     // Update ticket message count
     await this.ticketService.incrementMessageCount(ticketId);
 
@@ -278,6 +400,33 @@ export class ApiController {
     };
   }
 
+  @Get("tickets/:ticketId/transcript")
+  @RequireScope(ApiKeyScope.READ)
+  async getTranscript(
+    @Param("ticketId") ticketId: string,
+    @Query(
+      "format",
+      new DefaultValuePipe(TranscriptFormat.HTML),
+      new ParseEnumPipe(TranscriptFormat),
+    )
+    format: TranscriptFormat,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const transcript = await this.transcriptService.buildTranscript(
+      ticketId,
+      format,
+    );
+    if (!transcript) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+
+    res.set({
+      "Content-Type": transcript.contentType,
+      "Content-Disposition": `attachment; filename="${transcript.fileName}"`,
+    });
+    return new StreamableFile(Buffer.from(transcript.content, "utf-8"));
+  }
+
   // ==================== MENTION ====================
 
   @Post("tickets/:ticketId/mention")
@@ -285,6 +434,7 @@ export class ApiController {
   async mentionUser(
     @Param("ticketId") ticketId: string,
     @Body() mentionUserDto: MentionUserDto,
+    @ApiActor() actor: DomainEventActor,
   ) {
     const ticket = await this.ticketService.findByTicketId(ticketId);
     if (!ticket) {
@@ -329,13 +479,16 @@ export class ApiController {
     }
 
     // Save topic in database
-    await this.topicsService.createTopic({
-      telegramTopicId: topicResult.message_thread_id,
-      groupId: targetGroupId,
-      name: topicName,
-      ticketId: ticket.ticketId,
-      createdBy: targetUser.telegramId,
-    });
+    await this.topicsService.createTopic(
+      {
+        telegramTopicId: topicResult.message_thread_id,
+        groupId: targetGroupId,
+        name: topicName,
+        ticketId: ticket.ticketId,
+        createdBy: targetUser.telegramId,
+      },
+      actor,
+    );
 
     // Link with primary topic
     const primaryTopic = ticket.topics.find((t) => t.isPrimary);
@@ -344,24 +497,45 @@ export class ApiController {
         primaryTopic.topicId,
         topicResult.message_thread_id,
         targetGroupId,
+        actor,
       );
     }
 
     // Add user as participant
-    await this.ticketService.addParticipant(
+    await this.ticketService.recordMention(
       ticket.ticketId,
-      targetUser.telegramId,
+      {
+        telegramId: targetUser.telegramId,
+        username: targetUser.username,
+        firstName: targetUser.firstName,
+      },
+      { topicId: topicResult.message_thread_id, groupId: targetGroupId },
+      actor,
     );
 
     // Send initial message
-    const initialMessage =
-      `🎯 **${targetUser.firstName || mentionUserDto.username}** ได้รับการเชิญเข้าร่วม Ticket\n\n` +
-      `🎫 Ticket: ${ticket.ticketId}\n` +
-      `📝 หัวข้อ: ${ticket.title}\n` +
-      (mentionUserDto.message
-        ? `\n💬 ข้อความ: ${mentionUserDto.message}\n`
-        : "") +
-      `\n🔗 สร้างผ่าน API`;
+    const tr = await this.i18n.forChat(targetGroupId);
+    const initialMessage = new MessageBuilder()
+      .line(
+        "🎯 ",
+        bold(targetUser.firstName || mentionUserDto.username),
+        " ",
+        tr.t("api.mentionInvited"),
+      )
+      .blank()
+      .line(
+        tr.t("api.mentionDetails", {
+          ticketId: ticket.ticketId,
+          title: ticket.title,
+        }),
+      )
+      .lineIf(
+        !!mentionUserDto.message,
+        "\n" + tr.t("api.mentionMessage", { message: mentionUserDto.message }),
+      )
+      .blank()
+      .line(tr.t("api.createdVia"))
+      .build();
 
     await this.botService.sendMessageToTopic(
       targetGroupId,
@@ -379,6 +553,73 @@ export class ApiController {
     };
   }
 
+  // ==================== ASSIGNMENT ====================
+
+  @Post("tickets/:ticketId/assign")
+  @RequireScope(ApiKeyScope.WRITE)
+  @HttpCode(HttpStatus.OK)
+  async assignTicket(
+    @Param("ticketId") ticketId: string,
+    @Body() assignTicketDto: AssignTicketDto,
+    @ApiActor() actor: DomainEventActor,
+  ) {
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+
+    if (ticket.status === TicketStatus.CLOSED) {
+      throw new BadRequestException("Cannot assign a closed ticket");
+    }
+
+    const username = assignTicketDto.username.replace(/^@/, "");
+    const assignee = await this.usersService.findByUsername(username);
+    if (!assignee) {
+      throw new NotFoundException(`User @${username} not found`);
+    }
+
+    const assignedTicket = await this.ticketService.assignTicket(
+      ticketId,
+      {
+        telegramId: assignee.telegramId,
+        username: assignee.username,
+        firstName: assignee.firstName,
+      },
+      actor,
+    );
+
+    return {
+      success: true,
+      data: assignedTicket,
+    };
+  }
+
+  @Delete("tickets/:ticketId/assign")
+  @RequireScope(ApiKeyScope.WRITE)
+  async unassignTicket(
+    @Param("ticketId") ticketId: string,
+    @ApiActor() actor: DomainEventActor,
+  ) {
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+
+    if (!ticket.assignedTo) {
+      throw new BadRequestException(`Ticket ${ticketId} has no assignee`);
+    }
+
+    const unassignedTicket = await this.ticketService.unassignTicket(
+      ticketId,
+      actor,
+    );
+
+    return {
+      success: true,
+      data: unassignedTicket,
+    };
+  }
+
   // ==================== STATS ====================
 
   @Get("tickets/:ticketId/stats")
@@ -436,6 +677,102 @@ export class ApiController {
     };
   }
 
+  @Put("groups/:groupId/close-policy")
+  @RequireScope(ApiKeyScope.ADMIN)
+  async updateClosePolicy(
+    @Param("groupId") groupId: string,
+    @Body() updateClosePolicyDto: UpdateClosePolicyDto,
+  ) {
+    const group = await this.groupsService.findByTelegramGroupId(groupId);
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    const settings = await this.groupSettingsService.updateSettings(groupId, {
+      topicCloseAction: updateClosePolicyDto.action,
+      topicDeleteAfterDays: updateClosePolicyDto.deleteAfterDays,
+    });
+
+    return {
+      success: true,
+      data: {
+        groupId: settings.groupId,
+        action: settings.topicCloseAction,
+        deleteAfterDays: settings.topicDeleteAfterDays,
+      },
+    };
+  }
+
+  @Get("groups/:groupId/settings")
+  @RequireScope(ApiKeyScope.READ)
+  async getGroupSettings(@Param("groupId") groupId: string) {
+    const group = await this.groupsService.findByTelegramGroupId(groupId);
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    return {
+      success: true,
+      data: await this.groupSettingsService.getSettings(groupId),
+    };
+  }
+
+  @Patch("groups/:groupId/settings")
+  @RequireScope(ApiKeyScope.ADMIN)
+  async updateGroupSettings(
+    @Param("groupId") groupId: string,
+    @Body() updateGroupSettingsDto: UpdateGroupSettingsDto,
+  ) {
+    const group = await this.groupsService.findByTelegramGroupId(groupId);
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    return {
+      success: true,
+      data: await this.groupSettingsService.updateSettings(
+        groupId,
+        updateGroupSettingsDto,
+      ),
+    };
+  }
+
+  @Get("groups/:groupId/members")
+  @RequireScope(ApiKeyScope.READ)
+  async getGroupMembers(@Param("groupId") groupId: string) {
+    const group = await this.groupsService.findByTelegramGroupId(groupId);
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    return {
+      success: true,
+      data: await this.membershipsService.findByGroup(groupId),
+    };
+  }
+
+  @Put("groups/:groupId/members/:telegramId/role")
+  @RequireScope(ApiKeyScope.ADMIN)
+  async updateMemberRole(
+    @Param("groupId") groupId: string,
+    @Param("telegramId") telegramId: string,
+    @Body() updateMemberRoleDto: UpdateMemberRoleDto,
+  ) {
+    const group = await this.groupsService.findByTelegramGroupId(groupId);
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    return {
+      success: true,
+      data: await this.membershipsService.assignRole(
+        groupId,
+        telegramId,
+        updateMemberRoleDto.role ?? null,
+      ),
+    };
+  }
+
   // ==================== USERS ====================
 
   @Get("users")
@@ -2,6 +2,7 @@ import { Module, forwardRef } from "@nestjs/common";
 import { MongooseModule } from "@nestjs/mongoose";
 import { ApiController } from "./api.controller";
 import { ApiKeyController } from "./api-key.controller";
+import { AttachmentsController } from "./attachments.controller";
 import { ApiKeyService } from "./api-key.service";
 import { ApiKeyGuard } from "./guards/api-key.guard";
 import { ApiKey, ApiKeySchema } from "./schemas/api-key.schema";
@@ -11,6 +12,9 @@ import { TopicsModule } from "../topics/topics.module";
 import { UsersModule } from "../users/users.module";
 import { GroupsModule } from "../groups/groups.module";
 import { BotModule } from "../bot/bot.module";
+import { TranscriptModule } from "../transcript/transcript.module";
+import { AttachmentsModule } from "../attachments/attachments.module";
+import { I18nModule } from "../i18n/i18n.module";
 
 @Module({
   imports: [
@@ -20,9 +24,12 @@ import { BotModule } from "../bot/bot.module";
     TopicsModule,
     UsersModule,
     GroupsModule,
+    TranscriptModule,
+    AttachmentsModule,
+    I18nModule,
     forwardRef(() => BotModule),
   ],
-  controllers: [ApiController, ApiKeyController],
+  controllers: [ApiController, ApiKeyController, AttachmentsController],
   providers: [ApiKeyService, ApiKeyGuard],
   exports: [ApiKeyService, ApiKeyGuard],
 })
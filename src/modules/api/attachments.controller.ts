@@ -0,0 +1,392 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  StreamableFile,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import * as mime from "mime-types";
+import { ApiKeyGuard } from "./guards/api-key.guard";
+import { RequireScope } from "../../common/decorators/api-scope.decorator";
+import { ApiActor } from "../../common/decorators/api-actor.decorator";
+import { ApiKeyScope } from "./schemas/api-key.schema";
+import { UploadAttachmentDto } from "./dto/upload-attachment.dto";
+import { UpdateAttachmentPolicyDto } from "./dto/update-attachment-policy.dto";
+import { AttachmentsService } from "../attachments/attachments.service";
+import { Attachment } from "../attachments/schemas/attachment.schema";
+import { TicketService } from "../ticket/ticket.service";
+import { TicketStatus } from "../ticket/schemas/ticket.schema";
+import { MessagesService } from "../messages/messages.service";
+import { GroupsService } from "../groups/groups.service";
+import { BotService } from "../bot/bot.service";
+import { DomainEventActor } from "../events/domain-events.service";
+
+// ขนาดไฟล์สูงสุดที่ Bot API อัปโหลดได้
+const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+
+@Controller("api/v1")
+export class AttachmentsController {
+  constructor(
+    private readonly attachmentsService: AttachmentsService,
+    private readonly ticketService: TicketService,
+    private readonly messagesService: MessagesService,
+    private readonly groupsService: GroupsService,
+    private readonly botService: BotService,
+  ) {}
+
+  // ==================== POLICY ====================
+
+  @Get("groups/:groupId/attachment-policy")
+  @UseGuards(ApiKeyGuard)
+  @RequireScope(ApiKeyScope.READ)
+  async getAttachmentPolicy(@Param("groupId") groupId: string) {
+    const group = await this.groupsService.findByTelegramGroupId(groupId);
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    return {
+      success: true,
+      data: {
+        policy: await this.attachmentsService.findPolicy(groupId),
+        effective: await this.attachmentsService.getEffectivePolicy(groupId),
+      },
+    };
+  }
+
+  @Put("groups/:groupId/attachment-policy")
+  @UseGuards(ApiKeyGuard)
+  @RequireScope(ApiKeyScope.ADMIN)
+  async updateAttachmentPolicy(
+    @Param("groupId") groupId: string,
+    @Body() updateAttachmentPolicyDto: UpdateAttachmentPolicyDto,
+  ) {
+    const group = await this.groupsService.findByTelegramGroupId(groupId);
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    const policy = await this.attachmentsService.upsertPolicy(
+      groupId,
+      updateAttachmentPolicyDto,
+    );
+
+    return {
+      success: true,
+      data: {
+        policy,
+        effective: await this.attachmentsService.getEffectivePolicy(groupId),
+      },
+    };
+  }
+
+  @Delete("groups/:groupId/attachment-policy")
+  @UseGuards(ApiKeyGuard)
+  @RequireScope(ApiKeyScope.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async resetAttachmentPolicy(@Param("groupId") groupId: string) {
+    const deleted = await this.attachmentsService.deletePolicy(groupId);
+    if (!deleted) {
+      throw new NotFoundException(
+        `Attachment policy not found in group ${groupId}`,
+      );
+    }
+
+    return {
+      success: true,
+      message: "Attachment policy reset to defaults",
+    };
+  }
+
+  // ==================== ATTACHMENTS ====================
+
+  @Get("tickets/:ticketId/attachments")
+  @UseGuards(ApiKeyGuard)
+  @RequireScope(ApiKeyScope.READ)
+  async getTicketAttachments(@Param("ticketId") ticketId: string) {
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+
+    const attachments = await this.attachmentsService.findByTicketId(ticketId);
+
+    return {
+      success: true,
+      data: attachments.map((attachment) => this.toResponse(attachment)),
+    };
+  }
+
+  // อัปโหลดไฟล์เข้า topic หลักของ ticket แล้ว sync ไปยัง topics ที่เชื่อมโยง
+  @Post("tickets/:ticketId/attachments")
+  @UseGuards(ApiKeyGuard)
+  @RequireScope(ApiKeyScope.WRITE)
+  @UseInterceptors(
+    FileInterceptor("file", { limits: { fileSize: MAX_UPLOAD_SIZE } }),
+  )
+  async uploadAttachment(
+    @Param("ticketId") ticketId: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() uploadAttachmentDto: UploadAttachmentDto,
+    @ApiActor() actor: DomainEventActor,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Multipart field "file" is required');
+    }
+
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+    if (ticket.status === TicketStatus.CLOSED) {
+      throw new BadRequestException("Cannot upload to closed ticket");
+    }
+
+    const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+    if (!primaryTopic) {
+      throw new BadRequestException("Ticket has no primary topic");
+    }
+
+    const policy = await this.attachmentsService.getEffectivePolicy(
+      primaryTopic.groupId,
+    );
+    const validation = this.attachmentsService.validateFile(
+      {
+        file_size: file.size,
+        mime_type: file.mimetype,
+        file_name: file.originalname,
+      },
+      policy,
+    );
+    if (!validation.isValid) {
+      this.attachmentsService.reportRejection({
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+        reason: validation.reason,
+        groupId: primaryTopic.groupId,
+        topicId: primaryTopic.topicId,
+        ticketId,
+        uploadedBy: actor.id,
+      });
+      throw new BadRequestException(validation.reason);
+    }
+
+    const { message, fileType, fileInfo } =
+      await this.botService.sendFileToTopic(
+        primaryTopic.groupId,
+        primaryTopic.topicId,
+        {
+          buffer: file.buffer,
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+        },
+        uploadAttachmentDto.caption,
+      );
+
+    const attachment = await this.attachmentsService.saveAttachment({
+      telegramFileId: fileInfo.file_id,
+      telegramFileUniqueId: fileInfo.file_unique_id,
+      fileName: file.originalname,
+      fileType,
+      mimeType: file.mimetype,
+      fileSize: file.size,
+      width: fileInfo.width,
+      height: fileInfo.height,
+      duration: fileInfo.duration,
+      caption: uploadAttachmentDto.caption,
+      uploadedBy: actor.id,
+      groupId: primaryTopic.groupId,
+      topicId: primaryTopic.topicId,
+      ticketId,
+      messageId: message.message_id,
+    });
+    const attachmentId = (attachment as any)._id.toString();
+
+    // มีไฟล์อยู่แล้ว ไม่ต้องดาวน์โหลดกลับจาก Telegram
+    if (policy.downloadEnabled) {
+      await this.attachmentsService.markAsDownloaded(
+        attachment.telegramFileId,
+        file.buffer,
+      );
+    }
+
+    await this.messagesService.saveMessage(
+      {
+        telegramMessageId: message.message_id,
+        messageType: this.messagesService.determineMessageType(message),
+        caption: uploadAttachmentDto.caption,
+        senderId: message.from?.id?.toString() || actor.id,
+        senderUsername: actor.username,
+        senderFirstName: actor.firstName || "API",
+        groupId: primaryTopic.groupId,
+        topicId: primaryTopic.topicId,
+        ticketId,
+        hasAttachments: true,
+        attachmentIds: [attachmentId],
+      },
+      actor,
+    );
+    await this.ticketService.incrementMessageCount(ticketId);
+
+    await this.botService.syncAttachmentsToLinkedTopics(
+      primaryTopic.topicId,
+      primaryTopic.groupId,
+    );
+
+    const stored = await this.attachmentsService.findById(attachmentId);
+    return {
+      success: true,
+      data: this.toResponse(stored || attachment),
+    };
+  }
+
+  // ตรวจไฟล์ทุกชุดใน storage ว่ายังอยู่และ SHA-256 ตรงกับที่บันทึกไว้
+  @Post("attachments/integrity-check")
+  @UseGuards(ApiKeyGuard)
+  @RequireScope(ApiKeyScope.ADMIN)
+  async checkIntegrity() {
+    const result = await this.attachmentsService.verifyIntegrity();
+
+    return {
+      success: true,
+      data: {
+        checked: result.checked,
+        healthy: result.checked - result.corrupted.length,
+        corrupted: result.corrupted,
+      },
+    };
+  }
+
+  @Get("attachments/:id")
+  @UseGuards(ApiKeyGuard)
+  @RequireScope(ApiKeyScope.READ)
+  async getAttachment(@Param("id") id: string) {
+    const attachment = await this.attachmentsService.findById(id);
+    if (!attachment) {
+      throw new NotFoundException(`Attachment ${id} not found`);
+    }
+
+    return {
+      success: true,
+      data: this.toResponse(attachment),
+    };
+  }
+
+  // ออก signed URL สำหรับดาวน์โหลด (หมดอายุตาม STORAGE_SIGNED_URL_TTL)
+  @Get("attachments/:id/download-url")
+  @UseGuards(ApiKeyGuard)
+  @RequireScope(ApiKeyScope.READ)
+  async getDownloadUrl(@Param("id") id: string) {
+    const attachment = await this.attachmentsService.findById(id);
+    if (!attachment) {
+      throw new NotFoundException(`Attachment ${id} not found`);
+    }
+    if (!attachment.isDownloaded) {
+      throw new NotFoundException(`Attachment ${id} has not been stored yet`);
+    }
+
+    return {
+      success: true,
+      data: this.attachmentsService.createSignedDownloadUrl(id),
+    };
+  }
+
+  // ไม่ใช้ API key - ตรวจสอบจาก signature ใน URL แทน
+  @Get("attachments/:id/download")
+  async download(
+    @Param("id") id: string,
+    @Query("expires") expires: string,
+    @Query("signature") signature: string,
+  ) {
+    if (
+      !this.attachmentsService.verifyDownloadSignature(
+        id,
+        parseInt(expires, 10),
+        signature,
+      )
+    ) {
+      throw new ForbiddenException("Download link is invalid or has expired");
+    }
+
+    const attachment = await this.attachmentsService.findById(id);
+    const file = attachment
+      ? await this.attachmentsService.openFile(attachment)
+      : null;
+    if (!file) {
+      throw new NotFoundException(`Attachment ${id} not found`);
+    }
+
+    const type =
+      attachment.mimeType || file.contentType || "application/octet-stream";
+    return new StreamableFile(file.stream, {
+      type,
+      disposition: this.contentDisposition(
+        this.downloadFileName(attachment, type),
+      ),
+      length: file.size,
+    });
+  }
+
+  // รูป/voice จาก Telegram ไม่มีชื่อไฟล์ - ตั้งชื่อจาก storage key + นามสกุลตาม MIME
+  private downloadFileName(attachment: Attachment, mimeType: string): string {
+    if (attachment.fileName) return attachment.fileName;
+
+    const base =
+      attachment.storageKey?.split("/").pop() ||
+      (attachment as any)._id.toString();
+    const ext = mime.extension(mimeType);
+    return ext ? `${base}.${ext}` : base;
+  }
+
+  // RFC 6266: filename สำหรับ client เก่า (ASCII) + filename* แบบ UTF-8
+  private contentDisposition(fileName: string): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+    const encoded = encodeURIComponent(fileName).replace(
+      /['()*]/g,
+      (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+    );
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+  }
+
+  // metadata พร้อมลิงก์ดาวน์โหลดถ้าไฟล์ถูกเก็บแล้ว
+  private toResponse(attachment: Attachment) {
+    const id = (attachment as any)._id.toString();
+    return {
+      id,
+      fileName: attachment.fileName,
+      fileType: attachment.fileType,
+      mimeType: attachment.mimeType,
+      fileSize: attachment.fileSize,
+      width: attachment.width,
+      height: attachment.height,
+      duration: attachment.duration,
+      caption: attachment.caption,
+      uploadedBy: attachment.uploadedBy,
+      groupId: attachment.groupId,
+      topicId: attachment.topicId,
+      ticketId: attachment.ticketId,
+      messageId: attachment.messageId,
+      isDownloaded: attachment.isDownloaded,
+      storageDriver: attachment.storageDriver,
+      contentHash: attachment.contentHash,
+      createdAt: (attachment as any).createdAt,
+      download: attachment.isDownloaded
+        ? this.attachmentsService.createSignedDownloadUrl(id)
+        : undefined,
+    };
+  }
+}
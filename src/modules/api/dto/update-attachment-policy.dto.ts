@@ -0,0 +1,47 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from "class-validator";
+
+// ส่ง null เพื่อกลับไปใช้ค่าเริ่มต้นของระบบ
+export class UpdateAttachmentPolicyDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(/^[\w.+-]+\/(\*|[\w.+-]+)$/, {
+    each: true,
+    message:
+      "allowedMimeTypes must contain MIME types such as image/png or image/*",
+  })
+  allowedMimeTypes?: string[] | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(/^\.\w+$/, {
+    each: true,
+    message: "blockedExtensions must contain extensions such as .exe",
+  })
+  blockedExtensions?: string[] | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(2000)
+  maxFileSizeMb?: number | null;
+
+  @IsOptional()
+  @IsBoolean()
+  downloadEnabled?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  retentionDays?: number;
+}
@@ -0,0 +1,14 @@
+import { IsEnum, IsOptional, IsInt, Min, Max } from "class-validator";
+import { TopicCloseAction } from "../../groups/schemas/group-settings.schema";
+
+export class UpdateClosePolicyDto {
+  @IsEnum(TopicCloseAction)
+  action: TopicCloseAction;
+
+  // จำนวนวันก่อนลบ topic ที่ปิดแล้ว (ใช้กับ action = delete)
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(3650)
+  deleteAfterDays?: number;
+}
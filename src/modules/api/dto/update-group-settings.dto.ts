@@ -0,0 +1,50 @@
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsTimeZone,
+  Max,
+  Min,
+} from "class-validator";
+import {
+  ClosePermission,
+  TopicCloseAction,
+} from "../../groups/schemas/group-settings.schema";
+import { TicketPriority } from "../../ticket/schemas/ticket.schema";
+import { SUPPORTED_LOCALES } from "../../i18n/translator";
+
+// ส่งเฉพาะ field ที่ต้องการเปลี่ยน - null เพื่อกลับไปใช้ค่าเริ่มต้นของระบบ
+export class UpdateGroupSettingsDto {
+  @IsOptional()
+  @IsIn(SUPPORTED_LOCALES)
+  language?: string | null;
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string | null;
+
+  @IsOptional()
+  @IsEnum(TopicCloseAction)
+  topicCloseAction?: TopicCloseAction | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(3650)
+  topicDeleteAfterDays?: number | null;
+
+  @IsOptional()
+  @IsEnum(ClosePermission)
+  closePermission?: ClosePermission | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  archiveAfterDays?: number | null;
+
+  @IsOptional()
+  @IsEnum(TicketPriority)
+  defaultPriority?: TicketPriority | null;
+}
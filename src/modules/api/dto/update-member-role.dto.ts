@@ -0,0 +1,12 @@
+import { IsIn, IsOptional } from "class-validator";
+import {
+  ASSIGNABLE_ROLES,
+  MemberRole,
+} from "../../groups/schemas/membership.schema";
+
+// owner มาจากผู้สร้างกลุ่มใน Telegram เท่านั้น - ส่ง null เพื่อกลับไปใช้ role ตาม Telegram
+export class UpdateMemberRoleDto {
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES)
+  role?: MemberRole | null;
+}
@@ -0,0 +1,8 @@
+import { IsString, IsOptional, MaxLength } from "class-validator";
+
+export class UploadAttachmentDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  caption?: string;
+}
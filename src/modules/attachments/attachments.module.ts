@@ -1,15 +1,33 @@
 import { Module } from '@nestjs/common';
-import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule, getConnectionToken } from '@nestjs/mongoose';
 import { AttachmentsService } from './attachments.service';
 import { Attachment, AttachmentSchema } from './schemas/attachment.schema';
+import { StoredBlob, StoredBlobSchema } from './schemas/stored-blob.schema';
+import { AttachmentPolicy, AttachmentPolicySchema } from './schemas/attachment-policy.schema';
+import { EventsModule } from '../events/events.module';
+import { LocksModule } from '../locks/locks.module';
+import { STORAGE_PROVIDER } from './storage/storage-provider.interface';
+import { createStorageProvider } from './storage/storage-provider.factory';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
-      { name: Attachment.name, schema: AttachmentSchema }
-    ])
+      { name: Attachment.name, schema: AttachmentSchema },
+      { name: StoredBlob.name, schema: StoredBlobSchema },
+      { name: AttachmentPolicy.name, schema: AttachmentPolicySchema }
+    ]),
+    EventsModule,
+    LocksModule,
+  ],
+  providers: [
+    AttachmentsService,
+    {
+      provide: STORAGE_PROVIDER,
+      inject: [ConfigService, getConnectionToken()],
+      useFactory: createStorageProvider,
+    },
   ],
-  providers: [AttachmentsService],
   exports: [AttachmentsService],
 })
 export class AttachmentsModule {}
\ No newline at end of file
@@ -0,0 +1,259 @@
+import { ConfigService } from "@nestjs/config";
+import { Readable } from "stream";
+import { AttachmentsService } from "./attachments.service";
+import {
+  StorageDriver,
+  StorageProvider,
+} from "./storage/storage-provider.interface";
+import { DomainEventsService } from "../events/domain-events.service";
+import { LocksService } from "../locks/locks.service";
+
+// collection ในหน่วยความจำ - รองรับเฉพาะ query/update ที่ AttachmentsService ใช้
+class FakeCollection {
+  docs: any[] = [];
+  private nextId = 0;
+
+  find = jest.fn((filter) =>
+    this.query(this.docs.filter(this.matcher(filter))),
+  );
+  findOne = jest.fn((filter) =>
+    this.query(this.docs.find(this.matcher(filter)) ?? null),
+  );
+
+  findOneAndUpdate = jest.fn((filter, update) => {
+    const doc = this.docs.find(this.matcher(filter));
+    if (doc) this.apply(doc, update);
+    return this.query(doc ?? null);
+  });
+
+  updateOne = jest.fn((filter, update) => {
+    const doc = this.docs.find(this.matcher(filter));
+    if (doc) this.apply(doc, update);
+    return this.query({ modifiedCount: doc ? 1 : 0 });
+  });
+
+  updateMany = jest.fn((filter, update) => {
+    const docs = this.docs.filter(this.matcher(filter));
+    docs.forEach((doc) => this.apply(doc, update));
+    return this.query({ modifiedCount: docs.length });
+  });
+
+  deleteOne = jest.fn((filter) => {
+    const before = this.docs.length;
+    this.docs = this.docs.filter((doc) => !this.matcher(filter)(doc));
+    return this.query({ deletedCount: before - this.docs.length });
+  });
+
+  create = jest.fn(async (data) => {
+    const unique = data.hash ?? undefined;
+    if (unique && this.docs.some((doc) => doc.hash === unique)) {
+      throw Object.assign(new Error("duplicate key"), { code: 11000 });
+    }
+    return this.insert(data);
+  });
+
+  insert(data: any) {
+    const doc = {
+      _id: `id-${++this.nextId}`,
+      ...data,
+      deleteOne: async () => {
+        this.docs = this.docs.filter((d) => d !== doc);
+      },
+    };
+    this.docs.push(doc);
+    return doc;
+  }
+
+  private query<T>(value: T) {
+    return { exec: async () => value };
+  }
+
+  private matcher(filter: Record<string, any>) {
+    return (doc: any) =>
+      Object.entries(filter).every(([key, condition]) => {
+        const value = doc[key];
+        if (
+          condition &&
+          typeof condition === "object" &&
+          !Array.isArray(condition)
+        ) {
+          if ("$exists" in condition)
+            return (value !== undefined) === condition.$exists;
+          if ("$in" in condition) return condition.$in.includes(value);
+          if ("$lte" in condition) return value <= condition.$lte;
+          if ("$lt" in condition) return value < condition.$lt;
+        }
+        return value === condition;
+      });
+  }
+
+  private apply(doc: any, update: Record<string, any>) {
+    for (const [key, value] of Object.entries(update)) {
+      if (key === "$inc") {
+        for (const [field, by] of Object.entries(value)) {
+          doc[field] = (doc[field] ?? 0) + (by as number);
+        }
+      } else if (key === "$unset") {
+        for (const field of Object.keys(value)) delete doc[field];
+      } else {
+        doc[key] = value;
+      }
+    }
+  }
+}
+
+class FakeStorage implements StorageProvider {
+  readonly driver = StorageDriver.LOCAL;
+  files = new Map<string, Buffer>();
+
+  save = jest.fn(async (key: string, data: Buffer) => {
+    this.files.set(key, data);
+  });
+
+  read = jest.fn(async (key: string) =>
+    this.files.has(key) ? { stream: Readable.from(this.files.get(key)) } : null,
+  );
+
+  delete = jest.fn(async (key: string) => {
+    this.files.delete(key);
+  });
+}
+
+describe("AttachmentsService content deduplication", () => {
+  let attachments: FakeCollection;
+  let blobs: FakeCollection;
+  let storage: FakeStorage;
+  let service: AttachmentsService;
+
+  const config: Record<string, unknown> = {
+    "app.maxFileSize": "50mb",
+    "storage.signedUrlSecret": "test-secret",
+  };
+
+  beforeEach(() => {
+    jest
+      .spyOn(AttachmentsService.prototype as any, "startRetentionCleanup")
+      .mockImplementation(() => undefined);
+
+    attachments = new FakeCollection();
+    blobs = new FakeCollection();
+    storage = new FakeStorage();
+    service = new AttachmentsService(
+      attachments as any,
+      blobs as any,
+      new FakeCollection() as any,
+      storage,
+      { get: (key: string) => config[key] } as ConfigService,
+      {} as DomainEventsService,
+      {} as LocksService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const addAttachment = (telegramFileId: string, extra: any = {}) =>
+    attachments.insert({
+      telegramFileId,
+      mimeType: "image/png",
+      createdAt: new Date(0),
+      ...extra,
+    });
+
+  it("stores identical content once and counts every reference", async () => {
+    addAttachment("file-a");
+    addAttachment("file-b");
+    const data = Buffer.from("same picture");
+
+    const keyA = await service.markAsDownloaded("file-a", data);
+    const keyB = await service.markAsDownloaded("file-b", data);
+
+    expect(keyB).toBe(keyA);
+    expect(storage.files.size).toBe(1);
+    expect(blobs.docs).toHaveLength(1);
+    expect(blobs.docs[0].refCount).toBe(2);
+    expect(attachments.docs.every((a) => a.storageKey === keyA)).toBe(true);
+  });
+
+  it("counts a reference for each attachment sharing the Telegram file", async () => {
+    addAttachment("file-a");
+    addAttachment("file-a");
+
+    await service.markAsDownloaded("file-a", Buffer.from("data"));
+
+    expect(blobs.docs[0].refCount).toBe(2);
+  });
+
+  it("does not count an attachment twice when downloads race", async () => {
+    addAttachment("file-a");
+    const data = Buffer.from("data");
+
+    await Promise.all([
+      service.markAsDownloaded("file-a", data),
+      service.markAsDownloaded("file-a", data),
+    ]);
+
+    expect(attachments.docs[0].storageKey).toBe(blobs.docs[0].storageKey);
+    expect(blobs.docs).toHaveLength(1);
+    expect(blobs.docs[0].refCount).toBe(1);
+    expect(storage.files.size).toBe(1);
+  });
+
+  it("rewrites the file of an existing blob when it has gone missing", async () => {
+    addAttachment("file-a");
+    addAttachment("file-b");
+    const data = Buffer.from("data");
+    const key = await service.markAsDownloaded("file-a", data);
+    storage.files.clear();
+
+    await service.markAsDownloaded("file-b", data);
+
+    expect(storage.files.get(key)).toEqual(data);
+  });
+
+  it("reuses the stored blob for another copy of the same Telegram file", async () => {
+    addAttachment("file-a", { telegramFileUniqueId: "unique-1" });
+    addAttachment("file-b", { telegramFileUniqueId: "unique-1" });
+    const key = await service.markAsDownloaded("file-a", Buffer.from("data"));
+
+    await expect(service.linkExistingCopy("file-b")).resolves.toBe(key);
+
+    expect(blobs.docs[0].refCount).toBe(2);
+    expect(storage.save).toHaveBeenCalledTimes(1);
+  });
+
+  it("deletes the file only when the last reference is removed", async () => {
+    addAttachment("file-a");
+    addAttachment("file-b");
+    const data = Buffer.from("data");
+    const key = await service.markAsDownloaded("file-a", data);
+    await service.markAsDownloaded("file-b", data);
+    attachments.docs[1].isDownloaded = false;
+
+    // ลบเฉพาะ attachment แรก (ตัวที่สองยังไม่ถือว่าดาวน์โหลดแล้ว)
+    await service.cleanupOldFiles(0);
+    expect(blobs.docs[0].refCount).toBe(1);
+    expect(storage.files.has(key)).toBe(true);
+
+    attachments.docs[0].isDownloaded = true;
+    await service.cleanupOldFiles(0);
+    expect(blobs.docs).toHaveLength(0);
+    expect(storage.files.has(key)).toBe(false);
+  });
+
+  it("stores content again under a new key after its blob was released", async () => {
+    addAttachment("file-a");
+    const data = Buffer.from("data");
+    const oldKey = await service.markAsDownloaded("file-a", data);
+    attachments.docs[0].isDownloaded = true;
+    await service.cleanupOldFiles(0);
+
+    addAttachment("file-b");
+    const newKey = await service.markAsDownloaded("file-b", data);
+
+    expect(newKey).not.toBe(oldKey);
+    expect(storage.files.has(newKey)).toBe(true);
+    expect(blobs.docs[0].refCount).toBe(1);
+  });
+});
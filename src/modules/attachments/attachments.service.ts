@@ -1,16 +1,49 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, isValidObjectId } from 'mongoose';
 import { Attachment, AttachmentDocument, AttachmentType } from './schemas/attachment.schema';
+import { StoredBlob, StoredBlobDocument } from './schemas/stored-blob.schema';
+import { AttachmentPolicy, AttachmentPolicyDocument } from './schemas/attachment-policy.schema';
+import { STORAGE_PROVIDER, StorageProvider, StoredObject } from './storage/storage-provider.interface';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import { DomainEventsService } from '../events/domain-events.service';
+import { HookEvent } from '../hooks/schemas/hook.schema';
+import { LocksService } from '../locks/locks.service';
+
+// นโยบายที่ใช้จริงหลังรวมค่าของกลุ่มกับค่าเริ่มต้น
+export interface EffectiveAttachmentPolicy {
+  allowedMimeTypes: string[];
+  blockedExtensions: string[];
+  maxFileSize: number; // bytes
+  downloadEnabled: boolean;
+  retentionDays: number; // 0 = เก็บไฟล์ตลอด
+}
+
+export interface AttachmentRejection {
+  fileName?: string;
+  mimeType?: string;
+  fileSize?: number;
+  reason: string;
+  groupId: string;
+  topicId?: number;
+  ticketId?: string;
+  messageId?: number;
+  uploadedBy?: string;
+}
 
 @Injectable()
 export class AttachmentsService {
   private readonly logger = new Logger(AttachmentsService.name);
-  private readonly uploadDir = './uploads';
-  private readonly maxFileSize = 50 * 1024 * 1024; // 50MB
+  private readonly maxFileSize: number;
+  private readonly dangerousExtensions = [
+    '.exe', '.bat', '.cmd', '.com', '.pif', '.scr',
+    '.vbs', '.js', '.jar', '.app', '.deb', '.pkg', '.dmg'
+  ];
   private readonly allowedMimeTypes = [
     'image/jpeg', 'image/png', 'image/gif', 'image/webp',
     'application/pdf', 'text/plain', 'text/csv',
@@ -24,16 +57,76 @@ export class AttachmentsService {
 
   constructor(
     @InjectModel(Attachment.name) private attachmentModel: Model<AttachmentDocument>,
+    @InjectModel(StoredBlob.name) private storedBlobModel: Model<StoredBlobDocument>,
+    @InjectModel(AttachmentPolicy.name) private attachmentPolicyModel: Model<AttachmentPolicyDocument>,
+    @Inject(STORAGE_PROVIDER) private storage: StorageProvider,
+    private configService: ConfigService,
+    private domainEvents: DomainEventsService,
+    private locksService: LocksService,
   ) {
-    this.ensureUploadDirectory();
+    // endpoint ดาวน์โหลดตรวจแค่ลายเซ็น ห้ามใช้ secret ที่เดาได้
+    if (!this.configService.get<string>('storage.signedUrlSecret')) {
+      throw new Error('STORAGE_SIGNING_SECRET (or API_KEY_SECRET) is required for signed download URLs');
+    }
+
+    this.maxFileSize = this.parseFileSize(this.configService.get<string>('app.maxFileSize'));
+    this.startRetentionCleanup();
   }
 
-  private async ensureUploadDirectory(): Promise<void> {
-    try {
-      await fs.access(this.uploadDir);
-    } catch {
-      await fs.mkdir(this.uploadDir, { recursive: true });
+  // ==================== Policy ====================
+
+  async findPolicy(groupId: string): Promise<AttachmentPolicy | null> {
+    return this.attachmentPolicyModel.findOne({ groupId }).exec();
+  }
+
+  async getEffectivePolicy(groupId: string): Promise<EffectiveAttachmentPolicy> {
+    const policy = await this.findPolicy(groupId);
+
+    return {
+      allowedMimeTypes: policy?.allowedMimeTypes?.length ? policy.allowedMimeTypes : this.allowedMimeTypes,
+      blockedExtensions: policy?.blockedExtensions ?? this.dangerousExtensions,
+      maxFileSize: policy?.maxFileSizeMb ? policy.maxFileSizeMb * 1024 * 1024 : this.maxFileSize,
+      downloadEnabled: policy?.downloadEnabled ?? true,
+      retentionDays: policy?.retentionDays ?? 0,
+    };
+  }
+
+  async upsertPolicy(groupId: string, policyData: Partial<AttachmentPolicy>): Promise<AttachmentPolicy> {
+    const $set: Record<string, any> = { groupId };
+    const $unset: Record<string, ''> = {};
+    for (const [key, value] of Object.entries(policyData)) {
+      // null = กลับไปใช้ค่าเริ่มต้น
+      if (value === null) $unset[key] = '';
+      else if (value !== undefined) $set[key] = value;
     }
+    const update = Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+
+    return this.attachmentPolicyModel
+      .findOneAndUpdate({ groupId }, update, { new: true, upsert: true, setDefaultsOnInsert: true })
+      .exec();
+  }
+
+  async deletePolicy(groupId: string): Promise<boolean> {
+    const result = await this.attachmentPolicyModel.deleteOne({ groupId }).exec();
+    return result.deletedCount > 0;
+  }
+
+  // แจ้ง attachment.rejected ให้ระบบภายนอกทราบ
+  reportRejection(rejection: AttachmentRejection): void {
+    this.logger.warn(`Attachment rejected in ${rejection.groupId}: ${rejection.reason}`);
+    this.domainEvents.emit(HookEvent.ATTACHMENT_REJECTED, rejection, {
+      ticketId: rejection.ticketId,
+      groupId: rejection.groupId,
+    });
+  }
+
+  // รองรับรูปแบบ 50MB, 512KB, 1GB หรือจำนวน bytes
+  private parseFileSize(value?: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/i.exec((value || '').trim());
+    if (!match) return 50 * 1024 * 1024;
+
+    const units = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+    return Math.floor(parseFloat(match[1]) * units[(match[2] || 'B').toUpperCase()]);
   }
 
   async saveAttachment(attachmentData: Partial<Attachment>): Promise<Attachment> {
@@ -45,6 +138,11 @@ export class AttachmentsService {
     return this.attachmentModel.findOne({ telegramFileId }).exec();
   }
 
+  async findById(id: string): Promise<Attachment | null> {
+    if (!isValidObjectId(id)) return null;
+    return this.attachmentModel.findById(id).exec();
+  }
+
   async findByTopicId(topicId: number, groupId: string): Promise<Attachment[]> {
     return this.attachmentModel
       .find({ topicId, groupId })
@@ -65,19 +163,262 @@ export class AttachmentsService {
       .exec();
   }
 
-  async markAsDownloaded(telegramFileId: string, localFilePath: string): Promise<void> {
+  // เก็บไฟล์ที่ดาวน์โหลดจาก Telegram แบบ content-addressed - ไฟล์เนื้อหาเดียวกันเก็บชุดเดียว
+  async markAsDownloaded(telegramFileId: string, data: Buffer): Promise<string | null> {
+    const pending = await this.attachmentModel
+      .find({ telegramFileId, contentHash: { $exists: false } })
+      .exec();
+    if (pending.length === 0) {
+      const attachment = await this.findByFileId(telegramFileId);
+      return attachment?.storageKey || null;
+    }
+
+    const contentHash = crypto.createHash('sha256').update(data).digest('hex');
+    const claimed = await this.claimAttachments(pending.map((a) => a._id), contentHash);
+    if (claimed.length === 0) {
+      // การดาวน์โหลดอื่นที่ทำพร้อมกันเก็บไฟล์นี้ไปแล้ว
+      const attachment = await this.findByFileId(telegramFileId);
+      return attachment?.storageKey || null;
+    }
+
+    try {
+      const blob = await this.acquireBlob(contentHash, data, pending[0].mimeType, claimed.length);
+      await this.linkBlob(claimed, blob);
+      return blob.storageKey;
+    } catch (error) {
+      await this.unclaimAttachments(claimed);
+      throw error;
+    }
+  }
+
+  // จอง attachments ทีละรายการแบบ atomic ก่อนเพิ่ม refCount - ป้องกันการนับซ้ำเมื่อเก็บไฟล์เดียวกันพร้อมกัน
+  private async claimAttachments(attachmentIds: any[], contentHash: string): Promise<any[]> {
+    const claimed = [];
+    for (const _id of attachmentIds) {
+      const { modifiedCount } = await this.attachmentModel
+        .updateOne({ _id, contentHash: { $exists: false } }, { contentHash })
+        .exec();
+      if (modifiedCount > 0) claimed.push(_id);
+    }
+    return claimed;
+  }
+
+  private async unclaimAttachments(attachmentIds: any[]): Promise<void> {
     await this.attachmentModel
-      .updateOne(
-        { telegramFileId },
+      .updateMany({ _id: { $in: attachmentIds } }, { $unset: { contentHash: '' } })
+      .exec();
+  }
+
+  // ถ้าไฟล์เดียวกัน (file_unique_id) ถูกเก็บไว้แล้ว ให้อ้างถึงไฟล์เดิมแทนการดาวน์โหลดซ้ำ
+  async linkExistingCopy(telegramFileId: string): Promise<string | null> {
+    const attachment = await this.findByFileId(telegramFileId);
+    if (!attachment?.telegramFileUniqueId) return null;
+    if (attachment.contentHash) return attachment.storageKey;
+
+    const copy = await this.attachmentModel
+      .findOne({
+        telegramFileUniqueId: attachment.telegramFileUniqueId,
+        contentHash: { $exists: true },
+      })
+      .exec();
+    if (!copy) return null;
+
+    const claimed = await this.claimAttachments([(attachment as any)._id], copy.contentHash);
+    if (claimed.length === 0) {
+      return (await this.findByFileId(telegramFileId))?.storageKey || null;
+    }
+
+    const blob = await this.storedBlobModel
+      .findOneAndUpdate({ hash: copy.contentHash }, { $inc: { refCount: 1 } }, { new: true })
+      .exec();
+    if (!blob) {
+      await this.unclaimAttachments(claimed);
+      return null;
+    }
+
+    await this.linkBlob(claimed, blob);
+    return blob.storageKey;
+  }
+
+  private async acquireBlob(
+    hash: string,
+    data: Buffer,
+    mimeType: string | undefined,
+    references: number,
+  ): Promise<StoredBlob> {
+    const existing = await this.storedBlobModel
+      .findOneAndUpdate({ hash }, { $inc: { refCount: references } }, { new: true })
+      .exec();
+    if (existing) {
+      // มีข้อมูลไฟล์อยู่ในมือแล้ว - เก็บใหม่ถ้าไฟล์ของ blob เดิมหายไป
+      const file = await this.storage.read(existing.storageKey).catch(() => null);
+      if (file) file.stream.destroy();
+      else await this.storage.save(existing.storageKey, data, existing.mimeType);
+      return existing;
+    }
+
+    // key ไม่ซ้ำกันในแต่ละรอบที่สร้าง blob - ถ้า releaseBlob ของ blob เดิมที่มี hash เดียวกัน
+    // กำลังลบไฟล์อยู่ จะไม่ลบไฟล์ชุดใหม่นี้ไปด้วย
+    const storageKey = `blobs/${hash.substring(0, 2)}/${hash}-${crypto.randomBytes(4).toString('hex')}`;
+    await this.storage.save(storageKey, data, mimeType);
+
+    try {
+      return await this.storedBlobModel.create({
+        hash,
+        storageKey,
+        storageDriver: this.storage.driver,
+        size: data.length,
+        mimeType,
+        refCount: references,
+      });
+    } catch (error) {
+      await this.storage.delete(storageKey).catch(() => {});
+      if (error.code !== 11000) throw error;
+      // อีก process สร้าง blob เดียวกันไปพร้อมกัน - ใช้ของที่สร้างก่อน
+      return this.storedBlobModel
+        .findOneAndUpdate({ hash }, { $inc: { refCount: references } }, { new: true })
+        .exec();
+    }
+  }
+
+  private async linkBlob(attachmentIds: any[], blob: StoredBlob): Promise<void> {
+    await this.attachmentModel
+      .updateMany(
+        { _id: { $in: attachmentIds } },
         {
           isDownloaded: true,
-          localFilePath,
+          storageDriver: blob.storageDriver,
+          storageKey: blob.storageKey,
+          contentHash: blob.hash,
           downloadedAt: new Date()
         }
       )
       .exec();
   }
 
+  // ลดจำนวนการอ้างถึง และลบไฟล์เมื่อไม่มี attachment ใดใช้แล้ว
+  // ลบเอกสาร (ที่ refCount ยังเป็น 0) ก่อนไฟล์: ถ้ามีการอ้างถึงใหม่เข้ามาก่อน deleteOne ไฟล์จะไม่ถูกลบ
+  // ถ้าเข้ามาหลังจากนั้น acquireBlob จะสร้าง blob ใหม่ด้วย storageKey ใหม่
+  private async releaseBlob(hash: string): Promise<void> {
+    const blob = await this.storedBlobModel
+      .findOneAndUpdate({ hash }, { $inc: { refCount: -1 } }, { new: true })
+      .exec();
+    if (!blob || blob.refCount > 0) return;
+
+    const { deletedCount } = await this.storedBlobModel
+      .deleteOne({ _id: blob._id, refCount: { $lte: 0 } })
+      .exec();
+    if (deletedCount > 0) {
+      await this.storage.delete(blob.storageKey);
+    }
+  }
+
+  // คำนวณ SHA-256 ของไฟล์ทุกชุดใน storage ใหม่ แล้วรายงานไฟล์ที่หายหรือเนื้อหาไม่ตรง
+  async verifyIntegrity(): Promise<{
+    checked: number;
+    corrupted: Array<{
+      hash: string;
+      storageKey: string;
+      reason: 'missing' | 'hash_mismatch' | 'unreadable';
+      actualHash?: string;
+      error?: string;
+      affectedAttachments: number;
+    }>;
+  }> {
+    let checked = 0;
+    const corrupted = [];
+
+    for await (const blob of this.storedBlobModel.find().cursor()) {
+      checked++;
+      let reason: 'missing' | 'hash_mismatch' | 'unreadable' | null = null;
+      let actualHash: string | undefined;
+      let errorMessage: string | undefined;
+
+      try {
+        const file = await this.storage.read(blob.storageKey);
+        if (!file) {
+          reason = 'missing';
+        } else {
+          actualHash = await this.hashStream(file.stream);
+          if (actualHash !== blob.hash) reason = 'hash_mismatch';
+        }
+      } catch (error) {
+        reason = 'unreadable';
+        errorMessage = error.message;
+      }
+
+      if (!reason) {
+        await this.storedBlobModel.updateOne({ _id: blob._id }, { lastVerifiedAt: new Date() }).exec();
+        continue;
+      }
+
+      this.logger.warn(`Integrity check failed for blob ${blob.hash} (${blob.storageKey}): ${reason}`);
+      corrupted.push({
+        hash: blob.hash,
+        storageKey: blob.storageKey,
+        reason,
+        actualHash: reason === 'hash_mismatch' ? actualHash : undefined,
+        error: errorMessage,
+        affectedAttachments: await this.attachmentModel.countDocuments({ contentHash: blob.hash }).exec(),
+      });
+    }
+
+    return { checked, corrupted };
+  }
+
+  private hashStream(stream: Readable): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      stream.on('data', (chunk) => hash.update(chunk));
+      stream.on('end', () => resolve(hash.digest('hex')));
+      stream.on('error', reject);
+    });
+  }
+
+  // เปิดไฟล์จาก storage (ไฟล์เก่าก่อนมี storage provider อ่านจาก localFilePath)
+  async openFile(attachment: Attachment): Promise<StoredObject | null> {
+    if (attachment.storageKey) {
+      return this.storage.read(attachment.storageKey);
+    }
+    if (attachment.localFilePath) {
+      try {
+        const stat = await fs.stat(attachment.localFilePath);
+        return { stream: createReadStream(attachment.localFilePath), size: stat.size };
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  }
+
+  // URL ดาวน์โหลดที่ลงลายเซ็นและหมดอายุ - ใช้ได้โดยไม่ต้องมี API key
+  createSignedDownloadUrl(attachmentId: string, ttlSeconds?: number): { url: string; expiresAt: Date } {
+    const ttl = ttlSeconds || this.configService.get<number>('storage.signedUrlTtl');
+    const expires = Math.floor(Date.now() / 1000) + ttl;
+    const signature = this.signDownload(attachmentId, expires);
+    const baseUrl = this.configService.get<string>('storage.publicBaseUrl').replace(/\/$/, '');
+
+    return {
+      url: `${baseUrl}/api/v1/attachments/${attachmentId}/download?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  verifyDownloadSignature(attachmentId: string, expires: number, signature: string): boolean {
+    if (!expires || !signature || expires * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(this.signDownload(attachmentId, expires));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private signDownload(attachmentId: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.configService.get<string>('storage.signedUrlSecret'))
+      .update(`${attachmentId}:${expires}`)
+      .digest('hex');
+  }
+
   async markAsSynced(attachmentId: string, topicId: number): Promise<void> {
     await this.attachmentModel
       .updateOne(
@@ -131,14 +472,15 @@ export class AttachmentsService {
     };
   }
 
-  async cleanupOldFiles(olderThanDays: number = 30): Promise<number> {
+  async cleanupOldFiles(olderThanDays: number = 30, groupId?: string): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
 
     const oldAttachments = await this.attachmentModel
       .find({
         createdAt: { $lt: cutoffDate },
-        isDownloaded: true
+        isDownloaded: true,
+        ...(groupId && { groupId })
       })
       .exec();
 
@@ -146,7 +488,11 @@ export class AttachmentsService {
 
     for (const attachment of oldAttachments) {
       try {
-        if (attachment.localFilePath) {
+        if (attachment.contentHash) {
+          await this.releaseBlob(attachment.contentHash);
+        } else if (attachment.storageKey) {
+          await this.storage.delete(attachment.storageKey);
+        } else if (attachment.localFilePath) {
           await fs.unlink(attachment.localFilePath);
         }
         if (attachment.thumbnailLocalPath) {
@@ -162,17 +508,55 @@ export class AttachmentsService {
     return deletedCount;
   }
 
-  validateFile(fileInfo: any): { isValid: boolean; reason?: string } {
+  // ลบไฟล์ที่เกิน retentionDays ของแต่ละกลุ่ม ทุก 1 ชั่วโมง (3600000 ms)
+  private startRetentionCleanup(): void {
+    setInterval(async () => {
+      try {
+        await this.locksService.runExclusive('attachments.retention', 3600000 - 60000, () =>
+          this.enforceRetention(),
+        );
+      } catch (error) {
+        this.logger.error('Error enforcing attachment retention:', error);
+      }
+    }, 3600000);
+  }
+
+  async enforceRetention(): Promise<number> {
+    const policies = await this.attachmentPolicyModel.find({ retentionDays: { $gt: 0 } }).exec();
+
+    let deletedCount = 0;
+    for (const policy of policies) {
+      deletedCount += await this.cleanupOldFiles(policy.retentionDays, policy.groupId);
+    }
+    if (deletedCount > 0) {
+      this.logger.log(`Attachment retention removed ${deletedCount} files`);
+    }
+    return deletedCount;
+  }
+
+  validateFile(
+    fileInfo: any,
+    policy?: EffectiveAttachmentPolicy,
+  ): { isValid: boolean; reason?: string } {
+    const maxFileSize = policy?.maxFileSize ?? this.maxFileSize;
+    const allowedMimeTypes = policy?.allowedMimeTypes ?? this.allowedMimeTypes;
+    const blockedExtensions = policy?.blockedExtensions ?? this.dangerousExtensions;
+
     // Check file size
-    if (fileInfo.file_size > this.maxFileSize) {
+    if (fileInfo.file_size > maxFileSize) {
       return {
         isValid: false,
-        reason: `File size ${(fileInfo.file_size / 1024 / 1024).toFixed(2)}MB exceeds limit of ${this.maxFileSize / 1024 / 1024}MB`
+        reason: `File size ${(fileInfo.file_size / 1024 / 1024).toFixed(2)}MB exceeds limit of ${(maxFileSize / 1024 / 1024).toFixed(2)}MB`
       };
     }
 
-    // Check MIME type if available
-    if (fileInfo.mime_type && !this.allowedMimeTypes.includes(fileInfo.mime_type)) {
+    // Check MIME type if available (รองรับ wildcard เช่น image/*)
+    if (
+      fileInfo.mime_type &&
+      !allowedMimeTypes.some((type) =>
+        type.endsWith('/*') ? fileInfo.mime_type.startsWith(type.slice(0, -1)) : type === fileInfo.mime_type,
+      )
+    ) {
       return {
         isValid: false,
         reason: `File type ${fileInfo.mime_type} is not allowed`
@@ -180,15 +564,10 @@ export class AttachmentsService {
     }
 
     // Check for dangerous file extensions
-    const dangerousExtensions = [
-      '.exe', '.bat', '.cmd', '.com', '.pif', '.scr',
-      '.vbs', '.js', '.jar', '.app', '.deb', '.pkg', '.dmg'
-    ];
-
     const fileName = fileInfo.file_name || '';
     const fileExtension = path.extname(fileName).toLowerCase();
 
-    if (dangerousExtensions.includes(fileExtension)) {
+    if (fileExtension && blockedExtensions.map((e) => e.toLowerCase()).includes(fileExtension)) {
       return {
         isValid: false,
         reason: `File extension ${fileExtension} is not allowed for security reasons`
@@ -198,17 +577,6 @@ export class AttachmentsService {
     return { isValid: true };
   }
 
-  generateLocalFileName(originalName: string, telegramFileId: string): string {
-    const extension = path.extname(originalName);
-    const hash = crypto.createHash('md5').update(telegramFileId).digest('hex');
-    const timestamp = Date.now();
-    return `${timestamp}_${hash}${extension}`;
-  }
-
-  getLocalFilePath(fileName: string): string {
-    return path.join(this.uploadDir, fileName);
-  }
-
   determineAttachmentType(fileInfo: any): AttachmentType {
     if (fileInfo.photo) return AttachmentType.PHOTO;
     if (fileInfo.document) return AttachmentType.DOCUMENT;
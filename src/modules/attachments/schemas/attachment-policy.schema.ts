@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type AttachmentPolicyDocument = AttachmentPolicy & Document;
+
+// นโยบายไฟล์แนบของกลุ่ม - ค่าที่ไม่ได้ตั้งจะใช้ค่าเริ่มต้นของระบบ
+@Schema({ timestamps: true })
+export class AttachmentPolicy {
+  @Prop({ required: true, unique: true })
+  groupId: string; // Group Telegram ID
+
+  @Prop({ type: [String], default: undefined })
+  allowedMimeTypes?: string[]; // รองรับ wildcard เช่น image/*
+
+  @Prop({ type: [String], default: undefined })
+  blockedExtensions?: string[]; // เช่น .exe
+
+  @Prop()
+  maxFileSizeMb?: number;
+
+  @Prop({ default: true })
+  downloadEnabled: boolean; // false = บันทึกเฉพาะข้อมูลไฟล์ ไม่ดาวน์โหลดเก็บ
+
+  @Prop({ default: 0 })
+  retentionDays: number; // 0 = เก็บไฟล์ตลอด
+}
+
+export const AttachmentPolicySchema = SchemaFactory.createForClass(AttachmentPolicy);
@@ -19,6 +19,9 @@ export class Attachment {
   @Prop({ required: true })
   telegramFileId: string;
 
+  @Prop()
+  telegramFileUniqueId?: string; // เหมือนกันทุกครั้งที่ไฟล์เดิมถูกส่งต่อ
+
   @Prop({ required: true })
   fileName: string;
 
@@ -44,7 +47,16 @@ export class Attachment {
   caption?: string;
 
   @Prop()
-  localFilePath?: string;
+  localFilePath?: string; // ไฟล์เก่าที่เก็บก่อนมี storage provider
+
+  @Prop()
+  storageDriver?: string; // local | s3 | gridfs
+
+  @Prop()
+  storageKey?: string;
+
+  @Prop()
+  contentHash?: string; // SHA-256 ของเนื้อไฟล์ (อ้างถึง StoredBlob)
 
   @Prop()
   thumbnailFileId?: string;
@@ -84,6 +96,8 @@ export const AttachmentSchema = SchemaFactory.createForClass(Attachment);
 
 // Create indexes for better performance
 AttachmentSchema.index({ telegramFileId: 1 });
+AttachmentSchema.index({ telegramFileUniqueId: 1 });
+AttachmentSchema.index({ contentHash: 1 });
 AttachmentSchema.index({ groupId: 1, topicId: 1 });
 AttachmentSchema.index({ ticketId: 1 });
 AttachmentSchema.index({ messageId: 1 });
@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type StoredBlobDocument = StoredBlob & Document;
+
+// ไฟล์หนึ่งชุดใน storage (content-addressed) ที่ attachments หลายรายการใช้ร่วมกัน
+@Schema({ timestamps: true })
+export class StoredBlob {
+  @Prop({ required: true, unique: true })
+  hash: string; // SHA-256 ของเนื้อไฟล์
+
+  @Prop({ required: true })
+  storageKey: string;
+
+  @Prop({ required: true })
+  storageDriver: string;
+
+  @Prop({ required: true })
+  size: number;
+
+  @Prop()
+  mimeType?: string;
+
+  @Prop({ default: 0 })
+  refCount: number; // จำนวน attachments ที่อ้างถึง - ลบไฟล์เมื่อเหลือ 0
+
+  @Prop()
+  lastVerifiedAt?: Date;
+}
+
+export const StoredBlobSchema = SchemaFactory.createForClass(StoredBlob);
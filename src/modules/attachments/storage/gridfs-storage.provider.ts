@@ -0,0 +1,52 @@
+import { Connection, mongo } from 'mongoose';
+import { StorageDriver, StorageProvider, StoredObject } from './storage-provider.interface';
+
+export class GridFsStorageProvider implements StorageProvider {
+  readonly driver = StorageDriver.GRIDFS;
+  private bucket?: mongo.GridFSBucket;
+
+  constructor(
+    private readonly connection: Connection,
+    private readonly bucketName: string,
+  ) {}
+
+  async save(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.delete(key);
+    await new Promise<void>((resolve, reject) => {
+      const upload = this.getBucket().openUploadStream(key, {
+        metadata: { contentType },
+      });
+      upload.once('finish', () => resolve());
+      upload.once('error', reject);
+      upload.end(data);
+    });
+  }
+
+  async read(key: string): Promise<StoredObject | null> {
+    const [file] = await this.getBucket().find({ filename: key }).limit(1).toArray();
+    if (!file) return null;
+
+    return {
+      stream: this.getBucket().openDownloadStream(file._id),
+      size: file.length,
+      contentType: file.metadata?.contentType,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const files = await this.getBucket().find({ filename: key }).toArray();
+    for (const file of files) {
+      await this.getBucket().delete(file._id);
+    }
+  }
+
+  // สร้าง bucket เมื่อใช้งานครั้งแรก เพราะตอน bootstrap connection อาจยังไม่พร้อม
+  private getBucket(): mongo.GridFSBucket {
+    if (!this.bucket) {
+      this.bucket = new mongo.GridFSBucket(this.connection.db, {
+        bucketName: this.bucketName,
+      });
+    }
+    return this.bucket;
+  }
+}
@@ -0,0 +1,45 @@
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StorageDriver, StorageProvider, StoredObject } from './storage-provider.interface';
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly driver = StorageDriver.LOCAL;
+
+  constructor(private readonly baseDir: string) {}
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<StoredObject | null> {
+    const filePath = this.resolve(key);
+    try {
+      const stat = await fs.stat(filePath);
+      return { stream: createReadStream(filePath), size: stat.size };
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+
+  // กัน key ที่พยายามออกนอก baseDir (../)
+  private resolve(key: string): string {
+    const root = path.resolve(this.baseDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
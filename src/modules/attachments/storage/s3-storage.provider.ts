@@ -0,0 +1,128 @@
+import axios, { Method } from 'axios';
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import { StorageDriver, StorageProvider, StoredObject } from './storage-provider.interface';
+
+export interface S3StorageOptions {
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+// S3-compatible storage (AWS S3, MinIO) ผ่าน REST API พร้อม AWS Signature V4
+export class S3StorageProvider implements StorageProvider {
+  readonly driver = StorageDriver.S3;
+
+  constructor(private readonly options: S3StorageOptions) {
+    if (!options.bucket || !options.accessKeyId || !options.secretAccessKey) {
+      throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+  }
+
+  async save(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.request('PUT', key, data, contentType ? { 'content-type': contentType } : {});
+  }
+
+  async read(key: string): Promise<StoredObject | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      (response.data as Readable).resume();
+      return null;
+    }
+
+    const contentLength = parseInt(response.headers['content-length'], 10);
+    return {
+      stream: response.data,
+      size: isNaN(contentLength) ? undefined : contentLength,
+      contentType: response.headers['content-type'],
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  private async request(
+    method: Method,
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+  ) {
+    const { url, host, canonicalUri } = this.buildUrl(key);
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.substring(0, 8);
+    const payloadHash = this.sha256(body || '');
+
+    const headers: Record<string, string> = {
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...extraHeaders,
+    };
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      canonicalUri,
+      '',
+      signedHeaderNames.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+      signedHeaderNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, this.sha256(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (k, part) => this.hmac(k, part),
+      this.hmac(this.hmac(`AWS4${this.options.secretAccessKey}`, dateStamp), this.options.region),
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...requestHeaders } = headers;
+    const response = await axios.request({
+      method,
+      url,
+      data: body,
+      headers: {
+        ...requestHeaders,
+        Authorization:
+          `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`,
+      },
+      responseType: method === 'GET' ? 'stream' : 'text',
+      maxBodyLength: Infinity,
+      validateStatus: (status) => status < 300 || (method === 'GET' && status === 404),
+    });
+    return response;
+  }
+
+  private buildUrl(key: string): { url: string; host: string; canonicalUri: string } {
+    const endpoint = new URL(this.options.endpoint || `https://s3.${this.options.region}.amazonaws.com`);
+    const encodedKey = key.split('/').map((segment) => this.encode(segment)).join('/');
+
+    if (this.options.forcePathStyle) {
+      const canonicalUri = `/${this.options.bucket}/${encodedKey}`;
+      return { url: `${endpoint.origin}${canonicalUri}`, host: endpoint.host, canonicalUri };
+    }
+
+    const host = `${this.options.bucket}.${endpoint.host}`;
+    const canonicalUri = `/${encodedKey}`;
+    return { url: `${endpoint.protocol}//${host}${canonicalUri}`, host, canonicalUri };
+  }
+
+  // RFC 3986 encoding ตามที่ SigV4 กำหนด
+  private encode(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private sha256(data: Buffer | string): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  private hmac(key: Buffer | string, data: string): Buffer {
+    return crypto.createHmac('sha256', key).update(data).digest();
+  }
+}
@@ -0,0 +1,24 @@
+import { ConfigService } from '@nestjs/config';
+import { Connection } from 'mongoose';
+import { StorageDriver, StorageProvider } from './storage-provider.interface';
+import { LocalStorageProvider } from './local-storage.provider';
+import { S3StorageProvider } from './s3-storage.provider';
+import { GridFsStorageProvider } from './gridfs-storage.provider';
+
+export function createStorageProvider(
+  configService: ConfigService,
+  connection: Connection,
+): StorageProvider {
+  const driver = configService.get<string>('storage.driver');
+
+  switch (driver) {
+    case StorageDriver.S3:
+      return new S3StorageProvider(configService.get('storage.s3'));
+    case StorageDriver.GRIDFS:
+      return new GridFsStorageProvider(connection, configService.get<string>('storage.gridfs.bucketName'));
+    case StorageDriver.LOCAL:
+      return new LocalStorageProvider(configService.get<string>('storage.local.dir'));
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected local, s3 or gridfs)`);
+  }
+}
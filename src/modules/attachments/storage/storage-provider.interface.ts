@@ -0,0 +1,23 @@
+import { Readable } from 'stream';
+
+export const STORAGE_PROVIDER = 'STORAGE_PROVIDER';
+
+export enum StorageDriver {
+  LOCAL = 'local',
+  S3 = 's3',
+  GRIDFS = 'gridfs',
+}
+
+export interface StoredObject {
+  stream: Readable;
+  size?: number;
+  contentType?: string;
+}
+
+// ที่เก็บไฟล์แนบ - key เป็น path แบบ relative เช่น 2024/01/<file>
+export interface StorageProvider {
+  readonly driver: StorageDriver;
+  save(key: string, data: Buffer, contentType?: string): Promise<void>;
+  read(key: string): Promise<StoredObject | null>; // null = ไม่พบไฟล์
+  delete(key: string): Promise<void>;
+}
@@ -1,24 +1,48 @@
 import { Module, forwardRef } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
 import { BotService } from "./bot.service";
+import { UpdateQueueService } from "./update-queue.service";
+import { TelegramPollingService } from "./telegram-polling.service";
 import { UsersModule } from "../users/users.module";
 import { GroupsModule } from "../groups/groups.module";
 import { TicketModule } from "../ticket/ticket.module";
 import { TopicsModule } from "../topics/topics.module";
 import { AttachmentsModule } from "../attachments/attachments.module";
 import { MessagesModule } from "../messages/messages.module";
-import { HooksModule } from "../hooks/hooks.module";
+import { EventsModule } from "../events/events.module";
+import { TranscriptModule } from "../transcript/transcript.module";
+import { SearchModule } from "../search/search.module";
+import { CannedResponsesModule } from "../canned-responses/canned-responses.module";
+import { ConversationsModule } from "../conversations/conversations.module";
+import { LocksModule } from "../locks/locks.module";
+import { TelegramSenderModule } from "../telegram-sender/telegram-sender.module";
+import { I18nModule } from "../i18n/i18n.module";
+import {
+  ProcessedUpdate,
+  ProcessedUpdateSchema,
+} from "./schemas/processed-update.schema";
 
 @Module({
   imports: [
+    MongooseModule.forFeature([
+      { name: ProcessedUpdate.name, schema: ProcessedUpdateSchema },
+    ]),
     UsersModule,
     GroupsModule,
     TicketModule,
     TopicsModule,
     AttachmentsModule,
     MessagesModule,
-    forwardRef(() => HooksModule),
+    EventsModule,
+    TranscriptModule,
+    SearchModule,
+    ConversationsModule,
+    LocksModule,
+    TelegramSenderModule,
+    I18nModule,
+    forwardRef(() => CannedResponsesModule),
   ],
-  providers: [BotService],
-  exports: [BotService],
+  providers: [BotService, UpdateQueueService, TelegramPollingService],
+  exports: [BotService, TelegramPollingService],
 })
 export class BotModule {}
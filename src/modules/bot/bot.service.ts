@@ -2,47 +2,139 @@ import {
   Injectable,
   OnModuleInit,
   Logger,
-  Inject,
-  forwardRef,
+  BadRequestException,
 } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
+import { TelegramMode } from "../../config/telegram.config";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
 import * as TelegramBot from "node-telegram-bot-api";
 import { UsersService } from "../users/users.service";
 import { GroupsService } from "../groups/groups.service";
+import {
+  GroupSettingsService,
+  EffectiveGroupSettings,
+  GroupSettingsUpdate,
+} from "../groups/group-settings.service";
+import {
+  ClosePermission,
+  TopicCloseAction,
+} from "../groups/schemas/group-settings.schema";
+import { MembershipsService } from "../groups/memberships.service";
+import {
+  ASSIGNABLE_ROLES,
+  MemberRole,
+} from "../groups/schemas/membership.schema";
+import { COMMAND_ROLES, CommandAccess, GuardedCommand } from "./command-roles";
 import { TicketService } from "../ticket/ticket.service";
+import {
+  Ticket,
+  TicketStatus,
+  TicketSource,
+  SlaTarget,
+  TicketPriority,
+} from "../ticket/schemas/ticket.schema";
+import { TICKET_STATUS_TRANSITIONS } from "../ticket/ticket-status";
+import { TicketTimelineService } from "../ticket/ticket-timeline.service";
+import { TicketEvent } from "../ticket/schemas/ticket-event.schema";
+import {
+  TranscriptService,
+  TranscriptFormat,
+} from "../transcript/transcript.service";
+import { SearchService } from "../search/search.service";
+import { CannedResponsesService } from "../canned-responses/canned-responses.service";
+import { CannedResponse } from "../canned-responses/schemas/canned-response.schema";
+import { MessageType } from "../messages/schemas/message.schema";
 import { TopicsService } from "../topics/topics.service";
-import { AttachmentsService } from "../attachments/attachments.service";
+import {
+  AttachmentsService,
+  EffectiveAttachmentPolicy,
+} from "../attachments/attachments.service";
+import { AttachmentType } from "../attachments/schemas/attachment.schema";
 import { MessagesService } from "../messages/messages.service";
-import { HooksService } from "../hooks/hooks.service";
 import { HookEvent } from "../hooks/schemas/hook.schema";
+import { ConversationsService } from "../conversations/conversations.service";
+import {
+  ConversationAttachment,
+  ConversationInput,
+  ConversationStep,
+} from "../conversations/conversation-flow";
+import { ConversationState } from "../conversations/schemas/conversation-state.schema";
+import { CREATE_TICKET_FLOW } from "./flows/create-ticket.flow";
+import { LocksService } from "../locks/locks.service";
+import { UpdateQueueService } from "./update-queue.service";
+import {
+  FormattedText,
+  MessageBuilder,
+  bold,
+  code,
+  formatText,
+} from "./formatting/message-builder";
+import { TelegramSenderService } from "../telegram-sender/telegram-sender.service";
+import { I18nService } from "../i18n/i18n.service";
+import {
+  isValidTimeZone,
+  Locale,
+  SUPPORTED_LOCALES,
+  TranslationKey,
+  Translator,
+} from "../i18n/translator";
+import {
+  ProcessedUpdate,
+  ProcessedUpdateDocument,
+  ProcessedUpdateStatus,
+} from "./schemas/processed-update.schema";
+import {
+  DomainEventsService,
+  DomainEvent,
+  DomainEventActor,
+} from "../events/domain-events.service";
 import * as fs from "fs/promises";
 import * as https from "https";
 import * as path from "path";
 
+// prefix ชื่อ topic ที่ถูกปิดตาม close policy แบบ rename
+const CLOSED_TOPIC_PREFIX = "✅ ";
+
+// ข้อความใน topic หลักที่ขึ้นต้นด้วย prefix นี้เป็นโน้ตภายใน ไม่ส่งต่อให้ลูกค้า
+const INTERNAL_NOTE_PREFIX = "#note";
+
+// update ที่ claim แล้วถือไว้ได้นานเท่านี้ (ต่ออายุทุกรอบ recovery) ก่อน instance อื่นรับไปทำใหม่
+const UPDATE_LEASE_MS = 2 * 60 * 1000;
+const UPDATE_RECOVERY_INTERVAL_MS = 30 * 1000;
+// update ที่ทำให้ instance ตายซ้ำๆ ไม่ต้องลองใหม่อีก
+const MAX_UPDATE_ATTEMPTS = 3;
+
 @Injectable()
 export class BotService implements OnModuleInit {
   private readonly logger = new Logger(BotService.name);
   private bot: TelegramBot;
 
-  // Conversation state: userId -> { action, data, timestamp }
-  private conversationStates = new Map<
-    string,
-    {
-      action: string;
-      data?: any;
-      timestamp: number;
-    }
-  >();
+  // promise ของ handler ที่ถูกเรียกระหว่าง bot.processUpdate (ดู dispatchUpdate)
+  private pendingHandlers: Promise<unknown>[] | null = null;
 
   constructor(
     private configService: ConfigService,
     private usersService: UsersService,
     private groupsService: GroupsService,
+    private groupSettingsService: GroupSettingsService,
+    private membershipsService: MembershipsService,
     private ticketService: TicketService,
+    private ticketTimelineService: TicketTimelineService,
     private topicsService: TopicsService,
     private attachmentsService: AttachmentsService,
     private messagesService: MessagesService,
-    @Inject(forwardRef(() => HooksService)) private hooksService: HooksService,
+    private domainEvents: DomainEventsService,
+    private transcriptService: TranscriptService,
+    private searchService: SearchService,
+    private cannedResponsesService: CannedResponsesService,
+    private conversationsService: ConversationsService,
+    private locksService: LocksService,
+    private updateQueue: UpdateQueueService,
+    private telegramSender: TelegramSenderService,
+    private i18n: I18nService,
+    @InjectModel(ProcessedUpdate.name)
+    private processedUpdateModel: Model<ProcessedUpdateDocument>,
   ) {
     const botToken = this.configService.get<string>("telegram.botToken");
     if (!botToken) {
@@ -56,26 +148,41 @@ export class BotService implements OnModuleInit {
     this.bot = new TelegramBot(botToken, {
       polling: false,
     });
+
+    this.conversationsService.registerFlow(CREATE_TICKET_FLOW);
   }
 
   async onModuleInit() {
     this.setupCommands();
+    this.subscribeToDomainEvents();
     await this.setupBotCommands();
 
     // Setup webhook in background to not block app startup
-    this.setupWebhook().catch((err) => {
-      this.logger.error("Failed to setup webhook:", err.message);
-    });
+    // (โหมด polling ให้ TelegramPollingService ลบ webhook และดึง update เอง)
+    if (this.getMode() === "webhook") {
+      this.setupWebhook().catch((err) => {
+        this.logger.error("Failed to setup webhook:", err.message);
+      });
+    }
 
-    this.logger.log("Telegram bot started successfully");
+    this.logger.log(
+      `Telegram bot started successfully (${this.getMode()} mode)`,
+    );
 
     // Schedule automatic topic sync every 6 hours
     this.scheduleTopicSync();
+    this.scheduleTopicRetention();
+    this.scheduleUpdateRecovery();
   }
 
   async processWebhookUpdate(update: any) {
     try {
-      this.bot.processUpdate(update);
+      if (!(await this.claimUpdate(update))) {
+        this.logger.debug(`Skipping duplicate update ${update.update_id}`);
+        return;
+      }
+      // ตอบ webhook ทันที แล้วค่อยประมวลผลในคิวตามลำดับของแต่ละแชท
+      this.enqueueUpdate(update);
     } catch (error) {
       this.logger.error(
         "Error processing webhook update in BotService:",
@@ -85,6 +192,165 @@ export class BotService implements OnModuleInit {
     }
   }
 
+  // ปิด claim หลัง handler ทำงานจบเท่านั้น - ถ้า instance ตายก่อน update จะถูกรับไปทำใหม่
+  private enqueueUpdate(update: any) {
+    this.updateQueue.enqueue(this.getUpdateChatKey(update), async () => {
+      await this.dispatchUpdate(update);
+      await this.completeUpdate(update.update_id);
+    });
+  }
+
+  // bot.processUpdate เรียก handler แบบ synchronous จึงเก็บ promise ที่ได้มารอจนครบได้
+  private async dispatchUpdate(update: any): Promise<void> {
+    const handlers: Promise<unknown>[] = [];
+    this.pendingHandlers = handlers;
+    try {
+      this.bot.processUpdate(update);
+    } finally {
+      this.pendingHandlers = null;
+    }
+    await Promise.allSettled(handlers);
+  }
+
+  private getUpdateChatKey(update: any): string {
+    const chatId =
+      update.message?.chat?.id ??
+      update.edited_message?.chat?.id ??
+      update.callback_query?.message?.chat?.id ??
+      update.callback_query?.from?.id ??
+      update.my_chat_member?.chat?.id ??
+      update.chat_member?.chat?.id;
+    return chatId !== undefined
+      ? chatId.toString()
+      : `update:${update.update_id}`;
+  }
+
+  // ห่อ handler ให้ dispatchUpdate รอจนทำงานเสร็จ
+  private track<T extends any[]>(
+    handler: (...args: T) => Promise<unknown> | void,
+  ): (...args: T) => void {
+    return (...args: T) => {
+      const result = handler.apply(this, args);
+      if (result instanceof Promise) {
+        this.pendingHandlers?.push(result);
+      }
+    };
+  }
+
+  // บันทึก update_id ก่อนประมวลผล - instance ที่ insert สำเร็จเป็นผู้ประมวลผล update นั้น
+  // update ที่ส่งซ้ำมาหลัง lease หมด (ผู้ claim เดิมตาย) รับมาทำใหม่ได้
+  private async claimUpdate(update: any): Promise<boolean> {
+    const updateId = update?.update_id;
+    if (typeof updateId !== "number") return true;
+
+    try {
+      await this.processedUpdateModel.create({
+        updateId,
+        instanceId: this.locksService.instanceId,
+        status: ProcessedUpdateStatus.PROCESSING,
+        update,
+        leaseExpiresAt: new Date(Date.now() + UPDATE_LEASE_MS),
+        attempts: 1,
+      });
+      return true;
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+    }
+
+    const reclaimed = await this.processedUpdateModel
+      .findOneAndUpdate(
+        {
+          updateId,
+          ...this.expiredUpdateFilter(),
+        },
+        this.claimUpdateChanges(),
+      )
+      .exec();
+    return !!reclaimed;
+  }
+
+  private async completeUpdate(updateId?: number): Promise<void> {
+    if (typeof updateId !== "number") return;
+    await this.processedUpdateModel
+      .updateOne(
+        { updateId, instanceId: this.locksService.instanceId },
+        {
+          $set: { status: ProcessedUpdateStatus.DONE },
+          $unset: { update: "", leaseExpiresAt: "" },
+        },
+      )
+      .exec();
+  }
+
+  private expiredUpdateFilter() {
+    return {
+      status: ProcessedUpdateStatus.PROCESSING,
+      leaseExpiresAt: { $lte: new Date() },
+      attempts: { $lt: MAX_UPDATE_ATTEMPTS },
+    };
+  }
+
+  private claimUpdateChanges() {
+    return {
+      $set: {
+        instanceId: this.locksService.instanceId,
+        leaseExpiresAt: new Date(Date.now() + UPDATE_LEASE_MS),
+      },
+      $inc: { attempts: 1 },
+    };
+  }
+
+  private scheduleUpdateRecovery() {
+    const recover = async () => {
+      try {
+        await this.renewUpdateLeases();
+        await this.recoverUpdates();
+      } catch (error) {
+        this.logger.error("Error recovering pending updates:", error);
+      }
+    };
+    recover();
+    setInterval(recover, UPDATE_RECOVERY_INTERVAL_MS);
+  }
+
+  // update ที่ยังรอในคิวของ instance นี้ - ต่อ lease ไว้ไม่ให้ instance อื่นรับไปทำซ้ำ
+  private async renewUpdateLeases(): Promise<void> {
+    await this.processedUpdateModel
+      .updateMany(
+        {
+          instanceId: this.locksService.instanceId,
+          status: ProcessedUpdateStatus.PROCESSING,
+        },
+        { leaseExpiresAt: new Date(Date.now() + UPDATE_LEASE_MS) },
+      )
+      .exec();
+  }
+
+  // รับ update ที่ค้างจาก instance ที่ตายไป (lease หมด) มาประมวลผลใหม่ - claim ทีละรายการแบบ atomic
+  private async recoverUpdates(): Promise<void> {
+    let recovered = 0;
+
+    for (;;) {
+      const doc = await this.processedUpdateModel
+        .findOneAndUpdate(
+          { ...this.expiredUpdateFilter(), update: { $exists: true } },
+          this.claimUpdateChanges(),
+          { new: true, sort: { updateId: 1 } },
+        )
+        .exec();
+      if (!doc) break;
+
+      this.enqueueUpdate(doc.update);
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      this.logger.log(
+        `[${new Date().toISOString()}] 📥 Recovered ${recovered} unfinished updates`,
+      );
+    }
+  }
+
   private async setupWebhook() {
     try {
       const webhookUrl = this.configService.get<string>("telegram.webhookUrl");
@@ -96,7 +362,10 @@ export class BotService implements OnModuleInit {
       }
 
       const fullWebhookUrl = `${webhookUrl}/webhook/telegram`;
-      await this.bot.setWebHook(fullWebhookUrl);
+      // Telegram จะส่ง secret นี้กลับมาใน X-Telegram-Bot-Api-Secret-Token ทุก request
+      await this.bot.setWebHook(fullWebhookUrl, {
+        secret_token: this.configService.get<string>("telegram.webhookSecret"),
+      } as any);
       this.logger.log(`Webhook configured successfully: ${fullWebhookUrl}`);
     } catch (error) {
       this.logger.error("Failed to setup webhook:", error);
@@ -104,6 +373,15 @@ export class BotService implements OnModuleInit {
     }
   }
 
+  getMode(): TelegramMode {
+    return this.configService.get<TelegramMode>("telegram.mode") || "webhook";
+  }
+
+  // long polling สำหรับโหมด polling - update ที่ได้ต้องส่งต่อให้ processWebhookUpdate
+  async getUpdates(offset: number, timeout: number): Promise<any[]> {
+    return this.bot.getUpdates({ offset, timeout });
+  }
+
   async removeWebhook() {
     try {
       await this.bot.deleteWebHook();
@@ -132,7 +410,11 @@ export class BotService implements OnModuleInit {
         `[${new Date().toISOString()}] 🕐 Running scheduled topic sync...`,
       );
       try {
-        await this.syncTopicsWithTelegram();
+        await this.locksService.runExclusive(
+          "bot.topic-sync",
+          21600000 - 60000,
+          () => this.syncTopicsWithTelegram(),
+        );
       } catch (error) {
         this.logger.error(
           `[${new Date().toISOString()}] ❌ Scheduled topic sync failed:`,
@@ -146,6 +428,78 @@ export class BotService implements OnModuleInit {
     );
   }
 
+  private scheduleTopicRetention() {
+    // ลบ topics ที่ปิดครบระยะเวลาเก็บรักษาแล้ว ทุก 1 ชั่วโมง (3600000 ms)
+    setInterval(async () => {
+      try {
+        await this.locksService.runExclusive(
+          "bot.topic-retention",
+          3600000 - 60000,
+          () => this.enforceTopicRetention(),
+        );
+      } catch (error) {
+        this.logger.error(
+          `[${new Date().toISOString()}] ❌ Scheduled topic retention failed:`,
+          error,
+        );
+      }
+    }, 3600000);
+
+    this.logger.log(
+      `[${new Date().toISOString()}] 📅 Scheduled topic retention every hour`,
+    );
+  }
+
+  // ลบ forum topics ของ ticket ที่ปิดแล้ว ในกลุ่มที่ใช้ close policy แบบ delete
+  async enforceTopicRetention(): Promise<number> {
+    const groups = await this.groupSettingsService.findByTopicCloseAction(
+      TopicCloseAction.DELETE,
+    );
+
+    let deleted = 0;
+    for (const settings of groups) {
+      const cutoff = new Date(
+        Date.now() - settings.topicDeleteAfterDays * 24 * 60 * 60 * 1000,
+      );
+      const topics = await this.topicsService.findClosedTopicsBefore(
+        settings.groupId,
+        cutoff,
+      );
+
+      for (const topic of topics) {
+        try {
+          await this.deleteForumTopic(topic.groupId, topic.telegramTopicId);
+        } catch (error) {
+          const message = error.message || "";
+          const isMissing =
+            message.includes("TOPIC_ID_INVALID") ||
+            message.includes("TOPIC_DELETED") ||
+            message.includes("message thread not found");
+          if (!isMissing) {
+            this.logger.warn(
+              `Could not delete topic ${topic.telegramTopicId}@${topic.groupId}: ${message}`,
+            );
+            continue;
+          }
+        }
+
+        // เก็บ topic ไว้ใน ticket.topics เพื่อให้ /reopen สร้าง topic หลักใหม่ได้
+        await this.topicsService.deleteTopic(
+          topic.telegramTopicId,
+          topic.groupId,
+        );
+        deleted++;
+      }
+    }
+
+    if (deleted > 0) {
+      this.logger.log(
+        `[${new Date().toISOString()}] 🗑️ Topic retention deleted ${deleted} closed topics`,
+      );
+    }
+    return deleted;
+  }
+
   // Network resilience wrapper for Telegram API calls
   private async withRetry<T>(
     operation: () => Promise<T>,
@@ -212,6 +566,63 @@ export class BotService implements OnModuleInit {
     );
   }
 
+  // เหตุการณ์ที่ต้องแสดงผลใน Telegram ไม่ว่าจะมาจาก bot หรือ REST API
+  private subscribeToDomainEvents() {
+    this.domainEvents.subscribe(async (event) => {
+      if (event.event === HookEvent.TICKET_ASSIGNED) {
+        await this.handleTicketAssignedEvent(event);
+      } else if (
+        event.event === HookEvent.TICKET_UPDATED &&
+        event.data.changes?.assignedTo
+      ) {
+        await this.handleAssigneeChangedEvent(event);
+      } else if (
+        event.event === HookEvent.TICKET_UPDATED &&
+        event.data.changes?.status
+      ) {
+        await this.handleStatusChangedEvent(event);
+      } else if (event.event === HookEvent.TICKET_CLOSED) {
+        await this.handleTicketClosedEvent(event);
+      } else if (event.event === HookEvent.TICKET_REOPENED) {
+        await this.handleTicketReopenedEvent(event);
+      } else if (
+        event.event === HookEvent.TICKET_SLA_WARNING ||
+        event.event === HookEvent.TICKET_SLA_BREACHED
+      ) {
+        await this.handleSlaEvent(event);
+      } else if (event.event === HookEvent.MESSAGE_SENT) {
+        await this.handleCustomerReplyEvent(event);
+      }
+    });
+  }
+
+  private toActor(user: TelegramBot.User): DomainEventActor {
+    return {
+      id: user.id.toString(),
+      username: user.username,
+      firstName: user.first_name,
+      source: "bot",
+    };
+  }
+
+  // แจ้ง error.occurred ให้ระบบภายนอกทราบ
+  private reportError(
+    operation: string,
+    error: any,
+    context: Record<string, any> = {},
+  ): void {
+    this.domainEvents.emit(
+      HookEvent.ERROR_OCCURRED,
+      {
+        operation,
+        message: error?.message || String(error),
+        code: error?.code,
+        ...context,
+      },
+      { groupId: context.groupId },
+    );
+  }
+
   async createForumTopic(
     chatId: string,
     name: string,
@@ -346,6 +757,65 @@ export class BotService implements OnModuleInit {
     }
   }
 
+  async reopenForumTopic(chatId: string, messageThreadId: number) {
+    try {
+      this.logger.log(
+        `[${new Date().toISOString()}] API Call: reopenForumTopic - chatId: ${chatId}, messageThreadId: ${messageThreadId}`,
+      );
+      const startTime = Date.now();
+
+      const result = await (this.bot as any)._request("reopenForumTopic", {
+        form: {
+          chat_id: chatId,
+          message_thread_id: messageThreadId,
+        },
+      });
+
+      const duration = Date.now() - startTime;
+      this.logger.log(
+        `[${new Date().toISOString()}] API Response: reopenForumTopic - Duration: ${duration}ms, Success: ${!!result}`,
+      );
+
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `[${new Date().toISOString()}] API Error: reopenForumTopic -`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  async editForumTopic(chatId: string, messageThreadId: number, name: string) {
+    try {
+      this.logger.log(
+        `[${new Date().toISOString()}] API Call: editForumTopic - chatId: ${chatId}, messageThreadId: ${messageThreadId}, name: ${name}`,
+      );
+      const startTime = Date.now();
+
+      const result = await (this.bot as any)._request("editForumTopic", {
+        form: {
+          chat_id: chatId,
+          message_thread_id: messageThreadId,
+          name,
+        },
+      });
+
+      const duration = Date.now() - startTime;
+      this.logger.log(
+        `[${new Date().toISOString()}] API Response: editForumTopic - Duration: ${duration}ms, Success: ${!!result}`,
+      );
+
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `[${new Date().toISOString()}] API Error: editForumTopic -`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   async deleteForumTopic(chatId: string, messageThreadId: number) {
     try {
       this.logger.log(
@@ -376,11 +846,13 @@ export class BotService implements OnModuleInit {
     }
   }
 
+  // dedupKey - ส่งครั้งเดียวแม้ถูกเรียกซ้ำ (ดู TelegramSenderService.once)
   async sendMessageToTopic(
     chatId: string,
     messageThreadId: number,
-    text: string,
+    message: string | FormattedText,
     options?: any,
+    dedupKey?: string,
   ) {
     try {
       const sendOptions: any = {
@@ -388,8 +860,14 @@ export class BotService implements OnModuleInit {
         ...options,
       };
 
-      // Explicitly remove parse_mode to avoid markdown parsing issues
-      delete sendOptions.parse_mode;
+      // ข้อความจาก MessageBuilder escape แล้วจึงส่งพร้อม parse_mode ได้
+      // ข้อความธรรมดาส่งแบบไม่มี parse_mode เพื่อไม่ให้ markdown/HTML ของผู้ใช้ทำให้ส่งไม่ผ่าน
+      const text = message instanceof FormattedText ? message.text : message;
+      if (message instanceof FormattedText) {
+        sendOptions.parse_mode = message.parseMode;
+      } else {
+        delete sendOptions.parse_mode;
+      }
 
       this.logger.log(
         `[${new Date().toISOString()}] API Call: sendMessage - chatId: ${chatId}, messageThreadId: ${messageThreadId}`,
@@ -408,12 +886,10 @@ export class BotService implements OnModuleInit {
       );
 
       const startTime = Date.now();
-      const result = await this.withRetry(
-        () => this.bot.sendMessage(chatId, text, sendOptions),
-        3,
-        1000,
-        "sendMessage",
-      );
+      const sender = dedupKey
+        ? this.telegramSender.once(dedupKey)
+        : this.telegramSender;
+      const result = await sender.sendMessage(chatId, text, sendOptions);
       const duration = Date.now() - startTime;
 
       this.logger.log(
@@ -430,6 +906,137 @@ export class BotService implements OnModuleInit {
     }
   }
 
+  // ข้อความต้อนรับใน topic หลักของ ticket ที่สร้างใหม่
+  private buildWelcomeMessage(ticket: Ticket, tr: Translator): FormattedText {
+    return new MessageBuilder()
+      .line("📝 ", bold(ticket.title), " ", code(ticket.ticketId))
+      .lineIf(ticket.description, ticket.description)
+      .line(tr.t("welcome.priority", { priority: ticket.priority }))
+      .blank()
+      .line("📋 ", bold(tr.t("welcome.commandsTitle")))
+      .line(tr.t("welcome.commands"))
+      .build();
+  }
+
+  // ภาษา/timezone ของข้อความตอบกลับในแชทนั้น (ตั้งค่ากลุ่ม หรือภาษาของผู้ส่ง)
+  private getTranslator(msg: {
+    chat: TelegramBot.Chat;
+    from?: TelegramBot.User;
+  }): Promise<Translator> {
+    return this.i18n.forChat(msg.chat.id, msg.from?.language_code);
+  }
+
+  // DM ถึงผู้ใช้ - ใช้ภาษาที่บันทึกไว้ของผู้ใช้นั้น
+  private async getUserTranslator(telegramId: string): Promise<Translator> {
+    const user = await this.usersService
+      .findByTelegramId(telegramId)
+      .catch(() => null);
+    return this.i18n.forLanguage(user?.languageCode);
+  }
+
+  private getCallbackTranslator(
+    callbackQuery: TelegramBot.CallbackQuery,
+  ): Promise<Translator> {
+    return callbackQuery.message
+      ? this.i18n.forChat(
+          callbackQuery.message.chat.id,
+          callbackQuery.from.language_code,
+        )
+      : Promise.resolve(
+          this.i18n.forLanguage(callbackQuery.from.language_code),
+        );
+  }
+
+  // ส่งข้อความที่ประกอบด้วย MessageBuilder ไปยังแชท (ไม่ระบุ topic)
+  private sendFormatted(
+    chatId: TelegramBot.ChatId,
+    message: FormattedText,
+    options: any = {},
+  ) {
+    return this.telegramSender.sendMessage(chatId, message.text, {
+      ...options,
+      parse_mode: message.parseMode,
+    });
+  }
+
+  // ส่งไฟล์เข้า topic ตามชนิดไฟล์ (photo, video, audio หรือ document)
+  async sendFileToTopic(
+    chatId: string,
+    messageThreadId: number,
+    file: { buffer: Buffer; fileName: string; mimeType?: string },
+    caption?: string,
+  ): Promise<{
+    message: TelegramBot.Message;
+    fileType: AttachmentType;
+    fileInfo: any;
+  }> {
+    const mimeType = file.mimeType || "application/octet-stream";
+    const options: any = { message_thread_id: messageThreadId, caption };
+    const fileOptions = { filename: file.fileName, contentType: mimeType };
+
+    let sendAs = AttachmentType.DOCUMENT;
+    if (["image/jpeg", "image/png", "image/webp"].includes(mimeType)) {
+      sendAs = AttachmentType.PHOTO;
+    } else if (mimeType.startsWith("video/")) {
+      sendAs = AttachmentType.VIDEO;
+    } else if (mimeType.startsWith("audio/")) {
+      sendAs = AttachmentType.AUDIO;
+    }
+
+    this.logger.log(
+      `[${new Date().toISOString()}] API Call: send ${sendAs} - chatId: ${chatId}, messageThreadId: ${messageThreadId}, file: ${file.fileName}`,
+    );
+
+    let message: TelegramBot.Message;
+    switch (sendAs) {
+      case AttachmentType.PHOTO:
+        message = await this.telegramSender.sendPhoto(
+          chatId,
+          file.buffer,
+          options,
+          fileOptions,
+        );
+        break;
+      case AttachmentType.VIDEO:
+        message = await this.telegramSender.sendVideo(
+          chatId,
+          file.buffer,
+          options,
+          fileOptions,
+        );
+        break;
+      case AttachmentType.AUDIO:
+        message = await this.telegramSender.sendAudio(
+          chatId,
+          file.buffer,
+          options,
+          fileOptions,
+        );
+        break;
+      default:
+        message = await this.telegramSender.sendDocument(
+          chatId,
+          file.buffer,
+          options,
+          fileOptions,
+        );
+        break;
+    }
+
+    // Telegram อาจแปลงชนิดไฟล์ (เช่น video ที่ไม่รองรับจะกลายเป็น document)
+    const fileInfo =
+      message.photo?.[message.photo.length - 1] ||
+      message.video ||
+      message.audio ||
+      message.document;
+
+    return {
+      message,
+      fileType: this.attachmentsService.determineAttachmentType(message),
+      fileInfo,
+    };
+  }
+
   async checkBotPermissions(
     chatId: string,
   ): Promise<{ isAdmin: boolean; canManageTopics: boolean }> {
@@ -464,20 +1071,48 @@ export class BotService implements OnModuleInit {
     }
   }
 
+  // คำสั่งที่แสดงในเมนูของ Telegram (คำอธิบายแปลตามภาษา)
+  private static readonly MENU_COMMANDS = [
+    "start",
+    "create_ticket",
+    "close_ticket",
+    "status",
+    "pending",
+    "reopen",
+    "history",
+    "export",
+    "mention",
+    "assign",
+    "unassign",
+    "my_tickets",
+    "search",
+    "settings",
+    "reply",
+    "link_topic",
+    "unlink_topic",
+    "sync_topics",
+    "archive",
+    "role",
+    "help",
+    "test_buttons",
+  ] as const;
+
   private async setupBotCommands() {
+    const buildCommands = (tr: Translator) =>
+      BotService.MENU_COMMANDS.map((command) => ({
+        command,
+        description: tr.t(`command.${command}`),
+      }));
+
     try {
-      await this.bot.setMyCommands([
-        { command: "start", description: "🤖 เริ่มใช้งาน Bot" },
-        { command: "create_ticket", description: "🎫 สร้าง Ticket ใหม่" },
-        { command: "close_ticket", description: "✅ ปิด Ticket" },
-        { command: "mention", description: "👥 เชิญคนเข้าร่วม Ticket" },
-        { command: "link_topic", description: "🔗 เชื่อมโยง Topic" },
-        { command: "unlink_topic", description: "🔓 ยกเลิกการเชื่อมโยง Topic" },
-        { command: "sync_topics", description: "🔄 Sync Topics กับ Telegram" },
-        { command: "archive", description: "📦 Archive Ticket" },
-        { command: "help", description: "❓ ดูคำสั่งที่ใช้ได้" },
-        { command: "test_buttons", description: "🎮 ทดสอบ Inline Buttons" },
-      ]);
+      // เมนู default (ภาษาตาม DEFAULT_LOCALE) และเมนูแยกตาม language_code ของผู้ใช้
+      await this.bot.setMyCommands(buildCommands(this.i18n.forLanguage()));
+      for (const locale of SUPPORTED_LOCALES) {
+        await this.bot.setMyCommands(
+          buildCommands(this.i18n.forLanguage(locale)),
+          { language_code: locale },
+        );
+      }
       this.logger.log("Bot commands menu configured successfully");
     } catch (error) {
       this.logger.error("Failed to set bot commands:", error);
@@ -485,59 +1120,171 @@ export class BotService implements OnModuleInit {
   }
 
   private setupCommands() {
-    this.bot.onText(/\/start/, this.handleStart.bind(this));
+    this.bot.onText(/\/start/, this.track(this.handleStart));
 
     // Main commands (รองรับทั้งแบบเต็มและแบบย่อ)
-    this.bot.onText(/\/create_ticket(.*)/, this.handleCreateTicket.bind(this));
-    this.bot.onText(/\/ct(.*)/, this.handleCreateTicket.bind(this));
+    this.bot.onText(/\/create_ticket(.*)/, this.track(this.handleCreateTicket));
+    this.bot.onText(/\/ct(.*)/, this.track(this.handleCreateTicket));
 
-    this.bot.onText(/\/close_ticket/, this.handleCloseTicket.bind(this));
-    this.bot.onText(/\/cc/, this.handleCloseTicket.bind(this));
+    this.bot.onText(
+      /\/close_ticket/,
+      this.track(this.guarded("close_ticket", this.handleCloseTicket)),
+    );
+    this.bot.onText(
+      /\/cc/,
+      this.track(this.guarded("close_ticket", this.handleCloseTicket)),
+    );
 
-    this.bot.onText(/\/mention(.*)/, this.handleMention.bind(this));
-    this.bot.onText(/\/mt(.*)/, this.handleMention.bind(this));
+    this.bot.onText(
+      /\/status(.*)/,
+      this.track(this.guarded("status", this.handleStatus)),
+    );
+    this.bot.onText(
+      /\/pending(.*)/,
+      this.track(this.guarded("pending", this.handlePending)),
+    );
+    this.bot.onText(
+      /\/reopen(.*)/,
+      this.track(this.guarded("reopen", this.handleReopen)),
+    );
+    this.bot.onText(
+      /\/history/,
+      this.track(this.guarded("history", this.handleHistory)),
+    );
+    this.bot.onText(
+      /\/export(.*)/,
+      this.track(this.guarded("export", this.handleExport)),
+    );
 
-    this.bot.onText(/\/link_topic(.*)/, this.handleLinkTopic.bind(this));
-    this.bot.onText(/\/lk(.*)/, this.handleLinkTopic.bind(this));
+    this.bot.onText(
+      /\/mention(.*)/,
+      this.track(this.guarded("mention", this.handleMention)),
+    );
+    this.bot.onText(
+      /\/mt(.*)/,
+      this.track(this.guarded("mention", this.handleMention)),
+    );
 
-    this.bot.onText(/\/unlink_topic(.*)/, this.handleUnlinkTopic.bind(this));
-    this.bot.onText(/\/ul(.*)/, this.handleUnlinkTopic.bind(this));
+    this.bot.onText(
+      /\/assign(.*)/,
+      this.track(this.guarded("assign", this.handleAssign)),
+    );
+    this.bot.onText(
+      /\/unassign/,
+      this.track(this.guarded("unassign", this.handleUnassign)),
+    );
+    this.bot.onText(/\/my_tickets/, this.track(this.handleMyTickets));
+    this.bot.onText(
+      /^\/search(?:@\w+)?(?:\s+(.*))?$/,
+      this.track(this.guarded("search", this.handleSearch)),
+    );
+    this.bot.onText(
+      /\/settings(.*)/,
+      this.track(this.guarded("settings", this.handleSettings)),
+    );
+    this.bot.onText(
+      /\/reply(.*)/,
+      this.track(this.guarded("reply", this.handleReply)),
+    );
 
-    this.bot.onText(/\/sync_topics/, this.handleSyncTopics.bind(this));
-    this.bot.onText(/\/st/, this.handleSyncTopics.bind(this));
+    this.bot.onText(
+      /\/link_topic(.*)/,
+      this.track(this.guarded("link_topic", this.handleLinkTopic)),
+    );
+    this.bot.onText(
+      /\/lk(.*)/,
+      this.track(this.guarded("link_topic", this.handleLinkTopic)),
+    );
 
-    this.bot.onText(/\/archive(.*)/, this.handleArchive.bind(this));
+    this.bot.onText(
+      /\/unlink_topic(.*)/,
+      this.track(this.guarded("unlink_topic", this.handleUnlinkTopic)),
+    );
+    this.bot.onText(
+      /\/ul(.*)/,
+      this.track(this.guarded("unlink_topic", this.handleUnlinkTopic)),
+    );
 
-    this.bot.onText(/\/help/, this.handleHelp.bind(this));
-    this.bot.onText(/\/test_buttons/, this.handleTestButtons.bind(this));
+    this.bot.onText(
+      /\/sync_topics/,
+      this.track(this.guarded("sync_topics", this.handleSyncTopics)),
+    );
+    this.bot.onText(
+      /^\/st\b/,
+      this.track(this.guarded("sync_topics", this.handleSyncTopics)),
+    );
 
-    // Debug commands
-    this.bot.onText(/\/debug_sync/, this.handleDebugSync.bind(this));
-    this.bot.onText(/\/debug_clear/, this.handleDebugClear.bind(this));
+    this.bot.onText(
+      /\/archive(.*)/,
+      this.track(this.guarded("archive", this.handleArchive)),
+    );
+    this.bot.onText(
+      /^\/role(?:@\w+)?(?:\s+(.*))?$/,
+      this.track(this.guarded("role", this.handleRole)),
+    );
+
+    this.bot.onText(/\/help/, this.track(this.handleHelp));
+    this.bot.onText(/\/test_buttons/, this.track(this.handleTestButtons));
+
+    // Debug commands
+    this.bot.onText(
+      /\/debug_sync/,
+      this.track(this.guarded("debug_sync", this.handleDebugSync)),
+    );
+    this.bot.onText(
+      /\/debug_clear/,
+      this.track(this.guarded("debug_clear", this.handleDebugClear)),
+    );
 
-    this.bot.on("callback_query", this.handleCallbackQuery.bind(this));
-    this.bot.on("my_chat_member", this.handleChatMemberUpdate.bind(this));
-    this.bot.on("message", this.handleMessage.bind(this));
+    this.bot.on("callback_query", this.track(this.handleCallbackQuery));
+    this.bot.on("my_chat_member", this.track(this.handleChatMemberUpdate));
+    this.bot.on("message", this.track(this.handleMessage));
+    this.bot.on("edited_message", this.track(this.handleEditedMessage));
   }
 
   private async handleCallbackQuery(callbackQuery: TelegramBot.CallbackQuery) {
     const data = callbackQuery.data;
 
     if (data?.startsWith("mention:")) {
+      if (!(await this.checkCallbackAccess(callbackQuery, "mention"))) return;
       if (data === "mention:cancel") {
         await this.handleMentionCancel(callbackQuery);
       } else {
         const username = data.replace("mention:", "");
         await this.handleMentionCallback(callbackQuery, username);
       }
+    } else if (data?.startsWith("status:")) {
+      if (await this.checkCallbackAccess(callbackQuery, "status")) {
+        await this.handleStatusCallback(callbackQuery, data);
+      }
+    } else if (data?.startsWith("assign:")) {
+      if (await this.checkCallbackAccess(callbackQuery, "assign")) {
+        await this.handleAssignCallback(callbackQuery, data);
+      }
+    } else if (data?.startsWith("reply:")) {
+      if (await this.checkCallbackAccess(callbackQuery, "reply")) {
+        await this.handleReplyCallback(callbackQuery, data);
+      }
     } else if (data?.startsWith("mention_action:")) {
-      await this.handleMentionActionCallback(callbackQuery, data);
+      if (await this.checkCallbackAccess(callbackQuery, "mention")) {
+        await this.handleMentionActionCallback(callbackQuery, data);
+      }
     } else if (data?.startsWith("unlink:")) {
-      await this.handleUnlinkCallback(callbackQuery, data);
+      if (await this.checkCallbackAccess(callbackQuery, "unlink_topic")) {
+        await this.handleUnlinkCallback(callbackQuery, data);
+      }
     } else if (data?.startsWith("user_not_found:")) {
-      await this.handleUserNotFoundCallback(callbackQuery, data);
+      if (await this.checkCallbackAccess(callbackQuery, "mention")) {
+        await this.handleUserNotFoundCallback(callbackQuery, data);
+      }
     } else if (data?.startsWith("game:")) {
       await this.handleGameCallback(callbackQuery, data);
+    } else if (data?.startsWith("wizard:")) {
+      await this.handleWizardCallback(callbackQuery, data);
+    } else if (data?.startsWith("settings:")) {
+      if (await this.checkCallbackAccess(callbackQuery, "settings")) {
+        await this.handleSettingsCallback(callbackQuery, data);
+      }
     }
   }
 
@@ -545,14 +1292,15 @@ export class BotService implements OnModuleInit {
     callbackQuery: TelegramBot.CallbackQuery,
     data: string,
   ) {
+    const tr = await this.getCallbackTranslator(callbackQuery);
     try {
       const message = callbackQuery.message;
       const messageThreadId = (message as any)?.message_thread_id;
       const chat = message?.chat;
 
       if (!messageThreadId || !chat) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ ข้อมูลไม่ครบถ้วน",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.incompleteData"),
         });
         return;
       }
@@ -576,8 +1324,8 @@ export class BotService implements OnModuleInit {
       }
     } catch (error) {
       this.logger.error("Error handling mention action callback:", error);
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "❌ เกิดข้อผิดพลาด",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
       });
     }
   }
@@ -586,6 +1334,7 @@ export class BotService implements OnModuleInit {
     callbackQuery: TelegramBot.CallbackQuery,
     data: string,
   ) {
+    const tr = await this.getCallbackTranslator(callbackQuery);
     try {
       const message = callbackQuery.message;
       const messageThreadId = (message as any)?.message_thread_id;
@@ -593,8 +1342,8 @@ export class BotService implements OnModuleInit {
       const user = callbackQuery.from;
 
       if (!messageThreadId || !chat || !user) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ ข้อมูลไม่ครบถ้วน",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.incompleteData"),
         });
         return;
       }
@@ -611,8 +1360,8 @@ export class BotService implements OnModuleInit {
 
       const targetTopicId = parseInt(data.replace("unlink:", ""));
       if (isNaN(targetTopicId)) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ Topic ID ไม่ถูกต้อง",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.invalidTopicId"),
         });
         return;
       }
@@ -622,15 +1371,19 @@ export class BotService implements OnModuleInit {
         messageThreadId,
         targetTopicId,
         chat.id.toString(),
+        this.toActor(user),
       );
 
       // ส่งข้อความแจ้งใน topic ต้นทาง
-      const sourceMessage =
-        `🔓 **ยกเลิกการเชื่อมโยง Topic**\n\n` +
-        `📋 ยกเลิกการเชื่อมโยงกับ Topic ${targetTopicId} แล้ว\n` +
-        `👤 ยกเลิกโดย: ${user.first_name}\n` +
-        `📅 ${new Date().toLocaleString("th-TH")}\n\n` +
-        `💬 ข้อความจะไม่ถูกส่งไป Topic ${targetTopicId} อีกต่อไป`;
+      const sourceMessage = new MessageBuilder()
+        .line("🔓 ", bold(tr.t("unlink.sourceTitle")))
+        .blank()
+        .line(tr.t("unlink.sourceBody", { topicId: targetTopicId }))
+        .line(tr.t("unlink.by", { name: user.first_name }))
+        .line(`📅 ${tr.formatDate(new Date())}`)
+        .blank()
+        .line(tr.t("unlink.sourceNote", { topicId: targetTopicId }))
+        .build();
 
       await this.sendMessageToTopic(
         chat.id.toString(),
@@ -639,12 +1392,15 @@ export class BotService implements OnModuleInit {
       );
 
       // ส่งข้อความแจ้งใน topic ปลายทาง
-      const targetMessage =
-        `🔓 **การเชื่อมโยงถูกยกเลิก**\n\n` +
-        `📋 การเชื่อมโยงกับ Topic ${messageThreadId} ถูกยกเลิกแล้ว\n` +
-        `👤 ยกเลิกโดย: ${user.first_name}\n` +
-        `📅 ${new Date().toLocaleString("th-TH")}\n\n` +
-        `💬 ข้อความจาก Topic ${messageThreadId} จะไม่ถูกส่งมาอีกต่อไป`;
+      const targetMessage = new MessageBuilder()
+        .line("🔓 ", bold(tr.t("unlink.targetTitle")))
+        .blank()
+        .line(tr.t("unlink.targetBody", { topicId: messageThreadId }))
+        .line(tr.t("unlink.by", { name: user.first_name }))
+        .line(`📅 ${tr.formatDate(new Date())}`)
+        .blank()
+        .line(tr.t("unlink.targetNote", { topicId: messageThreadId }))
+        .build();
 
       await this.sendMessageToTopic(
         chat.id.toString(),
@@ -652,13 +1408,13 @@ export class BotService implements OnModuleInit {
         targetMessage,
       );
 
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: `✅ ยกเลิกการเชื่อมโยงกับ Topic ${targetTopicId} สำเร็จ`,
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("unlink.success", { topicId: targetTopicId }),
       });
     } catch (error) {
       this.logger.error("Error handling unlink callback:", error);
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "❌ เกิดข้อผิดพลาด",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
       });
     }
   }
@@ -667,6 +1423,7 @@ export class BotService implements OnModuleInit {
     callbackQuery: TelegramBot.CallbackQuery,
     username: string,
   ) {
+    const tr = await this.getCallbackTranslator(callbackQuery);
     try {
       // Delete the original message
       if (callbackQuery.message) {
@@ -684,8 +1441,8 @@ export class BotService implements OnModuleInit {
       const user = callbackQuery.from;
 
       if (!messageThreadId || !chat || !user) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ ข้อมูลไม่ครบถ้วน",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.incompleteData"),
         });
         return;
       }
@@ -696,23 +1453,23 @@ export class BotService implements OnModuleInit {
         chat.id.toString(),
       );
       if (!topic || !topic.ticketId) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ ไม่พบ Ticket ที่เชื่อมโยงกับ Topic นี้",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.noTicketForTopic"),
         });
         return;
       }
 
       const ticket = await this.ticketService.findByTicketId(topic.ticketId);
       if (!ticket) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ ไม่พบข้อมูล Ticket",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.ticketNotFound"),
         });
         return;
       }
 
       if (ticket.status === "closed") {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ ไม่สามารถเชิญคนเข้า Ticket ที่ปิดแล้ว",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("mention.closedTicket"),
         });
         return;
       }
@@ -720,8 +1477,8 @@ export class BotService implements OnModuleInit {
       // Find user in system
       const targetUser = await this.usersService.findByUsername(username);
       if (!targetUser) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: `❌ ไม่พบ User: ${username}`,
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("mention.userNotFound", { username }),
         });
         return;
       }
@@ -734,8 +1491,8 @@ export class BotService implements OnModuleInit {
         topicTicket &&
         topicTicket.participants.includes(targetUser.telegramId)
       ) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: `ℹ️ ${username} อยู่ใน Ticket นี้แล้ว`,
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("mention.alreadyInTicket", { username }),
         });
         return;
       }
@@ -755,20 +1512,23 @@ export class BotService implements OnModuleInit {
       );
 
       if (!newTopicResult.success) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: `❌ ไม่สามารถสร้าง Topic สำหรับ @${username} ได้`,
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("mention.topicCreateFailed", { username }),
         });
         return;
       }
 
       // บันทึก topic ใหม่ในฐานข้อมูล (สร้างโดย user ที่ถูก mention)
-      const newTopic = await this.topicsService.createTopic({
-        telegramTopicId: newTopicResult.message_thread_id,
-        groupId: targetGroupId, // แก้ไข Critical Bug: ใช้ targetGroupId แทน chat.id
-        name: newTopicName,
-        ticketId: topicTicket?.ticketId,
-        createdBy: targetUser.telegramId, // สร้างโดย user ที่ถูก mention (userB)
-      });
+      const newTopic = await this.topicsService.createTopic(
+        {
+          telegramTopicId: newTopicResult.message_thread_id,
+          groupId: targetGroupId, // แก้ไข Critical Bug: ใช้ targetGroupId แทน chat.id
+          name: newTopicName,
+          ticketId: topicTicket?.ticketId,
+          createdBy: targetUser.telegramId, // สร้างโดย user ที่ถูก mention (userB)
+        },
+        this.toActor(user),
+      );
 
       // Debug logging (Topic Saved)
       this.logger.log(`[${new Date().toISOString()}] 💾 TOPIC SAVED:`);
@@ -783,24 +1543,41 @@ export class BotService implements OnModuleInit {
         messageThreadId,
         newTopicResult.message_thread_id,
         targetGroupId,
+        this.toActor(user),
       );
 
       // เพิ่ม user เป็น participant ใน ticket
       if (topic.ticketId) {
-        await this.ticketService.addParticipant(
+        await this.ticketService.recordMention(
           topic.ticketId,
-          targetUser.telegramId,
+          {
+            telegramId: targetUser.telegramId,
+            username: targetUser.username,
+            firstName: targetUser.firstName,
+          },
+          {
+            topicId: newTopicResult.message_thread_id,
+            groupId: targetGroupId,
+          },
+          this.toActor(user),
         );
       }
 
       // ส่งข้อความแจ้งใน topic เดิม
-      const originalTopicMessage =
-        `✅ สร้าง Topic สำหรับ @${username} แล้ว\n` +
-        `🎫 Ticket: ${topicTicket?.ticketId}\n` +
-        `📝 หัวข้อ: ${topicTicket?.title}\n` +
-        `👤 เชิญโดย: ${user.first_name}\n` +
-        `🔗 Topic ของ @${username}: "${newTopicName}"\n\n` +
-        `💬 ข้อความจะถูก sync ระหว่าง topics อัตโนมัติ`;
+      const originalTopicMessage = new MessageBuilder()
+        .line(tr.t("mention.topicCreated", { username: username }))
+        .line(tr.t("mention.ticket"), code(topicTicket?.ticketId))
+        .line(tr.t("mention.title"), bold(topicTicket?.title))
+        .line(tr.t("mention.invitedBy", { name: user.first_name }))
+        .line(
+          tr.t("mention.userTopic", {
+            username: username,
+            topicName: newTopicName,
+          }),
+        )
+        .blank()
+        .line(tr.t("mention.syncNote"))
+        .build();
 
       await this.sendMessageToTopic(
         chat.id.toString(),
@@ -809,14 +1586,31 @@ export class BotService implements OnModuleInit {
       );
 
       // ส่งข้อความแจ้งใน topic ใหม่
-      const initialMessage =
-        `🎯 **${targetUser.firstName || username}** ได้รับการเชิญเข้าร่วม Ticket\n\n` +
-        `🎫 Ticket: ${topicTicket?.ticketId}\n` +
-        `📝 หัวข้อ: ${topicTicket?.title}\n` +
-        `👤 เชิญโดย: ${user.first_name}\n\n` +
-        `💬 นี่คือพื้นที่สนทนาส่วนตัวสำหรับ ${targetUser.firstName || username}\n` +
-        `🔗 ข้อความจะถูก sync กับ Topic หลักอัตโนมัติ\n\n` +
-        `📞 @${username} กรุณาส่งข้อความเพื่อเริ่มการสนทนา`;
+      // topic ใหม่อยู่ในกลุ่มของผู้ถูกเชิญ - ใช้ภาษาของกลุ่ม/ผู้ใช้นั้น
+      const targetTr = await this.i18n.forChat(
+        targetGroupId,
+        targetUser.languageCode,
+      );
+      const initialMessage = new MessageBuilder()
+        .line(
+          "🎯 ",
+          bold(targetUser.firstName || username),
+          targetTr.t("mention.invited"),
+        )
+        .blank()
+        .line(targetTr.t("mention.ticket"), code(topicTicket?.ticketId))
+        .line(targetTr.t("mention.title"), bold(topicTicket?.title))
+        .line(targetTr.t("mention.invitedBy", { name: user.first_name }))
+        .blank()
+        .line(
+          targetTr.t("mention.privateSpace", {
+            name: targetUser.firstName || username,
+          }),
+        )
+        .line(targetTr.t("mention.syncWithPrimary"))
+        .blank()
+        .line(targetTr.t("mention.pleaseReply", { username: username }))
+        .build();
 
       try {
         await this.sendMessageToTopic(
@@ -866,18 +1660,19 @@ export class BotService implements OnModuleInit {
         );
       }
 
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: `✅ เชิญ ${username} สำเร็จ`,
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("mention.success", { username }),
       });
     } catch (error) {
       this.logger.error("Error handling mention callback:", error);
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "❌ เกิดข้อผิดพลาด",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
       });
     }
   }
 
   private async handleMentionCancel(callbackQuery: TelegramBot.CallbackQuery) {
+    const tr = await this.getCallbackTranslator(callbackQuery);
     try {
       // Delete message
       if (callbackQuery.message) {
@@ -888,28 +1683,34 @@ export class BotService implements OnModuleInit {
           )
           .catch(() => {});
       }
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "ยกเลิกการเชิญผู้ใช้",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("mention.cancelled"),
       });
     } catch (error) {
       this.logger.error("Error handling mention cancel:", error);
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "❌ เกิดข้อผิดพลาด",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
       });
     }
   }
 
   private async handleStart(msg: TelegramBot.Message, match: RegExpExecArray) {
     this.logger.log("handleStart", msg);
+    const tr = await this.getTranslator(msg);
 
     if (msg.chat?.type === "private") {
-      await this.bot.sendMessage(
-        msg.chat.id,
-        "👋 สวัสดี! ฉันเป็น Telegram Ticket Support Bot\n\n" +
-          "🎫 เพิ่มฉันเข้ากลุ่มและให้สิทธิ์ Admin เพื่อเริ่มใช้งาน\n" +
-          "📋 ใช้คำสั่ง /create_ticket เพื่อสร้าง ticket ใหม่\n" +
-          "❓ ใช้คำสั่ง /help เพื่อดูคำสั่งทั้งหมด",
-      );
+      const supportGroupId = msg.from
+        ? await this.getCustomerSupportGroup(msg.from.id.toString())
+        : null;
+      if (supportGroupId) {
+        await this.telegramSender.sendMessage(
+          msg.chat.id,
+          tr.t("start.customer"),
+        );
+        return;
+      }
+
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("start.private"));
     } else {
       const user = msg.from;
       const chat = msg.chat;
@@ -931,21 +1732,12 @@ export class BotService implements OnModuleInit {
           chat.id.toString(),
         );
 
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          `✅ Bot พร้อมใช้งานในกลุ่มนี้แล้ว!\n\n` +
-            `👤 ${user.first_name} ได้ถูก pair กับกลุ่มนี้เรียบร้อยแล้ว\n` +
-            `🎫 ใช้ /create_ticket <หัวข้อ> [รายละเอียด] เพื่อสร้าง ticket\n` +
-            `❓ ใช้ /help เพื่อดูคำสั่งทั้งหมด\n` +
-            `🔗 เมื่อมีคนเรียกคุณ topic จะถูกสร้างในกลุ่มนี้`,
+          tr.t("start.paired", { name: user.first_name }),
         );
       } else {
-        await this.bot.sendMessage(
-          msg.chat.id,
-          "✅ Bot พร้อมใช้งานในกลุ่มนี้แล้ว!\n\n" +
-            "🎫 ใช้ /create_ticket <หัวข้อ> [รายละเอียด] เพื่อสร้าง ticket\n" +
-            "❓ ใช้ /help เพื่อดูคำสั่งทั้งหมด",
-        );
+        await this.telegramSender.sendMessage(msg.chat.id, tr.t("start.group"));
       }
     }
   }
@@ -953,18 +1745,19 @@ export class BotService implements OnModuleInit {
   private async handleHelp(msg: TelegramBot.Message, match: RegExpExecArray) {
     const topicId = (msg as any).message_thread_id;
     const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
 
     // ถ้าไม่ได้อยู่ใน topic - แสดง help ทั่วไป
     if (!topicId) {
-      await this.bot.sendMessage(
+      await this.sendFormatted(
         msg.chat.id,
-        "📋 **คำสั่งที่ใช้ได้:**\n\n" +
-          "🎫 /create_ticket <หัวข้อ> [รายละเอียด] - สร้าง Ticket ใหม่\n" +
-          "   ตัวอย่าง: /create_ticket ปัญหาระบบ ไม่สามารถล็อกอินได้\n\n" +
-          "🔄 /sync_topics - Sync Topics กับ Telegram\n" +
-          "🎮 /test_buttons - ทดสอบ Inline Buttons\n" +
-          "❓ /help - แสดงความช่วยเหลือนี้\n\n" +
-          "💡 **ย่อได้:** /ct, /st",
+        new MessageBuilder()
+          .line("📋 ", bold(tr.t("help.title")))
+          .blank()
+          .line(tr.t("help.general"))
+          .blank()
+          .line("💡 ", bold(tr.t("help.shortcuts")), " /ct, /st")
+          .build(),
       );
       return;
     }
@@ -978,13 +1771,15 @@ export class BotService implements OnModuleInit {
 
       if (!topic || !topic.ticketId) {
         // Topic ธรรมดา (ไม่มี ticket)
-        await this.bot.sendMessage(
+        await this.sendFormatted(
           msg.chat.id,
-          "📋 **คำสั่งทั่วไป:**\n\n" +
-            "✅ /close_ticket - ปิด Topic นี้\n" +
-            "🎮 /test_buttons - ทดสอบ Inline Buttons\n" +
-            "❓ /help - แสดงความช่วยเหลือ\n\n" +
-            "💡 **ย่อได้:** /cc",
+          new MessageBuilder()
+            .line("📋 ", bold(tr.t("help.topicTitle")))
+            .blank()
+            .line(tr.t("help.topic"))
+            .blank()
+            .line("💡 ", bold(tr.t("help.shortcuts")), " /cc")
+            .build(),
         );
         return;
       }
@@ -992,29 +1787,34 @@ export class BotService implements OnModuleInit {
       // Topic ที่มี ticket
       const ticket = await this.ticketService.findByTicketId(topic.ticketId);
 
-      let helpMessage =
-        `📋 **คำสั่งสำหรับ Ticket ${ticket.ticketId}:**\n\n` +
-        `👥 /mention - แสดงรายชื่อผู้ใช้ในระบบ\n` +
-        `   /mention <username> - เชิญคนเข้าร่วม Ticket\n` +
-        `   ตัวอย่าง: /mention john\n\n` +
-        `🔗 /link_topic <topic_id> - เชื่อมโยง Topic อื่น\n` +
-        `   ตัวอย่าง: /link_topic 123\n\n` +
-        `🔓 /unlink_topic - ยกเลิกการเชื่อมโยง Topic\n\n`;
-
-      if (ticket.status !== "closed") {
-        helpMessage += `✅ /close_ticket - ปิด Ticket นี้\n\n`;
+      const isClosed = ticket.status === TicketStatus.CLOSED;
+      const helpMessage = new MessageBuilder()
+        .line(
+          "📋 ",
+          bold(tr.t("help.ticketTitle", { ticketId: ticket.ticketId })),
+        )
+        .blank()
+        .line(tr.t("help.ticket"))
+        .lineIf(!isClosed, tr.t("help.reply"))
+        .lineIf(
+          isClosed || ticket.status === TicketStatus.RESOLVED,
+          tr.t("help.reopen"),
+        )
+        .blank();
+
+      if (!isClosed) {
+        helpMessage.line(tr.t("help.openTicket")).blank();
       }
 
-      helpMessage += `❓ /help - แสดงความช่วยเหลือนี้\n\n`;
-      helpMessage += `💡 **ย่อได้:** /mt, /lk, /ul, /cc`;
+      helpMessage
+        .line(tr.t("help.help"))
+        .blank()
+        .line("💡 ", bold(tr.t("help.shortcuts")), " /mt, /lk, /ul, /cc");
 
-      await this.bot.sendMessage(msg.chat.id, helpMessage);
+      await this.sendFormatted(msg.chat.id, helpMessage.build());
     } catch (error) {
       this.logger.error("Error handling help command:", error);
-      await this.bot.sendMessage(
-        msg.chat.id,
-        "❌ เกิดข้อผิดพลาดในการแสดงความช่วยเหลือ",
-      );
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("help.error"));
     }
   }
 
@@ -1025,11 +1825,12 @@ export class BotService implements OnModuleInit {
     const text = msg.text || "";
     const user = msg.from;
     const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
 
     if (!user || !chat || chat.type === "private") {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่ง /create_ticket ใช้ได้เฉพาะในกลุ่มเท่านั้น",
+        tr.t("common.groupOnly", { command: "create_ticket" }),
       );
       return;
     }
@@ -1038,22 +1839,18 @@ export class BotService implements OnModuleInit {
     const titleMatch = text.match(/\/(?:ct|create_ticket)\s+(.+)/);
 
     if (!titleMatch) {
-      // ไม่มี argument - เข้าสู่ conversation mode
-      const userId = `${chat.id}_${user.id}`;
-      this.conversationStates.set(userId, {
-        action: "create_ticket",
-        data: { chatId: chat.id.toString(), userId: user.id.toString() },
-        timestamp: Date.now(),
-      });
-
-      await this.bot.sendMessage(
-        msg.chat.id,
-        "📝 กรุณาระบุชื่อ Topic ที่ต้องการสร้าง:\n\n" +
-          "ตัวอย่าง:\n" +
-          "• ปัญหาระบบล็อกอิน\n" +
-          "• แจ้งซ่อมเครื่องปริ้น\n" +
-          "• ขอความช่วยเหลือ\n\n" +
-          "💡 ส่งข้อความถัดไปเป็นชื่อ Topic",
+      // ไม่มี argument - เข้าสู่ wizard ถามทีละขั้นตอน
+      const step = await this.conversationsService.start(
+        chat.id.toString(),
+        user.id.toString(),
+        CREATE_TICKET_FLOW.name,
+        { messageThreadId: msg.message_thread_id },
+      );
+      await this.sendConversationPrompt(
+        chat.id.toString(),
+        step,
+        tr,
+        msg.message_thread_id,
       );
       return;
     }
@@ -1066,10 +1863,9 @@ export class BotService implements OnModuleInit {
     try {
       // ตรวจสอบว่าเป็น supergroup และรองรับ topics
       if (chat.type !== "supergroup") {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ Ticket สามารถสร้างได้เฉพาะใน Supergroup ที่เปิดใช้ Topics เท่านั้น\n\n" +
-            "🔧 กรุณาอัพเกรดกลุ่มเป็น Supergroup และเปิดใช้ Topics",
+          tr.t("createTicket.supergroupOnly"),
         );
         return;
       }
@@ -1078,23 +1874,17 @@ export class BotService implements OnModuleInit {
       const permissions = await this.checkBotPermissions(chat.id.toString());
 
       if (!permissions.isAdmin) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ ไม่สามารถสร้าง Ticket ได้\n" +
-            "🔧 Bot ไม่มีสิทธิ์ Admin ในกลุ่มนี้\n\n" +
-            "👤 กรุณาให้ Admin ของกลุ่มตั้งค่าสิทธิ์ให้ Bot",
+          tr.t("createTicket.botNotAdmin"),
         );
         return;
       }
 
       if (!permissions.canManageTopics) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ ไม่สามารถสร้าง Topic ได้\n" +
-            "🔧 Bot ไม่มีสิทธิ์จัดการ Topics\n\n" +
-            "📋 กรุณาให้ Admin ตั้งค่าสิทธิ์:\n" +
-            "• เปิดใช้ Topics ในกลุ่ม\n" +
-            '• ให้สิทธิ์ "Manage Topics" กับ Bot',
+          tr.t("createTicket.cannotManageTopics"),
         );
         return;
       }
@@ -1108,12 +1898,19 @@ export class BotService implements OnModuleInit {
       });
 
       // สร้าง ticket ในฐานข้อมูล
-      const ticket = await this.ticketService.createTicket({
-        title,
-        description,
-        createdBy: user.id.toString(),
-        groupId: chat.id.toString(), // ใช้กลุ่มปัจจุบันสำหรับ ticket
-      });
+      const { defaultPriority } = await this.groupSettingsService.getSettings(
+        chat.id.toString(),
+      );
+      const ticket = await this.ticketService.createTicket(
+        {
+          title,
+          description,
+          priority: defaultPriority,
+          createdBy: user.id.toString(),
+          groupId: chat.id.toString(), // ใช้กลุ่มปัจจุบันสำหรับ ticket
+        },
+        this.toActor(user),
+      );
 
       // สร้าง forum topic
       const topicName = title;
@@ -1124,14 +1921,17 @@ export class BotService implements OnModuleInit {
 
       if (topicResult && topicResult.message_thread_id) {
         // สร้าง topic ใน database (ระบบใหม่จะอัปเดต ticket อัตโนมัติ)
-        await this.topicsService.createTopic({
-          telegramTopicId: topicResult.message_thread_id,
-          name: topicName,
-          groupId: chat.id.toString(),
-          ticketId: ticket.ticketId,
-          createdBy: user.id.toString(),
-          isPrimary: true, // topic แรกเป็น primary
-        });
+        await this.topicsService.createTopic(
+          {
+            telegramTopicId: topicResult.message_thread_id,
+            name: topicName,
+            groupId: chat.id.toString(),
+            ticketId: ticket.ticketId,
+            createdBy: user.id.toString(),
+            isPrimary: true, // topic แรกเป็น primary
+          },
+          this.toActor(user),
+        );
 
         // เพิ่ม participant ใน ticket
         await this.ticketService.addParticipant(
@@ -1140,67 +1940,38 @@ export class BotService implements OnModuleInit {
         );
 
         // ส่งข้อความต้อนรับใน topic
-        const welcomeMessage =
-          `📝 **${ticket.title}**\n` +
-          (description ? `${description}\n\n` : "\n") +
-          `📋 **คำสั่งที่ใช้ได้:**\n` +
-          `• /mention - เชิญคนเข้าร่วม Ticket\n` +
-          `• /link_topic <id> - เชื่อมโยง Topic อื่น\n` +
-          `• /close_ticket - ปิด Ticket นี้\n` +
-          `• /help - ดูคำสั่งทั้งหมด`;
-
         await this.sendMessageToTopic(
           chat.id.toString(),
           topicResult.message_thread_id,
-          welcomeMessage,
+          this.buildWelcomeMessage(ticket, tr),
         );
 
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          `✅ สร้าง Topic "${topicName}" แล้ว`,
-        );
-
-        // Trigger webhook for ticket created
-        this.hooksService.trigger(
-          HookEvent.TICKET_CREATED,
-          {
-            ticketId: ticket.ticketId,
-            title: ticket.title,
-            description: ticket.description,
-            status: ticket.status,
-            priority: ticket.priority,
-            groupId: chat.id.toString(),
-            topicId: topicResult.message_thread_id,
-            createdBy: {
-              id: user.id.toString(),
-              username: user.username,
-              firstName: user.first_name,
-            },
-          },
-          { groupId: chat.id.toString() },
+          tr.t("createTicket.topicCreated", { topicName }),
         );
       } else {
         throw new Error("Failed to create forum topic");
       }
     } catch (error) {
       this.logger.error("Error creating ticket:", error);
+      this.reportError("create_ticket", error, {
+        groupId: chat.id.toString(),
+        userId: user.id.toString(),
+      });
 
       if (
         error.message?.includes("CHAT_NOT_MODIFIED") ||
         error.message?.includes("topics")
       ) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ ไม่สามารถสร้าง Topic ได้\n" +
-            "🔧 กรุณาตรวจสอบว่า:\n" +
-            "• กลุ่มเป็น Supergroup\n" +
-            "• เปิดใช้ Topics ในกลุ่ม\n" +
-            "• Bot มีสิทธิ์จัดการ Topics",
+          tr.t("createTicket.topicError"),
         );
       } else {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ เกิดข้อผิดพลาดในการสร้าง Ticket กรุณาลองใหม่อีกครั้ง",
+          tr.t("createTicket.error"),
         );
       }
     }
@@ -1213,11 +1984,12 @@ export class BotService implements OnModuleInit {
     const message = msg;
     const user = msg.from;
     const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
 
     if (!user || !chat || chat.type === "private") {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่ง /close_ticket ใช้ได้เฉพาะในกลุ่มเท่านั้น",
+        tr.t("common.groupOnly", { command: "close_ticket" }),
       );
       return;
     }
@@ -1225,10 +1997,11 @@ export class BotService implements OnModuleInit {
     // ตรวจสอบว่าอยู่ใน topic หรือไม่
     const messageThreadId = message?.message_thread_id;
     if (!messageThreadId) {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่ง /close_ticket ใช้ได้เฉพาะใน Topic เท่านั้น\n\n" +
-          "💡 กรุณาเปิด Topic ที่ต้องการปิดแล้วใช้คำสั่งนี้ใหม่",
+        tr.t("common.topicOnly", { command: "close_ticket" }) +
+          "\n\n" +
+          tr.t("closeTicket.openTopicHint"),
       );
       return;
     }
@@ -1240,142 +2013,63 @@ export class BotService implements OnModuleInit {
         chat.id.toString(),
       );
       if (!ticket) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ ไม่พบ Ticket ที่เชื่อมโยงกับ Topic นี้",
+          tr.t("common.noTicketForTopic"),
         );
         return;
       }
 
       // ตรวจสอบว่า ticket ปิดแล้วหรือไม่
       if (ticket.status === "closed") {
-        await this.bot.sendMessage(msg.chat.id, "ℹ️ Ticket นี้ปิดแล้ว");
-        return;
-      }
-
-      // ตรวจสอบสิทธิ์ในการปิด ticket (เจ้าของหรือ admin)
-      const isCreator = ticket.createdBy === user.id.toString();
-      const group = await this.groupsService.findByTelegramGroupId(
-        chat.id.toString(),
-      );
-
-      if (!isCreator && !group?.botIsAdmin) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ คุณไม่มีสิทธิ์ปิด Ticket นี้ (เฉพาะผู้สร้าง Ticket เท่านั้น)",
+          tr.t("closeTicket.alreadyClosed"),
         );
         return;
       }
 
-      // ปิด ticket
-      const closedTicket = await this.ticketService.closeTicket(
-        ticket.ticketId,
-      );
-
-      // คำนวณระยะเวลาที่ ticket เปิดอยู่
-      const createdAt = new Date((ticket as any).createdAt);
-      const closedAt = new Date();
-      const duration = Math.round(
-        (closedAt.getTime() - createdAt.getTime()) / (1000 * 60 * 60),
-      ); // ชั่วโมง
-
-      // ส่งข้อความแจ้งการปิดก่อนลบ topic
-      const closeMessage =
-        `✅ Ticket ${ticket.ticketId} ได้รับการปิดแล้ว\n\n` +
-        `📅 ปิดเมื่อ: ${closedAt.toLocaleString("th-TH")}\n` +
-        `👤 ปิดโดย: ${user.first_name}\n` +
-        `⏱️ ระยะเวลาทำงาน: ${duration > 0 ? duration + " ชั่วโมง" : "น้อยกว่า 1 ชั่วโมง"}\n\n` +
-        `🗑️ Topic นี้จะถูกลบใน 5 วินาที...`;
-
-      await this.bot.sendMessage(msg.chat.id, closeMessage);
-
-      // รอ 5 วินาที ให้ user ได้อ่านข้อความ
-      await new Promise((resolve) => setTimeout(resolve, 5000));
-
-      // ลบ forum topic จาก Telegram
-      try {
-        await this.deleteForumTopic(chat.id.toString(), messageThreadId);
-        this.logger.log(`Topic ${messageThreadId} deleted from Telegram`);
-      } catch (deleteError) {
-        this.logger.error("Error deleting topic from Telegram:", deleteError);
-        // ถ้าลบไม่ได้ ให้ปิดแทน
-        await this.closeForumTopic(chat.id.toString(), messageThreadId);
-      }
-
-      // ลบ topic จาก database
-      await this.topicsService.deleteTopic(messageThreadId, chat.id.toString());
-
-      // หา linked topics ทั้งหมดที่เชื่อมกับ ticket นี้
-      const allTicketTopics = await this.topicsService.findAllByTicketId(
-        ticket.ticketId,
+      // ตรวจสอบสิทธิ์ในการปิด ticket ตาม closePermission ของกลุ่ม
+      const { closePermission } = await this.groupSettingsService.getSettings(
+        chat.id.toString(),
       );
-
-      // ลบ linked topics ทั้งหมด (ยกเว้น topic ที่เพิ่งลบไป)
-      for (const linkedTopic of allTicketTopics) {
-        if (linkedTopic.telegramTopicId !== messageThreadId) {
-          try {
-            // ส่งข้อความแจ้งใน linked topic ก่อนลบ
-            await this.sendMessageToTopic(
-              linkedTopic.groupId,
-              linkedTopic.telegramTopicId,
-              `🔒 Ticket ${ticket.ticketId} ถูกปิดแล้ว\n\n` +
-                `👤 ปิดโดย: ${user.first_name}\n` +
-                `🗑️ Topic นี้จะถูกลบใน 5 วินาที...`,
-            );
-
-            await new Promise((resolve) => setTimeout(resolve, 5000));
-
-            // ลบ linked topic จาก Telegram
-            await this.deleteForumTopic(
-              linkedTopic.groupId,
-              linkedTopic.telegramTopicId,
-            );
-
-            // ลบจาก database
-            await this.topicsService.deleteTopic(
-              linkedTopic.telegramTopicId,
-              linkedTopic.groupId,
-            );
-
-            this.logger.log(
-              `Linked topic ${linkedTopic.telegramTopicId} deleted`,
-            );
-          } catch (linkedError) {
-            this.logger.error(
-              `Error deleting linked topic ${linkedTopic.telegramTopicId}:`,
-              linkedError,
-            );
-          }
+      if (closePermission !== ClosePermission.ANYONE) {
+        const isCreator = ticket.createdBy === user.id.toString();
+        const allowed =
+          (closePermission === ClosePermission.CREATOR_OR_ADMIN && isCreator) ||
+          (await this.isSupervisor(chat.id.toString(), user.id));
+        if (!allowed) {
+          await this.telegramSender.sendMessage(
+            msg.chat.id,
+            tr.t(
+              closePermission === ClosePermission.ADMINS
+                ? "closeTicket.adminsOnly"
+                : "closeTicket.notAllowed",
+            ),
+          );
+          return;
         }
       }
 
-      // Trigger webhook for ticket closed
-      this.hooksService.trigger(
-        HookEvent.TICKET_CLOSED,
-        {
-          ticketId: ticket.ticketId,
-          title: ticket.title,
-          status: "closed",
-          groupId: chat.id.toString(),
-          closedAt: closedAt.toISOString(),
-          duration: duration,
-          closedBy: {
-            id: user.id.toString(),
-            username: user.username,
-            firstName: user.first_name,
-          },
-        },
-        { groupId: chat.id.toString(), ticketStatus: "closed" },
-      );
+      // ปิด ticket - ข้อความแจ้งและการปิด forum topics ทำใน handleTicketClosedEvent
+      await this.ticketService.closeTicket(ticket.ticketId, this.toActor(user));
     } catch (error) {
       this.logger.error("Error closing ticket:", error);
+      this.reportError("close_ticket", error, {
+        groupId: chat.id.toString(),
+        topicId: messageThreadId,
+        userId: user.id.toString(),
+      });
 
       if (error.message?.includes("TOPIC_CLOSED")) {
-        await this.bot.sendMessage(msg.chat.id, "ℹ️ Topic นี้ปิดแล้ว");
+        await this.telegramSender.sendMessage(
+          msg.chat.id,
+          tr.t("closeTicket.topicClosed"),
+        );
       } else {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ เกิดข้อผิดพลาดในการปิด Ticket กรุณาลองใหม่อีกครั้ง",
+          tr.t("closeTicket.error"),
         );
       }
     }
@@ -1390,11 +2084,12 @@ export class BotService implements OnModuleInit {
     const args = text.split(" ").slice(1);
     const user = msg.from;
     const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
 
     if (!user || !chat || chat.type === "private") {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่ง /mention ใช้ได้เฉพาะในกลุ่มเท่านั้น",
+        tr.t("common.groupOnly", { command: "mention" }),
       );
       return;
     }
@@ -1402,13 +2097,9 @@ export class BotService implements OnModuleInit {
     // ตรวจสอบว่าอยู่ใน topic หรือไม่
     const messageThreadId = message?.message_thread_id;
     if (!messageThreadId) {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่ง /mention ใช้ได้เฉพาะใน Topic ของ Ticket เท่านั้น\n\n" +
-          "💡 วิธีใช้:\n" +
-          "• /mention - แสดงรายชื่อผู้ใช้ในระบบ\n" +
-          "• /mention <username> - เชิญคนเข้าร่วม Ticket\n\n" +
-          "ตัวอย่าง: /mention john",
+        tr.t("mention.ticketTopicOnly") + "\n\n" + tr.t("mention.usage"),
       );
       return;
     }
@@ -1433,9 +2124,9 @@ export class BotService implements OnModuleInit {
         chat.id.toString(),
       );
       if (!topic || !topic.ticketId) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ ไม่พบ Ticket ที่เชื่อมโยงกับ Topic นี้",
+          tr.t("common.noTicketForTopic"),
         );
         return;
       }
@@ -1444,14 +2135,17 @@ export class BotService implements OnModuleInit {
         topic.ticketId,
       );
       if (!topicTicket) {
-        await this.bot.sendMessage(msg.chat.id, "❌ ไม่พบข้อมูล Ticket");
+        await this.telegramSender.sendMessage(
+          msg.chat.id,
+          tr.t("common.ticketNotFound"),
+        );
         return;
       }
 
       if (topicTicket.status === "closed") {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ ไม่สามารถเชิญคนเข้า Ticket ที่ปิดแล้ว",
+          tr.t("mention.closedTicket"),
         );
         return;
       }
@@ -1471,10 +2165,9 @@ export class BotService implements OnModuleInit {
 
       // ตรวจสอบว่าเป็น internal user (ไม่ใช่ bot)
       if (targetUser.isBot) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          `❌ ไม่สามารถเชิญ Bot ได้: ${targetUsername}\n` +
-            "👤 สามารถเชิญได้เฉพาะผู้ใช้จริงเท่านั้น",
+          tr.t("mention.cannotInviteBot", { username: targetUsername }),
         );
         return;
       }
@@ -1487,9 +2180,9 @@ export class BotService implements OnModuleInit {
         currentTicket &&
         currentTicket.participants.includes(targetUser.telegramId)
       ) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          `ℹ️ ${targetUsername} อยู่ใน Ticket นี้แล้ว`,
+          tr.t("mention.alreadyInTicket", { username: targetUsername }),
         );
         return;
       }
@@ -1516,21 +2209,24 @@ export class BotService implements OnModuleInit {
       );
 
       if (!newTopicResult.success) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          `❌ ไม่สามารถสร้าง Topic สำหรับ @${targetUsername} ได้`,
+          tr.t("mention.topicCreateFailed", { username: targetUsername }),
         );
         return;
       }
 
       // บันทึก topic ใหม่ในฐานข้อมูล (สร้างโดย user ที่ถูก mention)
-      const newTopic = await this.topicsService.createTopic({
-        telegramTopicId: newTopicResult.message_thread_id,
-        groupId: targetGroupId, // แก้ไข Critical Bug: ใช้ targetGroupId แทน chat.id
-        name: newTopicName,
-        ticketId: topicTicket?.ticketId,
-        createdBy: targetUser.telegramId, // สร้างโดย user ที่ถูก mention (userB)
-      });
+      const newTopic = await this.topicsService.createTopic(
+        {
+          telegramTopicId: newTopicResult.message_thread_id,
+          groupId: targetGroupId, // แก้ไข Critical Bug: ใช้ targetGroupId แทน chat.id
+          name: newTopicName,
+          ticketId: topicTicket?.ticketId,
+          createdBy: targetUser.telegramId, // สร้างโดย user ที่ถูก mention (userB)
+        },
+        this.toActor(user),
+      );
 
       // Debug logging (Topic Saved)
       this.logger.log(`[${new Date().toISOString()}] 💾 TOPIC SAVED:`);
@@ -1545,24 +2241,41 @@ export class BotService implements OnModuleInit {
         messageThreadId,
         newTopicResult.message_thread_id,
         targetGroupId,
+        this.toActor(user),
       );
 
       // เพิ่ม user เป็น participant ใน ticket
       if (topic.ticketId) {
-        await this.ticketService.addParticipant(
+        await this.ticketService.recordMention(
           topic.ticketId,
-          targetUser.telegramId,
+          {
+            telegramId: targetUser.telegramId,
+            username: targetUser.username,
+            firstName: targetUser.firstName,
+          },
+          {
+            topicId: newTopicResult.message_thread_id,
+            groupId: targetGroupId,
+          },
+          this.toActor(user),
         );
       }
 
       // ส่งข้อความแจ้งใน topic เดิม
-      const originalTopicMessage =
-        `✅ สร้าง Topic สำหรับ @${targetUsername} แล้ว\n` +
-        `🎫 Ticket: ${topicTicket?.ticketId}\n` +
-        `📝 หัวข้อ: ${topicTicket?.title}\n` +
-        `👤 เชิญโดย: ${user.first_name}\n` +
-        `🔗 Topic ของ @${targetUsername}: "${newTopicName}"\n\n` +
-        `💬 ข้อความจะถูก sync ระหว่าง topics อัตโนมัติ`;
+      const originalTopicMessage = new MessageBuilder()
+        .line(tr.t("mention.topicCreated", { username: targetUsername }))
+        .line(tr.t("mention.ticket"), code(topicTicket?.ticketId))
+        .line(tr.t("mention.title"), bold(topicTicket?.title))
+        .line(tr.t("mention.invitedBy", { name: user.first_name }))
+        .line(
+          tr.t("mention.userTopic", {
+            username: targetUsername,
+            topicName: newTopicName,
+          }),
+        )
+        .blank()
+        .line(tr.t("mention.syncNote"))
+        .build();
 
       await this.sendMessageToTopic(
         chat.id.toString(),
@@ -1571,14 +2284,31 @@ export class BotService implements OnModuleInit {
       );
 
       // ส่งข้อความแจ้งใน topic ใหม่
-      const initialMessage =
-        `🎯 **${targetUser.firstName || targetUsername}** ได้รับการเชิญเข้าร่วม Ticket\n\n` +
-        `🎫 Ticket: ${topicTicket?.ticketId}\n` +
-        `📝 หัวข้อ: ${topicTicket?.title}\n` +
-        `👤 เชิญโดย: ${user.first_name}\n\n` +
-        `💬 นี่คือพื้นที่สนทนาส่วนตัวสำหรับ ${targetUser.firstName || targetUsername}\n` +
-        `🔗 ข้อความจะถูก sync กับ Topic หลักอัตโนมัติ\n\n` +
-        `📞 @${targetUsername} กรุณาส่งข้อความเพื่อเริ่มการสนทนา`;
+      // topic ใหม่อยู่ในกลุ่มของผู้ถูกเชิญ - ใช้ภาษาของกลุ่ม/ผู้ใช้นั้น
+      const targetTr = await this.i18n.forChat(
+        targetGroupId,
+        targetUser.languageCode,
+      );
+      const initialMessage = new MessageBuilder()
+        .line(
+          "🎯 ",
+          bold(targetUser.firstName || targetUsername),
+          targetTr.t("mention.invited"),
+        )
+        .blank()
+        .line(targetTr.t("mention.ticket"), code(topicTicket?.ticketId))
+        .line(targetTr.t("mention.title"), bold(topicTicket?.title))
+        .line(targetTr.t("mention.invitedBy", { name: user.first_name }))
+        .blank()
+        .line(
+          targetTr.t("mention.privateSpace", {
+            name: targetUser.firstName || targetUsername,
+          }),
+        )
+        .line(targetTr.t("mention.syncWithPrimary"))
+        .blank()
+        .line(targetTr.t("mention.pleaseReply", { username: targetUsername }))
+        .build();
 
       try {
         await this.sendMessageToTopic(
@@ -1629,10 +2359,7 @@ export class BotService implements OnModuleInit {
       }
     } catch (error) {
       this.logger.error("Error handling mention:", error);
-      await this.bot.sendMessage(
-        msg.chat.id,
-        "❌ เกิดข้อผิดพลาดในการเชิญ User กรุณาลองใหม่อีกครั้ง",
-      );
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("mention.error"));
     }
   }
 
@@ -1641,18 +2368,19 @@ export class BotService implements OnModuleInit {
     messageThreadId: number,
     groupId: string,
   ) {
+    const tr = await this.getTranslator(msg);
     try {
       // แสดงตัวเลือกสำหรับ mention user เท่านั้น
       const buttons = [
         [
           {
-            text: "👥 เชิญผู้ใช้",
+            text: tr.t("mention.inviteUser"),
             callback_data: "mention_action:show_users",
           },
         ],
         [
           {
-            text: "❌ ยกเลิก",
+            text: tr.t("common.cancel"),
             callback_data: "mention:cancel",
           },
         ],
@@ -1663,15 +2391,14 @@ export class BotService implements OnModuleInit {
       await this.sendMessageToTopic(
         groupId,
         messageThreadId,
-        "🎯 เลือกการกระทำ:\n\n" +
-          "👥 เชิญผู้ใช้ - เชิญ Internal User เข้าร่วม Topic",
+        tr.t("mention.chooseAction"),
         { reply_markup: inlineKeyboard },
       );
     } catch (error) {
       this.logger.error("Error showing mention options:", error);
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ เกิดข้อผิดพลาดในการแสดงตัวเลือก",
+        tr.t("mention.optionsError"),
       );
     }
   }
@@ -1680,7 +2407,9 @@ export class BotService implements OnModuleInit {
     msg: TelegramBot.Message,
     messageThreadId: number,
     groupId: string,
+    action: "mention" | "assign" = "mention",
   ) {
+    const tr = await this.getTranslator(msg);
     try {
       // หา topic และ participants ปัจจุบัน
       const topic = await this.topicsService.findByTelegramTopicId(
@@ -1688,23 +2417,39 @@ export class BotService implements OnModuleInit {
         groupId,
       );
       if (!topic) {
-        await this.bot.sendMessage(msg.chat.id, "❌ ไม่พบข้อมูล Topic");
+        await this.telegramSender.sendMessage(
+          msg.chat.id,
+          tr.t("common.topicNotFound"),
+        );
         return;
       }
 
-      // ค้นหาผู้ใช้ที่สามารถเชิญได้ (ยกเว้นคนที่อยู่ใน ticket แล้ว)
+      // ค้นหาผู้ใช้ที่เลือกได้
+      // mention: ยกเว้นคนที่อยู่ใน ticket แล้ว, assign: ยกเว้นผู้รับผิดชอบปัจจุบัน
       const ticket = topic.ticketId
         ? await this.ticketService.findByTicketId(topic.ticketId)
         : null;
-      const participants = ticket?.participants || [];
+      const excludedUsers =
+        action === "assign"
+          ? ticket?.assignedTo
+            ? [ticket.assignedTo]
+            : []
+          : ticket?.participants || [];
       const availableUsers =
-        await this.usersService.findAllActiveUsers(participants);
+        await this.usersService.findAllActiveUsers(excludedUsers);
+
+      if (availableUsers.length === 0 && action === "assign") {
+        await this.telegramSender.sendMessage(
+          msg.chat.id,
+          tr.t("userMenu.noneToAssign"),
+        );
+        return;
+      }
 
       if (availableUsers.length === 0) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "ℹ️ ไม่มีผู้ใช้ที่สามารถเชิญได้\n\n" +
-            "💡 ผู้ใช้ทุกคนอยู่ใน Topic นี้แล้ว หรือยังไม่มีผู้ใช้ในระบบ",
+          tr.t("userMenu.noneToInvite"),
         );
         return;
       }
@@ -1720,7 +2465,7 @@ export class BotService implements OnModuleInit {
         const displayName1 = user1.firstName || user1.username;
         row.push({
           text: `👤 ${displayName1}`,
-          callback_data: `mention:${user1.username}`,
+          callback_data: `${action}:${user1.username}`,
         });
 
         if (i + 1 < availableUsers.length) {
@@ -1728,7 +2473,7 @@ export class BotService implements OnModuleInit {
           const displayName2 = user2.firstName || user2.username;
           row.push({
             text: `👤 ${displayName2}`,
-            callback_data: `mention:${user2.username}`,
+            callback_data: `${action}:${user2.username}`,
           });
         }
 
@@ -1738,92 +2483,2268 @@ export class BotService implements OnModuleInit {
       // เพิ่มปุ่มยกเลิก
       buttons.push([
         {
-          text: "❌ ยกเลิก",
-          callback_data: "mention:cancel",
+          text: tr.t("common.cancel"),
+          callback_data: `${action}:cancel`,
         },
       ]);
 
       const inlineKeyboard = { inline_keyboard: buttons };
 
-      await this.sendMessageToTopic(
-        groupId,
-        messageThreadId,
-        `👥 เลือกผู้ใช้ที่ต้องการเชิญเข้าร่วม Topic\n\n` +
-          `📋 ผู้ใช้ที่สามารถเชิญได้: ${availableUsers.length} คน`,
-        { reply_markup: inlineKeyboard },
+      const prompt = tr.t(
+        action === "assign" ? "userMenu.assignPrompt" : "userMenu.invitePrompt",
+        { count: availableUsers.length },
       );
+
+      await this.sendMessageToTopic(groupId, messageThreadId, prompt, {
+        reply_markup: inlineKeyboard,
+      });
     } catch (error) {
       this.logger.error("Error showing user selection menu:", error);
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ เกิดข้อผิดพลาดในการแสดงรายชื่อผู้ใช้",
+        tr.t("userMenu.error"),
       );
     }
   }
 
-  private async handleChatMemberUpdate(update: any) {
-    const chat = update.chat;
+  private async handleAssign(msg: TelegramBot.Message, match: RegExpExecArray) {
+    const text = msg.text || "";
+    const args = text.split(" ").slice(1).filter(Boolean);
+    const user = msg.from;
+    const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
 
-    if (update?.new_chat_member?.user?.id) {
-      this.logger.log(
-        `[${new Date().toISOString()}] API Call: getMe (chat member update)`,
+    if (!user || !chat || chat.type === "private") {
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        tr.t("common.groupOnly", { command: "assign" }),
       );
-      const startTime = Date.now();
+      return;
+    }
 
-      const me = await this.bot.getMe();
-      const duration = Date.now() - startTime;
+    const messageThreadId = msg.message_thread_id;
+    if (!messageThreadId) {
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        tr.t("common.ticketTopicOnly", { command: "assign" }),
+      );
+      return;
+    }
 
-      this.logger.log(
-        `[${new Date().toISOString()}] API Response: getMe - Duration: ${duration}ms, botId: ${me.id}`,
+    const groupId = chat.id.toString();
+
+    try {
+      const ticket = await this.ticketService.findByTopicId(
+        messageThreadId,
+        groupId,
       );
+      if (!ticket) {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("common.noTicketForTopic"),
+        );
+        return;
+      }
 
-      if (update.new_chat_member.user.id === me.id) {
-        const status = update.new_chat_member.status;
-        const isAdmin = status === "administrator";
+      if (ticket.status === "closed") {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("assign.closedTicket"),
+        );
+        return;
+      }
 
-        if (chat) {
-          await this.groupsService.findOrCreateGroup({
-            telegramGroupId: chat.id.toString(),
-            title: chat.title || "Unknown Group",
-            type: chat.type,
-            botIsAdmin: isAdmin,
-            supportTopicsEnabled: (chat as any).has_topics_enabled || false,
-          });
-        }
+      // ไม่ระบุ username - แสดงรายชื่อให้เลือก
+      if (args.length === 0) {
+        await this.showUserSelectionMenu(
+          msg,
+          messageThreadId,
+          groupId,
+          "assign",
+        );
+        return;
+      }
+
+      const username = args[0].replace(/^@/, "");
+      const assignee = await this.usersService.findByUsername(username);
+      if (!assignee) {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("mention.userNotFound", { username }) +
+            "\n\n" +
+            tr.t("assign.userNotFoundHint"),
+        );
+        return;
+      }
+
+      if (ticket.assignedTo === assignee.telegramId) {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("assign.alreadyAssigned", {
+            name: assignee.firstName || assignee.username,
+          }),
+        );
+        return;
       }
+
+      // ข้อความแจ้งใน topic และ DM ถูกส่งจาก handleTicketAssignedEvent
+      await this.ticketService.assignTicket(
+        ticket.ticketId,
+        {
+          telegramId: assignee.telegramId,
+          username: assignee.username,
+          firstName: assignee.firstName,
+        },
+        this.toActor(user),
+      );
+    } catch (error) {
+      this.logger.error("Error assigning ticket:", error);
+      this.reportError("assign_ticket", error, {
+        groupId,
+        topicId: messageThreadId,
+        userId: user.id.toString(),
+      });
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("assign.error"));
     }
   }
 
-  private async handleMessage(msg: TelegramBot.Message) {
-    const message = msg;
-    const user = msg.from;
-    const chat = msg.chat;
+  private async handleAssignCallback(
+    callbackQuery: TelegramBot.CallbackQuery,
+    data: string,
+  ) {
+    const tr = await this.getCallbackTranslator(callbackQuery);
+    try {
+      const message = callbackQuery.message;
+      const messageThreadId = (message as any)?.message_thread_id;
+      const chat = message?.chat;
+      const user = callbackQuery.from;
 
-    // Check conversation state first
-    if (user && chat && msg.text && !msg.text.startsWith("/")) {
-      const userId = `${chat.id}_${user.id}`;
-      const state = this.conversationStates.get(userId);
+      // Delete the original message
+      if (message) {
+        await this.bot
+          .deleteMessage(message.chat.id, message.message_id)
+          .catch(() => {});
+      }
 
-      if (state) {
-        // Clear old states (older than 5 minutes)
-        if (Date.now() - state.timestamp > 300000) {
-          this.conversationStates.delete(userId);
-        } else {
-          // Handle conversation
-          await this.handleConversation(msg, state);
-          this.conversationStates.delete(userId);
-          return;
-        }
+      if (data === "assign:cancel") {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("assign.cancelled"),
+        });
+        return;
       }
-    }
 
-    // 📥 Log incoming message
-    const messageThreadId = (message as any)?.message_thread_id;
-    const chatType = msg.chat?.type || "unknown";
-    const messageText =
-      msg.text?.substring(0, 100) +
-      (msg.text && msg.text.length > 100 ? "..." : "");
-    const userName = user?.username || user?.first_name || "Unknown";
+      if (!messageThreadId || !chat || !user) {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.incompleteData"),
+        });
+        return;
+      }
+
+      const ticket = await this.ticketService.findByTopicId(
+        messageThreadId,
+        chat.id.toString(),
+      );
+      if (!ticket) {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.noTicketForTopic"),
+        });
+        return;
+      }
+
+      if (ticket.status === "closed") {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("assign.closedTicket"),
+        });
+        return;
+      }
+
+      const username = data.replace("assign:", "");
+      const assignee = await this.usersService.findByUsername(username);
+      if (!assignee) {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("mention.userNotFound", { username }),
+        });
+        return;
+      }
+
+      await this.ticketService.assignTicket(
+        ticket.ticketId,
+        {
+          telegramId: assignee.telegramId,
+          username: assignee.username,
+          firstName: assignee.firstName,
+        },
+        this.toActor(user),
+      );
+
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("assign.success", { name: assignee.firstName || username }),
+      });
+    } catch (error) {
+      this.logger.error("Error handling assign callback:", error);
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
+      });
+    }
+  }
+
+  private async handleUnassign(msg: TelegramBot.Message) {
+    const user = msg.from;
+    const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
+
+    if (!user || !chat || chat.type === "private") {
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        tr.t("common.groupOnly", { command: "unassign" }),
+      );
+      return;
+    }
+
+    const messageThreadId = msg.message_thread_id;
+    if (!messageThreadId) {
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        tr.t("common.ticketTopicOnly", { command: "unassign" }),
+      );
+      return;
+    }
+
+    const groupId = chat.id.toString();
+
+    try {
+      const ticket = await this.ticketService.findByTopicId(
+        messageThreadId,
+        groupId,
+      );
+      if (!ticket) {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("common.noTicketForTopic"),
+        );
+        return;
+      }
+
+      if (!ticket.assignedTo) {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("unassign.notAssigned"),
+        );
+        return;
+      }
+
+      // ข้อความแจ้งใน topic ถูกส่งจาก handleAssigneeChangedEvent
+      await this.ticketService.unassignTicket(
+        ticket.ticketId,
+        this.toActor(user),
+      );
+    } catch (error) {
+      this.logger.error("Error unassigning ticket:", error);
+      this.reportError("unassign_ticket", error, {
+        groupId,
+        topicId: messageThreadId,
+        userId: user.id.toString(),
+      });
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        tr.t("unassign.error"),
+      );
+    }
+  }
+
+  // ค้นหา ticket และข้อความภายในกลุ่มที่พิมพ์คำสั่ง
+  private async handleSearch(msg: TelegramBot.Message, match: RegExpExecArray) {
+    const chat = msg.chat;
+    const terms = (match[1] || "").trim();
+    const replyOptions = msg.message_thread_id
+      ? { message_thread_id: msg.message_thread_id }
+      : undefined;
+    const tr = await this.getTranslator(msg);
+
+    if (chat.type === "private") {
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("common.groupOnly", { command: "search" }),
+      );
+      return;
+    }
+
+    if (!terms) {
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("search.missingTerms"),
+        replyOptions,
+      );
+      return;
+    }
+
+    try {
+      const results = await this.searchService.search(terms, {
+        groupId: chat.id.toString(),
+        limit: 5,
+      });
+
+      if (results.tickets.total === 0 && results.messages.total === 0) {
+        await this.telegramSender.sendMessage(
+          chat.id,
+          tr.t("search.noResults", { terms }),
+          replyOptions,
+        );
+        return;
+      }
+
+      let text = tr.t("search.title", { terms }) + "\n";
+
+      if (results.tickets.total > 0) {
+        text +=
+          "\n" +
+          tr.t("search.tickets", { count: results.tickets.total }) +
+          "\n";
+        for (const { ticket } of results.tickets.items) {
+          const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+          const link = primaryTopic
+            ? this.buildTopicLink(primaryTopic.groupId, primaryTopic.topicId)
+            : null;
+          text +=
+            `• ${ticket.ticketId} - ${ticket.title} (${this.getStatusLabel(ticket.status, tr)})` +
+            (link ? `\n   🔗 ${link}` : "") +
+            "\n";
+        }
+      }
+
+      if (results.messages.total > 0) {
+        text +=
+          "\n" +
+          tr.t("search.messages", { count: results.messages.total }) +
+          "\n";
+        for (const { message, link } of results.messages.items) {
+          const content = (message.text || message.caption || "").replace(
+            /\s+/g,
+            " ",
+          );
+          const snippet =
+            content.length > 80 ? content.substring(0, 80) + "…" : content;
+          const sender =
+            message.senderFirstName || message.senderUsername || "Unknown";
+          text +=
+            `• ${sender}${message.ticketId ? ` [${message.ticketId}]` : ""}: ${snippet}` +
+            (link ? `\n   🔗 ${link}` : "") +
+            "\n";
+        }
+      }
+
+      await this.telegramSender.sendMessage(chat.id, text, replyOptions);
+    } catch (error) {
+      this.logger.error("Error searching:", error);
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("search.error"),
+        replyOptions,
+      );
+    }
+  }
+
+  // ส่งรายการ ticket ที่รับผิดชอบไปทาง DM เสมอ (ไม่แสดงในกลุ่ม)
+  private async handleMyTickets(msg: TelegramBot.Message) {
+    const user = msg.from;
+    if (!user) return;
+    const tr = await this.getTranslator(msg);
+
+    const replyOptions = msg.message_thread_id
+      ? { message_thread_id: msg.message_thread_id }
+      : undefined;
+
+    try {
+      const tickets = await this.ticketService.findAssignedTickets(
+        user.id.toString(),
+      );
+
+      let text: string;
+      if (tickets.length === 0) {
+        text = tr.t("myTickets.none");
+      } else {
+        const lines = tickets.map((ticket) => {
+          const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+          const link = primaryTopic
+            ? this.buildTopicLink(primaryTopic.groupId, primaryTopic.topicId)
+            : null;
+          return (
+            `🎫 ${ticket.ticketId} - ${ticket.title}\n` +
+            tr.t("myTickets.item", {
+              status: this.getStatusLabel(ticket.status, tr),
+              priority: ticket.priority,
+            }) +
+            (link ? `\n   🔗 ${link}` : "")
+          );
+        });
+        text =
+          tr.t("myTickets.title", { count: tickets.length }) +
+          "\n\n" +
+          lines.join("\n\n");
+      }
+
+      if (msg.chat.type === "private") {
+        await this.telegramSender.sendMessage(msg.chat.id, text);
+        return;
+      }
+
+      try {
+        await this.telegramSender.sendMessage(user.id, text);
+        await this.telegramSender.sendMessage(
+          msg.chat.id,
+          tr.t("myTickets.sentToDm"),
+          replyOptions,
+        );
+      } catch (dmError) {
+        // user ยังไม่เคยเริ่มแชทกับ bot
+        await this.telegramSender.sendMessage(
+          msg.chat.id,
+          tr.t("common.dmFailed"),
+          replyOptions,
+        );
+      }
+    } catch (error) {
+      this.logger.error("Error listing assigned tickets:", error);
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        tr.t("myTickets.error"),
+        replyOptions,
+      );
+    }
+  }
+
+  // ticket.assigned - แสดงผู้รับผิดชอบในชื่อ topic หลัก แจ้งใน topic และ DM ผู้รับผิดชอบ
+  private async handleTicketAssignedEvent(event: DomainEvent) {
+    const ticket = await this.ticketService.findByTicketId(event.ticketId);
+    if (!ticket) return;
+
+    const assignee = event.data.assignee;
+    const assigneeName =
+      assignee.firstName || assignee.username || assignee.telegramId;
+    const assignerName = this.getActorName(event.actor);
+
+    await this.refreshPrimaryTopicName(ticket, assigneeName);
+
+    const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+    if (primaryTopic) {
+      const tr = await this.i18n.forChat(primaryTopic.groupId);
+      await this.sendMessageToTopic(
+        primaryTopic.groupId,
+        primaryTopic.topicId,
+        tr.t("assign.announced", {
+          ticketId: ticket.ticketId,
+          assignee: assigneeName,
+          assigner: assignerName,
+        }),
+      ).catch((error) => {
+        this.logger.warn(
+          `Could not announce assignment in topic ${primaryTopic.topicId}: ${error.message}`,
+        );
+      });
+    }
+
+    // ไม่ต้องแจ้งถ้ามอบหมายให้ตัวเอง
+    if (event.actor?.id !== assignee.telegramId) {
+      await this.notifyAssignee(assignee, ticket, assignerName);
+    }
+  }
+
+  // ticket.updated ที่เปลี่ยน assignedTo (เช่น /unassign หรือ PATCH ผ่าน API)
+  private async handleAssigneeChangedEvent(event: DomainEvent) {
+    const ticket = await this.ticketService.findByTicketId(event.ticketId);
+    if (!ticket) return;
+
+    const assigneeId = event.data.changes.assignedTo.to;
+    const assignee = assigneeId
+      ? await this.usersService.findByTelegramId(assigneeId)
+      : null;
+    const assigneeName = assigneeId
+      ? assignee?.firstName || assignee?.username || assigneeId
+      : undefined;
+
+    await this.refreshPrimaryTopicName(ticket, assigneeName);
+
+    const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+    if (primaryTopic && !assigneeId) {
+      const tr = await this.i18n.forChat(primaryTopic.groupId);
+      await this.sendMessageToTopic(
+        primaryTopic.groupId,
+        primaryTopic.topicId,
+        tr.t("unassign.announced", {
+          ticketId: ticket.ticketId,
+          actor: this.getActorName(event.actor),
+        }),
+      ).catch((error) => {
+        this.logger.warn(
+          `Could not announce unassignment in topic ${primaryTopic.topicId}: ${error.message}`,
+        );
+      });
+    }
+  }
+
+  // ticket.sla_warning / ticket.sla_breached - แจ้งใน topic หลักและ DM ผู้รับผิดชอบ
+  private async handleSlaEvent(event: DomainEvent) {
+    const ticket = await this.ticketService.findByTicketId(event.ticketId);
+    if (!ticket) return;
+
+    const isBreach = event.event === HookEvent.TICKET_SLA_BREACHED;
+    const buildText = (tr: Translator) => {
+      const target = tr.t(
+        event.data.target === SlaTarget.FIRST_RESPONSE
+          ? "sla.firstResponse"
+          : "sla.resolution",
+      );
+      return (
+        tr.t(isBreach ? "sla.breached" : "sla.warning", {
+          ticketId: ticket.ticketId,
+          target,
+        }) +
+        "\n\n" +
+        tr.t("sla.details", {
+          title: ticket.title,
+          priority: ticket.priority,
+          dueAt: tr.formatDate(event.data.dueAt),
+        }) +
+        (isBreach
+          ? ""
+          : tr.t("sla.remaining", { minutes: event.data.minutesRemaining }))
+      );
+    };
+
+    const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+    if (primaryTopic) {
+      await this.sendMessageToTopic(
+        primaryTopic.groupId,
+        primaryTopic.topicId,
+        buildText(await this.i18n.forChat(primaryTopic.groupId)),
+      ).catch((error) => {
+        this.logger.warn(
+          `Could not post SLA notice in topic ${primaryTopic.topicId}: ${error.message}`,
+        );
+      });
+    }
+
+    if (ticket.assignedTo) {
+      const link = primaryTopic
+        ? this.buildTopicLink(primaryTopic.groupId, primaryTopic.topicId)
+        : null;
+      try {
+        const tr = await this.getUserTranslator(ticket.assignedTo);
+        await this.telegramSender.sendMessage(
+          ticket.assignedTo,
+          buildText(tr) + (link ? `\n🔗 ${link}` : ""),
+        );
+      } catch (error) {
+        this.logger.log(
+          `Could not send SLA notice to assignee ${ticket.assignedTo}:`,
+          error.message,
+        );
+      }
+    }
+  }
+
+  private async handleStatus(msg: TelegramBot.Message, match: RegExpExecArray) {
+    const user = msg.from;
+    const args = (msg.text || "").split(" ").slice(1).filter(Boolean);
+    const tr = await this.getTranslator(msg);
+
+    try {
+      const ticket = await this.findTicketForTopicCommand(msg, "status");
+      if (!ticket) return;
+
+      const groupId = msg.chat.id.toString();
+      const messageThreadId = msg.message_thread_id;
+
+      // ไม่ระบุสถานะ - แสดงสถานะปัจจุบันและปุ่มสถานะถัดไป
+      if (args.length === 0) {
+        const nextStatuses = TICKET_STATUS_TRANSITIONS[ticket.status].filter(
+          (status) => status !== TicketStatus.CLOSED,
+        );
+        const buttons = nextStatuses.map((status) => [
+          {
+            text: this.getStatusLabel(status, tr),
+            callback_data: `status:${status}`,
+          },
+        ]);
+        buttons.push([
+          { text: tr.t("common.cancel"), callback_data: "status:cancel" },
+        ]);
+
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("status.current", {
+            ticketId: ticket.ticketId,
+            status: this.getStatusLabel(ticket.status, tr),
+          }),
+          { reply_markup: { inline_keyboard: buttons } },
+        );
+        return;
+      }
+
+      const toStatus = args[0].toLowerCase() as TicketStatus;
+      if (!Object.values(TicketStatus).includes(toStatus)) {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("status.invalid", { status: args[0] }),
+        );
+        return;
+      }
+
+      if (toStatus === TicketStatus.CLOSED) {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("status.useClose"),
+        );
+        return;
+      }
+
+      await this.changeTicketStatusFromTopic(
+        ticket,
+        toStatus,
+        user,
+        groupId,
+        messageThreadId,
+        args.slice(1).join(" ") || undefined,
+      );
+    } catch (error) {
+      this.logger.error("Error changing ticket status:", error);
+      this.reportError("change_status", error, {
+        groupId: msg.chat.id.toString(),
+        topicId: msg.message_thread_id,
+        userId: user?.id.toString(),
+      });
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("status.error"));
+    }
+  }
+
+  private async handleStatusCallback(
+    callbackQuery: TelegramBot.CallbackQuery,
+    data: string,
+  ) {
+    const tr = await this.getCallbackTranslator(callbackQuery);
+    try {
+      const message = callbackQuery.message;
+      const messageThreadId = (message as any)?.message_thread_id;
+      const chat = message?.chat;
+      const user = callbackQuery.from;
+
+      // ลบเมนูเดิม (ผ่านการตรวจสิทธิ์ใน handleCallbackQuery แล้ว)
+      if (message) {
+        await this.bot
+          .deleteMessage(message.chat.id, message.message_id)
+          .catch(() => {});
+      }
+
+      if (data === "status:cancel") {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("status.cancelled"),
+        });
+        return;
+      }
+
+      if (!messageThreadId || !chat || !user) {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.incompleteData"),
+        });
+        return;
+      }
+
+      const ticket = await this.ticketService.findByTopicId(
+        messageThreadId,
+        chat.id.toString(),
+      );
+      if (!ticket) {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.noTicketForTopic"),
+        });
+        return;
+      }
+
+      const toStatus = data.replace("status:", "") as TicketStatus;
+      const changed = await this.changeTicketStatusFromTopic(
+        ticket,
+        toStatus,
+        user,
+        chat.id.toString(),
+        messageThreadId,
+      );
+
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: changed
+          ? tr.t("status.changed", {
+              status: this.getStatusLabel(toStatus, tr),
+            })
+          : tr.t("status.notChanged"),
+      });
+    } catch (error) {
+      this.logger.error("Error handling status callback:", error);
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
+      });
+    }
+  }
+
+  private async handlePending(
+    msg: TelegramBot.Message,
+    match: RegExpExecArray,
+  ) {
+    const user = msg.from;
+    const reason =
+      (msg.text || "").split(" ").slice(1).join(" ").trim() || undefined;
+    const tr = await this.getTranslator(msg);
+
+    try {
+      const ticket = await this.findTicketForTopicCommand(msg, "pending");
+      if (!ticket) return;
+
+      const groupId = msg.chat.id.toString();
+      if (ticket.status === TicketStatus.PENDING) {
+        await this.sendMessageToTopic(
+          groupId,
+          msg.message_thread_id,
+          tr.t("pending.already"),
+        );
+        return;
+      }
+
+      await this.changeTicketStatusFromTopic(
+        ticket,
+        TicketStatus.PENDING,
+        user,
+        groupId,
+        msg.message_thread_id,
+        reason,
+      );
+    } catch (error) {
+      this.logger.error("Error marking ticket as pending:", error);
+      this.reportError("change_status", error, {
+        groupId: msg.chat.id.toString(),
+        topicId: msg.message_thread_id,
+        userId: user?.id.toString(),
+      });
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("status.error"));
+    }
+  }
+
+  private async handleReopen(msg: TelegramBot.Message, match: RegExpExecArray) {
+    const user = msg.from;
+    const chat = msg.chat;
+    const args = (msg.text || "").split(" ").slice(1).filter(Boolean);
+    const replyOptions = msg.message_thread_id
+      ? { message_thread_id: msg.message_thread_id }
+      : undefined;
+    const tr = await this.getTranslator(msg);
+
+    if (!user || chat.type === "private") {
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("common.groupOnly", { command: "reopen" }),
+      );
+      return;
+    }
+
+    try {
+      let ticket: Ticket | null;
+      let reason: string | undefined;
+
+      // /reopen <ticketId> [เหตุผล] ใช้ได้จากทุก topic ในกลุ่มของ ticket
+      // (topic เดิมอาจถูกปิดหรือถูกลบไปแล้ว)
+      if (args[0]?.toUpperCase().startsWith("TICK-")) {
+        const ticketId = args[0].toUpperCase();
+        ticket = await this.ticketService.findByTicketId(ticketId);
+        const ticketGroupIds = ticket
+          ? [ticket.groupId, ...ticket.topics.map((t) => t.groupId)]
+          : [];
+        if (!ticket || !ticketGroupIds.includes(chat.id.toString())) {
+          await this.telegramSender.sendMessage(
+            chat.id,
+            tr.t("reopen.notFoundInGroup", { ticketId }),
+            replyOptions,
+          );
+          return;
+        }
+        reason = args.slice(1).join(" ") || undefined;
+      } else {
+        ticket = await this.findTicketForTopicCommand(msg, "reopen");
+        if (!ticket) return;
+        reason = args.join(" ") || undefined;
+      }
+
+      if (
+        ticket.status !== TicketStatus.RESOLVED &&
+        ticket.status !== TicketStatus.CLOSED
+      ) {
+        await this.telegramSender.sendMessage(
+          chat.id,
+          tr.t("reopen.notClosed", {
+            ticketId: ticket.ticketId,
+            status: this.getStatusLabel(ticket.status, tr),
+          }),
+          replyOptions,
+        );
+        return;
+      }
+
+      // forum topics ถูกเปิด (หรือสร้างใหม่) ใน handleTicketReopenedEvent
+      await this.ticketService.reopenTicket(
+        ticket.ticketId,
+        this.toActor(user),
+        reason,
+      );
+    } catch (error) {
+      this.logger.error("Error reopening ticket:", error);
+      this.reportError("reopen_ticket", error, {
+        groupId: chat.id.toString(),
+        topicId: msg.message_thread_id,
+        userId: user.id.toString(),
+      });
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("reopen.error"),
+        replyOptions,
+      );
+    }
+  }
+
+  private async handleHistory(
+    msg: TelegramBot.Message,
+    match: RegExpExecArray,
+  ) {
+    const tr = await this.getTranslator(msg);
+    try {
+      const ticket = await this.findTicketForTopicCommand(msg, "history");
+      if (!ticket) return;
+
+      // แสดงเฉพาะ 20 รายการล่าสุด (ดูทั้งหมดได้ที่ GET /tickets/:ticketId/timeline)
+      const events = await this.ticketTimelineService.getTimeline(
+        ticket.ticketId,
+        20,
+      );
+
+      const lines = events.map((event) => {
+        const time = tr.formatDate(event.occurredAt, {
+          dateStyle: "short",
+          timeStyle: "short",
+        });
+        const actor = event.actorName || event.actorId || "System";
+        return `• ${time} - ${this.describeTimelineEvent(event, tr)} (${actor})`;
+      });
+
+      await this.sendMessageToTopic(
+        msg.chat.id.toString(),
+        msg.message_thread_id,
+        tr.t("history.title", { ticketId: ticket.ticketId }) +
+          "\n\n" +
+          (lines.length > 0 ? lines.join("\n") : tr.t("history.empty")),
+      );
+    } catch (error) {
+      this.logger.error("Error showing ticket history:", error);
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("history.error"));
+    }
+  }
+
+  private async handleSettings(
+    msg: TelegramBot.Message,
+    match: RegExpExecArray,
+  ) {
+    const chat = msg.chat;
+    const user = msg.from;
+    const args = (match[1] || "").trim().split(/\s+/).filter(Boolean);
+    const replyOptions = msg.message_thread_id
+      ? { message_thread_id: msg.message_thread_id }
+      : undefined;
+    const tr = await this.getTranslator(msg);
+
+    if (!user || chat.type === "private") {
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("common.groupOnly", { command: "settings" }),
+      );
+      return;
+    }
+
+    const section = args[0]?.toLowerCase();
+    try {
+      switch (section) {
+        case "attachments":
+          await this.handleAttachmentSettings(
+            msg,
+            args.slice(1),
+            tr,
+            replyOptions,
+          );
+          return;
+        case "language":
+        case "timezone":
+          await this.handleLocaleSettings(
+            msg,
+            section,
+            args.slice(1),
+            tr,
+            replyOptions,
+          );
+          return;
+      }
+
+      const menu = await this.buildSettingsMenu(chat.id.toString(), tr);
+      await this.telegramSender.sendMessage(chat.id, menu.text, {
+        ...replyOptions,
+        reply_markup: menu.replyMarkup,
+      });
+    } catch (error) {
+      this.logger.error("Error updating group settings:", error);
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("settings.error"),
+        replyOptions,
+      );
+    }
+  }
+
+  // /settings language th|en|auto และ /settings timezone <IANA>|default
+  private async handleLocaleSettings(
+    msg: TelegramBot.Message,
+    section: "language" | "timezone",
+    args: string[],
+    tr: Translator,
+    replyOptions?: { message_thread_id: number },
+  ) {
+    const chat = msg.chat;
+    const groupId = chat.id.toString();
+    const value = args[0];
+
+    let settings: EffectiveGroupSettings;
+    if (section === "language") {
+      const language = value?.toLowerCase();
+      if (
+        language !== "auto" &&
+        !SUPPORTED_LOCALES.includes(language as Locale)
+      ) {
+        await this.telegramSender.sendMessage(
+          chat.id,
+          tr.t("settings.languageUsage", {
+            locales: SUPPORTED_LOCALES.join("|"),
+          }),
+          replyOptions,
+        );
+        return;
+      }
+      settings = await this.groupSettingsService.updateSettings(groupId, {
+        language: language === "auto" ? null : language,
+      });
+    } else {
+      if (!value || (value !== "default" && !isValidTimeZone(value))) {
+        await this.telegramSender.sendMessage(
+          chat.id,
+          tr.t("settings.timezoneUsage"),
+          replyOptions,
+        );
+        return;
+      }
+      settings = await this.groupSettingsService.updateSettings(groupId, {
+        timezone: value === "default" ? null : value,
+      });
+    }
+
+    // ตอบกลับด้วยภาษา/เขตเวลาใหม่ของกลุ่ม
+    const updatedTr = this.i18n.forGroup(settings, msg.from?.language_code);
+    await this.telegramSender.sendMessage(
+      chat.id,
+      updatedTr.t("settings.localeSaved", {
+        language: settings.language || updatedTr.t("settings.auto"),
+        timezone: updatedTr.timeZone,
+      }),
+      replyOptions,
+    );
+  }
+
+  // เมนูตั้งค่าแบบปุ่ม - กดแต่ละปุ่มเพื่อวนไปค่าถัดไป
+  private async buildSettingsMenu(
+    groupId: string,
+    tr: Translator,
+  ): Promise<{
+    text: string;
+    replyMarkup: TelegramBot.InlineKeyboardMarkup;
+  }> {
+    const [settings, policy] = await Promise.all([
+      this.groupSettingsService.getSettings(groupId),
+      this.attachmentsService.getEffectivePolicy(groupId),
+    ]);
+
+    const button = (field: string, value: string) => [
+      {
+        text: tr.t(`settings.button.${field}` as TranslationKey, { value }),
+        callback_data: `settings:${field}`,
+      },
+    ];
+    const rows = [
+      button("language", settings.language || tr.t("settings.auto")),
+      button(
+        "topicCloseAction",
+        tr.t(`settings.closeAction.${settings.topicCloseAction}`),
+      ),
+    ];
+    if (settings.topicCloseAction === TopicCloseAction.DELETE) {
+      rows.push(
+        button(
+          "topicDeleteAfterDays",
+          tr.t("settings.days", { days: settings.topicDeleteAfterDays }),
+        ),
+      );
+    }
+    rows.push(
+      button(
+        "closePermission",
+        tr.t(`settings.closePermission.${settings.closePermission}`),
+      ),
+      button(
+        "archiveAfterDays",
+        tr.t("settings.days", { days: settings.archiveAfterDays }),
+      ),
+      button("defaultPriority", tr.t(`priority.${settings.defaultPriority}`)),
+      button(
+        "download",
+        tr.t(policy.downloadEnabled ? "settings.on" : "settings.off"),
+      ),
+      [{ text: tr.t("settings.closeMenu"), callback_data: "settings:close" }],
+    );
+
+    return {
+      text:
+        tr.t("settings.title") +
+        "\n\n" +
+        tr.t("settings.menuBody", { timezone: tr.timeZone }),
+      replyMarkup: { inline_keyboard: rows },
+    };
+  }
+
+  private async handleSettingsCallback(
+    callbackQuery: TelegramBot.CallbackQuery,
+    data: string,
+  ) {
+    const tr = await this.getCallbackTranslator(callbackQuery);
+    const message = callbackQuery.message;
+    if (!message) {
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.incompleteData"),
+      });
+      return;
+    }
+
+    const groupId = message.chat.id.toString();
+    const field = data.replace("settings:", "");
+    try {
+      if (field === "close") {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id);
+        await this.bot
+          .deleteMessage(message.chat.id, message.message_id)
+          .catch(() => {});
+        return;
+      }
+
+      if (field === "download") {
+        const policy =
+          await this.attachmentsService.getEffectivePolicy(groupId);
+        await this.attachmentsService.upsertPolicy(groupId, {
+          downloadEnabled: !policy.downloadEnabled,
+        });
+      } else {
+        const settings = await this.groupSettingsService.getSettings(groupId);
+        const update = this.nextSettingValue(settings, field);
+        if (!update) {
+          await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+            text: tr.t("common.incompleteData"),
+          });
+          return;
+        }
+        await this.groupSettingsService.updateSettings(groupId, update);
+      }
+
+      // แสดงเมนูใหม่ด้วยภาษาที่อาจเพิ่งเปลี่ยน
+      const updatedTr = await this.getCallbackTranslator(callbackQuery);
+      const menu = await this.buildSettingsMenu(groupId, updatedTr);
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: updatedTr.t("settings.saved"),
+      });
+      await this.bot
+        .editMessageText(menu.text, {
+          chat_id: message.chat.id,
+          message_id: message.message_id,
+          reply_markup: menu.replyMarkup,
+        })
+        .catch(() => {});
+    } catch (error) {
+      this.logger.error("Error updating group settings:", error);
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("settings.error"),
+      });
+    }
+  }
+
+  // ค่าถัดไปของ field ที่กดในเมนู (วนกลับไปค่าแรกเมื่อสุดรายการ)
+  private nextSettingValue(
+    settings: EffectiveGroupSettings,
+    field: string,
+  ): GroupSettingsUpdate | null {
+    const choices: Record<string, readonly unknown[]> = {
+      language: [null, ...SUPPORTED_LOCALES],
+      topicCloseAction: Object.values(TopicCloseAction),
+      topicDeleteAfterDays: [7, 14, 30, 90],
+      closePermission: Object.values(ClosePermission),
+      archiveAfterDays: [7, 14, 30, 60, 90],
+      defaultPriority: Object.values(TicketPriority),
+    };
+    const values = choices[field];
+    if (!values) return null;
+
+    const index = values.indexOf(
+      settings[field as keyof EffectiveGroupSettings],
+    );
+    return { [field]: values[(index + 1) % values.length] };
+  }
+
+  // /settings attachments [download|maxsize|types|block|retention] [ค่า]
+  private async handleAttachmentSettings(
+    msg: TelegramBot.Message,
+    args: string[],
+    tr: Translator,
+    replyOptions?: { message_thread_id: number },
+  ) {
+    const chat = msg.chat;
+    const groupId = chat.id.toString();
+    const [key, ...values] = args;
+    const value = values.join(" ").trim();
+
+    if (key) {
+      const update = this.parseAttachmentSetting(key.toLowerCase(), value);
+      if (!update) {
+        await this.telegramSender.sendMessage(
+          chat.id,
+          tr.t("settings.attachmentsUsage"),
+          replyOptions,
+        );
+        return;
+      }
+
+      await this.attachmentsService.upsertPolicy(groupId, update);
+    }
+
+    const policy = await this.attachmentsService.getEffectivePolicy(groupId);
+    await this.telegramSender.sendMessage(
+      chat.id,
+      (key ? tr.t("settings.saved") + "\n\n" : "") +
+        tr.t("settings.attachmentsTitle") +
+        "\n\n" +
+        tr.t("settings.attachmentsPolicy", {
+          download: tr.t(
+            policy.downloadEnabled ? "settings.on" : "settings.off",
+          ),
+          maxSize: (policy.maxFileSize / 1024 / 1024).toFixed(0),
+          types: policy.allowedMimeTypes.join(", "),
+          blocked: policy.blockedExtensions.join(", ") || "-",
+          retention:
+            policy.retentionDays > 0
+              ? tr.t("settings.days", { days: policy.retentionDays })
+              : tr.t("settings.forever"),
+        }),
+      replyOptions,
+    );
+  }
+
+  // แปลงค่าจากคำสั่ง - null ใน field หมายถึงกลับไปใช้ค่าเริ่มต้น
+  private parseAttachmentSetting(key: string, value: string): any | null {
+    const list = value
+      .split(",")
+      .map((v) => v.trim().toLowerCase())
+      .filter(Boolean);
+
+    switch (key) {
+      case "download":
+        if (value === "on" || value === "off") {
+          return { downloadEnabled: value === "on" };
+        }
+        return null;
+      case "maxsize": {
+        if (value === "default") return { maxFileSizeMb: null };
+        const size = parseInt(value, 10);
+        return size > 0 ? { maxFileSizeMb: size } : null;
+      }
+      case "types":
+        if (value === "default") return { allowedMimeTypes: null };
+        return list.length > 0 && list.every((t) => t.includes("/"))
+          ? { allowedMimeTypes: list }
+          : null;
+      case "block":
+        if (value === "default") return { blockedExtensions: null };
+        return list.length > 0
+          ? {
+              blockedExtensions: list.map((e) =>
+                e.startsWith(".") ? e : `.${e}`,
+              ),
+            }
+          : null;
+      case "retention": {
+        const days = parseInt(value, 10);
+        return days >= 0 ? { retentionDays: days } : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // ==================== Roles ====================
+
+  // ห่อ handler ของคำสั่งให้ตรวจ role ตาม COMMAND_ROLES ก่อนทำงาน
+  private guarded<T extends [TelegramBot.Message, ...any[]]>(
+    command: GuardedCommand,
+    handler: (...args: T) => Promise<unknown>,
+  ): (...args: T) => Promise<unknown> {
+    return async (...args: T) => {
+      const [msg] = args;
+      if (await this.hasCommandAccess(command, msg.chat, msg.from)) {
+        return handler.apply(this, args);
+      }
+
+      const tr = await this.getTranslator(msg);
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        this.accessDeniedText(command, tr),
+        msg.message_thread_id
+          ? { message_thread_id: msg.message_thread_id }
+          : undefined,
+      );
+    };
+  }
+
+  private async checkCallbackAccess(
+    callbackQuery: TelegramBot.CallbackQuery,
+    command: GuardedCommand,
+  ): Promise<boolean> {
+    const chat = callbackQuery.message?.chat;
+    if (
+      chat &&
+      (await this.hasCommandAccess(command, chat, callbackQuery.from))
+    ) {
+      return true;
+    }
+
+    const tr = await this.getCallbackTranslator(callbackQuery);
+    await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+      text: this.accessDeniedText(command, tr),
+      show_alert: true,
+    });
+    return false;
+  }
+
+  private async hasCommandAccess(
+    command: GuardedCommand,
+    chat: TelegramBot.Chat,
+    user?: TelegramBot.User,
+  ): Promise<boolean> {
+    if (!user) return false;
+
+    const access: CommandAccess = COMMAND_ROLES[command];
+    if (access === "operator") return this.isBotOperator(user.id);
+    // แชทส่วนตัวไม่มี role - ให้ handler ตอบเองว่าใช้ได้เฉพาะในกลุ่ม
+    if (chat.type === "private") return true;
+
+    const role = await this.getMemberRole(chat.id.toString(), user.id);
+    return access.includes(role);
+  }
+
+  private accessDeniedText(command: GuardedCommand, tr: Translator): string {
+    const access: CommandAccess = COMMAND_ROLES[command];
+    if (access === "operator") return tr.t("roles.operatorOnly");
+    return tr.t("roles.denied", {
+      command,
+      roles: access.map((role) => tr.t(`roles.${role}`)).join(", "),
+    });
+  }
+
+  private isBotOperator(userId: number): boolean {
+    const operatorIds =
+      this.configService.get<string[]>("telegram.operatorIds") || [];
+    return operatorIds.includes(userId.toString());
+  }
+
+  // role ของผู้ใช้ในกลุ่ม - ใช้ค่าที่ sync ไว้ถ้ายังไม่เก่า ไม่งั้นถาม getChatMember ใหม่
+  private async getMemberRole(
+    groupId: string,
+    userId: number,
+  ): Promise<MemberRole> {
+    const membership = await this.membershipsService.findMembership(
+      groupId,
+      userId.toString(),
+    );
+    if (this.membershipsService.isFresh(membership)) return membership.role;
+
+    try {
+      const member = await this.bot.getChatMember(groupId, userId);
+      const synced = await this.membershipsService.syncTelegramStatus(
+        groupId,
+        userId.toString(),
+        member.status,
+      );
+      return synced.role;
+    } catch (error) {
+      this.logger.warn(
+        `Could not check membership of ${userId} in ${groupId}: ${error.message}`,
+      );
+      return membership?.role ?? MemberRole.CUSTOMER;
+    }
+  }
+
+  // owner/supervisor - ใช้กับการตั้งค่ากลุ่มและ closePermission
+  private async isSupervisor(chatId: string, userId: number): Promise<boolean> {
+    const role = await this.getMemberRole(chatId, userId);
+    return role === MemberRole.OWNER || role === MemberRole.SUPERVISOR;
+  }
+
+  // /role @username <role> หรือตอบข้อความของสมาชิกด้วย /role <role>
+  private async handleRole(msg: TelegramBot.Message, match: RegExpExecArray) {
+    const args = (match[1] || "").trim().split(/\s+/).filter(Boolean);
+    const tr = await this.getTranslator(msg);
+    const reply = (text: string) =>
+      this.telegramSender.sendMessage(
+        msg.chat.id,
+        text,
+        msg.message_thread_id
+          ? { message_thread_id: msg.message_thread_id }
+          : undefined,
+      );
+
+    if (msg.chat.type === "private") {
+      await reply(tr.t("common.groupOnly", { command: "role" }));
+      return;
+    }
+
+    // ใน forum ข้อความที่ไม่ได้ reply จะอ้างถึงข้อความสร้าง topic
+    const repliedTo = msg.reply_to_message?.forum_topic_created
+      ? undefined
+      : msg.reply_to_message;
+    const roleArg = (args.pop() || "").toLowerCase();
+    const assignedRole =
+      roleArg === "reset"
+        ? null
+        : ASSIGNABLE_ROLES.find((role) => role === roleArg);
+
+    let target: { id: string; name: string } | null = null;
+    if (args[0]?.startsWith("@")) {
+      const username = args[0].slice(1);
+      const user = await this.usersService.findByUsername(username);
+      if (!user) {
+        await reply(tr.t("mention.userNotFound", { username }));
+        return;
+      }
+      target = { id: user.telegramId, name: `@${user.username}` };
+    } else if (args.length === 0 && repliedTo?.from && !repliedTo.from.is_bot) {
+      target = {
+        id: repliedTo.from.id.toString(),
+        name: repliedTo.from.username
+          ? `@${repliedTo.from.username}`
+          : repliedTo.from.first_name,
+      };
+    }
+
+    if (!target || assignedRole === undefined) {
+      await reply(tr.t("roles.usage"));
+      return;
+    }
+
+    try {
+      const membership = await this.membershipsService.assignRole(
+        msg.chat.id.toString(),
+        target.id,
+        assignedRole,
+      );
+      const role = tr.t(`roles.${membership.role}`);
+      // Admin/ผู้สร้างกลุ่มใน Telegram ใช้ role ตาม Telegram เสมอ
+      await reply(
+        assignedRole && membership.role !== assignedRole
+          ? tr.t("roles.followsTelegram", { user: target.name, role })
+          : tr.t("roles.updated", { user: target.name, role }),
+      );
+    } catch (error) {
+      this.logger.error("Error assigning member role:", error);
+      await reply(tr.t("common.error"));
+    }
+  }
+
+  private async handleExport(msg: TelegramBot.Message, match: RegExpExecArray) {
+    const formatArg = (match[1] || "").trim().toLowerCase();
+    const format = formatArg
+      ? Object.values(TranscriptFormat).find((f) => f === formatArg)
+      : TranscriptFormat.HTML;
+    const tr = await this.getTranslator(msg);
+
+    try {
+      const ticket = await this.findTicketForTopicCommand(msg, "export");
+      if (!ticket) return;
+
+      const groupId = msg.chat.id.toString();
+      if (!format) {
+        await this.sendMessageToTopic(
+          groupId,
+          msg.message_thread_id,
+          tr.t("export.invalidFormat"),
+        );
+        return;
+      }
+
+      const transcript = await this.transcriptService.buildTranscript(
+        ticket.ticketId,
+        format,
+      );
+      await this.telegramSender.sendDocument(
+        groupId,
+        Buffer.from(transcript.content, "utf-8"),
+        {
+          message_thread_id: msg.message_thread_id,
+          caption: tr.t("export.caption", { ticketId: ticket.ticketId }),
+        } as any,
+        {
+          filename: transcript.fileName,
+          contentType: transcript.contentType,
+        },
+      );
+    } catch (error) {
+      this.logger.error("Error exporting ticket transcript:", error);
+      this.reportError("export_transcript", error, {
+        groupId: msg.chat.id.toString(),
+        topicId: msg.message_thread_id,
+        userId: msg.from?.id.toString(),
+      });
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("export.error"));
+    }
+  }
+
+  private describeTimelineEvent(event: TicketEvent, tr: Translator): string {
+    const changes = event.changes || {};
+    const details = event.details || {};
+
+    switch (event.event) {
+      case HookEvent.TICKET_CREATED:
+        return tr.t("timeline.created", { title: details.title });
+      case HookEvent.TICKET_UPDATED: {
+        const parts = Object.entries(changes).map(([field, change]) => {
+          if (field === "status") {
+            return tr.t("timeline.status", {
+              from: this.getStatusLabel(change.from, tr),
+              to: this.getStatusLabel(change.to, tr),
+            });
+          }
+          if (field === "assignedTo" && !change.to) {
+            return tr.t("timeline.unassigned");
+          }
+          return `${field}: ${change.from ?? "-"} → ${change.to ?? "-"}`;
+        });
+        return `✏️ ${parts.join(", ")}`;
+      }
+      case HookEvent.TICKET_CLOSED:
+        return tr.t("timeline.closed");
+      case HookEvent.TICKET_REOPENED:
+        return tr.t("timeline.reopened");
+      case HookEvent.TICKET_ASSIGNED: {
+        const assignee = details.assignee || {};
+        return tr.t("timeline.assigned", {
+          name: assignee.firstName || assignee.username || assignee.telegramId,
+        });
+      }
+      case HookEvent.TICKET_SLA_WARNING:
+        return tr.t("timeline.slaWarning", { target: details.target });
+      case HookEvent.TICKET_SLA_BREACHED:
+        return tr.t("timeline.slaBreached", { target: details.target });
+      case HookEvent.USER_MENTIONED: {
+        const user = details.mentionedUser || {};
+        return tr.t("timeline.mentioned", {
+          name: user.username
+            ? "@" + user.username
+            : user.firstName || user.telegramId,
+        });
+      }
+      case HookEvent.TOPIC_CREATED:
+        return tr.t("timeline.topicCreated", { name: details.name });
+      case HookEvent.TOPIC_LINKED:
+        return tr.t("timeline.topicLinked", {
+          topics: (details.topics || []).map((t) => t.topicId).join(" ↔ "),
+        });
+      case HookEvent.TOPIC_UNLINKED:
+        return tr.t("timeline.topicUnlinked", {
+          topics: (details.topics || []).map((t) => t.topicId).join(" ↮ "),
+        });
+      default:
+        return event.event;
+    }
+  }
+
+  // /reply <shortcut> ส่งข้อความสำเร็จรูป, /reply เฉยๆ แสดงรายการให้เลือก
+  private async handleReply(msg: TelegramBot.Message, match: RegExpExecArray) {
+    const user = msg.from;
+    const shortcut = (match[1] || "").trim().split(" ")[0];
+    const tr = await this.getTranslator(msg);
+
+    try {
+      const ticket = await this.findTicketForTopicCommand(msg, "reply");
+      if (!ticket) return;
+
+      const groupId = msg.chat.id.toString();
+      const messageThreadId = msg.message_thread_id;
+
+      if (ticket.status === TicketStatus.CLOSED) {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("reply.closedTicket"),
+        );
+        return;
+      }
+
+      if (!shortcut) {
+        const cannedResponses = await this.cannedResponsesService.findByGroup(
+          groupId,
+          true,
+        );
+        if (cannedResponses.length === 0) {
+          await this.sendMessageToTopic(
+            groupId,
+            messageThreadId,
+            tr.t("reply.none"),
+          );
+          return;
+        }
+
+        const buttons = cannedResponses.slice(0, 20).map((response) => [
+          {
+            text: `💬 ${response.shortcut}${response.title ? ` - ${response.title}` : ""}`,
+            callback_data: `reply:${(response as any)._id.toString()}`,
+          },
+        ]);
+        buttons.push([
+          { text: tr.t("common.cancel"), callback_data: "reply:cancel" },
+        ]);
+
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("reply.choose"),
+          { reply_markup: { inline_keyboard: buttons } },
+        );
+        return;
+      }
+
+      const cannedResponse = await this.cannedResponsesService.findByShortcut(
+        groupId,
+        shortcut,
+      );
+      if (!cannedResponse?.isActive) {
+        await this.sendMessageToTopic(
+          groupId,
+          messageThreadId,
+          tr.t("reply.notFound", { shortcut }),
+        );
+        return;
+      }
+
+      await this.postCannedResponse(
+        cannedResponse,
+        ticket,
+        groupId,
+        messageThreadId,
+        user,
+      );
+    } catch (error) {
+      this.logger.error("Error sending canned response:", error);
+      this.reportError("canned_response", error, {
+        groupId: msg.chat.id.toString(),
+        topicId: msg.message_thread_id,
+        userId: user?.id.toString(),
+      });
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("reply.error"));
+    }
+  }
+
+  private async handleReplyCallback(
+    callbackQuery: TelegramBot.CallbackQuery,
+    data: string,
+  ) {
+    const tr = await this.getCallbackTranslator(callbackQuery);
+    try {
+      const message = callbackQuery.message;
+      const messageThreadId = (message as any)?.message_thread_id;
+      const chat = message?.chat;
+      const user = callbackQuery.from;
+
+      // ลบเมนูเดิม (ผ่านการตรวจสิทธิ์ใน handleCallbackQuery แล้ว)
+      if (message) {
+        await this.bot
+          .deleteMessage(message.chat.id, message.message_id)
+          .catch(() => {});
+      }
+
+      if (data === "reply:cancel") {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("reply.cancelled"),
+        });
+        return;
+      }
+
+      if (!messageThreadId || !chat || !user) {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.incompleteData"),
+        });
+        return;
+      }
+
+      const groupId = chat.id.toString();
+      const cannedResponse = await this.cannedResponsesService.findById(
+        data.replace("reply:", ""),
+      );
+      if (!cannedResponse?.isActive || cannedResponse.groupId !== groupId) {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("reply.missing"),
+        });
+        return;
+      }
+
+      const ticket = await this.ticketService.findByTopicId(
+        messageThreadId,
+        groupId,
+      );
+      if (!ticket || ticket.status === TicketStatus.CLOSED) {
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("reply.noOpenTicket"),
+        });
+        return;
+      }
+
+      await this.postCannedResponse(
+        cannedResponse,
+        ticket,
+        groupId,
+        messageThreadId,
+        user,
+      );
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("reply.sent"),
+      });
+    } catch (error) {
+      this.logger.error("Error handling reply callback:", error);
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
+      });
+    }
+  }
+
+  // ส่งข้อความสำเร็จรูปในนามของ agent และบันทึกเป็นข้อความของ ticket
+  private async postCannedResponse(
+    cannedResponse: CannedResponse,
+    ticket: Ticket,
+    groupId: string,
+    messageThreadId: number,
+    user: TelegramBot.User,
+  ) {
+    const text = await this.cannedResponsesService.render(
+      cannedResponse.content,
+      ticket,
+    );
+    const sentMessage = await this.sendMessageToTopic(
+      groupId,
+      messageThreadId,
+      text,
+    );
+
+    await this.messagesService.saveMessage(
+      {
+        telegramMessageId: sentMessage.message_id,
+        messageType: MessageType.TEXT,
+        text,
+        senderId: user.id.toString(),
+        senderUsername: user.username,
+        senderFirstName: user.first_name,
+        senderLastName: user.last_name,
+        groupId,
+        topicId: messageThreadId,
+        ticketId: ticket.ticketId,
+      },
+      this.toActor(user),
+    );
+    await this.ticketService.incrementMessageCount(ticket.ticketId);
+    await this.cannedResponsesService.incrementUsage(
+      (cannedResponse as any)._id.toString(),
+    );
+  }
+
+  // หา ticket ของ topic ที่พิมพ์คำสั่ง - แจ้งผู้ใช้และคืน null ถ้าใช้คำสั่งผิดที่
+  private async findTicketForTopicCommand(
+    msg: TelegramBot.Message,
+    command: string,
+  ): Promise<Ticket | null> {
+    const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
+    if (!msg.from || chat.type === "private") {
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("common.groupOnly", { command }),
+      );
+      return null;
+    }
+
+    const messageThreadId = msg.message_thread_id;
+    if (!messageThreadId) {
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("common.ticketTopicOnly", { command }),
+      );
+      return null;
+    }
+
+    const ticket = await this.ticketService.findByTopicId(
+      messageThreadId,
+      chat.id.toString(),
+    );
+    if (!ticket) {
+      await this.sendMessageToTopic(
+        chat.id.toString(),
+        messageThreadId,
+        tr.t("common.noTicketForTopic"),
+      );
+      return null;
+    }
+
+    return ticket;
+  }
+
+  // เปลี่ยนสถานะจากคำสั่งใน topic - ข้อความแจ้งผลส่งจาก handleStatusChangedEvent
+  private async changeTicketStatusFromTopic(
+    ticket: Ticket,
+    toStatus: TicketStatus,
+    user: TelegramBot.User,
+    groupId: string,
+    messageThreadId: number,
+    reason?: string,
+  ): Promise<boolean> {
+    try {
+      await this.ticketService.transitionStatus(
+        ticket.ticketId,
+        toStatus,
+        this.toActor(user),
+        reason,
+      );
+      return true;
+    } catch (error) {
+      if (!(error instanceof BadRequestException)) throw error;
+
+      const tr = await this.i18n.forChat(groupId, user.language_code);
+      await this.sendMessageToTopic(
+        groupId,
+        messageThreadId,
+        tr.t("status.transitionFailed", {
+          from: this.getStatusLabel(ticket.status, tr),
+          to: this.getStatusLabel(toStatus, tr),
+        }),
+      );
+      return false;
+    }
+  }
+
+  private getStatusLabel(status: string, tr: Translator): string {
+    return Object.values(TicketStatus).includes(status as TicketStatus)
+      ? tr.t(`status.${status as TicketStatus}`)
+      : status;
+  }
+
+  // ส่งข้อความแจ้งทุก topic ของ ticket ตามภาษาของแต่ละกลุ่ม (topic ที่ส่งไม่ได้ข้ามไป)
+  private async announceToTicketTopics(
+    ticket: Ticket,
+    buildText: (tr: Translator) => string | FormattedText,
+  ) {
+    for (const topic of ticket.topics) {
+      const text = buildText(await this.i18n.forChat(topic.groupId));
+      await this.sendMessageToTopic(topic.groupId, topic.topicId, text).catch(
+        (error) => {
+          this.logger.warn(
+            `Could not post in topic ${topic.topicId}@${topic.groupId}: ${error.message}`,
+          );
+        },
+      );
+    }
+  }
+
+  // ticket.updated ที่เปลี่ยน status
+  private async handleStatusChangedEvent(event: DomainEvent) {
+    const ticket = await this.ticketService.findByTicketId(event.ticketId);
+    if (!ticket) return;
+
+    const { from, to } = event.data.changes.status;
+    await this.announceToTicketTopics(
+      ticket,
+      (tr) =>
+        tr.t("status.announced", {
+          ticketId: ticket.ticketId,
+          from: this.getStatusLabel(from, tr),
+          to: this.getStatusLabel(to, tr),
+          actor: this.getActorName(event.actor),
+        }) +
+        (event.data.reason
+          ? "\n" + tr.t("common.reason", { reason: event.data.reason })
+          : ""),
+    );
+
+    if (to === TicketStatus.RESOLVED) {
+      await this.notifyCustomer(ticket, (tr) =>
+        tr.t("customer.resolved", { ticketId: ticket.ticketId }),
+      );
+    }
+  }
+
+  // message.sent ใน topic หลักของ ticket จากแชทส่วนตัว - ส่งคำตอบของทีมงานกลับไปหาลูกค้า
+  // ยกเว้นคำสั่งและโน้ตภายใน; topic ที่ link ไว้ในกลุ่มอื่นไม่ส่งต่อเลย
+  private async handleCustomerReplyEvent(event: DomainEvent) {
+    const { groupId, topicId, messageId, messageType, text, caption, sender } =
+      event.data;
+    if (
+      !event.ticketId ||
+      text?.startsWith("/") ||
+      this.isInternalNote(text ?? caption)
+    ) {
+      return;
+    }
+
+    const ticket = await this.ticketService.findByTicketId(event.ticketId);
+    if (
+      !ticket?.customerChatId ||
+      ticket.source !== TicketSource.PRIVATE_CHAT ||
+      sender?.id === ticket.createdBy
+    ) {
+      return;
+    }
+
+    const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+    if (primaryTopic?.groupId !== groupId || primaryTopic.topicId !== topicId) {
+      return;
+    }
+
+    const customerSender = this.telegramSender.once(
+      `customer-reply:${groupId}:${messageId}`,
+    );
+    try {
+      if (text && messageType === MessageType.TEXT) {
+        const tr = await this.getUserTranslator(ticket.createdBy);
+        await customerSender.sendMessage(
+          ticket.customerChatId,
+          `💬 ${sender?.firstName || sender?.username || tr.t("customer.staff")}:\n${text}`,
+        );
+      } else {
+        await customerSender.copyMessage(
+          ticket.customerChatId,
+          groupId,
+          messageId,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Could not relay message ${messageId} to customer of ${ticket.ticketId}: ${error.message}`,
+      );
+      const tr = await this.i18n.forChat(groupId);
+      await this.sendMessageToTopic(
+        groupId,
+        topicId,
+        tr.t("customer.relayFailed"),
+      ).catch(() => undefined);
+    }
+  }
+
+  private isInternalNote(text?: string): boolean {
+    return !!text?.trimStart().toLowerCase().startsWith(INTERNAL_NOTE_PREFIX);
+  }
+
+  // ลูกค้าคือผู้สร้าง ticket จากแชทส่วนตัว - ใช้ภาษาของลูกค้า
+  private async notifyCustomer(
+    ticket: Ticket,
+    buildText: (tr: Translator) => string | FormattedText,
+  ) {
+    if (ticket.source !== TicketSource.PRIVATE_CHAT || !ticket.customerChatId) {
+      return;
+    }
+    const text = buildText(await this.getUserTranslator(ticket.createdBy));
+    await (
+      text instanceof FormattedText
+        ? this.sendFormatted(ticket.customerChatId, text)
+        : this.telegramSender.sendMessage(ticket.customerChatId, text)
+    ).catch((error) => {
+      this.logger.warn(
+        `Could not notify customer of ${ticket.ticketId}: ${error.message}`,
+      );
+    });
+  }
+
+  // ticket.closed - แจ้งและปิด forum topics ตาม close policy ของแต่ละกลุ่ม
+  private async handleTicketClosedEvent(event: DomainEvent) {
+    const ticket = await this.ticketService.findByTicketId(event.ticketId);
+    if (!ticket) return;
+
+    const duration = event.data.duration;
+    const buildClosedMessage = (tr: Translator, retentionDays?: number) =>
+      new MessageBuilder()
+        .line("✅ ", bold(tr.t("close.title", { ticketId: ticket.ticketId })))
+        .line("📝 ", ticket.title)
+        .blank()
+        .line(
+          tr.t("close.closedAt", { date: tr.formatDate(event.data.closedAt) }),
+        )
+        .line(tr.t("close.closedBy", { actor: this.getActorName(event.actor) }))
+        .line(
+          tr.t("close.duration", {
+            duration:
+              duration > 0
+                ? tr.t("close.hours", { hours: duration })
+                : tr.t("close.underAnHour"),
+          }),
+        )
+        .blank()
+        .line(tr.t("close.reopenHint"))
+        .lineIf(
+          retentionDays !== undefined,
+          "\n" + tr.t("close.deleteNotice", { days: retentionDays }),
+        )
+        .build();
+
+    const policies = new Map<
+      string,
+      { action: TopicCloseAction; deleteAfterDays: number; tr: Translator }
+    >();
+    for (const topic of ticket.topics) {
+      if (!policies.has(topic.groupId)) {
+        const settings = await this.groupSettingsService.getSettings(
+          topic.groupId,
+        );
+        policies.set(topic.groupId, {
+          action: settings.topicCloseAction,
+          deleteAfterDays: settings.topicDeleteAfterDays,
+          tr: this.i18n.forGroup(settings),
+        });
+      }
+      const policy = policies.get(topic.groupId);
+
+      await this.sendMessageToTopic(
+        topic.groupId,
+        topic.topicId,
+        buildClosedMessage(
+          policy.tr,
+          policy.action === TopicCloseAction.DELETE
+            ? policy.deleteAfterDays
+            : undefined,
+        ),
+      ).catch((error) => {
+        this.logger.warn(
+          `Could not post in topic ${topic.topicId}@${topic.groupId}: ${error.message}`,
+        );
+      });
+
+      if (
+        policy.action === TopicCloseAction.RENAME &&
+        !topic.name.startsWith(CLOSED_TOPIC_PREFIX)
+      ) {
+        await this.renameForumTopicSafely(
+          topic,
+          (CLOSED_TOPIC_PREFIX + topic.name).substring(0, 128),
+        );
+      }
+
+      try {
+        await this.closeForumTopic(topic.groupId, topic.topicId);
+      } catch (error) {
+        if (!error.message?.includes("TOPIC_NOT_MODIFIED")) {
+          this.logger.warn(
+            `Could not close topic ${topic.topicId}@${topic.groupId}: ${error.message}`,
+          );
+        }
+      }
+      await this.topicsService.deactivateTopic(topic.topicId, topic.groupId);
+    }
+
+    // ticket ที่สร้าง topic ไม่สำเร็จ ลูกค้าได้รับแจ้ง customer.unavailable ไปแล้ว
+    if (ticket.topics.length > 0) {
+      await this.notifyCustomer(ticket, (tr) =>
+        tr.t("customer.closed", { ticketId: ticket.ticketId }),
+      );
+    }
+  }
+
+  // ticket.reopened - เปิด forum topics เดิม หรือสร้าง topic หลักใหม่ถ้าถูกลบไปแล้ว
+  private async handleTicketReopenedEvent(event: DomainEvent) {
+    const ticket = await this.ticketService.findByTicketId(event.ticketId);
+    if (!ticket) return;
+
+    let recreated = false;
+    for (const topic of ticket.topics) {
+      try {
+        await this.reopenForumTopic(topic.groupId, topic.topicId);
+      } catch (error) {
+        const message = error.message || "";
+        const isMissing =
+          message.includes("TOPIC_ID_INVALID") ||
+          message.includes("TOPIC_DELETED") ||
+          message.includes("message thread not found");
+
+        if (isMissing) {
+          if (topic.isPrimary) {
+            recreated = await this.recreatePrimaryTopic(
+              ticket,
+              topic,
+              event.actor,
+            );
+          } else {
+            await this.topicsService.detachTopic(
+              ticket.ticketId,
+              topic.topicId,
+              topic.groupId,
+            );
+          }
+          continue;
+        }
+
+        if (!message.includes("TOPIC_NOT_MODIFIED")) {
+          this.logger.warn(
+            `Could not reopen topic ${topic.topicId}@${topic.groupId}: ${message}`,
+          );
+        }
+      }
+
+      await this.topicsService.updateTopicActiveStatus(
+        topic.topicId,
+        topic.groupId,
+        true,
+      );
+      if (topic.name.startsWith(CLOSED_TOPIC_PREFIX)) {
+        await this.renameForumTopicSafely(
+          topic,
+          topic.name.substring(CLOSED_TOPIC_PREFIX.length),
+        );
+      }
+    }
+
+    const reopenedTicket = await this.ticketService.findByTicketId(
+      event.ticketId,
+    );
+    await this.announceToTicketTopics(reopenedTicket, (tr) =>
+      [
+        tr.t("reopen.announced", { ticketId: ticket.ticketId }),
+        "",
+        tr.t("reopen.by", { actor: this.getActorName(event.actor) }),
+        event.data.reason
+          ? tr.t("common.reason", { reason: event.data.reason })
+          : null,
+        recreated ? tr.t("reopen.recreated") : null,
+        tr.t("reopen.historyKept"),
+      ]
+        .filter((line) => line !== null)
+        .join("\n"),
+    );
+  }
+
+  // เปลี่ยนชื่อ topic ทั้งใน Telegram และ database (ล้มเหลวได้โดยไม่กระทบการปิด/เปิด ticket)
+  private async renameForumTopicSafely(
+    topic: { topicId: number; groupId: string },
+    name: string,
+  ) {
+    try {
+      await this.editForumTopic(topic.groupId, topic.topicId, name);
+      await this.topicsService.renameTopic(topic.topicId, topic.groupId, name);
+    } catch (error) {
+      this.logger.warn(
+        `Could not rename topic ${topic.topicId}@${topic.groupId}: ${error.message}`,
+      );
+    }
+  }
+
+  private async recreatePrimaryTopic(
+    ticket: Ticket,
+    oldTopic: { topicId: number; groupId: string },
+    actor?: DomainEventActor,
+  ): Promise<boolean> {
+    const topicResult = await this.createForumTopic(
+      oldTopic.groupId,
+      ticket.title,
+    );
+    if (!topicResult.success) {
+      this.logger.warn(
+        `Could not recreate primary topic for ticket ${ticket.ticketId}: ${topicResult.error}`,
+      );
+      return false;
+    }
+
+    await this.topicsService.detachTopic(
+      ticket.ticketId,
+      oldTopic.topicId,
+      oldTopic.groupId,
+    );
+    await this.topicsService.createTopic(
+      {
+        telegramTopicId: topicResult.message_thread_id,
+        name: ticket.title,
+        groupId: oldTopic.groupId,
+        ticketId: ticket.ticketId,
+        createdBy: ticket.createdBy,
+        isPrimary: true,
+      },
+      actor,
+    );
+
+    return true;
+  }
+
+  // ชื่อ topic หลัก = ชื่อ ticket + ผู้รับผิดชอบ (Telegram จำกัดชื่อไว้ 128 ตัวอักษร)
+  private async refreshPrimaryTopicName(ticket: Ticket, assigneeName?: string) {
+    const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+    if (!primaryTopic) return;
+
+    const suffix = assigneeName ? ` | 👷 ${assigneeName.substring(0, 32)}` : "";
+    const name = ticket.title.substring(0, 128 - suffix.length) + suffix;
+    if (name === primaryTopic.name) return;
+
+    try {
+      await this.editForumTopic(
+        primaryTopic.groupId,
+        primaryTopic.topicId,
+        name,
+      );
+      await this.topicsService.renameTopic(
+        primaryTopic.topicId,
+        primaryTopic.groupId,
+        name,
+      );
+    } catch (error) {
+      if (!error.message?.includes("TOPIC_NOT_MODIFIED")) {
+        this.logger.warn(
+          `Could not rename topic ${primaryTopic.topicId} for ticket ${ticket.ticketId}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private async notifyAssignee(
+    assignee: { telegramId: string; username?: string },
+    ticket: Ticket,
+    assignerName: string,
+  ): Promise<void> {
+    const tr = await this.getUserTranslator(assignee.telegramId);
+    const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+    const link = primaryTopic
+      ? this.buildTopicLink(primaryTopic.groupId, primaryTopic.topicId)
+      : null;
+
+    try {
+      await this.telegramSender.sendMessage(
+        assignee.telegramId,
+        tr.t("assign.dm", {
+          ticketId: ticket.ticketId,
+          title: ticket.title,
+          assigner: assignerName,
+        }) +
+          "\n" +
+          (link ? `🔗 ${link}\n` : "") +
+          "\n" +
+          tr.t("assign.dmHint"),
+      );
+    } catch (error) {
+      // ถ้าส่งข้อความส่วนตัวไม่ได้ ไม่ต้อง throw error เพราะเป็นเรื่องปกติ
+      this.logger.log(
+        `Could not send private message to user ${assignee.username || assignee.telegramId}:`,
+        error.message,
+      );
+    }
+  }
+
+  private getActorName(actor?: DomainEventActor): string {
+    if (!actor) return "System";
+    return actor.firstName || actor.username || actor.id;
+  }
+
+  // ลิงก์ไปยัง topic (ใช้ได้เฉพาะ supergroup ที่ id ขึ้นต้นด้วย -100)
+  private buildTopicLink(groupId: string, topicId: number): string | null {
+    if (!groupId.startsWith("-100")) return null;
+    return `https://t.me/c/${groupId.substring(4)}/${topicId}`;
+  }
+
+  private async handleChatMemberUpdate(update: any) {
+    const chat = update.chat;
+
+    if (update?.new_chat_member?.user?.id) {
+      this.logger.log(
+        `[${new Date().toISOString()}] API Call: getMe (chat member update)`,
+      );
+      const startTime = Date.now();
+
+      const me = await this.bot.getMe();
+      const duration = Date.now() - startTime;
+
+      this.logger.log(
+        `[${new Date().toISOString()}] API Response: getMe - Duration: ${duration}ms, botId: ${me.id}`,
+      );
+
+      if (update.new_chat_member.user.id === me.id) {
+        const status = update.new_chat_member.status;
+        const isAdmin = status === "administrator";
+
+        if (chat) {
+          await this.groupsService.findOrCreateGroup({
+            telegramGroupId: chat.id.toString(),
+            title: chat.title || "Unknown Group",
+            type: chat.type,
+            botIsAdmin: isAdmin,
+            supportTopicsEnabled: (chat as any).has_topics_enabled || false,
+          });
+        }
+      }
+    }
+  }
+
+  private async handleMessage(msg: TelegramBot.Message) {
+    const message = msg;
+    const user = msg.from;
+    const chat = msg.chat;
+
+    // Check conversation state first
+    if (user && chat && !user.is_bot) {
+      const input = this.toConversationInput(msg);
+      // เฉพาะ topic ที่เริ่ม wizard - ข้อความใน topic อื่นทำงานตามปกติ
+      const state = input
+        ? await this.conversationsService.findActive(
+            chat.id.toString(),
+            user.id.toString(),
+            msg.message_thread_id,
+          )
+        : null;
+
+      if (state) {
+        if (
+          input.attachment &&
+          !(await this.acceptConversationAttachment(msg, state))
+        ) {
+          return;
+        }
+        await this.handleConversationInput(state, input, user);
+        return;
+      }
+    }
+
+    // 📥 Log incoming message
+    const messageThreadId = (message as any)?.message_thread_id;
+    const chatType = msg.chat?.type || "unknown";
+    const messageText =
+      msg.text?.substring(0, 100) +
+      (msg.text && msg.text.length > 100 ? "..." : "");
+    const userName = user?.username || user?.first_name || "Unknown";
     const hasAttachment = !!(
       msg.photo ||
       msg.document ||
@@ -1852,119 +4773,564 @@ export class BotService implements OnModuleInit {
         languageCode: user.language_code,
       });
 
-      // ตรวจสอบว่าเป็นข้อความใน topic หรือไม่
-      const messageThreadId = message?.message_thread_id;
-      if (messageThreadId) {
-        await this.handleTopicMessage(msg, messageThreadId);
-      }
+      // ตรวจสอบว่าเป็นข้อความใน topic หรือไม่
+      const messageThreadId = message?.message_thread_id;
+      if (messageThreadId) {
+        await this.handleTopicMessage(msg, messageThreadId);
+      }
+    } else if (user && !user.is_bot && !msg.text?.startsWith("/")) {
+      await this.handleCustomerMessage(msg);
+    }
+  }
+
+  // กลุ่มที่รับเรื่องจากแชทส่วนตัว: กลุ่มที่ user pair ไว้ หรือ SUPPORT_GROUP_ID
+  private async getCustomerSupportGroup(
+    telegramId: string,
+  ): Promise<string | null> {
+    const defaultGroupId =
+      await this.usersService.getUserDefaultGroup(telegramId);
+    return (
+      defaultGroupId ||
+      this.configService.get<string>("telegram.supportGroupId") ||
+      null
+    );
+  }
+
+  // ข้อความจากลูกค้าในแชทส่วนตัว - เปิด ticket ใหม่หรือส่งต่อเข้า topic ของ ticket เดิม
+  private async handleCustomerMessage(msg: TelegramBot.Message) {
+    const user = msg.from;
+    const chat = msg.chat;
+    if (!user) return;
+    const tr = this.i18n.forLanguage(user.language_code);
+
+    const supportGroupId = await this.getCustomerSupportGroup(
+      user.id.toString(),
+    );
+    if (!supportGroupId) {
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("customer.noSupportGroup"),
+      );
+      return;
+    }
+
+    try {
+      await this.usersService.findOrCreateUser({
+        telegramId: user.id.toString(),
+        username: user.username || user.first_name || "Unknown",
+        firstName: user.first_name,
+        lastName: user.last_name,
+        isBot: user.is_bot,
+        languageCode: user.language_code,
+      });
+
+      let ticket = await this.ticketService.findActiveCustomerTicket(
+        chat.id.toString(),
+      );
+      let isNewTicket = false;
+
+      if (ticket?.status === TicketStatus.RESOLVED) {
+        ticket = await this.ticketService.reopenTicket(
+          ticket.ticketId,
+          this.toActor(user),
+          (await this.i18n.forChat(ticket.groupId)).t(
+            "customer.followUpReason",
+          ),
+        );
+      }
+
+      if (!ticket) {
+        ticket = await this.createCustomerTicket(msg, supportGroupId);
+        if (!ticket) {
+          await this.telegramSender.sendMessage(
+            chat.id,
+            tr.t("customer.unavailable"),
+          );
+          return;
+        }
+        isNewTicket = true;
+      }
+
+      const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+      if (!primaryTopic) {
+        this.logger.warn(
+          `Customer ticket ${ticket.ticketId} has no primary topic - message not relayed`,
+        );
+        await this.telegramSender.sendMessage(
+          chat.id,
+          tr.t("customer.unavailable"),
+        );
+        return;
+      }
+
+      await this.relayCustomerMessage(msg, ticket, primaryTopic);
+
+      if (isNewTicket) {
+        await this.telegramSender.sendMessage(
+          chat.id,
+          tr.t("customer.received", { ticketId: ticket.ticketId }),
+        );
+      }
+    } catch (error) {
+      this.logger.error("Error handling customer message:", error);
+      this.reportError("customer_intake", error, {
+        groupId: supportGroupId,
+        customerChatId: chat.id.toString(),
+      });
+      await this.telegramSender.sendMessage(
+        chat.id,
+        tr.t("customer.sendFailed"),
+      );
+    }
+  }
+
+  private async createCustomerTicket(
+    msg: TelegramBot.Message,
+    groupId: string,
+  ): Promise<Ticket | null> {
+    const user = msg.from;
+    const customerName = [user.first_name, user.last_name]
+      .filter(Boolean)
+      .join(" ");
+    // title และข้อความใน topic ใช้ภาษาของกลุ่มที่รับเรื่อง
+    const tr = await this.i18n.forChat(groupId);
+    const firstLine = (msg.text || msg.caption || "").split("\n")[0].trim();
+    const title = (
+      firstLine || tr.t("customer.defaultTitle", { name: customerName })
+    ).substring(0, 100);
+    const actor = this.toActor(user);
+    const { defaultPriority } =
+      await this.groupSettingsService.getSettings(groupId);
+
+    const ticket = await this.ticketService.createTicket(
+      {
+        title,
+        description: msg.text || msg.caption,
+        priority: defaultPriority,
+        groupId,
+        createdBy: user.id.toString(),
+        source: TicketSource.PRIVATE_CHAT,
+        customerChatId: msg.chat.id.toString(),
+      },
+      actor,
+    );
+
+    const topicName = `💬 ${ticket.ticketId}: ${title}`.substring(0, 128);
+    const topicResult = await this.createForumTopic(groupId, topicName);
+    if (!topicResult.success || !topicResult.message_thread_id) {
+      this.logger.error(
+        `Could not create topic for customer ticket ${ticket.ticketId}: ${topicResult.error}`,
+      );
+      // ปิด ticket ที่ไม่มี topic ไว้ ไม่งั้นข้อความถัดไปของลูกค้าจะเข้า ticket นี้และไม่ถึงทีมงาน
+      await this.ticketService
+        .closeTicket(ticket.ticketId)
+        .catch((error) =>
+          this.logger.warn(
+            `Could not close customer ticket ${ticket.ticketId}: ${error.message}`,
+          ),
+        );
+      return null;
+    }
+
+    await this.topicsService.createTopic(
+      {
+        telegramTopicId: topicResult.message_thread_id,
+        name: topicName,
+        groupId,
+        ticketId: ticket.ticketId,
+        createdBy: user.id.toString(),
+        isPrimary: true,
+      },
+      actor,
+    );
+    await this.ticketService.addParticipant(
+      ticket.ticketId,
+      user.id.toString(),
+    );
+
+    await this.sendMessageToTopic(
+      groupId,
+      topicResult.message_thread_id,
+      tr.t("customer.topicHeader", {
+        ticketId: ticket.ticketId,
+        customer: customerName + (user.username ? ` (@${user.username})` : ""),
+      }),
+    );
+
+    return this.ticketService.findByTicketId(ticket.ticketId);
+  }
+
+  // คัดลอกข้อความของลูกค้าเข้า topic หลักและบันทึกเป็นข้อความของ ticket
+  private async relayCustomerMessage(
+    msg: TelegramBot.Message,
+    ticket: Ticket,
+    topic: { groupId: string; topicId: number },
+  ) {
+    const user = msg.from;
+    const customerName =
+      user.first_name ||
+      user.username ||
+      (await this.i18n.forChat(topic.groupId)).t("customer.name");
+
+    // update เดิมที่ถูกประมวลผลซ้ำต้องไม่ส่งข้อความซ้ำเข้า topic
+    const dedupKey = `relay:${msg.chat.id}:${msg.message_id}`;
+    let relayedMessageId: number;
+    if (msg.text) {
+      const sentMessage = await this.sendMessageToTopic(
+        topic.groupId,
+        topic.topicId,
+        `👤 ${customerName}:\n${msg.text}`,
+        undefined,
+        dedupKey,
+      );
+      relayedMessageId = sentMessage.message_id;
+    } else {
+      const copied = await this.telegramSender
+        .once(dedupKey)
+        .copyMessage(topic.groupId, msg.chat.id, msg.message_id, {
+          message_thread_id: topic.topicId,
+          caption: `👤 ${customerName}${msg.caption ? `:\n${msg.caption}` : ""}`,
+        } as any);
+      relayedMessageId = copied.message_id;
+    }
+
+    await this.messagesService.saveMessage(
+      {
+        telegramMessageId: relayedMessageId,
+        messageType: this.messagesService.determineMessageType(msg),
+        text: msg.text,
+        caption: msg.caption,
+        senderId: user.id.toString(),
+        senderUsername: user.username,
+        senderFirstName: user.first_name,
+        senderLastName: user.last_name,
+        groupId: topic.groupId,
+        topicId: topic.topicId,
+        ticketId: ticket.ticketId,
+      },
+      this.toActor(user),
+    );
+    await this.topicsService.incrementMessageCount(
+      topic.topicId,
+      topic.groupId,
+    );
+  }
+
+  // แปลงข้อความเป็น input ของ flow - คำสั่งอื่นนอกจาก /skip /done /cancel ไม่ถือเป็นคำตอบ
+  private toConversationInput(
+    msg: TelegramBot.Message,
+  ): ConversationInput | null {
+    const text = msg.text?.trim();
+    if (text?.startsWith("/")) {
+      const command = text.split(/[\s@]/)[0].substring(1).toLowerCase();
+      return command === "skip" || command === "done" || command === "cancel"
+        ? { command }
+        : null;
+    }
+    if (text) return { text };
+
+    const attachment = this.extractConversationAttachment(msg);
+    return attachment ? { attachment } : null;
+  }
+
+  private extractConversationAttachment(
+    msg: TelegramBot.Message,
+  ): ConversationAttachment | null {
+    const found = this.getConversationFile(msg);
+    if (!found) return null;
+    return {
+      type: found.type,
+      fileId: found.file.file_id,
+      fileName: found.type === "document" ? found.file.file_name : undefined,
+      messageId: msg.message_id,
+    };
+  }
+
+  // ไฟล์ที่ wizard รับได้ พร้อมข้อมูลจาก Telegram (file_size, mime_type) สำหรับ validate
+  private getConversationFile(
+    msg: TelegramBot.Message,
+  ): { type: string; file: any } | null {
+    if (msg.photo && msg.photo.length > 0) {
+      return { type: "photo", file: msg.photo[msg.photo.length - 1] };
+    }
+    if (msg.document) return { type: "document", file: msg.document };
+    if (msg.video) return { type: "video", file: msg.video };
+    if (msg.audio) return { type: "audio", file: msg.audio };
+    if (msg.voice) return { type: "voice", file: msg.voice };
+    return null;
+  }
+
+  // ตรวจไฟล์ตอน step รับไฟล์ - ไฟล์ที่ไม่ผ่าน policy ไม่ถูกเก็บใน wizard
+  private async acceptConversationAttachment(
+    msg: TelegramBot.Message,
+    state: ConversationState,
+  ): Promise<boolean> {
+    const found = this.getConversationFile(msg);
+    if (
+      !found ||
+      !this.conversationsService.getCurrentStep(state)?.acceptsAttachments
+    ) {
+      return true;
+    }
+    return !!(await this.validateAttachment(found.file, found.type, msg));
+  }
+
+  private async sendConversationPrompt(
+    chatId: string,
+    step: ConversationStep,
+    tr: Translator,
+    messageThreadId?: number,
+  ) {
+    const options: any = messageThreadId
+      ? { message_thread_id: messageThreadId }
+      : {};
+    if (step.choices) {
+      options.reply_markup = {
+        inline_keyboard: [
+          step.choices.map((choice) => ({
+            text: choice.label,
+            callback_data: `wizard:${choice.value}`,
+          })),
+          [{ text: tr.t("common.cancel"), callback_data: "wizard:cancel" }],
+        ],
+      };
     }
+    await this.telegramSender.sendMessage(chatId, tr.t(step.prompt), options);
   }
 
-  private async handleConversation(
-    msg: TelegramBot.Message,
-    state: { action: string; data?: any; timestamp: number },
+  private async handleConversationInput(
+    state: ConversationState,
+    input: ConversationInput,
+    user: TelegramBot.User,
   ) {
-    const user = msg.from;
-    const chat = msg.chat;
-    const text = msg.text;
+    const chatId = state.chatId;
+    const threadOptions = state.messageThreadId
+      ? { message_thread_id: state.messageThreadId }
+      : undefined;
 
-    if (!user || !chat || !text) return;
+    try {
+      const tr = await this.i18n.forChat(chatId, user.language_code);
+      const result = await this.conversationsService.handleInput(state, input);
+
+      switch (result.status) {
+        case "prompt":
+          await this.sendConversationPrompt(
+            chatId,
+            result.step,
+            tr,
+            state.messageThreadId,
+          );
+          break;
+        case "accepted":
+          await this.telegramSender.sendMessage(
+            chatId,
+            tr.t("wizard.filesReceived", { count: result.count }),
+            threadOptions,
+          );
+          break;
+        case "invalid":
+          await this.telegramSender.sendMessage(
+            chatId,
+            `⚠️ ${tr.t(result.error.key, result.error.params)}`,
+            threadOptions,
+          );
+          break;
+        case "cancelled":
+          await this.telegramSender.sendMessage(
+            chatId,
+            tr.t("wizard.cancelled"),
+            threadOptions,
+          );
+          break;
+        case "completed":
+          if (state.flow === CREATE_TICKET_FLOW.name) {
+            await this.createTicketFromConversation(
+              chatId,
+              user,
+              result.data,
+              tr,
+            );
+          }
+          break;
+      }
+    } catch (error) {
+      this.logger.error("Error handling conversation input:", error);
+      this.reportError("conversation", error, {
+        groupId: chatId,
+        userId: state.userId,
+      });
+    }
+  }
 
-    if (state.action === "create_ticket") {
-      // Use text as ticket title
-      await this.createTicketFromConversation(
-        chat.id.toString(),
-        user.id.toString(),
-        text,
-        user,
-      );
+  private async handleWizardCallback(
+    callbackQuery: TelegramBot.CallbackQuery,
+    data: string,
+  ) {
+    const message = callbackQuery.message;
+    const user = callbackQuery.from;
+    if (!message || !user) return;
+
+    const state = await this.conversationsService.findActive(
+      message.chat.id.toString(),
+      user.id.toString(),
+      message.message_thread_id,
+    );
+    if (!state) {
+      const tr = await this.getCallbackTranslator(callbackQuery);
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("wizard.expired"),
+      });
+      return;
     }
+
+    await this.telegramSender.answerCallbackQuery(callbackQuery.id);
+    await this.bot
+      .editMessageReplyMarkup(
+        { inline_keyboard: [] },
+        { chat_id: message.chat.id, message_id: message.message_id },
+      )
+      .catch(() => {});
+
+    const value = data.replace("wizard:", "");
+    await this.handleConversationInput(
+      state,
+      value === "cancel" ? { command: "cancel" } : { text: value },
+      user,
+    );
   }
 
   private async createTicketFromConversation(
     chatId: string,
-    userId: string,
-    title: string,
     user: TelegramBot.User,
+    data: Record<string, any>,
+    tr: Translator,
   ) {
+    const userId = user.id.toString();
+    const title: string = data.title;
+
     try {
       // Check permissions
       const permissions = await this.checkBotPermissions(chatId);
 
       if (!permissions.isAdmin || !permissions.canManageTopics) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           chatId,
-          "❌ Bot ไม่มีสิทธิ์สร้าง Topic\n\n" +
-            "กรุณาให้ Admin ตั้งค่าสิทธิ์ให้ Bot",
+          tr.t("createTicket.noTopicPermission"),
         );
         return;
       }
 
       // Create ticket
-      const ticket = await this.ticketService.createTicket({
-        title,
-        description: undefined,
-        createdBy: userId,
-        groupId: chatId,
-      });
+      const { defaultPriority } =
+        await this.groupSettingsService.getSettings(chatId);
+      const ticket = await this.ticketService.createTicket(
+        {
+          title,
+          description: data.description,
+          priority: data.priority || defaultPriority,
+          createdBy: userId,
+          groupId: chatId,
+        },
+        this.toActor(user),
+      );
 
       // Create topic
       const topicResult = await this.createForumTopic(chatId, title);
 
       if (topicResult && topicResult.message_thread_id) {
-        await this.topicsService.createTopic({
-          telegramTopicId: topicResult.message_thread_id,
-          name: title,
-          groupId: chatId,
-          ticketId: ticket.ticketId,
-          createdBy: userId,
-          isPrimary: true,
-        });
+        await this.topicsService.createTopic(
+          {
+            telegramTopicId: topicResult.message_thread_id,
+            name: title,
+            groupId: chatId,
+            ticketId: ticket.ticketId,
+            createdBy: userId,
+            isPrimary: true,
+          },
+          this.toActor(user),
+        );
 
         await this.ticketService.addParticipant(ticket.ticketId, userId);
 
-        const welcomeMessage =
-          `📝 **${ticket.title}**\n\n` +
-          `📋 **คำสั่งที่ใช้ได้:**\n` +
-          `• /mention - เชิญคนเข้าร่วม Ticket\n` +
-          `• /link_topic <id> - เชื่อมโยง Topic อื่น\n` +
-          `• /close_ticket - ปิด Ticket นี้\n` +
-          `• /help - ดูคำสั่งทั้งหมด`;
-
         await this.sendMessageToTopic(
           chatId,
           topicResult.message_thread_id,
-          welcomeMessage,
+          this.buildWelcomeMessage(ticket, tr),
         );
 
-        await this.bot.sendMessage(chatId, `✅ สร้าง Topic "${title}" แล้ว`);
+        // ส่งไฟล์ที่แนบระหว่าง wizard เข้า topic ใหม่และบันทึกเป็นข้อความของ ticket
+        for (const attachment of (data.attachments ||
+          []) as ConversationAttachment[]) {
+          try {
+            const sent = await this.sendFileById(
+              chatId,
+              topicResult.message_thread_id,
+              attachment,
+            );
+            await this.saveMessageToDatabase(
+              { ...sent, from: user },
+              { ticketId: ticket.ticketId },
+            );
+            await this.topicsService.incrementMessageCount(
+              topicResult.message_thread_id,
+              chatId,
+            );
+          } catch (error) {
+            this.logger.warn(
+              `Failed to attach wizard file to ${ticket.ticketId}: ${error.message}`,
+            );
+          }
+        }
 
-        // Trigger webhook
-        this.hooksService.trigger(
-          HookEvent.TICKET_CREATED,
-          {
-            ticketId: ticket.ticketId,
-            title: ticket.title,
-            description: ticket.description,
-            status: ticket.status,
-            priority: ticket.priority,
-            groupId: chatId,
-            topicId: topicResult.message_thread_id,
-            createdBy: {
-              id: userId,
-              username: user.username,
-              firstName: user.first_name,
-            },
-          },
-          { groupId: chatId },
+        await this.telegramSender.sendMessage(
+          chatId,
+          tr.t("createTicket.created", { ticketId: ticket.ticketId, title }),
         );
       }
     } catch (error) {
       this.logger.error("Error creating ticket from conversation:", error);
-      await this.bot.sendMessage(
-        chatId,
-        "❌ เกิดข้อผิดพลาดในการสร้าง Ticket กรุณาลองใหม่อีกครั้ง",
-      );
+      this.reportError("create_ticket", error, { groupId: chatId, userId });
+      await this.telegramSender.sendMessage(chatId, tr.t("createTicket.error"));
+    }
+  }
+
+  private async sendFileById(
+    chatId: string,
+    messageThreadId: number,
+    attachment: ConversationAttachment,
+  ): Promise<TelegramBot.Message> {
+    const options: any = { message_thread_id: messageThreadId };
+    switch (attachment.type) {
+      case "photo":
+        return this.telegramSender.sendPhoto(
+          chatId,
+          attachment.fileId,
+          options,
+        );
+      case "video":
+        return this.telegramSender.sendVideo(
+          chatId,
+          attachment.fileId,
+          options,
+        );
+      case "audio":
+        return this.telegramSender.sendAudio(
+          chatId,
+          attachment.fileId,
+          options,
+        );
+      case "voice":
+        return this.telegramSender.sendVoice(
+          chatId,
+          attachment.fileId,
+          options,
+        );
+      default:
+        return this.telegramSender.sendDocument(
+          chatId,
+          attachment.fileId,
+          options,
+        );
     }
   }
 
@@ -2072,9 +5438,10 @@ export class BotService implements OnModuleInit {
 
           if (now - lastWarning > 60000) {
             // แจ้งทุก 1 นาที
-            await this.bot.sendMessage(
+            const tr = await this.getTranslator(msg);
+            await this.telegramSender.sendMessage(
               msg.chat.id,
-              "ℹ️ Ticket นี้ปิดแล้ว แต่ยังสามารถสนทนาได้",
+              tr.t("topic.closedNotice"),
             );
             (this as any).lastClosedWarning = now;
           }
@@ -2082,6 +5449,11 @@ export class BotService implements OnModuleInit {
       }
     } catch (error) {
       this.logger.error("Error handling topic message:", error);
+      this.reportError("topic_message", error, {
+        groupId: chat.id.toString(),
+        topicId: messageThreadId,
+        messageId: msg.message_id,
+      });
     }
   }
 
@@ -2113,7 +5485,10 @@ export class BotService implements OnModuleInit {
         attachmentIds: [],
       };
 
-      const savedMessage = await this.messagesService.saveMessage(messageData);
+      const savedMessage = await this.messagesService.saveMessage(
+        messageData,
+        msg.from ? this.toActor(msg.from) : undefined,
+      );
 
       // Handle attachments if present
       const attachmentIds = await this.handleMessageAttachments(
@@ -2255,6 +5630,42 @@ export class BotService implements OnModuleInit {
     return attachmentIds;
   }
 
+  // Validate file ตาม attachment policy ของกลุ่ม - ไม่ผ่านจะแจ้งใน topic และคืน null
+  private async validateAttachment(
+    fileInfo: any,
+    type: string,
+    msg: TelegramBot.Message,
+    ticketId?: string,
+  ): Promise<EffectiveAttachmentPolicy | null> {
+    const groupId = msg.chat?.id.toString() || "";
+    const policy = await this.attachmentsService.getEffectivePolicy(groupId);
+    const validation = this.attachmentsService.validateFile(fileInfo, policy);
+    if (validation.isValid) return policy;
+
+    const fileName = fileInfo.file_name || type;
+    this.attachmentsService.reportRejection({
+      fileName,
+      mimeType: fileInfo.mime_type,
+      fileSize: fileInfo.file_size,
+      reason: validation.reason,
+      groupId,
+      topicId: msg.message_thread_id,
+      ticketId,
+      messageId: msg.message_id,
+      uploadedBy: msg.from?.id.toString(),
+    });
+    const tr = await this.getTranslator(msg);
+    await this.sendMessageToTopic(
+      groupId,
+      msg.message_thread_id,
+      tr.t("attachments.rejected", {
+        fileName,
+        reason: validation.reason,
+      }),
+    );
+    return null;
+  }
+
   private async saveAttachmentInfo(
     fileInfo: any,
     type: string,
@@ -2263,18 +5674,13 @@ export class BotService implements OnModuleInit {
     messageId: string,
   ): Promise<string | null> {
     try {
-      // Validate file
-      const validation = this.attachmentsService.validateFile(fileInfo);
-      if (!validation.isValid) {
-        this.logger.warn(`File validation failed: ${validation.reason}`);
-        // Send warning message to topic but don't block the message
-        await this.sendMessageToTopic(
-          msg.chat?.id.toString() || "",
-          (msg as any).message_thread_id,
-          `⚠️ **File Warning**\n\n${validation.reason}\n\nFile was not saved but message was delivered.`,
-        );
-        return null;
-      }
+      const policy = await this.validateAttachment(
+        fileInfo,
+        type,
+        msg,
+        topic.ticketId,
+      );
+      if (!policy) return null;
 
       const attachmentType = this.attachmentsService.determineAttachmentType({
         [type]: fileInfo,
@@ -2282,6 +5688,7 @@ export class BotService implements OnModuleInit {
 
       const attachmentData = {
         telegramFileId: fileInfo.file_id,
+        telegramFileUniqueId: fileInfo.file_unique_id,
         fileName: fileInfo.file_name || `${type}_${Date.now()}`,
         fileType: attachmentType,
         mimeType: fileInfo.mime_type,
@@ -2302,7 +5709,9 @@ export class BotService implements OnModuleInit {
         await this.attachmentsService.saveAttachment(attachmentData);
 
       // Start download in background (Phase 4 feature)
-      this.downloadAttachmentInBackground(savedAttachment.telegramFileId);
+      if (policy.downloadEnabled) {
+        this.downloadAttachmentInBackground(savedAttachment.telegramFileId);
+      }
 
       return (savedAttachment as any)._id.toString();
     } catch (error) {
@@ -2315,6 +5724,14 @@ export class BotService implements OnModuleInit {
     telegramFileId: string,
   ): Promise<void> {
     try {
+      // ไฟล์เดียวกันเคยถูกเก็บแล้ว (เช่น forward ภาพเดิมเข้าหลาย topic) - ไม่ต้องดาวน์โหลดซ้ำ
+      const existingKey =
+        await this.attachmentsService.linkExistingCopy(telegramFileId);
+      if (existingKey) {
+        this.logger.log(`Reused stored attachment: ${existingKey}`);
+        return;
+      }
+
       this.logger.log(
         `[${new Date().toISOString()}] API Call: getFile - fileId: ${telegramFileId}`,
       );
@@ -2334,24 +5751,15 @@ export class BotService implements OnModuleInit {
 
       const fileUrl = `https://api.telegram.org/file/bot${this.configService.get("telegram.botToken")}/${fileInfo.file_path}`;
 
-      const attachment =
-        await this.attachmentsService.findByFileId(telegramFileId);
-      if (!attachment) return;
-
-      const localFileName = this.attachmentsService.generateLocalFileName(
-        attachment.fileName,
-        telegramFileId,
-      );
-      const localFilePath =
-        this.attachmentsService.getLocalFilePath(localFileName);
-
-      await this.downloadFileWithRetry(fileUrl, localFilePath, 3);
-      await this.attachmentsService.markAsDownloaded(
+      const data = await this.downloadFileWithRetry(fileUrl, 3);
+      const storageKey = await this.attachmentsService.markAsDownloaded(
         telegramFileId,
-        localFilePath,
+        data,
       );
 
-      this.logger.log(`Downloaded attachment: ${localFileName}`);
+      if (storageKey) {
+        this.logger.log(`Downloaded attachment: ${storageKey}`);
+      }
     } catch (error) {
       this.logger.error(
         `[${new Date().toISOString()}] API Error: getFile - fileId: ${telegramFileId}`,
@@ -2362,13 +5770,11 @@ export class BotService implements OnModuleInit {
 
   private async downloadFileWithRetry(
     url: string,
-    localPath: string,
     maxRetries: number = 3,
-  ): Promise<void> {
+  ): Promise<Buffer> {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        await this.downloadFile(url, localPath);
-        return;
+        return await this.downloadFile(url);
       } catch (error) {
         this.logger.warn(`Download attempt ${attempt} failed:`, error.message);
         if (attempt === maxRetries) {
@@ -2382,12 +5788,12 @@ export class BotService implements OnModuleInit {
     }
   }
 
-  private async downloadFile(url: string, localPath: string): Promise<void> {
+  private async downloadFile(url: string): Promise<Buffer> {
     return new Promise((resolve, reject) => {
-      const file = require("fs").createWriteStream(localPath);
       https
         .get(url, (response) => {
           if (response.statusCode !== 200) {
+            response.resume();
             reject(
               new Error(
                 `HTTP ${response.statusCode}: ${response.statusMessage}`,
@@ -2396,17 +5802,10 @@ export class BotService implements OnModuleInit {
             return;
           }
 
-          response.pipe(file);
-
-          file.on("finish", () => {
-            file.close();
-            resolve();
-          });
-
-          file.on("error", (error) => {
-            require("fs").unlink(localPath, () => {}); // Delete the file on error
-            reject(error);
-          });
+          const chunks: Buffer[] = [];
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("end", () => resolve(Buffer.concat(chunks)));
+          response.on("error", reject);
         })
         .on("error", reject);
     });
@@ -2474,11 +5873,6 @@ export class BotService implements OnModuleInit {
         return;
       }
 
-      // Prepare sync message
-      let syncMessage = `🔗 **Synced Message**\n\n`;
-      syncMessage += `📝 ${messageText}\n\n`;
-      syncMessage += `👤 จาก: ${user.first_name || user.username || "ผู้ใช้"}\n`;
-
       // Send to all linked topics (Cross-group support)
       this.logger.log(
         `  🔄 Starting sync process to ${linkedTopics.length} linked topics...`,
@@ -2488,26 +5882,53 @@ export class BotService implements OnModuleInit {
           `    🎯 Syncing to topic ${linkedTopic.topicId} in group ${linkedTopic.groupId}...`,
         );
         try {
+          // Prepare sync message ในภาษาของกลุ่มปลายทาง
+          const tr = await this.i18n.forChat(linkedTopic.groupId);
+          const syncMessage = this.buildSyncMessageText(
+            messageText,
+            user.first_name || user.username || tr.t("common.user"),
+            tr,
+          );
+
           // ไม่ต้องค้นหาแล้ว เพราะเรารู้ groupId อยู่แล้ว!
+          const dedupKey = `sync:${chat.id}:${msg.message_id}:${linkedTopic.groupId}:${linkedTopic.topicId}`;
+          let sentMessage: TelegramBot.Message;
           if (linkedTopic.groupId === chat.id.toString()) {
             this.logger.log(
               `      ✅ Same-group sync to topic ${linkedTopic.topicId}`,
             );
-            await this.sendMessageToTopic(
+            sentMessage = await this.sendMessageToTopic(
               chat.id.toString(),
               linkedTopic.topicId,
               syncMessage,
+              undefined,
+              dedupKey,
             );
           } else {
             this.logger.log(
               `      ✅ Cross-group sync: ${chat.id.toString()} → ${linkedTopic.groupId} (topic: ${linkedTopic.topicId})`,
             );
-            await this.sendMessageToTopic(
+            sentMessage = await this.sendMessageToTopic(
               linkedTopic.groupId,
               linkedTopic.topicId,
               syncMessage,
+              undefined,
+              dedupKey,
             );
           }
+
+          // เก็บ message ID ของสำเนา เพื่อใช้แก้ไขตามเมื่อข้อความต้นทางถูกแก้ไข
+          await this.messagesService.addMirroredMessage(
+            msg.message_id,
+            chat.id.toString(),
+            messageThreadId,
+            {
+              groupId: linkedTopic.groupId,
+              topicId: linkedTopic.topicId,
+              messageId: sentMessage.message_id,
+              kind: "text",
+            },
+          );
         } catch (error) {
           // If it's "message thread not found", delete the topic and relations
           if (
@@ -2534,6 +5955,152 @@ export class BotService implements OnModuleInit {
     }
   }
 
+  private buildSyncMessageText(
+    text: string,
+    senderName: string,
+    tr: Translator,
+    isEdited: boolean = false,
+  ): FormattedText {
+    return new MessageBuilder()
+      .line("🔗 ", bold("Synced Message"))
+      .blank()
+      .line(`📝 ${text}`)
+      .blank()
+      .line(tr.t("sync.from", { name: senderName }))
+      .lineIf(isEdited, tr.t("sync.edited"))
+      .build();
+  }
+
+  private buildAttachmentSyncCaption(
+    senderInfo: string,
+    tr: Translator,
+    text?: string,
+    isEdited: boolean = false,
+  ): string {
+    let syncCaption = `📎 Synced from 👤 From: ${senderInfo}`;
+    if (text) {
+      syncCaption += `\n💬 ${text}`;
+    }
+    if (isEdited) {
+      syncCaption += `\n${tr.t("sync.edited")}`;
+    }
+    // Telegram caption limit
+    return syncCaption.length > 1024
+      ? syncCaption.substring(0, 1021) + "..."
+      : syncCaption;
+  }
+
+  // Propagate edits of a topic message to the copies in linked topics
+  private async handleEditedMessage(msg: TelegramBot.Message) {
+    const messageThreadId = (msg as any)?.message_thread_id;
+    const chat = msg.chat;
+    const user = msg.from;
+
+    if (!messageThreadId || !chat || !user || chat.type === "private") {
+      return;
+    }
+
+    try {
+      const groupId = chat.id.toString();
+      const storedMessage = await this.messagesService.findByTelegramMessageId(
+        msg.message_id,
+        groupId,
+        messageThreadId,
+      );
+
+      if (!storedMessage) {
+        this.logger.log(
+          `[${new Date().toISOString()}] ✏️ Edited message ${msg.message_id} not tracked - skipping`,
+        );
+        return;
+      }
+
+      const editedMessage = await this.messagesService.markAsEdited(
+        msg.message_id,
+        groupId,
+        messageThreadId,
+        msg.text,
+        msg.caption,
+      );
+
+      const mirrors = editedMessage?.mirroredMessages || [];
+      this.logger.log(
+        `[${new Date().toISOString()}] ✏️ MESSAGE EDITED: ${msg.message_id} in topic ${messageThreadId}@${groupId}, updating ${mirrors.length} copies`,
+      );
+
+      const senderInfo =
+        user.first_name + (user.last_name ? ` ${user.last_name}` : "");
+      let updatedCount = 0;
+
+      for (const mirror of mirrors) {
+        try {
+          const tr = await this.i18n.forChat(mirror.groupId);
+          if (mirror.kind === "caption") {
+            await this.telegramSender.editMessageCaption(
+              this.buildAttachmentSyncCaption(
+                senderInfo,
+                tr,
+                msg.caption || msg.text,
+                true,
+              ),
+              {
+                chat_id: mirror.groupId,
+                message_id: mirror.messageId,
+              },
+            );
+          } else {
+            if (!msg.text) continue;
+            const syncMessage = this.buildSyncMessageText(
+              msg.text,
+              user.first_name || user.username || tr.t("common.user"),
+              tr,
+              true,
+            );
+            await this.telegramSender.editMessageText(syncMessage.text, {
+              chat_id: mirror.groupId,
+              message_id: mirror.messageId,
+              parse_mode: syncMessage.parseMode,
+            });
+          }
+          updatedCount++;
+        } catch (error) {
+          if (error.message?.includes("message is not modified")) {
+            continue;
+          }
+          this.logger.error(
+            `[${new Date().toISOString()}] ❌ Error updating copy ${mirror.messageId} in topic ${mirror.topicId}@${mirror.groupId}:`,
+            error.message,
+          );
+        }
+      }
+
+      this.domainEvents.emit(
+        HookEvent.MESSAGE_EDITED,
+        {
+          ticketId: storedMessage.ticketId,
+          groupId,
+          topicId: messageThreadId,
+          messageId: msg.message_id,
+          text: msg.text,
+          caption: msg.caption,
+          previousText: storedMessage.text,
+          previousCaption: storedMessage.caption,
+          editedAt: new Date(
+            ((msg as any).edit_date || msg.date) * 1000,
+          ).toISOString(),
+          mirroredCopiesUpdated: updatedCount,
+        },
+        {
+          ticketId: storedMessage.ticketId,
+          groupId,
+          actor: this.toActor(user),
+        },
+      );
+    } catch (error) {
+      this.logger.error("Error handling edited message:", error);
+    }
+  }
+
   private async handleLinkTopic(
     msg: TelegramBot.Message,
     match: RegExpExecArray,
@@ -2543,43 +6110,38 @@ export class BotService implements OnModuleInit {
     const args = text.split(" ").slice(1);
     const user = msg.from;
     const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
 
     if (!user || !chat || chat.type === "private") {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่ง /link_topic ใช้ได้เฉพาะในกลุ่มเท่านั้น",
+        tr.t("common.groupOnly", { command: "link_topic" }),
       );
       return;
     }
 
     const messageThreadId = message?.message_thread_id;
     if (!messageThreadId) {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่ง /link_topic ใช้ได้เฉพาะใน Topic เท่านั้น\n\n" +
-          "💡 วิธีใช้:\n" +
-          "1. เปิด Topic แรกพิมพ์ /link_topic <topic_id>\n" +
-          "2. เปิด Topic ที่สองพิมพ์ /link_topic <topic_id ของ Topic แรก>\n\n" +
-          "📝 ตัวอย่าง: /link_topic 123",
+        tr.t("link.topicOnlyUsage"),
       );
       return;
     }
 
     if (args.length === 0) {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ กรุณาระบุ Topic ID ที่ต้องการเชื่อมโยง\n\n" +
-          "📝 ตัวอย่าง: /link_topic 123\n" +
-          "💡 หา Topic ID: ดูที่ URL ของ Topic หรือถาม Admin",
+        tr.t("link.missingId"),
       );
       return;
     }
 
     const targetTopicId = parseInt(args[0]);
     if (isNaN(targetTopicId)) {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ Topic ID ต้องเป็นตัวเลขเท่านั้น",
+        tr.t("common.topicIdNotNumber"),
       );
       return;
     }
@@ -2591,7 +6153,10 @@ export class BotService implements OnModuleInit {
         chat.id.toString(),
       );
       if (!sourceTopic) {
-        await this.bot.sendMessage(msg.chat.id, "❌ ไม่พบข้อมูล Topic นี้");
+        await this.telegramSender.sendMessage(
+          msg.chat.id,
+          tr.t("link.sourceNotFound"),
+        );
         return;
       }
 
@@ -2601,9 +6166,9 @@ export class BotService implements OnModuleInit {
         chat.id.toString(),
       );
       if (!targetTopic) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          `❌ ไม่พบ Topic ID: ${targetTopicId} ในกลุ่มนี้`,
+          tr.t("link.targetNotFound", { topicId: targetTopicId }),
         );
         return;
       }
@@ -2614,9 +6179,9 @@ export class BotService implements OnModuleInit {
         chat.id.toString(),
       );
       if (linkedTopics.some((lt) => lt.topicId === targetTopicId)) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          `ℹ️ Topic นี้เชื่อมโยงกับ Topic ${targetTopicId} แล้ว`,
+          tr.t("link.alreadyLinked", { topicId: targetTopicId }),
         );
         return;
       }
@@ -2626,15 +6191,19 @@ export class BotService implements OnModuleInit {
         messageThreadId,
         targetTopicId,
         chat.id.toString(),
+        this.toActor(user),
       );
 
       // ส่งข้อความแจ้งใน topic ต้นทาง
-      const sourceMessage =
-        `🔗 **เชื่อมโยง Topic สำเร็จ**\n\n` +
-        `📋 Topic นี้เชื่อมโยงกับ Topic ${targetTopicId} แล้ว\n` +
-        `👤 เชื่อมโยงโดย: ${user.first_name}\n` +
-        `📅 ${new Date().toLocaleString("th-TH")}\n\n` +
-        `💬 ข้อความใน Topic นี้จะถูกส่งไป Topic ${targetTopicId} อัตโนมัติ`;
+      const sourceMessage = new MessageBuilder()
+        .line("🔗 ", bold(tr.t("link.successTitle")))
+        .blank()
+        .line(tr.t("link.linkedWith", { topicId: targetTopicId }))
+        .line(tr.t("link.by", { name: user.first_name }))
+        .line(`📅 ${tr.formatDate(new Date())}`)
+        .blank()
+        .line(tr.t("link.outgoing", { topicId: targetTopicId }))
+        .build();
 
       await this.sendMessageToTopic(
         chat.id.toString(),
@@ -2643,12 +6212,15 @@ export class BotService implements OnModuleInit {
       );
 
       // ส่งข้อความแจ้งใน topic ปลายทาง
-      const targetMessage =
-        `🔗 **Topic ถูกเชื่อมโยง**\n\n` +
-        `📋 Topic นี้เชื่อมโยงกับ Topic ${messageThreadId} แล้ว\n` +
-        `👤 เชื่อมโยงโดย: ${user.first_name}\n` +
-        `📅 ${new Date().toLocaleString("th-TH")}\n\n` +
-        `💬 ข้อความใน Topic ${messageThreadId} จะถูกส่งมา Topic นี้อัตโนมัติ`;
+      const targetMessage = new MessageBuilder()
+        .line("🔗 ", bold(tr.t("link.linkedTitle")))
+        .blank()
+        .line(tr.t("link.linkedWith", { topicId: messageThreadId }))
+        .line(tr.t("link.by", { name: user.first_name }))
+        .line(`📅 ${tr.formatDate(new Date())}`)
+        .blank()
+        .line(tr.t("link.incoming", { topicId: messageThreadId }))
+        .build();
 
       await this.sendMessageToTopic(
         chat.id.toString(),
@@ -2657,10 +6229,7 @@ export class BotService implements OnModuleInit {
       );
     } catch (error) {
       this.logger.error("Error linking topics:", error);
-      await this.bot.sendMessage(
-        msg.chat.id,
-        "❌ เกิดข้อผิดพลาดในการเชื่อมโยง Topic",
-      );
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("link.error"));
     }
   }
 
@@ -2673,36 +6242,41 @@ export class BotService implements OnModuleInit {
     const args = text.split(" ").slice(1);
     const user = msg.from;
     const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
 
     if (!user || !chat || chat.type === "private") {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่ง /unlink_topic ใช้ได้เฉพาะในกลุ่มเท่านั้น",
+        tr.t("common.groupOnly", { command: "unlink_topic" }),
       );
       return;
     }
 
     const messageThreadId = message?.message_thread_id;
     if (!messageThreadId) {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่ง /unlink_topic ใช้ได้เฉพาะใน Topic เท่านั้น\n\n" +
-          "💡 วิธีใช้: เปิด Topic ที่ต้องการยกเลิกการเชื่อมโยง แล้วพิมพ์ /unlink_topic",
+        tr.t("unlink.topicOnlyUsage"),
       );
       return;
     }
 
     if (args.length === 0) {
       // แสดงรายการ linked topics ที่สามารถยกเลิกได้
-      await this.showLinkedTopicsMenu(msg, messageThreadId, chat.id.toString());
+      await this.showLinkedTopicsMenu(
+        msg,
+        messageThreadId,
+        chat.id.toString(),
+        tr,
+      );
       return;
     }
 
     const targetTopicId = parseInt(args[0]);
     if (isNaN(targetTopicId)) {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ Topic ID ต้องเป็นตัวเลขเท่านั้น",
+        tr.t("common.topicIdNotNumber"),
       );
       return;
     }
@@ -2714,9 +6288,9 @@ export class BotService implements OnModuleInit {
         chat.id.toString(),
       );
       if (!linkedTopics.some((lt) => lt.topicId === targetTopicId)) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          `❌ Topic นี้ไม่ได้เชื่อมโยงกับ Topic ${targetTopicId}`,
+          tr.t("unlink.notLinked", { topicId: targetTopicId }),
         );
         return;
       }
@@ -2726,15 +6300,19 @@ export class BotService implements OnModuleInit {
         messageThreadId,
         targetTopicId,
         chat.id.toString(),
+        this.toActor(user),
       );
 
       // ส่งข้อความแจ้งใน topic ต้นทาง
-      const sourceMessage =
-        `🔓 **ยกเลิกการเชื่อมโยง Topic**\n\n` +
-        `📋 ยกเลิกการเชื่อมโยงกับ Topic ${targetTopicId} แล้ว\n` +
-        `👤 ยกเลิกโดย: ${user.first_name}\n` +
-        `📅 ${new Date().toLocaleString("th-TH")}\n\n` +
-        `💬 ข้อความจะไม่ถูกส่งไป Topic ${targetTopicId} อีกต่อไป`;
+      const sourceMessage = new MessageBuilder()
+        .line("🔓 ", bold(tr.t("unlink.sourceTitle")))
+        .blank()
+        .line(tr.t("unlink.sourceBody", { topicId: targetTopicId }))
+        .line(tr.t("unlink.by", { name: user.first_name }))
+        .line(`📅 ${tr.formatDate(new Date())}`)
+        .blank()
+        .line(tr.t("unlink.sourceNote", { topicId: targetTopicId }))
+        .build();
 
       await this.sendMessageToTopic(
         chat.id.toString(),
@@ -2743,12 +6321,15 @@ export class BotService implements OnModuleInit {
       );
 
       // ส่งข้อความแจ้งใน topic ปลายทาง
-      const targetMessage =
-        `🔓 **การเชื่อมโยงถูกยกเลิก**\n\n` +
-        `📋 การเชื่อมโยงกับ Topic ${messageThreadId} ถูกยกเลิกแล้ว\n` +
-        `👤 ยกเลิกโดย: ${user.first_name}\n` +
-        `📅 ${new Date().toLocaleString("th-TH")}\n\n` +
-        `💬 ข้อความจาก Topic ${messageThreadId} จะไม่ถูกส่งมาอีกต่อไป`;
+      const targetMessage = new MessageBuilder()
+        .line("🔓 ", bold(tr.t("unlink.targetTitle")))
+        .blank()
+        .line(tr.t("unlink.targetBody", { topicId: messageThreadId }))
+        .line(tr.t("unlink.by", { name: user.first_name }))
+        .line(`📅 ${tr.formatDate(new Date())}`)
+        .blank()
+        .line(tr.t("unlink.targetNote", { topicId: messageThreadId }))
+        .build();
 
       await this.sendMessageToTopic(
         chat.id.toString(),
@@ -2757,10 +6338,7 @@ export class BotService implements OnModuleInit {
       );
     } catch (error) {
       this.logger.error("Error unlinking topics:", error);
-      await this.bot.sendMessage(
-        msg.chat.id,
-        "❌ เกิดข้อผิดพลาดในการยกเลิกการเชื่อมโยง Topic",
-      );
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("unlink.error"));
     }
   }
 
@@ -2768,6 +6346,7 @@ export class BotService implements OnModuleInit {
     msg: TelegramBot.Message,
     messageThreadId: number,
     groupId: string,
+    tr: Translator,
   ) {
     try {
       const linkedTopics = await this.topicsService.getLinkedTopics(
@@ -2776,10 +6355,9 @@ export class BotService implements OnModuleInit {
       );
 
       if (linkedTopics.length === 0) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "ℹ️ Topic นี้ไม่ได้เชื่อมโยงกับ Topic อื่น\n\n" +
-            "🔗 ใช้ /link_topic <topic_id> เพื่อเชื่อมโยง Topic",
+          tr.t("unlink.noLinks"),
         );
         return;
       }
@@ -2787,10 +6365,10 @@ export class BotService implements OnModuleInit {
       // สร้าง inline keyboard
       const buttons = [];
 
-      for (const topicId of linkedTopics) {
+      for (const { topicId } of linkedTopics) {
         buttons.push([
           {
-            text: `🔓 ยกเลิก Topic ${topicId}`,
+            text: tr.t("unlink.button", { topicId }),
             callback_data: `unlink:${topicId}`,
           },
         ]);
@@ -2798,7 +6376,7 @@ export class BotService implements OnModuleInit {
 
       buttons.push([
         {
-          text: "❌ ยกเลิก",
+          text: tr.t("common.cancel"),
           callback_data: "mention:cancel",
         },
       ]);
@@ -2808,18 +6386,23 @@ export class BotService implements OnModuleInit {
       await this.sendMessageToTopic(
         groupId,
         messageThreadId,
-        `🔗 **Topic ที่เชื่อมโยงกัน**\n\n` +
-          `📋 Topic นี้เชื่อมโยงกับ ${linkedTopics.length} Topic:\n` +
-          linkedTopics.map((id) => `• Topic ${id}`).join("\n") +
-          "\n\n" +
-          `🔓 เลือก Topic ที่ต้องการยกเลิกการเชื่อมโยง:`,
+        new MessageBuilder()
+          .line("🔗 ", bold(tr.t("unlink.menuTitle")))
+          .blank()
+          .line(tr.t("unlink.menuCount", { count: linkedTopics.length }))
+          .line(
+            linkedTopics.map(({ topicId }) => `• Topic ${topicId}`).join("\n"),
+          )
+          .blank()
+          .line(tr.t("unlink.menuPrompt"))
+          .build(),
         { reply_markup: inlineKeyboard },
       );
     } catch (error) {
       this.logger.error("Error showing linked topics menu:", error);
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ เกิดข้อผิดพลาดในการแสดงรายการ Topic ที่เชื่อมโยง",
+        tr.t("unlink.menuError"),
       );
     }
   }
@@ -2830,6 +6413,7 @@ export class BotService implements OnModuleInit {
     messageThreadId: number,
     groupId: string,
   ) {
+    const tr = await this.getTranslator(msg);
     try {
       // ค้นหา users ที่คล้ายกัน
       const similarUsers = await this.usersService.searchUsersByUsername(
@@ -2843,7 +6427,7 @@ export class BotService implements OnModuleInit {
       if (similarUsers.length > 0) {
         buttons.push([
           {
-            text: "🔍 ผู้ใช้ที่คล้ายกัน",
+            text: tr.t("userNotFound.similar"),
             callback_data: "user_not_found:show_similar",
           },
         ]);
@@ -2852,21 +6436,21 @@ export class BotService implements OnModuleInit {
       // เพิ่มตัวเลือกอื่นๆ
       buttons.push([
         {
-          text: "👥 เลือกจากรายชื่อทั้งหมด",
+          text: tr.t("userNotFound.all"),
           callback_data: "user_not_found:show_all",
         },
       ]);
 
       buttons.push([
         {
-          text: "💬 Inline Reply แทน",
+          text: tr.t("userNotFound.inlineReply"),
           callback_data: "user_not_found:inline_reply",
         },
       ]);
 
       buttons.push([
         {
-          text: "❌ ยกเลิก",
+          text: tr.t("common.cancel"),
           callback_data: "mention:cancel",
         },
       ]);
@@ -2889,21 +6473,27 @@ export class BotService implements OnModuleInit {
       await this.sendMessageToTopic(
         groupId,
         messageThreadId,
-        `❌ **ไม่พบผู้ใช้: @${searchedUsername}**\n\n` +
-          `🔍 สามารถเชิญได้เฉพาะ Internal Users เท่านั้น\n` +
-          (similarUsers.length > 0
-            ? `💡 พบผู้ใช้ที่คล้ายกัน ${similarUsers.length} คน\n\n`
-            : "\n") +
-          `เลือกการกระทำ:`,
+        new MessageBuilder()
+          .line(
+            "❌ ",
+            bold(tr.t("userNotFound.title", { username: searchedUsername })),
+          )
+          .blank()
+          .line(tr.t("userNotFound.internalOnly"))
+          .lineIf(
+            similarUsers.length > 0,
+            tr.t("userNotFound.similarCount", { count: similarUsers.length }),
+          )
+          .blank()
+          .line(tr.t("userNotFound.chooseAction"))
+          .build(),
         { reply_markup: inlineKeyboard },
       );
     } catch (error) {
       this.logger.error("Error showing user not found options:", error);
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        `❌ ไม่พบผู้ใช้ในระบบ: ${searchedUsername}\n` +
-          "🔍 สามารถเชิญได้เฉพาะ Internal Users เท่านั้น\n\n" +
-          "💡 ผู้ใช้ต้องเคยใช้งาน Bot ในกลุ่มนี้มาก่อน",
+        tr.t("userNotFound.fallback", { username: searchedUsername }),
       );
     }
   }
@@ -2951,13 +6541,14 @@ export class BotService implements OnModuleInit {
     callbackQuery: TelegramBot.CallbackQuery,
     data: string,
   ) {
+    const tr = await this.getCallbackTranslator(callbackQuery);
     try {
       const user = callbackQuery.from;
       const message = callbackQuery.message;
 
       if (!user || !message) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ ข้อมูลไม่ครบถ้วน",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("common.incompleteData"),
         });
         return;
       }
@@ -2974,8 +6565,8 @@ export class BotService implements OnModuleInit {
 
       const context = this.getUserNotFoundContext(user.id.toString());
       if (!context) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ ข้อมูลหมดอายุแล้ว",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("userNotFound.expired"),
         });
         return;
       }
@@ -2984,23 +6575,23 @@ export class BotService implements OnModuleInit {
 
       switch (action) {
         case "show_similar":
-          await this.showSimilarUsers(callbackQuery, context);
+          await this.showSimilarUsers(callbackQuery, context, tr);
           break;
         case "show_all":
-          await this.showAllUsers(callbackQuery, context);
+          await this.showAllUsers(callbackQuery, context, tr);
           break;
         case "inline_reply":
-          await this.handleInlineReplyFromNotFound(callbackQuery, context);
+          await this.handleInlineReplyFromNotFound(callbackQuery, context, tr);
           break;
         default:
-          await this.bot.answerCallbackQuery(callbackQuery.id, {
-            text: "❌ การกระทำไม่ถูกต้อง",
+          await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+            text: tr.t("userNotFound.invalidAction"),
           });
       }
     } catch (error) {
       this.logger.error("Error handling user not found callback:", error);
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "❌ เกิดข้อผิดพลาด",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
       });
     }
   }
@@ -3008,13 +6599,14 @@ export class BotService implements OnModuleInit {
   private async showSimilarUsers(
     callbackQuery: TelegramBot.CallbackQuery,
     context: any,
+    tr: Translator,
   ) {
     try {
       const similarUsers = context.similarUsers;
 
       if (similarUsers.length === 0) {
-        await this.bot.answerCallbackQuery(callbackQuery.id, {
-          text: "❌ ไม่มีผู้ใช้ที่คล้ายกัน",
+        await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+          text: tr.t("userNotFound.noSimilar"),
         });
         return;
       }
@@ -3033,14 +6625,14 @@ export class BotService implements OnModuleInit {
 
       buttons.push([
         {
-          text: "🔙 กลับ",
+          text: tr.t("common.back"),
           callback_data: "user_not_found:back",
         },
       ]);
 
       buttons.push([
         {
-          text: "❌ ยกเลิก",
+          text: tr.t("common.cancel"),
           callback_data: "mention:cancel",
         },
       ]);
@@ -3051,19 +6643,32 @@ export class BotService implements OnModuleInit {
       await this.sendMessageToTopic(
         context.groupId,
         context.messageThreadId,
-        `🔍 **ผู้ใช้ที่คล้ายกับ "@${context.searchedUsername}":**\n\n` +
-          `พบ ${similarUsers.length} คน ที่มีชื่อคล้ายกัน:\n\n` +
-          `เลือกผู้ใช้ที่ต้องการเชิญ:`,
+        new MessageBuilder()
+          .line(
+            "🔍 ",
+            bold(
+              tr.t("userNotFound.similarTitle", {
+                username: context.searchedUsername,
+              }),
+            ),
+          )
+          .blank()
+          .line(
+            tr.t("userNotFound.similarFound", { count: similarUsers.length }),
+          )
+          .blank()
+          .line(tr.t("userNotFound.chooseInvitee"))
+          .build(),
         { reply_markup: inlineKeyboard },
       );
 
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "แสดงผู้ใช้ที่คล้ายกัน",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("userNotFound.showingSimilar"),
       });
     } catch (error) {
       this.logger.error("Error showing similar users:", error);
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "❌ เกิดข้อผิดพลาด",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
       });
     }
   }
@@ -3071,6 +6676,7 @@ export class BotService implements OnModuleInit {
   private async showAllUsers(
     callbackQuery: TelegramBot.CallbackQuery,
     context: any,
+    tr: Translator,
   ) {
     try {
       const messageThreadId = context.messageThreadId;
@@ -3084,13 +6690,13 @@ export class BotService implements OnModuleInit {
       } as any;
 
       await this.showUserSelectionMenu(fakeMessage, messageThreadId, groupId);
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "แสดงรายชื่อผู้ใช้ทั้งหมด",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("userNotFound.showingAll"),
       });
     } catch (error) {
       this.logger.error("Error showing all users:", error);
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "❌ เกิดข้อผิดพลาด",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
       });
     }
   }
@@ -3098,6 +6704,7 @@ export class BotService implements OnModuleInit {
   private async handleInlineReplyFromNotFound(
     callbackQuery: TelegramBot.CallbackQuery,
     context: any,
+    tr: Translator,
   ) {
     try {
       const messageThreadId = context.messageThreadId;
@@ -3106,8 +6713,8 @@ export class BotService implements OnModuleInit {
       // Inline reply functionality has been removed
     } catch (error) {
       this.logger.error("Error handling inline reply from not found:", error);
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "❌ เกิดข้อผิดพลาด",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("common.error"),
       });
     }
   }
@@ -3118,21 +6725,22 @@ export class BotService implements OnModuleInit {
     match: RegExpExecArray,
   ) {
     const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
 
     const inlineKeyboard = {
       inline_keyboard: [
         [
-          { text: "🔨 ค้อน", callback_data: "game:rock" },
-          { text: "📄 กระดาษ", callback_data: "game:paper" },
-          { text: "✂️ กรรไกร", callback_data: "game:scissors" },
+          { text: tr.t("game.rock"), callback_data: "game:rock" },
+          { text: tr.t("game.paper"), callback_data: "game:paper" },
+          { text: tr.t("game.scissors"), callback_data: "game:scissors" },
         ],
-        [{ text: "❌ ยกเลิก", callback_data: "game:cancel" }],
+        [{ text: tr.t("common.cancel"), callback_data: "game:cancel" }],
       ],
     };
 
-    await this.bot.sendMessage(
+    await this.sendFormatted(
       chat.id,
-      "🎮 **ทดสอบ Inline Buttons**\n\nเลือกอาวุธของคุณ:",
+      formatText("🎮 ", bold(tr.t("game.title")), "\n\n" + tr.t("game.prompt")),
       { reply_markup: inlineKeyboard },
     );
   }
@@ -3143,10 +6751,11 @@ export class BotService implements OnModuleInit {
   ) {
     const choice = data.replace("game:", "");
     const choices = ["rock", "paper", "scissors"];
+    const tr = await this.getCallbackTranslator(callbackQuery);
 
     if (choice === "cancel") {
-      await this.bot.answerCallbackQuery(callbackQuery.id, {
-        text: "❌ ยกเลิกเกม",
+      await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
+        text: tr.t("game.cancelled"),
       });
 
       if (callbackQuery.message) {
@@ -3163,47 +6772,45 @@ export class BotService implements OnModuleInit {
     // Bot random choice
     const botChoice = choices[Math.floor(Math.random() * choices.length)];
 
-    const emojiMap = {
-      rock: "🔨",
-      paper: "📄",
-      scissors: "✂️",
-    };
-
     const nameMap = {
-      rock: "ค้อน",
-      paper: "กระดาษ",
-      scissors: "กรรไกร",
+      rock: tr.t("game.rock"),
+      paper: tr.t("game.paper"),
+      scissors: tr.t("game.scissors"),
     };
 
     // Determine winner
     let result = "";
     if (choice === botChoice) {
-      result = "🤝 เสมอ!";
+      result = tr.t("game.draw");
     } else if (
       (choice === "rock" && botChoice === "scissors") ||
       (choice === "paper" && botChoice === "rock") ||
       (choice === "scissors" && botChoice === "paper")
     ) {
-      result = "🎉 คุณชนะ!";
+      result = tr.t("game.win");
     } else {
-      result = "😢 Bot ชนะ!";
+      result = tr.t("game.lose");
     }
 
-    const resultMessage =
-      `🎮 **ผลการเล่น**\n\n` +
-      `คุณเลือก: ${emojiMap[choice]} ${nameMap[choice]}\n` +
-      `Bot เลือก: ${emojiMap[botChoice]} ${nameMap[botChoice]}\n\n` +
-      `${result}`;
+    const resultMessage = new MessageBuilder()
+      .line("🎮 ", bold(tr.t("game.resultTitle")))
+      .blank()
+      .line(tr.t("game.yourChoice", { choice: nameMap[choice] }))
+      .line(tr.t("game.botChoice", { choice: nameMap[botChoice] }))
+      .blank()
+      .line(result)
+      .build();
 
-    await this.bot.answerCallbackQuery(callbackQuery.id, {
+    await this.telegramSender.answerCallbackQuery(callbackQuery.id, {
       text: result,
     });
 
     if (callbackQuery.message) {
       await this.bot
-        .editMessageText(resultMessage, {
+        .editMessageText(resultMessage.text, {
           chat_id: callbackQuery.message.chat.id,
           message_id: callbackQuery.message.message_id,
+          parse_mode: resultMessage.parseMode,
         })
         .catch(() => {});
     }
@@ -3320,9 +6927,13 @@ export class BotService implements OnModuleInit {
       );
 
       const startTime = Date.now();
-      const result = await this.bot.sendMessage(groupId, testMessage, {
-        message_thread_id: topicId,
-      });
+      const result = await this.telegramSender.sendMessage(
+        groupId,
+        testMessage,
+        {
+          message_thread_id: topicId,
+        },
+      );
       const duration = Date.now() - startTime;
 
       this.logger.log(
@@ -3331,7 +6942,7 @@ export class BotService implements OnModuleInit {
 
       // ลบข้อความทดสอบทันที
       try {
-        await this.bot.deleteMessage(groupId, result.message_id);
+        await this.telegramSender.deleteMessage(groupId, result.message_id);
       } catch (deleteError) {
         // Ignore delete errors
       }
@@ -3367,33 +6978,28 @@ export class BotService implements OnModuleInit {
     if (!user || !chat || chat.type === "private") {
       return;
     }
+    const tr = await this.getTranslator(msg);
 
     try {
       // ตรวจสอบสิทธิ์ admin
       const permissions = await this.checkBotPermissions(chat.id.toString());
       if (!permissions.isAdmin) {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           chat.id,
-          "❌ Bot ต้องมีสิทธิ์ Admin เพื่อดำเนินการ sync",
+          tr.t("sync.botNotAdmin"),
         );
         return;
       }
 
-      await this.bot.sendMessage(
-        chat.id,
-        "🔄 เริ่มต้น topic sync... กรุณารอสักครู่",
-      );
+      await this.telegramSender.sendMessage(chat.id, tr.t("sync.started"));
 
       // Sync เฉพาะ group นี้
       await this.syncTopicsForGroup(chat.id.toString());
 
-      await this.bot.sendMessage(
-        chat.id,
-        "✅ Topic sync เสร็จสิ้น! Topics ที่ไม่มีอยู่จริงได้ถูกลบออกจาก database แล้ว",
-      );
+      await this.telegramSender.sendMessage(chat.id, tr.t("sync.done"));
     } catch (error) {
       this.logger.error("Error handling sync topics:", error);
-      await this.bot.sendMessage(chat.id, "❌ เกิดข้อผิดพลาดในการ sync topics");
+      await this.telegramSender.sendMessage(chat.id, tr.t("sync.error"));
     }
   }
 
@@ -3571,11 +7177,12 @@ export class BotService implements OnModuleInit {
       }
 
       // Create sync caption
-      let syncCaption = `📎 Synced from 👤 From: ${senderInfo}`;
-
-      if (message.text || message.caption) {
-        syncCaption += `\n💬 ${message.text || message.caption}`;
-      }
+      const syncCaption = this.buildAttachmentSyncCaption(
+        senderInfo,
+        await this.i18n.forChat(groupId),
+        message.text || message.caption,
+        message.isEdited,
+      );
 
       this.logger.log(
         `      📤 Forwarding ${attachments.length} actual file(s) to topic ${toTopicId}`,
@@ -3584,12 +7191,25 @@ export class BotService implements OnModuleInit {
       // Forward each attachment by its type
       for (const attachment of attachments) {
         try {
-          await this.forwardAttachmentByType(
+          const sentMessage = await this.forwardAttachmentByType(
             attachment,
             toTopicId,
             groupId,
             syncCaption,
           );
+          if (sentMessage) {
+            await this.messagesService.addMirroredMessage(
+              message.telegramMessageId,
+              message.groupId,
+              message.topicId,
+              {
+                groupId,
+                topicId: toTopicId,
+                messageId: sentMessage.message_id,
+                kind: "caption",
+              },
+            );
+          }
           this.logger.log(
             `        ✅ Forwarded ${attachment.fileType}: ${attachment.fileName}`,
           );
@@ -3624,7 +7244,8 @@ export class BotService implements OnModuleInit {
     toTopicId: number,
     groupId: string,
     caption: string,
-  ): Promise<void> {
+  ): Promise<TelegramBot.Message | null> {
+    // Returns the sent message when it carries the caption, null otherwise
     const options = {
       message_thread_id: toTopicId,
       caption:
@@ -3637,93 +7258,75 @@ export class BotService implements OnModuleInit {
 
     switch (attachment.fileType) {
       case "photo":
-        await this.withRetry(
-          () => this.bot.sendPhoto(groupId, attachment.telegramFileId, options),
-          3,
-          1000,
-          "sendPhoto",
+        return this.telegramSender.sendPhoto(
+          groupId,
+          attachment.telegramFileId,
+          options,
         );
-        break;
 
       case "sticker":
         // Stickers don't support captions, send caption separately
-        await this.withRetry(
-          () =>
-            this.bot.sendSticker(groupId, attachment.telegramFileId, {
-              message_thread_id: toTopicId,
-            }),
-          3,
-          1000,
-          "sendSticker",
+        await this.telegramSender.sendSticker(
+          groupId,
+          attachment.telegramFileId,
+          {
+            message_thread_id: toTopicId,
+          },
         );
         if (caption) {
           await this.sendMessageToTopic(groupId, toTopicId, caption);
         }
-        break;
+        return null;
 
       case "video":
-        await this.withRetry(
-          () => this.bot.sendVideo(groupId, attachment.telegramFileId, options),
-          3,
-          1000,
-          "sendVideo",
+        return this.telegramSender.sendVideo(
+          groupId,
+          attachment.telegramFileId,
+          options,
         );
-        break;
 
       case "audio":
-        await this.withRetry(
-          () => this.bot.sendAudio(groupId, attachment.telegramFileId, options),
-          3,
-          1000,
-          "sendAudio",
+        return this.telegramSender.sendAudio(
+          groupId,
+          attachment.telegramFileId,
+          options,
         );
-        break;
 
       case "voice":
-        await this.withRetry(
-          () => this.bot.sendVoice(groupId, attachment.telegramFileId, options),
-          3,
-          1000,
-          "sendVoice",
+        return this.telegramSender.sendVoice(
+          groupId,
+          attachment.telegramFileId,
+          options,
         );
-        break;
 
       case "video_note":
         // Video notes don't support captions, send caption separately
-        await this.withRetry(
-          () =>
-            this.bot.sendVideoNote(groupId, attachment.telegramFileId, {
-              message_thread_id: toTopicId,
-            }),
-          3,
-          1000,
-          "sendVideoNote",
+        await this.telegramSender.sendVideoNote(
+          groupId,
+          attachment.telegramFileId,
+          {
+            message_thread_id: toTopicId,
+          },
         );
         if (caption) {
           await this.sendMessageToTopic(groupId, toTopicId, caption);
         }
-        break;
+        return null;
 
       case "animation":
-        await this.withRetry(
-          () =>
-            this.bot.sendAnimation(groupId, attachment.telegramFileId, options),
-          3,
-          1000,
-          "sendAnimation",
+        return this.telegramSender.sendAnimation(
+          groupId,
+          attachment.telegramFileId,
+          options,
         );
-        break;
 
       case "document":
       default:
-        await this.withRetry(
-          () =>
-            this.bot.sendDocument(groupId, attachment.telegramFileId, options),
-          3,
-          1000,
-          "sendDocument",
+        return this.telegramSender.sendDocument(
+          groupId,
+          attachment.telegramFileId,
+          options,
         );
-        break;
     }
   }
 
@@ -3810,17 +7413,19 @@ export class BotService implements OnModuleInit {
     // newTopicId and groupId are kept for future enhancements
     try {
       // พยายามส่งข้อความส่วนตัวให้ user ที่ถูก mention
-      const notificationMessage =
-        `🔔 คุณถูก mention ใน Ticket Support!\n\n` +
-        `🎫 Ticket: ${ticket?.ticketId}\n` +
-        `📝 หัวข้อ: ${ticket?.title}\n` +
-        `👤 เชิญโดย: ${inviterName}\n\n` +
-        `💬 มี Topic ส่วนตัวรอคุณอยู่ในกลุ่ม\n` +
-        `🔗 คลิกไปที่กลุ่มและหา Topic: "👤 ${targetUser.firstName || targetUser.username} - ${ticket.ticketId}"\n\n` +
-        `✨ เริ่มสนทนาได้เลย!`;
+      const tr = this.i18n.forLanguage(targetUser.languageCode);
+      const notificationMessage = tr.t("mention.dm", {
+        ticketId: ticket?.ticketId,
+        title: ticket?.title,
+        inviter: inviterName,
+        topicName: `👤 ${targetUser.firstName || targetUser.username} - ${ticket.ticketId}`,
+      });
 
       // ส่งข้อความส่วนตัว (อาจจะส่งไม่ได้ถ้า user ไม่ได้เริ่มสนทนากับ bot)
-      await this.bot.sendMessage(targetUser.telegramId, notificationMessage);
+      await this.telegramSender.sendMessage(
+        targetUser.telegramId,
+        notificationMessage,
+      );
 
       this.logger.log(
         `Successfully sent notification to user ${targetUser.username || targetUser.telegramId}`,
@@ -3976,38 +7581,42 @@ export class BotService implements OnModuleInit {
     const args = text.split(" ").slice(1);
     const user = msg.from;
     const chat = msg.chat;
+    const tr = await this.getTranslator(msg);
 
     if (!user || !chat || chat.type === "private") {
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        "❌ คำสั่งนี้ใช้ได้เฉพาะในกลุ่มเท่านั้น",
+        tr.t("common.groupOnly", { command: "archive" }),
       );
       return;
     }
 
-    // กำหนดค่าเริ่มต้นเป็น 30 วัน
-    let maxAgeDays = 30;
+    // ค่าเริ่มต้นตาม archiveAfterDays ของกลุ่ม
+    let { archiveAfterDays: maxAgeDays } =
+      await this.groupSettingsService.getSettings(chat.id.toString());
 
     if (args.length > 0) {
       const parsedDays = parseInt(args[0]);
       if (!isNaN(parsedDays) && parsedDays > 0) {
         maxAgeDays = parsedDays;
       } else {
-        await this.bot.sendMessage(
+        await this.telegramSender.sendMessage(
           msg.chat.id,
-          "❌ จำนวนวันต้องเป็นตัวเลขบวกเท่านั้น\n\n" +
-            "📝 ตัวอย่าง: /archive 30 (ลบ topics ที่อายุมากกว่า 30 วัน)",
+          tr.t("archive.invalidDays"),
         );
         return;
       }
     }
 
     try {
-      await this.bot.sendMessage(
+      await this.sendFormatted(
         msg.chat.id,
-        `🗂️ **เริ่มกระบวนการ Archive**\n\n` +
-          `📅 กำลังค้นหา topics ที่อายุมากกว่า ${maxAgeDays} วัน...\n` +
-          `⚠️ กรุณารอสักครู่...`,
+        new MessageBuilder()
+          .line("🗂️ ", bold(tr.t("archive.startTitle")))
+          .blank()
+          .line(tr.t("archive.searching", { days: maxAgeDays }))
+          .line(tr.t("common.pleaseWait"))
+          .build(),
       );
 
       // ดึงรายการ topics ทั้งหมดในกลุ่มนี้
@@ -4016,7 +7625,10 @@ export class BotService implements OnModuleInit {
       );
 
       if (topics.length === 0) {
-        await this.bot.sendMessage(msg.chat.id, "📭 ไม่พบ topics ในกลุ่มนี้");
+        await this.telegramSender.sendMessage(
+          msg.chat.id,
+          tr.t("archive.noTopics"),
+        );
         return;
       }
 
@@ -4048,6 +7660,7 @@ export class BotService implements OnModuleInit {
                     topic.telegramTopicId,
                     linkedTopic.topicId,
                     topic.groupId,
+                    this.toActor(user),
                   );
                   unlinkedCount++;
                 } catch (unlinkError) {
@@ -4090,22 +7703,22 @@ export class BotService implements OnModuleInit {
       }
 
       // ส่งผลลัพธ์
-      const resultMessage =
-        `✅ **กระบวนการ Archive เสร็จสิ้น**\n\n` +
-        `📊 **สรุปผลลัพธ์:**\n` +
-        `🗑️ ลบ topics: ${archivedCount} รายการ\n` +
-        `🔗 ยกเลิกการเชื่อมโยง: ${unlinkedCount} รายการ\n` +
-        `⚠️ ข้อผิดพลาด: ${errorCount} รายการ\n\n` +
-        `📅 เกณฑ์อายุ: มากกว่า ${maxAgeDays} วัน\n` +
-        `👤 ดำเนินการโดย: ${user.first_name}`;
-
-      await this.bot.sendMessage(msg.chat.id, resultMessage);
+      const resultMessage = new MessageBuilder()
+        .line("✅ ", bold(tr.t("archive.doneTitle")))
+        .blank()
+        .line("📊 ", bold(tr.t("archive.summary")))
+        .line(tr.t("archive.deleted", { count: archivedCount }))
+        .line(tr.t("archive.unlinked", { count: unlinkedCount }))
+        .line(tr.t("archive.errors", { count: errorCount }))
+        .blank()
+        .line(tr.t("archive.criteria", { days: maxAgeDays }))
+        .line(tr.t("archive.by", { name: user.first_name }))
+        .build();
+
+      await this.sendFormatted(msg.chat.id, resultMessage);
     } catch (error) {
       this.logger.error("Error in handleArchive:", error);
-      await this.bot.sendMessage(
-        msg.chat.id,
-        "❌ เกิดข้อผิดพลาดในการ Archive topics",
-      );
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("archive.error"));
     }
   }
 
@@ -4118,8 +7731,9 @@ export class BotService implements OnModuleInit {
       return;
     }
 
+    const tr = await this.getTranslator(msg);
     try {
-      await this.bot.sendMessage(msg.chat.id, "🔄 กำลัง sync topics...");
+      await this.telegramSender.sendMessage(msg.chat.id, tr.t("debug.syncing"));
 
       await this.syncTopicsWithTelegram();
 
@@ -4127,13 +7741,16 @@ export class BotService implements OnModuleInit {
         chat.id.toString(),
       );
 
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        `✅ Sync เสร็จสิ้น\n📊 พบ ${topics.length} topics ในกลุ่มนี้`,
+        tr.t("debug.synced", { count: topics.length }),
       );
     } catch (error) {
       this.logger.error("Error in handleDebugSync:", error);
-      await this.bot.sendMessage(msg.chat.id, `❌ Error: ${error.message}`);
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        `❌ Error: ${error.message}`,
+      );
     }
   }
 
@@ -4145,8 +7762,12 @@ export class BotService implements OnModuleInit {
       return;
     }
 
+    const tr = await this.getTranslator(msg);
     try {
-      await this.bot.sendMessage(msg.chat.id, "🗑️ กำลังลบ topics ทั้งหมด...");
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        tr.t("debug.clearing"),
+      );
 
       // ลบ topics ทั้งหมดในกลุ่มนี้
       const topics = await this.topicsService.getTopicsByGroup(
@@ -4172,13 +7793,19 @@ export class BotService implements OnModuleInit {
         }
       }
 
-      await this.bot.sendMessage(
+      await this.telegramSender.sendMessage(
         msg.chat.id,
-        `✅ ลบเสร็จสิ้น\n🗑️ ลบ ${deletedCount} topics${failedCount > 0 ? ` (${failedCount} ลบไม่ได้)` : ""}`,
+        tr.t("debug.cleared", { count: deletedCount }) +
+          (failedCount > 0
+            ? tr.t("debug.clearFailed", { count: failedCount })
+            : ""),
       );
     } catch (error) {
       this.logger.error("Error in handleDebugClear:", error);
-      await this.bot.sendMessage(msg.chat.id, `❌ Error: ${error.message}`);
+      await this.telegramSender.sendMessage(
+        msg.chat.id,
+        `❌ Error: ${error.message}`,
+      );
     }
   }
 }
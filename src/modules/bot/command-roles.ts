@@ -0,0 +1,32 @@
+import { MemberRole } from "../groups/schemas/membership.schema";
+
+// "operator" = เฉพาะ Telegram user ใน BOT_OPERATOR_IDS ไม่ขึ้นกับ role ในกลุ่ม
+export type CommandAccess = readonly MemberRole[] | "operator";
+
+const STAFF = [MemberRole.OWNER, MemberRole.SUPERVISOR, MemberRole.AGENT];
+const SUPERVISORS = [MemberRole.OWNER, MemberRole.SUPERVISOR];
+
+// role ที่ต้องมีเพื่อใช้คำสั่งในกลุ่ม (คำสั่งที่ไม่อยู่ในนี้ใช้ได้ทุกคน)
+export const COMMAND_ROLES = {
+  close_ticket: STAFF, // closePermission ของกลุ่มจำกัดเพิ่มได้
+  status: STAFF,
+  pending: STAFF,
+  reopen: STAFF,
+  reply: STAFF,
+  history: STAFF,
+  export: STAFF,
+  search: STAFF,
+  mention: STAFF,
+  assign: STAFF,
+  unassign: STAFF,
+  link_topic: STAFF,
+  unlink_topic: STAFF,
+  archive: SUPERVISORS,
+  role: SUPERVISORS,
+  settings: SUPERVISORS,
+  sync_topics: SUPERVISORS,
+  debug_sync: "operator",
+  debug_clear: "operator",
+} satisfies Record<string, CommandAccess>;
+
+export type GuardedCommand = keyof typeof COMMAND_ROLES;
@@ -0,0 +1,43 @@
+import { ConversationFlow } from "../../conversations/conversation-flow";
+import { TicketPriority } from "../../ticket/schemas/ticket.schema";
+
+// /create_ticket แบบไม่มี argument - ถามหัวข้อ รายละเอียด ความสำคัญ และไฟล์แนบทีละขั้น
+export const CREATE_TICKET_FLOW: ConversationFlow = {
+  name: "create_ticket",
+  timeoutMinutes: 10,
+  steps: [
+    {
+      key: "title",
+      prompt: "wizard.titlePrompt",
+      validate: (value) =>
+        value.length > 100
+          ? { key: "wizard.titleTooLong", params: { max: 100 } }
+          : null,
+    },
+    {
+      key: "description",
+      prompt: "wizard.descriptionPrompt",
+      optional: true,
+      validate: (value) =>
+        value.length > 2000
+          ? { key: "wizard.descriptionTooLong", params: { max: 2000 } }
+          : null,
+    },
+    {
+      key: "priority",
+      prompt: "wizard.priorityPrompt",
+      optional: true,
+      choices: [
+        { value: TicketPriority.LOW, label: "🟢 Low" },
+        { value: TicketPriority.MEDIUM, label: "🟡 Medium" },
+        { value: TicketPriority.HIGH, label: "🔴 High" },
+      ],
+    },
+    {
+      key: "attachments",
+      prompt: "wizard.attachmentsPrompt",
+      optional: true,
+      acceptsAttachments: true,
+    },
+  ],
+};
@@ -0,0 +1,106 @@
+import {
+  MessageBuilder,
+  bold,
+  code,
+  escapeText,
+  formatText,
+  inline,
+  italic,
+  link,
+  mention,
+} from "./message-builder";
+
+describe("MessageBuilder", () => {
+  describe("escapeText", () => {
+    it("escapes HTML special characters", () => {
+      expect(escapeText('<b>"Tom" & Jerry</b>', "HTML")).toBe(
+        '&lt;b&gt;"Tom" &amp; Jerry&lt;/b&gt;',
+      );
+    });
+
+    it("escapes every MarkdownV2 special character", () => {
+      const special = "_*[]()~`>#+-=|{}.!\\";
+      expect(escapeText(special, "MarkdownV2")).toBe(
+        special.replace(/./g, "\\$&"),
+      );
+    });
+
+    it("leaves plain text untouched", () => {
+      expect(escapeText("สวัสดี hello 123", "HTML")).toBe("สวัสดี hello 123");
+      expect(escapeText("สวัสดี hello 123", "MarkdownV2")).toBe(
+        "สวัสดี hello 123",
+      );
+    });
+  });
+
+  describe("user text", () => {
+    it("cannot inject HTML tags", () => {
+      const text = formatText(bold("<i>title</i>"), " </b><a href='x'>");
+      expect(text.text).toBe(
+        "<b>&lt;i&gt;title&lt;/i&gt;</b> &lt;/b&gt;&lt;a href='x'&gt;",
+      );
+      expect(text.parseMode).toBe("HTML");
+    });
+
+    it("cannot break MarkdownV2 markers", () => {
+      const text = new MessageBuilder("MarkdownV2")
+        .line(bold("*not bold*"), " ", italic("_x_"))
+        .build();
+      expect(text.text).toBe("*\\*not bold\\** _\\_x\\__");
+    });
+
+    it("renders numbers, null and undefined safely", () => {
+      expect(formatText("#", 42, null, undefined, 1.5).text).toBe("#421.5");
+    });
+  });
+
+  describe("code", () => {
+    it("escapes HTML inside code", () => {
+      expect(formatText(code("a<b>&c")).text).toBe(
+        "<code>a&lt;b&gt;&amp;c</code>",
+      );
+    });
+
+    it("escapes only backticks and backslashes in MarkdownV2", () => {
+      expect(
+        new MessageBuilder("MarkdownV2").line(code("TK-1`a\\b.c")).build().text,
+      ).toBe("`TK-1\\`a\\\\b.c`");
+    });
+  });
+
+  describe("link", () => {
+    it("escapes quotes in HTML attributes", () => {
+      expect(formatText(link("x", 'https://a.b/?q="><script>')).text).toBe(
+        '<a href="https://a.b/?q=&quot;&gt;&lt;script&gt;">x</a>',
+      );
+    });
+
+    it("escapes closing parentheses in MarkdownV2 URLs", () => {
+      expect(
+        new MessageBuilder("MarkdownV2")
+          .line(link("site", "https://a.b/(x)"))
+          .build().text,
+      ).toBe("[site](https://a.b/(x\\))");
+    });
+
+    it("builds user mentions from ids", () => {
+      expect(formatText(mention("Tom", 123)).text).toBe(
+        '<a href="tg://user?id=123">Tom</a>',
+      );
+    });
+  });
+
+  describe("build", () => {
+    it("joins lines and skips lines whose condition is false", () => {
+      const text = new MessageBuilder()
+        .line("📝 ", bold("Title"))
+        .lineIf(false, "hidden")
+        .lineIf("yes", "shown")
+        .blank()
+        .line(inline("a", italic("b")))
+        .build();
+      expect(text.text).toBe("📝 <b>Title</b>\nshown\n\na<i>b</i>");
+      expect(String(text)).toBe(text.text);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+// ประกอบข้อความที่มี formatting ของ Telegram (HTML / MarkdownV2)
+// ข้อความธรรมดา (string/number) จะถูก escape เสมอ - markup สร้างได้ผ่าน helper (bold, code, link ...) เท่านั้น
+// จึงใส่ชื่อ ticket, username หรือรายละเอียดที่ผู้ใช้พิมพ์ได้อย่างปลอดภัย
+
+export type ParseMode = "HTML" | "MarkdownV2";
+
+export type Inline = FormattedNode | string | number | null | undefined;
+
+export class FormattedNode {
+  constructor(private readonly renderer: (mode: ParseMode) => string) {}
+
+  render(mode: ParseMode): string {
+    return this.renderer(mode);
+  }
+}
+
+// ผลลัพธ์ที่พร้อมส่ง: ใช้ text คู่กับ parse_mode เสมอ
+export class FormattedText {
+  constructor(
+    readonly text: string,
+    readonly parseMode: ParseMode,
+  ) {}
+
+  toString(): string {
+    return this.text;
+  }
+}
+
+const MARKDOWN_V2_SPECIAL = /[_*[\]()~`>#+\-=|{}.!\\]/g;
+
+export function escapeText(value: string, mode: ParseMode): string {
+  return mode === "HTML"
+    ? value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    : value.replace(MARKDOWN_V2_SPECIAL, "\\$&");
+}
+
+function escapeAttribute(value: string, mode: ParseMode): string {
+  return mode === "HTML"
+    ? escapeText(value, mode).replace(/"/g, "&quot;")
+    : value.replace(/[)\\]/g, "\\$&");
+}
+
+function escapeCode(value: string, mode: ParseMode): string {
+  return mode === "HTML"
+    ? escapeText(value, mode)
+    : value.replace(/[`\\]/g, "\\$&");
+}
+
+function renderInline(parts: Inline[], mode: ParseMode): string {
+  return parts
+    .map((part) => {
+      if (part === null || part === undefined) return "";
+      if (part instanceof FormattedNode) return part.render(mode);
+      return escapeText(String(part), mode);
+    })
+    .join("");
+}
+
+function wrap(htmlTag: string, markdownMarker: string) {
+  return (...content: Inline[]) =>
+    new FormattedNode((mode) => {
+      const inner = renderInline(content, mode);
+      return mode === "HTML"
+        ? `<${htmlTag}>${inner}</${htmlTag}>`
+        : `${markdownMarker}${inner}${markdownMarker}`;
+    });
+}
+
+export const bold = wrap("b", "*");
+export const italic = wrap("i", "_");
+export const underline = wrap("u", "__");
+export const strike = wrap("s", "~");
+
+export function code(value: string | number): FormattedNode {
+  return new FormattedNode((mode) => {
+    const inner = escapeCode(String(value), mode);
+    return mode === "HTML" ? `<code>${inner}</code>` : `\`${inner}\``;
+  });
+}
+
+export function link(content: Inline, url: string): FormattedNode {
+  return new FormattedNode((mode) => {
+    const inner = renderInline([content], mode);
+    return mode === "HTML"
+      ? `<a href="${escapeAttribute(url, mode)}">${inner}</a>`
+      : `[${inner}](${escapeAttribute(url, mode)})`;
+  });
+}
+
+// mention ผู้ใช้ที่ไม่มี username ผ่าน user id
+export function mention(
+  content: Inline,
+  userId: string | number,
+): FormattedNode {
+  return link(content, `tg://user?id=${userId}`);
+}
+
+// รวมหลายส่วนเป็น node เดียว (ใช้ใน helper หรือ ternary)
+export function inline(...parts: Inline[]): FormattedNode {
+  return new FormattedNode((mode) => renderInline(parts, mode));
+}
+
+// ประกอบข้อความทีละบรรทัด
+export class MessageBuilder {
+  private readonly lines: Inline[][] = [];
+
+  constructor(private readonly parseMode: ParseMode = "HTML") {}
+
+  line(...parts: Inline[]): this {
+    this.lines.push(parts);
+    return this;
+  }
+
+  // เพิ่มบรรทัดเมื่อ condition เป็นจริง
+  lineIf(condition: unknown, ...parts: Inline[]): this {
+    return condition ? this.line(...parts) : this;
+  }
+
+  blank(): this {
+    this.lines.push([]);
+    return this;
+  }
+
+  build(): FormattedText {
+    return new FormattedText(
+      this.lines.map((parts) => renderInline(parts, this.parseMode)).join("\n"),
+      this.parseMode,
+    );
+  }
+}
+
+export function formatText(...parts: Inline[]): FormattedText {
+  return new FormattedText(renderInline(parts, "HTML"), "HTML");
+}
@@ -0,0 +1,43 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document } from "mongoose";
+
+export type ProcessedUpdateDocument = ProcessedUpdate & Document;
+
+export enum ProcessedUpdateStatus {
+  PROCESSING = "processing", // รับแล้ว รออยู่ในคิวหรือกำลังประมวลผล
+  DONE = "done",
+}
+
+// update_id ของ Telegram ที่รับแล้ว - กันประมวลผลซ้ำเมื่อ Telegram ส่ง webhook ซ้ำหรือมีหลาย instance
+// update ที่ยัง processing เมื่อ lease หมด (instance ตายกลางทาง) จะถูก instance อื่นรับไปทำใหม่
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class ProcessedUpdate {
+  @Prop({ required: true, unique: true })
+  updateId: number;
+
+  @Prop()
+  instanceId?: string; // instance ที่ถือ update นี้อยู่
+
+  // ไม่มี status = record ก่อนมี lease ถือว่าเสร็จแล้ว
+  @Prop({ enum: ProcessedUpdateStatus })
+  status?: ProcessedUpdateStatus;
+
+  @Prop({ type: Object })
+  update?: any; // payload สำหรับประมวลผลใหม่ (ลบทิ้งเมื่อเสร็จ)
+
+  @Prop()
+  leaseExpiresAt?: Date;
+
+  @Prop({ default: 0 })
+  attempts: number;
+}
+
+export const ProcessedUpdateSchema =
+  SchemaFactory.createForClass(ProcessedUpdate);
+
+ProcessedUpdateSchema.index({ status: 1, leaseExpiresAt: 1 });
+// Telegram เก็บ update ที่ยังไม่ส่งไว้ไม่เกิน 24 ชั่วโมง
+ProcessedUpdateSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 24 * 60 * 60 },
+);
@@ -0,0 +1,107 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { BotService } from "./bot.service";
+import { LocksService } from "../locks/locks.service";
+
+const POLLING_LOCK = "bot.polling";
+const RETRY_DELAY_MS = 5000;
+
+// ดึง update ด้วย getUpdates แทน webhook (TELEGRAM_MODE=polling) สำหรับเครื่อง dev ที่ไม่มี public URL
+// Telegram ยอมให้ getUpdates ได้ทีละ connection จึงให้ instance ที่ถือ lock เป็นผู้ poll
+@Injectable()
+export class TelegramPollingService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(TelegramPollingService.name);
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private offset = 0;
+  private lastPollAt?: Date;
+
+  constructor(
+    private configService: ConfigService,
+    private botService: BotService,
+    private locksService: LocksService,
+  ) {}
+
+  async onApplicationBootstrap() {
+    if (this.botService.getMode() !== "polling") return;
+
+    try {
+      // getUpdates ใช้ไม่ได้ถ้ายังมี webhook ลงทะเบียนอยู่
+      await this.botService.removeWebhook();
+    } catch (error) {
+      this.logger.warn(`Could not remove webhook: ${error.message}`);
+    }
+
+    this.startPolling();
+  }
+
+  // หยุดรับ update ใหม่ก่อน UpdateQueueService รอคิวให้ว่าง (beforeApplicationShutdown)
+  async onModuleDestroy() {
+    await this.stopPolling();
+  }
+
+  startPolling(): void {
+    if (this.running) return;
+    this.running = true;
+    this.loop = this.poll();
+    this.logger.log("Telegram long polling started");
+  }
+
+  // รอรอบปัจจุบันจบ (สูงสุดเท่า long polling timeout) เพื่อไม่ให้ update ที่ดึงมาแล้วหาย
+  async stopPolling(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    await this.loop;
+    await this.locksService.release(POLLING_LOCK).catch(() => {});
+    this.logger.log("Telegram long polling stopped");
+  }
+
+  getStatus(): { running: boolean; offset: number; lastPollAt?: Date } {
+    return {
+      running: this.running,
+      offset: this.offset,
+      lastPollAt: this.lastPollAt,
+    };
+  }
+
+  private async poll(): Promise<void> {
+    const timeout =
+      this.configService.get<number>("telegram.pollingTimeout") || 25;
+
+    while (this.running) {
+      try {
+        const isLeader = await this.locksService.acquire(
+          POLLING_LOCK,
+          (timeout + 30) * 1000,
+        );
+        if (!isLeader) {
+          await this.delay(RETRY_DELAY_MS);
+          continue;
+        }
+
+        const updates = await this.botService.getUpdates(this.offset, timeout);
+        this.lastPollAt = new Date();
+
+        for (const update of updates) {
+          // ใช้เส้นทางเดียวกับ webhook (dedup + คิวตามแชท)
+          await this.botService.processWebhookUpdate(update);
+          this.offset = update.update_id + 1;
+        }
+      } catch (error) {
+        this.logger.error(`Polling failed: ${error.message}`);
+        await this.delay(RETRY_DELAY_MS);
+      }
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
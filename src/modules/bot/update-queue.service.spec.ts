@@ -0,0 +1,178 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { UpdateQueueService } from "./update-queue.service";
+
+// งานที่ควบคุมได้ว่าจะเสร็จเมื่อไร
+function deferred() {
+  let resolve: () => void;
+  let reject: (error: Error) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("UpdateQueueService", () => {
+  let config: Record<string, unknown>;
+  let queue: UpdateQueueService;
+  let log: string[];
+
+  const createQueue = () =>
+    new UpdateQueueService({
+      get: (key: string) => config[key],
+    } as ConfigService);
+
+  beforeEach(() => {
+    config = { "telegram.updateConcurrency": 2 };
+    queue = createQueue();
+    log = [];
+    jest.spyOn(Logger.prototype, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // enqueue งานที่บันทึกตอนเริ่ม และรอ gate ก่อนจบ
+  const enqueue = (chatKey: string, name: string) => {
+    const gate = deferred();
+    queue.enqueue(chatKey, async () => {
+      log.push(`start ${name}`);
+      await gate.promise;
+      log.push(`end ${name}`);
+    });
+    return gate;
+  };
+
+  it("processes updates of the same chat one at a time, in order", async () => {
+    const first = enqueue("chat-1", "a1");
+    const second = enqueue("chat-1", "a2");
+    await flush();
+    expect(log).toEqual(["start a1"]);
+
+    second.resolve();
+    await flush();
+    expect(log).toEqual(["start a1"]);
+
+    first.resolve();
+    await flush();
+    expect(log).toEqual(["start a1", "end a1", "start a2", "end a2"]);
+  });
+
+  it("runs different chats in parallel up to the concurrency limit", async () => {
+    const a = enqueue("chat-1", "a");
+    enqueue("chat-2", "b");
+    enqueue("chat-3", "c");
+    await flush();
+
+    expect(log).toEqual(["start a", "start b"]);
+    expect(queue.getStats()).toEqual({ active: 2, queuedChats: 3, pending: 3 });
+
+    a.resolve();
+    await flush();
+    expect(log).toEqual(["start a", "start b", "end a", "start c"]);
+  });
+
+  it("gives waiting chats a turn before the next update of a busy chat", async () => {
+    config["telegram.updateConcurrency"] = 1;
+    queue = createQueue();
+
+    const a1 = enqueue("chat-1", "a1");
+    enqueue("chat-1", "a2").resolve();
+    const b = enqueue("chat-2", "b");
+    await flush();
+
+    a1.resolve();
+    await flush();
+    expect(log.filter((entry) => entry.startsWith("start"))).toEqual([
+      "start a1",
+      "start b",
+    ]);
+
+    b.resolve();
+    await flush();
+    expect(log.at(-1)).toBe("end a2");
+  });
+
+  it("keeps processing a chat after one of its updates fails", async () => {
+    const first = enqueue("chat-1", "a1");
+    enqueue("chat-1", "a2").resolve();
+
+    first.reject(new Error("boom"));
+    await flush();
+
+    expect(log).toEqual(["start a1", "start a2", "end a2"]);
+    expect(Logger.prototype.error).toHaveBeenCalledWith(
+      "Error processing update for chat-1:",
+      expect.any(Error),
+    );
+    expect(queue.getStats()).toEqual({ active: 0, queuedChats: 0, pending: 0 });
+  });
+
+  describe("shutdown", () => {
+    it("resolves onIdle once every queued update has finished", async () => {
+      const a = enqueue("chat-1", "a");
+      const b = enqueue("chat-2", "b");
+      let idle = false;
+      queue.onIdle().then(() => (idle = true));
+
+      a.resolve();
+      await flush();
+      expect(idle).toBe(false);
+
+      b.resolve();
+      await flush();
+      expect(idle).toBe(true);
+    });
+
+    it("returns immediately when nothing is queued", async () => {
+      await expect(queue.beforeApplicationShutdown()).resolves.toBeUndefined();
+    });
+
+    it("waits for queued updates before shutting down", async () => {
+      const a = enqueue("chat-1", "a");
+      let done = false;
+      const shutdown = queue
+        .beforeApplicationShutdown()
+        .then(() => (done = true));
+
+      await flush();
+      expect(done).toBe(false);
+
+      a.resolve();
+      await shutdown;
+      expect(log).toEqual(["start a", "end a"]);
+    });
+
+    it("gives up after the shutdown timeout", async () => {
+      jest.useFakeTimers();
+      const warn = jest
+        .spyOn(Logger.prototype, "warn")
+        .mockImplementation(() => undefined);
+      jest.spyOn(Logger.prototype, "log").mockImplementation(() => undefined);
+      config["telegram.shutdownTimeout"] = 5;
+
+      try {
+        enqueue("chat-1", "stuck");
+        let done = false;
+        const shutdown = queue
+          .beforeApplicationShutdown()
+          .then(() => (done = true));
+
+        await jest.advanceTimersByTimeAsync(4999);
+        expect(done).toBe(false);
+
+        await jest.advanceTimersByTimeAsync(1);
+        await shutdown;
+        expect(warn).toHaveBeenCalledWith(
+          "Shutdown timeout - 1 updates left unfinished",
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { BeforeApplicationShutdown, Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+type UpdateTask = () => Promise<void>;
+
+// คิวประมวลผล Telegram update: update ของแชทเดียวกันทำตามลำดับ
+// และจำกัดจำนวนแชทที่ทำงานพร้อมกัน เพื่อให้ webhook ตอบกลับได้ทันที
+@Injectable()
+export class UpdateQueueService implements BeforeApplicationShutdown {
+  private readonly logger = new Logger(UpdateQueueService.name);
+  private readonly concurrency: number;
+
+  private readonly queues = new Map<string, UpdateTask[]>(); // chatKey -> งานที่รอ
+  private readonly ready: string[] = []; // chatKey ที่มีงานรอและยังไม่มีงานกำลังทำ
+  private active = 0;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(private configService: ConfigService) {
+    this.concurrency = Math.max(
+      1,
+      this.configService.get<number>("telegram.updateConcurrency") || 10,
+    );
+  }
+
+  enqueue(chatKey: string, task: UpdateTask): void {
+    const queue = this.queues.get(chatKey);
+    if (queue) {
+      // แชทนี้มีงานค้างหรือกำลังทำอยู่ - ต่อท้ายเพื่อรักษาลำดับ
+      queue.push(task);
+      return;
+    }
+
+    this.queues.set(chatKey, [task]);
+    this.ready.push(chatKey);
+    this.drain();
+  }
+
+  // ก่อน MongoDB ปิด (onApplicationShutdown) - รอ update ที่รับมาแล้วให้เสร็จ
+  // ที่เหลือหลัง timeout ยังมีสถานะ processing และจะถูก instance อื่นรับไปทำต่อ
+  async beforeApplicationShutdown() {
+    const { pending } = this.getStats();
+    if (pending === 0) return;
+
+    const timeoutMs =
+      (this.configService.get<number>("telegram.shutdownTimeout") || 10) * 1000;
+    this.logger.log(`Waiting for ${pending} queued updates before shutdown`);
+
+    let timer: NodeJS.Timeout;
+    const drained = await Promise.race([
+      this.onIdle().then(() => true),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (!drained) {
+      this.logger.warn(
+        `Shutdown timeout - ${this.getStats().pending} updates left unfinished`,
+      );
+    }
+  }
+
+  // resolve เมื่อไม่มี update ค้างในคิว
+  onIdle(): Promise<void> {
+    if (this.queues.size === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  getStats(): { active: number; queuedChats: number; pending: number } {
+    let pending = 0;
+    for (const queue of this.queues.values()) pending += queue.length;
+    return { active: this.active, queuedChats: this.queues.size, pending };
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency && this.ready.length > 0) {
+      this.run(this.ready.shift());
+    }
+  }
+
+  private async run(chatKey: string): Promise<void> {
+    const queue = this.queues.get(chatKey);
+    this.active++;
+
+    try {
+      await queue[0]();
+    } catch (error) {
+      this.logger.error(`Error processing update for ${chatKey}:`, error);
+    } finally {
+      this.active--;
+      queue.shift();
+      if (queue.length > 0) {
+        this.ready.push(chatKey);
+      } else {
+        this.queues.delete(chatKey);
+      }
+      this.drain();
+
+      if (this.queues.size === 0) {
+        const waiters = this.idleWaiters;
+        this.idleWaiters = [];
+        waiters.forEach((resolve) => resolve());
+      }
+    }
+  }
+}
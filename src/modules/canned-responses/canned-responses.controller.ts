@@ -0,0 +1,210 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from "@nestjs/common";
+import { CannedResponsesService } from "./canned-responses.service";
+import { CreateCannedResponseDto } from "./dto/create-canned-response.dto";
+import { UpdateCannedResponseDto } from "./dto/update-canned-response.dto";
+import { SendCannedResponseDto } from "./dto/send-canned-response.dto";
+import { ApiKeyGuard } from "../api/guards/api-key.guard";
+import { RequireScope } from "../../common/decorators/api-scope.decorator";
+import { ApiActor } from "../../common/decorators/api-actor.decorator";
+import { ApiKeyScope } from "../api/schemas/api-key.schema";
+import { TicketService } from "../ticket/ticket.service";
+import { TicketStatus } from "../ticket/schemas/ticket.schema";
+import { MessagesService } from "../messages/messages.service";
+import { MessageType } from "../messages/schemas/message.schema";
+import { BotService } from "../bot/bot.service";
+import { DomainEventActor } from "../events/domain-events.service";
+
+@Controller("api/v1/canned-responses")
+@UseGuards(ApiKeyGuard)
+export class CannedResponsesController {
+  constructor(
+    private readonly cannedResponsesService: CannedResponsesService,
+    private readonly ticketService: TicketService,
+    private readonly messagesService: MessagesService,
+    private readonly botService: BotService,
+  ) {}
+
+  @Get()
+  @RequireScope(ApiKeyScope.READ)
+  async listCannedResponses(@Query("groupId") groupId?: string) {
+    const cannedResponses = groupId
+      ? await this.cannedResponsesService.findByGroup(groupId)
+      : await this.cannedResponsesService.findAll();
+
+    return {
+      success: true,
+      data: cannedResponses,
+    };
+  }
+
+  @Get(":id")
+  @RequireScope(ApiKeyScope.READ)
+  async getCannedResponse(@Param("id") id: string) {
+    const cannedResponse = await this.cannedResponsesService.findById(id);
+    if (!cannedResponse) {
+      throw new NotFoundException(`Canned response ${id} not found`);
+    }
+
+    return {
+      success: true,
+      data: cannedResponse,
+    };
+  }
+
+  @Post()
+  @RequireScope(ApiKeyScope.WRITE)
+  async createCannedResponse(
+    @Body() createCannedResponseDto: CreateCannedResponseDto,
+    @ApiActor() actor: DomainEventActor,
+  ) {
+    const existing = await this.cannedResponsesService.findByShortcut(
+      createCannedResponseDto.groupId,
+      createCannedResponseDto.shortcut,
+    );
+    if (existing) {
+      throw new ConflictException(
+        `Shortcut ${createCannedResponseDto.shortcut} already exists in group ${createCannedResponseDto.groupId}`,
+      );
+    }
+
+    const cannedResponse = await this.cannedResponsesService.create({
+      ...createCannedResponseDto,
+      createdBy: actor.id,
+    });
+
+    return {
+      success: true,
+      data: cannedResponse,
+    };
+  }
+
+  @Put(":id")
+  @RequireScope(ApiKeyScope.WRITE)
+  async updateCannedResponse(
+    @Param("id") id: string,
+    @Body() updateCannedResponseDto: UpdateCannedResponseDto,
+  ) {
+    const cannedResponse = await this.cannedResponsesService.findById(id);
+    if (!cannedResponse) {
+      throw new NotFoundException(`Canned response ${id} not found`);
+    }
+
+    if (updateCannedResponseDto.shortcut) {
+      const existing = await this.cannedResponsesService.findByShortcut(
+        cannedResponse.groupId,
+        updateCannedResponseDto.shortcut,
+      );
+      if (existing && (existing as any)._id.toString() !== id) {
+        throw new ConflictException(
+          `Shortcut ${updateCannedResponseDto.shortcut} already exists in group ${cannedResponse.groupId}`,
+        );
+      }
+    }
+
+    const updated = await this.cannedResponsesService.update(
+      id,
+      updateCannedResponseDto,
+    );
+
+    return {
+      success: true,
+      data: updated,
+    };
+  }
+
+  @Delete(":id")
+  @RequireScope(ApiKeyScope.WRITE)
+  @HttpCode(HttpStatus.OK)
+  async deleteCannedResponse(@Param("id") id: string) {
+    const deleted = await this.cannedResponsesService.delete(id);
+    if (!deleted) {
+      throw new NotFoundException(`Canned response ${id} not found`);
+    }
+
+    return {
+      success: true,
+      message: "Canned response deleted successfully",
+    };
+  }
+
+  // ส่ง template (แทนค่าตัวแปรแล้ว) ไปยัง topic หลักของ ticket
+  @Post(":id/send")
+  @RequireScope(ApiKeyScope.WRITE)
+  async sendCannedResponse(
+    @Param("id") id: string,
+    @Body() sendCannedResponseDto: SendCannedResponseDto,
+    @ApiActor() actor: DomainEventActor,
+  ) {
+    const cannedResponse = await this.cannedResponsesService.findById(id);
+    if (!cannedResponse) {
+      throw new NotFoundException(`Canned response ${id} not found`);
+    }
+
+    const { ticketId } = sendCannedResponseDto;
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) {
+      throw new NotFoundException(`Ticket ${ticketId} not found`);
+    }
+
+    if (ticket.status === TicketStatus.CLOSED) {
+      throw new BadRequestException("Cannot send message to closed ticket");
+    }
+
+    const primaryTopic = ticket.topics.find((t) => t.isPrimary);
+    if (!primaryTopic) {
+      throw new BadRequestException("Ticket has no primary topic");
+    }
+
+    const text = await this.cannedResponsesService.render(
+      cannedResponse.content,
+      ticket,
+    );
+    const sentMessage = await this.botService.sendMessageToTopic(
+      primaryTopic.groupId,
+      primaryTopic.topicId,
+      text,
+    );
+
+    await this.messagesService.saveMessage(
+      {
+        telegramMessageId: sentMessage.message_id,
+        messageType: MessageType.TEXT,
+        text,
+        senderId: sentMessage.from?.id?.toString() || actor.id,
+        senderUsername: sentMessage.from?.username,
+        senderFirstName: actor.username || "API",
+        groupId: primaryTopic.groupId,
+        topicId: primaryTopic.topicId,
+        ticketId,
+      },
+      actor,
+    );
+    await this.ticketService.incrementMessageCount(ticketId);
+    await this.cannedResponsesService.incrementUsage(id);
+
+    return {
+      success: true,
+      data: {
+        messageId: sentMessage.message_id,
+        text,
+        topicId: primaryTopic.topicId,
+        groupId: primaryTopic.groupId,
+      },
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { Module, forwardRef } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { CannedResponsesController } from "./canned-responses.controller";
+import { CannedResponsesService } from "./canned-responses.service";
+import {
+  CannedResponse,
+  CannedResponseSchema,
+} from "./schemas/canned-response.schema";
+import { UsersModule } from "../users/users.module";
+import { TicketModule } from "../ticket/ticket.module";
+import { MessagesModule } from "../messages/messages.module";
+import { ApiModule } from "../api/api.module";
+import { BotModule } from "../bot/bot.module";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CannedResponse.name, schema: CannedResponseSchema },
+    ]),
+    UsersModule,
+    TicketModule,
+    MessagesModule,
+    ApiModule,
+    forwardRef(() => BotModule),
+  ],
+  controllers: [CannedResponsesController],
+  providers: [CannedResponsesService],
+  exports: [CannedResponsesService],
+})
+export class CannedResponsesModule {}
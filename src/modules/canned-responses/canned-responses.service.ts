@@ -0,0 +1,106 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model, isValidObjectId } from "mongoose";
+import {
+  CannedResponse,
+  CannedResponseDocument,
+} from "./schemas/canned-response.schema";
+import { Ticket } from "../ticket/schemas/ticket.schema";
+import { UsersService } from "../users/users.service";
+
+@Injectable()
+export class CannedResponsesService {
+  constructor(
+    @InjectModel(CannedResponse.name)
+    private cannedResponseModel: Model<CannedResponseDocument>,
+    private usersService: UsersService,
+  ) {}
+
+  async findByGroup(
+    groupId: string,
+    activeOnly: boolean = false,
+  ): Promise<CannedResponse[]> {
+    const filter: any = { groupId };
+    if (activeOnly) filter.isActive = true;
+    return this.cannedResponseModel.find(filter).sort({ shortcut: 1 }).exec();
+  }
+
+  async findAll(): Promise<CannedResponse[]> {
+    return this.cannedResponseModel
+      .find()
+      .sort({ groupId: 1, shortcut: 1 })
+      .exec();
+  }
+
+  async findById(id: string): Promise<CannedResponse | null> {
+    if (!isValidObjectId(id)) return null;
+    return this.cannedResponseModel.findById(id).exec();
+  }
+
+  async findByShortcut(
+    groupId: string,
+    shortcut: string,
+  ): Promise<CannedResponse | null> {
+    return this.cannedResponseModel
+      .findOne({ groupId, shortcut: shortcut.toLowerCase() })
+      .exec();
+  }
+
+  async create(data: Partial<CannedResponse>): Promise<CannedResponse> {
+    const cannedResponse = new this.cannedResponseModel(data);
+    return cannedResponse.save();
+  }
+
+  async update(
+    id: string,
+    updateData: Partial<CannedResponse>,
+  ): Promise<CannedResponse | null> {
+    if (!isValidObjectId(id)) return null;
+    return this.cannedResponseModel
+      .findByIdAndUpdate(id, updateData, { new: true })
+      .exec();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isValidObjectId(id)) return false;
+    const result = await this.cannedResponseModel.deleteOne({ _id: id }).exec();
+    return result.deletedCount > 0;
+  }
+
+  async incrementUsage(id: string): Promise<void> {
+    await this.cannedResponseModel
+      .updateOne({ _id: id }, { $inc: { usageCount: 1 } })
+      .exec();
+  }
+
+  // แทนที่ตัวแปรใน template ด้วยข้อมูลจาก ticket, ผู้สร้าง ticket และผู้รับผิดชอบ
+  // ตัวแปรที่ไม่รู้จักจะถูกคงไว้ตามเดิม
+  async render(template: string, ticket: Ticket): Promise<string> {
+    const [user, assignee] = await Promise.all([
+      ticket.createdBy
+        ? this.usersService.findByTelegramId(ticket.createdBy)
+        : null,
+      ticket.assignedTo
+        ? this.usersService.findByTelegramId(ticket.assignedTo)
+        : null,
+    ]);
+
+    const variables: Record<string, string | undefined> = {
+      "ticket.id": ticket.ticketId,
+      "ticket.title": ticket.title,
+      "ticket.description": ticket.description,
+      "ticket.status": ticket.status,
+      "ticket.priority": ticket.priority,
+      "user.firstName": user?.firstName || user?.username,
+      "user.lastName": user?.lastName,
+      "user.username": user?.username,
+      assignee: assignee
+        ? assignee.firstName || `@${assignee.username}`
+        : undefined,
+    };
+
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, name) =>
+      name in variables ? (variables[name] ?? "") : match,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import {
+  IsString,
+  IsOptional,
+  Matches,
+  MaxLength,
+  MinLength,
+} from "class-validator";
+
+export class CreateCannedResponseDto {
+  @IsString()
+  groupId: string;
+
+  @IsString()
+  @Matches(/^[a-zA-Z0-9_-]+$/, {
+    message: "shortcut may only contain letters, numbers, _ and -",
+  })
+  @MaxLength(32)
+  shortcut: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  title?: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(4000)
+  content: string;
+}
@@ -0,0 +1,33 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  Matches,
+  MaxLength,
+  MinLength,
+} from "class-validator";
+
+export class UpdateCannedResponseDto {
+  @IsOptional()
+  @IsString()
+  @Matches(/^[a-zA-Z0-9_-]+$/, {
+    message: "shortcut may only contain letters, numbers, _ and -",
+  })
+  @MaxLength(32)
+  shortcut?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(4000)
+  content?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
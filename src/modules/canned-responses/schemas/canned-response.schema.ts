@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document } from "mongoose";
+
+export type CannedResponseDocument = CannedResponse & Document;
+
+@Schema({ timestamps: true })
+export class CannedResponse {
+  @Prop({ required: true })
+  groupId: string; // Group Telegram ID
+
+  @Prop({ required: true, lowercase: true, trim: true })
+  shortcut: string; // ใช้กับ /reply <shortcut>
+
+  @Prop()
+  title?: string;
+
+  @Prop({ required: true })
+  content: string; // รองรับตัวแปร {{ticket.id}}, {{user.firstName}}, {{assignee}} ฯลฯ
+
+  @Prop()
+  createdBy?: string; // Telegram User ID หรือ API key ID
+
+  @Prop({ default: 0 })
+  usageCount: number;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const CannedResponseSchema =
+  SchemaFactory.createForClass(CannedResponse);
+
+CannedResponseSchema.index({ groupId: 1, shortcut: 1 }, { unique: true });
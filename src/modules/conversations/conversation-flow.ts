@@ -0,0 +1,47 @@
+import { TranslationKey, TranslationParams } from "../i18n/translator";
+
+export interface ConversationChoice {
+  value: string;
+  label: string;
+}
+
+export interface ConversationStep {
+  key: string; // ชื่อ field ใน data ที่เก็บคำตอบ
+  prompt: TranslationKey;
+  choices?: ConversationChoice[]; // แสดงเป็นปุ่มให้เลือก
+  optional?: boolean; // ข้ามได้ด้วย /skip
+  acceptsAttachments?: boolean; // รับไฟล์หลายไฟล์จนกว่าจะพิมพ์ /done
+  validate?: (value: string) => ConversationError | null; // คืน error ถ้าไม่ผ่าน
+}
+
+// ข้อความ error เป็น key ของคำแปล - bot แปลตามภาษาของแชทตอนส่ง
+export interface ConversationError {
+  key: TranslationKey;
+  params?: TranslationParams;
+}
+
+export interface ConversationFlow {
+  name: string;
+  timeoutMinutes: number;
+  steps: ConversationStep[];
+}
+
+export interface ConversationAttachment {
+  type: string;
+  fileId: string;
+  fileName?: string;
+  messageId: number;
+}
+
+export interface ConversationInput {
+  text?: string;
+  attachment?: ConversationAttachment;
+  command?: "skip" | "done" | "cancel";
+}
+
+export type ConversationResult =
+  | { status: "prompt"; step: ConversationStep }
+  | { status: "accepted"; step: ConversationStep; count: number }
+  | { status: "invalid"; step: ConversationStep; error: ConversationError }
+  | { status: "completed"; data: Record<string, any> }
+  | { status: "cancelled" };
@@ -0,0 +1,18 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { ConversationsService } from "./conversations.service";
+import {
+  ConversationState,
+  ConversationStateSchema,
+} from "./schemas/conversation-state.schema";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ConversationState.name, schema: ConversationStateSchema },
+    ]),
+  ],
+  providers: [ConversationsService],
+  exports: [ConversationsService],
+})
+export class ConversationsModule {}
@@ -0,0 +1,195 @@
+import { ConversationsService } from "./conversations.service";
+import { ConversationState } from "./schemas/conversation-state.schema";
+import { CREATE_TICKET_FLOW } from "../bot/flows/create-ticket.flow";
+
+// เก็บ state ในหน่วยความจำ - key คือ chatId/userId/messageThreadId เหมือน unique index จริง
+class FakeStateModel {
+  states = new Map<string, any>();
+
+  findOneAndUpdate = jest.fn((key, doc) => {
+    this.states.set(this.id(key), { ...doc });
+    return this.query(null);
+  });
+
+  findOne = jest.fn((filter) => {
+    const state = this.states.get(this.id(filter));
+    const active = state && state.expiresAt > filter.expiresAt.$gt;
+    return this.query(active ? state : null);
+  });
+
+  updateOne = jest.fn((key, update) => {
+    const state = this.states.get(this.id(key));
+    for (const [path, value] of Object.entries(update)) {
+      if (path.startsWith("data.")) {
+        state.data = { ...state.data, [path.slice(5)]: value };
+      } else {
+        state[path] = value;
+      }
+    }
+    return this.query({});
+  });
+
+  deleteOne = jest.fn((key) => {
+    const deleted = this.states.delete(this.id(key));
+    return this.query({ deletedCount: deleted ? 1 : 0 });
+  });
+
+  private id(key: any) {
+    return `${key.chatId}/${key.userId}/${key.messageThreadId}`;
+  }
+
+  private query<T>(value: T) {
+    return { exec: async () => value };
+  }
+}
+
+describe("ConversationsService", () => {
+  const chatId = "-1001";
+  const userId = "42";
+  let model: FakeStateModel;
+  let service: ConversationsService;
+
+  beforeEach(() => {
+    model = new FakeStateModel();
+    service = new ConversationsService(model as any);
+    service.registerFlow(CREATE_TICKET_FLOW);
+  });
+
+  const active = async (messageThreadId?: number) =>
+    (await service.findActive(
+      chatId,
+      userId,
+      messageThreadId,
+    )) as ConversationState;
+
+  it("walks through the steps and returns the collected answers", async () => {
+    const first = await service.start(chatId, userId, "create_ticket");
+    expect(first.key).toBe("title");
+
+    await expect(
+      service.handleInput(await active(), { text: "  Printer broken " }),
+    ).resolves.toMatchObject({
+      status: "prompt",
+      step: { key: "description" },
+    });
+    await service.handleInput(await active(), { command: "skip" });
+    await expect(
+      service.handleInput(await active(), { text: "🔴 high" }),
+    ).resolves.toMatchObject({
+      status: "prompt",
+      step: { key: "attachments" },
+    });
+
+    const attachment = { type: "photo", fileId: "f1", messageId: 7 };
+    await expect(
+      service.handleInput(await active(), { attachment }),
+    ).resolves.toMatchObject({ status: "accepted", count: 1 });
+
+    await expect(
+      service.handleInput(await active(), { command: "done" }),
+    ).resolves.toEqual({
+      status: "completed",
+      data: {
+        title: "Printer broken",
+        priority: "high",
+        attachments: [attachment],
+      },
+    });
+    await expect(service.findActive(chatId, userId)).resolves.toBeNull();
+  });
+
+  it("keeps the step when the answer is invalid", async () => {
+    await service.start(chatId, userId, "create_ticket");
+
+    await expect(
+      service.handleInput(await active(), { text: "x".repeat(101) }),
+    ).resolves.toMatchObject({
+      status: "invalid",
+      error: { key: "wizard.titleTooLong", params: { max: 100 } },
+    });
+    await expect(
+      service.handleInput(await active(), { command: "skip" }),
+    ).resolves.toMatchObject({
+      status: "invalid",
+      error: { key: "wizard.cannotSkip" },
+    });
+    await expect(
+      service.handleInput(await active(), { command: "done" }),
+    ).resolves.toMatchObject({
+      status: "invalid",
+      error: { key: "wizard.answerFirst" },
+    });
+
+    expect((await active()).stepIndex).toBe(0);
+  });
+
+  it("only accepts one of the listed choices", async () => {
+    await service.start(chatId, userId, "create_ticket", {
+      data: { title: "t" },
+    });
+    await service.handleInput(await active(), { text: "t" });
+    await service.handleInput(await active(), { command: "skip" });
+
+    await expect(
+      service.handleInput(await active(), { text: "urgent" }),
+    ).resolves.toMatchObject({
+      status: "invalid",
+      error: {
+        key: "wizard.chooseOne",
+        params: { choices: "low, medium, high" },
+      },
+    });
+  });
+
+  it("asks for a file on attachment steps", async () => {
+    await service.start(chatId, userId, "create_ticket");
+    const state = await active();
+    state.stepIndex = 3;
+
+    await expect(
+      service.handleInput(state, { text: "here it is" }),
+    ).resolves.toMatchObject({
+      status: "invalid",
+      error: { key: "wizard.sendFile" },
+    });
+  });
+
+  it("cancels and removes the state", async () => {
+    await service.start(chatId, userId, "create_ticket");
+
+    await expect(
+      service.handleInput(await active(), { command: "cancel" }),
+    ).resolves.toEqual({ status: "cancelled" });
+    await expect(service.findActive(chatId, userId)).resolves.toBeNull();
+  });
+
+  it("keeps flows in different topics apart", async () => {
+    await service.start(chatId, userId, "create_ticket", {
+      messageThreadId: 10,
+    });
+
+    await expect(
+      service.findActive(chatId, userId, 10),
+    ).resolves.not.toBeNull();
+    await expect(service.findActive(chatId, userId, 11)).resolves.toBeNull();
+    await expect(service.findActive(chatId, userId)).resolves.toBeNull();
+  });
+
+  it("ignores state that has passed its expiry", async () => {
+    jest.useFakeTimers();
+    try {
+      await service.start(chatId, userId, "create_ticket");
+      jest.advanceTimersByTime(CREATE_TICKET_FLOW.timeoutMinutes * 60000 + 1);
+
+      await expect(service.findActive(chatId, userId)).resolves.toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("rejects flows that were never registered", async () => {
+    await expect(service.start(chatId, userId, "unknown")).rejects.toThrow(
+      'Conversation flow "unknown" is not registered',
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  ConversationState,
+  ConversationStateDocument,
+} from "./schemas/conversation-state.schema";
+import {
+  ConversationFlow,
+  ConversationInput,
+  ConversationResult,
+  ConversationStep,
+} from "./conversation-flow";
+
+// index เดิมจำกัดหนึ่ง flow ต่อผู้ใช้ต่อแชท ทำให้เริ่ม flow ใน topic อื่นไม่ได้
+const LEGACY_INDEX = "chatId_1_userId_1";
+
+// เก็บ state ของ flow หลายขั้นตอนใน MongoDB เพื่อให้อยู่รอดเมื่อ restart และใช้ร่วมกันได้หลาย instance
+// state ผูกกับ topic ที่เริ่ม flow - ข้อความใน topic อื่นของผู้ใช้คนเดิมไม่ถูกนับเป็นคำตอบ
+@Injectable()
+export class ConversationsService implements OnModuleInit {
+  private readonly logger = new Logger(ConversationsService.name);
+  private readonly flows = new Map<string, ConversationFlow>();
+
+  constructor(
+    @InjectModel(ConversationState.name)
+    private conversationStateModel: Model<ConversationStateDocument>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      const indexes = await this.conversationStateModel.collection.indexes();
+      if (indexes.some((index) => index.name === LEGACY_INDEX)) {
+        await this.conversationStateModel.collection.dropIndex(LEGACY_INDEX);
+        this.logger.log(`Dropped legacy conversation index ${LEGACY_INDEX}`);
+      }
+    } catch (error) {
+      // collection ยังไม่ถูกสร้าง - ไม่มี index เดิมให้ลบ
+      if (error.codeName !== "NamespaceNotFound") {
+        this.logger.error("Could not drop legacy conversation index:", error);
+      }
+    }
+  }
+
+  registerFlow(flow: ConversationFlow): void {
+    this.flows.set(flow.name, flow);
+  }
+
+  // เริ่ม flow ใหม่ (แทนที่ flow เดิมที่ค้างอยู่) และคืนขั้นตอนแรก
+  async start(
+    chatId: string,
+    userId: string,
+    flowName: string,
+    options: { data?: Record<string, any>; messageThreadId?: number } = {},
+  ): Promise<ConversationStep> {
+    const flow = this.getFlow(flowName);
+
+    const key = this.getKey(chatId, userId, options.messageThreadId);
+    await this.conversationStateModel
+      .findOneAndUpdate(
+        key,
+        {
+          ...key,
+          flow: flow.name,
+          stepIndex: 0,
+          data: options.data || {},
+          expiresAt: this.getExpiry(flow),
+        },
+        { upsert: true },
+      )
+      .exec();
+
+    return flow.steps[0];
+  }
+
+  // TTL monitor ของ MongoDB ทำงานทุก ~60 วินาที จึงต้องเช็ค expiresAt เองด้วย
+  async findActive(
+    chatId: string,
+    userId: string,
+    messageThreadId?: number,
+  ): Promise<ConversationState | null> {
+    return this.conversationStateModel
+      .findOne({
+        ...this.getKey(chatId, userId, messageThreadId),
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+  }
+
+  async cancel(
+    chatId: string,
+    userId: string,
+    messageThreadId?: number,
+  ): Promise<boolean> {
+    const result = await this.conversationStateModel
+      .deleteOne(this.getKey(chatId, userId, messageThreadId))
+      .exec();
+    return result.deletedCount > 0;
+  }
+
+  getCurrentStep(state: ConversationState): ConversationStep | undefined {
+    return this.flows.get(state.flow)?.steps[state.stepIndex];
+  }
+
+  async handleInput(
+    state: ConversationState,
+    input: ConversationInput,
+  ): Promise<ConversationResult> {
+    const flow = this.flows.get(state.flow);
+    const step = flow?.steps[state.stepIndex];
+    if (!flow || !step || input.command === "cancel") {
+      await this.cancel(state.chatId, state.userId, state.messageThreadId);
+      return { status: "cancelled" };
+    }
+
+    if (input.command === "skip" || input.command === "done") {
+      if (input.command === "skip" && !step.optional) {
+        return {
+          status: "invalid",
+          step,
+          error: { key: "wizard.cannotSkip" },
+        };
+      }
+      if (input.command === "done" && !step.acceptsAttachments) {
+        return {
+          status: "invalid",
+          step,
+          error: { key: "wizard.answerFirst" },
+        };
+      }
+      return this.advance(flow, state, state.data);
+    }
+
+    if (step.acceptsAttachments) {
+      if (!input.attachment) {
+        return {
+          status: "invalid",
+          step,
+          error: { key: "wizard.sendFile" },
+        };
+      }
+
+      const attachments = [...(state.data[step.key] || []), input.attachment];
+      await this.conversationStateModel
+        .updateOne(
+          this.getKey(state.chatId, state.userId, state.messageThreadId),
+          {
+            [`data.${step.key}`]: attachments,
+            expiresAt: this.getExpiry(flow),
+          },
+        )
+        .exec();
+      return { status: "accepted", step, count: attachments.length };
+    }
+
+    const text = input.text?.trim();
+    if (!text) {
+      return { status: "invalid", step, error: { key: "wizard.textOnly" } };
+    }
+
+    let value = text;
+    if (step.choices) {
+      const choice = step.choices.find(
+        (c) =>
+          c.value.toLowerCase() === text.toLowerCase() ||
+          c.label.toLowerCase() === text.toLowerCase(),
+      );
+      if (!choice) {
+        return {
+          status: "invalid",
+          step,
+          error: {
+            key: "wizard.chooseOne",
+            params: { choices: step.choices.map((c) => c.value).join(", ") },
+          },
+        };
+      }
+      value = choice.value;
+    }
+
+    const error = step.validate?.(value);
+    if (error) {
+      return { status: "invalid", step, error };
+    }
+
+    return this.advance(flow, state, { ...state.data, [step.key]: value });
+  }
+
+  private async advance(
+    flow: ConversationFlow,
+    state: ConversationState,
+    data: Record<string, any>,
+  ): Promise<ConversationResult> {
+    const nextIndex = state.stepIndex + 1;
+    if (nextIndex >= flow.steps.length) {
+      await this.cancel(state.chatId, state.userId, state.messageThreadId);
+      return { status: "completed", data };
+    }
+
+    await this.conversationStateModel
+      .updateOne(
+        this.getKey(state.chatId, state.userId, state.messageThreadId),
+        { stepIndex: nextIndex, data, expiresAt: this.getExpiry(flow) },
+      )
+      .exec();
+    return { status: "prompt", step: flow.steps[nextIndex] };
+  }
+
+  private getFlow(name: string): ConversationFlow {
+    const flow = this.flows.get(name);
+    if (!flow) {
+      throw new Error(`Conversation flow "${name}" is not registered`);
+    }
+    return flow;
+  }
+
+  private getKey(chatId: string, userId: string, messageThreadId?: number) {
+    return { chatId, userId, messageThreadId: messageThreadId || 0 };
+  }
+
+  private getExpiry(flow: ConversationFlow): Date {
+    return new Date(Date.now() + flow.timeoutMinutes * 60000);
+  }
+}
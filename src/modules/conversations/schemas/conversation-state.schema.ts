@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document } from "mongoose";
+
+export type ConversationStateDocument = ConversationState & Document;
+
+// ขั้นตอนที่ผู้ใช้ค้างอยู่ใน flow หลายขั้นตอน (หนึ่ง flow ต่อผู้ใช้ต่อ topic)
+@Schema({ timestamps: true })
+export class ConversationState {
+  @Prop({ required: true })
+  chatId: string;
+
+  @Prop({ required: true })
+  userId: string;
+
+  @Prop({ required: true })
+  flow: string;
+
+  @Prop({ default: 0 })
+  stepIndex: number;
+
+  @Prop({ type: Object, default: {} })
+  data: Record<string, any>;
+
+  @Prop({ default: 0 })
+  messageThreadId: number; // topic ที่เริ่ม flow (0 = ไม่อยู่ใน topic)
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const ConversationStateSchema =
+  SchemaFactory.createForClass(ConversationState);
+
+ConversationStateSchema.index(
+  { chatId: 1, userId: 1, messageThreadId: 1 },
+  { unique: true },
+);
+// MongoDB ลบ state ที่หมดอายุให้อัตโนมัติ
+ConversationStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,69 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { HookEvent } from "../hooks/schemas/hook.schema";
+
+export interface DomainEventActor {
+  id: string;
+  username?: string;
+  firstName?: string;
+  source: "bot" | "api" | "system";
+}
+
+export interface DomainEvent {
+  event: HookEvent;
+  data: Record<string, any>;
+  ticketId?: string;
+  groupId?: string;
+  ticketStatus?: string;
+  actor?: DomainEventActor;
+  occurredAt: Date;
+}
+
+export type DomainEventListener = (event: DomainEvent) => void | Promise<void>;
+
+// Central place where ticket, topic and message changes are announced.
+// Services emit here; hooks (and anything else interested) subscribe, so
+// the same events fire whether the change came from the bot, the REST API
+// or a scheduled job.
+@Injectable()
+export class DomainEventsService {
+  private readonly logger = new Logger(DomainEventsService.name);
+  private readonly listeners: DomainEventListener[] = [];
+
+  subscribe(listener: DomainEventListener): void {
+    this.listeners.push(listener);
+  }
+
+  emit(
+    event: HookEvent,
+    data: Record<string, any>,
+    options?: {
+      ticketId?: string;
+      groupId?: string;
+      ticketStatus?: string;
+      actor?: DomainEventActor;
+    },
+  ): void {
+    const domainEvent: DomainEvent = {
+      event,
+      data: options?.actor ? { ...data, actor: options.actor } : data,
+      ticketId: options?.ticketId,
+      groupId: options?.groupId,
+      ticketStatus: options?.ticketStatus,
+      actor: options?.actor,
+      occurredAt: new Date(),
+    };
+
+    this.logger.debug(
+      `[${new Date().toISOString()}] Domain event: ${event}${options?.ticketId ? ` (${options.ticketId})` : ""}`,
+    );
+
+    // Listeners run in background - emitting never blocks the caller
+    for (const listener of this.listeners) {
+      Promise.resolve()
+        .then(() => listener(domainEvent))
+        .catch((error) => {
+          this.logger.error(`Error in listener for event ${event}:`, error);
+        });
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { Group, GroupDocument } from "./schemas/group.schema";
+import {
+  ClosePermission,
+  GroupSettings,
+  GroupSettingsDocument,
+  TopicCloseAction,
+} from "./schemas/group-settings.schema";
+import { TicketPriority } from "../ticket/schemas/ticket.schema";
+
+export interface EffectiveGroupSettings {
+  groupId: string;
+  language: string | null; // null = ใช้ภาษาของผู้ใช้
+  timezone: string | null; // null = DEFAULT_TIMEZONE
+  topicCloseAction: TopicCloseAction;
+  topicDeleteAfterDays: number;
+  closePermission: ClosePermission;
+  archiveAfterDays: number;
+  defaultPriority: TicketPriority;
+}
+
+// null = กลับไปใช้ค่าเริ่มต้น
+export type GroupSettingsUpdate = {
+  [K in keyof Omit<EffectiveGroupSettings, "groupId">]?:
+    | EffectiveGroupSettings[K]
+    | null;
+};
+
+const LEGACY_GROUP_FIELDS = [
+  "topicCloseAction",
+  "topicDeleteAfterDays",
+  "language",
+  "timezone",
+];
+
+@Injectable()
+export class GroupSettingsService implements OnModuleInit {
+  private readonly logger = new Logger(GroupSettingsService.name);
+
+  constructor(
+    @InjectModel(GroupSettings.name)
+    private groupSettingsModel: Model<GroupSettingsDocument>,
+    @InjectModel(Group.name) private groupModel: Model<GroupDocument>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.migrateLegacyGroupFields();
+    } catch (error) {
+      this.logger.error("Could not migrate legacy group settings:", error);
+    }
+  }
+
+  async findSettings(groupId: string): Promise<GroupSettings | null> {
+    return this.groupSettingsModel.findOne({ groupId }).exec();
+  }
+
+  async getSettings(groupId: string): Promise<EffectiveGroupSettings> {
+    return this.toEffective(groupId, await this.findSettings(groupId));
+  }
+
+  async updateSettings(
+    groupId: string,
+    update: GroupSettingsUpdate,
+  ): Promise<EffectiveGroupSettings> {
+    const $set: Record<string, any> = { groupId };
+    const $unset: Record<string, ""> = {};
+    for (const [key, value] of Object.entries(update)) {
+      if (value === null) $unset[key] = "";
+      else if (value !== undefined) $set[key] = value;
+    }
+    const changes =
+      Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+
+    const settings = await this.groupSettingsModel
+      .findOneAndUpdate({ groupId }, changes, {
+        new: true,
+        upsert: true,
+        setDefaultsOnInsert: true,
+      })
+      .exec();
+    return this.toEffective(groupId, settings);
+  }
+
+  async findByTopicCloseAction(
+    action: TopicCloseAction,
+  ): Promise<GroupSettings[]> {
+    return this.groupSettingsModel.find({ topicCloseAction: action }).exec();
+  }
+
+  private toEffective(
+    groupId: string,
+    settings: GroupSettings | null,
+  ): EffectiveGroupSettings {
+    return {
+      groupId,
+      language: settings?.language ?? null,
+      timezone: settings?.timezone ?? null,
+      topicCloseAction: settings?.topicCloseAction ?? TopicCloseAction.CLOSE,
+      topicDeleteAfterDays: settings?.topicDeleteAfterDays ?? 30,
+      closePermission:
+        settings?.closePermission ?? ClosePermission.CREATOR_OR_ADMIN,
+      archiveAfterDays: settings?.archiveAfterDays ?? 30,
+      defaultPriority: settings?.defaultPriority ?? TicketPriority.MEDIUM,
+    };
+  }
+
+  // close policy/ภาษาเคยเก็บใน Group - ย้ายมา GroupSettings ครั้งเดียวตอน start (ทำซ้ำได้ปลอดภัย)
+  private async migrateLegacyGroupFields(): Promise<void> {
+    const legacyGroups = await this.groupModel.collection
+      .find({
+        $or: LEGACY_GROUP_FIELDS.map((field) => ({
+          [field]: { $exists: true },
+        })),
+      })
+      .toArray();
+
+    for (const group of legacyGroups) {
+      const legacy: Record<string, any> = {};
+      for (const field of LEGACY_GROUP_FIELDS) {
+        if (group[field] !== undefined && group[field] !== null) {
+          legacy[field] = group[field];
+        }
+      }
+
+      // กลุ่มที่มี GroupSettings แล้วใช้ค่าใน GroupSettings
+      await this.groupSettingsModel
+        .updateOne(
+          { groupId: group.telegramGroupId },
+          { $setOnInsert: { groupId: group.telegramGroupId, ...legacy } },
+          { upsert: true, setDefaultsOnInsert: true },
+        )
+        .exec();
+
+      await this.groupModel.collection.updateOne(
+        { _id: group._id },
+        {
+          $unset: Object.fromEntries(
+            LEGACY_GROUP_FIELDS.map((field) => [field, ""]),
+          ),
+        },
+      );
+    }
+
+    if (legacyGroups.length > 0) {
+      this.logger.log(
+        `Moved settings of ${legacyGroups.length} groups to GroupSettings`,
+      );
+    }
+  }
+}
@@ -1,13 +1,21 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Group, GroupSchema } from './schemas/group.schema';
+import { GroupSettings, GroupSettingsSchema } from './schemas/group-settings.schema';
+import { Membership, MembershipSchema } from './schemas/membership.schema';
 import { GroupsService } from './groups.service';
+import { GroupSettingsService } from './group-settings.service';
+import { MembershipsService } from './memberships.service';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Group.name, schema: GroupSchema }]),
+    MongooseModule.forFeature([
+      { name: Group.name, schema: GroupSchema },
+      { name: GroupSettings.name, schema: GroupSettingsSchema },
+      { name: Membership.name, schema: MembershipSchema },
+    ]),
   ],
-  providers: [GroupsService],
-  exports: [GroupsService],
+  providers: [GroupsService, GroupSettingsService, MembershipsService],
+  exports: [GroupsService, GroupSettingsService, MembershipsService],
 })
 export class GroupsModule {}
\ No newline at end of file
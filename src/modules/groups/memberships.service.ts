@@ -0,0 +1,95 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  MemberRole,
+  Membership,
+  MembershipDocument,
+} from "./schemas/membership.schema";
+
+// ตรวจสถานะใน Telegram ใหม่เมื่อข้อมูลเก่ากว่านี้
+const SYNC_TTL_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class MembershipsService {
+  constructor(
+    @InjectModel(Membership.name)
+    private membershipModel: Model<MembershipDocument>,
+  ) {}
+
+  async findMembership(
+    groupId: string,
+    userId: string,
+  ): Promise<Membership | null> {
+    return this.membershipModel.findOne({ groupId, userId }).exec();
+  }
+
+  async findByGroup(groupId: string): Promise<Membership[]> {
+    return this.membershipModel.find({ groupId }).sort({ role: 1 }).exec();
+  }
+
+  isFresh(membership: Membership | null): boolean {
+    return (
+      !!membership?.syncedAt &&
+      Date.now() - new Date(membership.syncedAt).getTime() < SYNC_TTL_MS
+    );
+  }
+
+  // บันทึกสถานะล่าสุดจาก getChatMember แล้วคำนวณ role ใหม่
+  async syncTelegramStatus(
+    groupId: string,
+    userId: string,
+    telegramStatus: string,
+  ): Promise<Membership> {
+    const existing = await this.findMembership(groupId, userId);
+    return this.membershipModel
+      .findOneAndUpdate(
+        { groupId, userId },
+        {
+          telegramStatus,
+          role: this.resolveRole(telegramStatus, existing?.assignedRole),
+          syncedAt: new Date(),
+        },
+        { new: true, upsert: true },
+      )
+      .exec();
+  }
+
+  // null = ลบ role ที่ตั้งไว้ กลับไปใช้ role ตามสถานะใน Telegram
+  async assignRole(
+    groupId: string,
+    userId: string,
+    assignedRole: MemberRole | null,
+  ): Promise<Membership> {
+    const existing = await this.findMembership(groupId, userId);
+    const role = this.resolveRole(
+      existing?.telegramStatus || "member",
+      assignedRole ?? undefined,
+    );
+    return this.membershipModel
+      .findOneAndUpdate(
+        { groupId, userId },
+        assignedRole
+          ? { role, assignedRole }
+          : { role, $unset: { assignedRole: "" } },
+        { new: true, upsert: true },
+      )
+      .exec();
+  }
+
+  // เจ้าของและ Admin ใน Telegram ใช้ role ตาม Telegram เสมอ
+  // สมาชิกทั่วไปเป็น customer จนกว่าจะได้รับ role ผ่าน assignRole
+  resolveRole(telegramStatus: string, assignedRole?: MemberRole): MemberRole {
+    switch (telegramStatus) {
+      case "creator":
+        return MemberRole.OWNER;
+      case "administrator":
+        return MemberRole.SUPERVISOR;
+      case "member":
+      case "restricted":
+        return assignedRole || MemberRole.CUSTOMER;
+      default:
+        return MemberRole.CUSTOMER;
+    }
+  }
+}
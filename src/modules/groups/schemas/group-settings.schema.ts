@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { TicketPriority } from '../../ticket/schemas/ticket.schema';
+
+export type GroupSettingsDocument = GroupSettings & Document;
+
+// สิ่งที่ทำกับ forum topic เมื่อ ticket ถูกปิด
+export enum TopicCloseAction {
+  CLOSE = 'close', // ปิดและล็อก topic ไว้
+  RENAME = 'rename', // ปิดและเติม ✅ หน้าชื่อ topic
+  DELETE = 'delete', // ปิด แล้วลบทิ้งหลังครบ topicDeleteAfterDays วัน
+}
+
+// ใครปิด ticket ด้วย /close_ticket ได้
+export enum ClosePermission {
+  ANYONE = 'anyone',
+  CREATOR_OR_ADMIN = 'creator_or_admin', // ผู้สร้าง ticket หรือ Admin ของกลุ่ม
+  ADMINS = 'admins',
+}
+
+// การตั้งค่า workflow ของแต่ละกลุ่ม - ค่าที่ไม่ได้ตั้งใช้ค่าเริ่มต้นของระบบ
+@Schema({ timestamps: true })
+export class GroupSettings {
+  @Prop({ required: true, unique: true })
+  groupId: string; // Group Telegram ID
+
+  // ภาษาและ timezone ของข้อความจาก Bot (ไม่ตั้ง = ใช้ภาษาของผู้ใช้ / DEFAULT_TIMEZONE)
+  @Prop()
+  language?: string; // 'th' | 'en'
+
+  @Prop()
+  timezone?: string; // IANA เช่น 'Asia/Bangkok'
+
+  // Close policy
+  @Prop({ enum: TopicCloseAction, default: TopicCloseAction.CLOSE })
+  topicCloseAction: TopicCloseAction;
+
+  @Prop({ default: 30 })
+  topicDeleteAfterDays: number; // ใช้กับ TopicCloseAction.DELETE เท่านั้น
+
+  @Prop({ enum: ClosePermission, default: ClosePermission.CREATOR_OR_ADMIN })
+  closePermission: ClosePermission;
+
+  @Prop({ default: 30 })
+  archiveAfterDays: number; // ค่าเริ่มต้นของ /archive
+
+  @Prop({ enum: TicketPriority, default: TicketPriority.MEDIUM })
+  defaultPriority: TicketPriority; // ticket ที่ไม่ได้ระบุ priority
+}
+
+export const GroupSettingsSchema = SchemaFactory.createForClass(GroupSettings);
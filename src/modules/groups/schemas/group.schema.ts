@@ -3,6 +3,7 @@ import { Document } from 'mongoose';
 
 export type GroupDocument = Group & Document;
 
+// การตั้งค่า workflow ของกลุ่มเก็บแยกใน GroupSettings
 @Schema({ timestamps: true })
 export class Group {
   @Prop({ required: true, unique: true })
@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type MembershipDocument = Membership & Document;
+
+export enum MemberRole {
+  OWNER = 'owner', // ผู้สร้างกลุ่มใน Telegram
+  SUPERVISOR = 'supervisor', // Admin ของกลุ่ม หรือได้รับ role ผ่าน API / /role
+  AGENT = 'agent', // เจ้าหน้าที่ - ได้รับ role ผ่าน API / /role
+  CUSTOMER = 'customer', // สมาชิกที่ยังไม่ได้รับ role หรือไม่ได้อยู่ในกลุ่ม
+}
+
+// role ที่ตั้งให้สมาชิกได้ - owner มาจากผู้สร้างกลุ่มใน Telegram เท่านั้น
+export const ASSIGNABLE_ROLES = [MemberRole.SUPERVISOR, MemberRole.AGENT, MemberRole.CUSTOMER];
+
+// role ของผู้ใช้ในแต่ละกลุ่ม - sync จากสถานะใน Telegram (getChatMember) เป็นระยะ
+@Schema({ timestamps: true })
+export class Membership {
+  @Prop({ required: true })
+  groupId: string; // Group Telegram ID
+
+  @Prop({ required: true })
+  userId: string; // User Telegram ID
+
+  @Prop({ enum: MemberRole, required: true })
+  role: MemberRole; // role ที่ใช้ตรวจสิทธิ์ (คำนวณจาก telegramStatus + assignedRole)
+
+  @Prop()
+  telegramStatus?: string; // creator, administrator, member, restricted, left, kicked
+
+  @Prop({ enum: MemberRole })
+  assignedRole?: MemberRole; // role ที่ตั้งเองผ่าน API - ใช้กับสมาชิกที่ไม่ใช่ Admin ใน Telegram
+
+  @Prop()
+  syncedAt?: Date;
+}
+
+export const MembershipSchema = SchemaFactory.createForClass(Membership);
+
+MembershipSchema.index({ groupId: 1, userId: 1 }, { unique: true });
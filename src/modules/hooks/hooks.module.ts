@@ -5,6 +5,8 @@ import { HooksService } from "./hooks.service";
 import { Hook, HookSchema } from "./schemas/hook.schema";
 import { HookLog, HookLogSchema } from "./schemas/hook-log.schema";
 import { ApiModule } from "../api/api.module";
+import { EventsModule } from "../events/events.module";
+import { LocksModule } from "../locks/locks.module";
 
 @Module({
   imports: [
@@ -13,6 +15,8 @@ import { ApiModule } from "../api/api.module";
       { name: HookLog.name, schema: HookLogSchema },
     ]),
     forwardRef(() => ApiModule),
+    EventsModule,
+    LocksModule,
   ],
   controllers: [HooksController],
   providers: [HooksService],
@@ -14,6 +14,11 @@ import {
 } from "./schemas/hook-log.schema";
 import axios from "axios";
 import * as crypto from "crypto";
+import { DomainEventsService } from "../events/domain-events.service";
+import { LocksService } from "../locks/locks.service";
+
+// ระยะเวลาที่ log ถูกจองไว้ให้ instance ที่ claim ก่อนจะ retry ได้อีกครั้ง
+const RETRY_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
 
 export interface HookPayload {
   event: HookEvent;
@@ -28,7 +33,17 @@ export class HooksService {
   constructor(
     @InjectModel(Hook.name) private hookModel: Model<HookDocument>,
     @InjectModel(HookLog.name) private hookLogModel: Model<HookLogDocument>,
+    private domainEvents: DomainEventsService,
+    private locksService: LocksService,
   ) {
+    // Deliver every domain event (bot, REST API or scheduler) to hooks
+    this.domainEvents.subscribe((domainEvent) =>
+      this.trigger(domainEvent.event, domainEvent.data, {
+        groupId: domainEvent.groupId,
+        ticketStatus: domainEvent.ticketStatus,
+      }),
+    );
+
     // Start retry processor
     this.startRetryProcessor();
   }
@@ -294,21 +309,14 @@ export class HooksService {
   }
 
   private async processRetries(): Promise<void> {
-    const pendingRetries = await this.hookLogModel
-      .find({
-        status: HookLogStatus.RETRYING,
-        nextRetryAt: { $lte: new Date() },
-      })
-      .limit(10)
-      .exec();
-
-    if (pendingRetries.length === 0) return;
+    let processed = 0;
 
-    this.logger.log(
-      `[${new Date().toISOString()}] Processing ${pendingRetries.length} hook retries`,
-    );
+    // claim ทีละรายการแบบ atomic เพื่อไม่ให้หลาย instance retry log เดียวกัน
+    while (processed < 10) {
+      const log = await this.claimNextRetry();
+      if (!log) break;
+      processed++;
 
-    for (const log of pendingRetries) {
       const hook = await this.hookModel.findById(log.hookId);
       if (!hook || hook.status !== HookStatus.ACTIVE) {
         log.status = HookLogStatus.FAILED;
@@ -318,12 +326,31 @@ export class HooksService {
         continue;
       }
 
-      log.attempts += 1;
-      await log.save();
-
       // Re-execute hook
       await this.retryHookExecution(hook, log);
     }
+
+    if (processed > 0) {
+      this.logger.log(
+        `[${new Date().toISOString()}] Processed ${processed} hook retries`,
+      );
+    }
+  }
+
+  // เลื่อน nextRetryAt ออกไประหว่างที่กำลัง retry - ถ้า instance ตายกลางทาง log จะถูก claim ใหม่เมื่อครบเวลา
+  private async claimNextRetry(): Promise<HookLogDocument | null> {
+    const now = new Date();
+    return this.hookLogModel
+      .findOneAndUpdate(
+        { status: HookLogStatus.RETRYING, nextRetryAt: { $lte: now } },
+        {
+          $inc: { attempts: 1 },
+          nextRetryAt: new Date(now.getTime() + RETRY_CLAIM_TIMEOUT_MS),
+          claimedBy: this.locksService.instanceId,
+        },
+        { new: true, sort: { nextRetryAt: 1 } },
+      )
+      .exec();
   }
 
   private async retryHookExecution(
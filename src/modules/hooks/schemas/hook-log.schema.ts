@@ -43,6 +43,9 @@ export class HookLog {
   @Prop()
   nextRetryAt?: Date;
 
+  @Prop()
+  claimedBy?: string; // instance ที่กำลัง retry log นี้
+
   @Prop()
   completedAt?: Date;
 }
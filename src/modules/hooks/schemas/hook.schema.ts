@@ -7,10 +7,17 @@ export enum HookEvent {
   TICKET_CREATED = "ticket.created",
   TICKET_UPDATED = "ticket.updated",
   TICKET_CLOSED = "ticket.closed",
+  TICKET_REOPENED = "ticket.reopened",
+  TICKET_ASSIGNED = "ticket.assigned",
+  TICKET_SLA_WARNING = "ticket.sla_warning",
+  TICKET_SLA_BREACHED = "ticket.sla_breached",
   MESSAGE_SENT = "message.sent",
+  MESSAGE_EDITED = "message.edited",
   USER_MENTIONED = "user.mentioned",
   TOPIC_CREATED = "topic.created",
   TOPIC_LINKED = "topic.linked",
+  TOPIC_UNLINKED = "topic.unlinked",
+  ATTACHMENT_REJECTED = "attachment.rejected",
   ERROR_OCCURRED = "error.occurred",
 }
 
@@ -0,0 +1,10 @@
+import { Module } from "@nestjs/common";
+import { GroupsModule } from "../groups/groups.module";
+import { I18nService } from "./i18n.service";
+
+@Module({
+  imports: [GroupsModule],
+  providers: [I18nService],
+  exports: [I18nService],
+})
+export class I18nModule {}
@@ -0,0 +1,64 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { GroupSettingsService } from "../groups/group-settings.service";
+import { Locale, Translator, normalizeLocale } from "./translator";
+
+// เลือกภาษาของข้อความตอบกลับ: ภาษาที่กลุ่มตั้งไว้ > language_code ของผู้ใช้ > DEFAULT_LOCALE
+@Injectable()
+export class I18nService {
+  private readonly logger = new Logger(I18nService.name);
+
+  readonly defaultLocale: Locale;
+  readonly defaultTimeZone: string;
+
+  constructor(
+    private configService: ConfigService,
+    private groupSettingsService: GroupSettingsService,
+  ) {
+    this.defaultLocale =
+      normalizeLocale(this.configService.get<string>("app.defaultLocale")) ??
+      "th";
+    this.defaultTimeZone = this.configService.get<string>(
+      "app.defaultTimezone",
+    );
+  }
+
+  // แชทส่วนตัวหรือข้อความที่ไม่ผูกกับกลุ่ม
+  forLanguage(languageCode?: string): Translator {
+    return new Translator(
+      normalizeLocale(languageCode) ?? this.defaultLocale,
+      this.defaultTimeZone,
+    );
+  }
+
+  forGroup(
+    settings: { language?: string | null; timezone?: string | null } | null,
+    languageCode?: string,
+  ): Translator {
+    return new Translator(
+      normalizeLocale(settings?.language) ??
+        normalizeLocale(languageCode) ??
+        this.defaultLocale,
+      settings?.timezone || this.defaultTimeZone,
+    );
+  }
+
+  async forChat(
+    chatId: string | number,
+    languageCode?: string,
+  ): Promise<Translator> {
+    const id = chatId.toString();
+    // chat id ของกลุ่มติดลบเสมอ
+    if (!id.startsWith("-")) return this.forLanguage(languageCode);
+
+    try {
+      const settings = await this.groupSettingsService.findSettings(id);
+      return this.forGroup(settings, languageCode);
+    } catch (error) {
+      this.logger.warn(
+        `Could not load language settings of ${id}: ${error.message}`,
+      );
+      return this.forLanguage(languageCode);
+    }
+  }
+}
@@ -0,0 +1,485 @@
+import type { th } from "./th";
+
+export const en: Record<keyof typeof th, string> = {
+  "locale.intl": "en-GB",
+
+  "welcome.priority": "⚡ Priority: {priority}",
+  "welcome.commandsTitle": "Available commands:",
+  "welcome.commands":
+    "• /mention - Invite someone to this ticket\n• /assign - Assign an owner\n• /link_topic <id> - Link another topic\n• /close_ticket - Close this ticket\n• /help - Show all commands",
+
+  "command.start": "🤖 Start the bot",
+  "command.create_ticket": "🎫 Create a new ticket",
+  "command.close_ticket": "✅ Close the ticket",
+  "command.status": "🔄 View/change ticket status",
+  "command.pending": "⏸️ Wait for customer information",
+  "command.reopen": "🔓 Reopen the ticket",
+  "command.history": "📜 View ticket history",
+  "command.export": "📄 Export the ticket conversation",
+  "command.mention": "👥 Invite someone to the ticket",
+  "command.assign": "👷 Assign the ticket",
+  "command.unassign": "🙅 Unassign the ticket",
+  "command.my_tickets": "📥 Tickets assigned to me",
+  "command.search": "🔍 Search tickets and messages",
+  "command.settings": "⚙️ Group settings",
+  "command.reply": "💬 Reply with a canned response",
+  "command.link_topic": "🔗 Link a topic",
+  "command.unlink_topic": "🔓 Unlink a topic",
+  "command.sync_topics": "🔄 Sync topics with Telegram",
+  "command.archive": "📦 Archive tickets",
+  "command.help": "❓ Show available commands",
+  "command.test_buttons": "🎮 Test inline buttons",
+
+  "common.incompleteData": "❌ Incomplete data",
+  "common.error": "❌ Something went wrong",
+  "common.invalidTopicId": "❌ Invalid topic ID",
+  "common.noTicketForTopic": "❌ No ticket is linked to this topic",
+  "common.ticketNotFound": "❌ Ticket not found",
+
+  "unlink.sourceTitle": "Topic unlinked",
+  "unlink.sourceBody": "📋 This topic is no longer linked to topic {topicId}",
+  "unlink.by": "👤 Unlinked by: {name}",
+  "unlink.sourceNote": "💬 Messages will no longer be sent to topic {topicId}",
+  "unlink.targetTitle": "Link removed",
+  "unlink.targetBody": "📋 The link with topic {topicId} has been removed",
+  "unlink.targetNote":
+    "💬 Messages from topic {topicId} will no longer arrive here",
+  "unlink.success": "✅ Unlinked from topic {topicId}",
+
+  "mention.closedTicket": "❌ You can't invite people to a closed ticket",
+  "mention.userNotFound": "❌ User not found: {username}",
+  "mention.alreadyInTicket": "ℹ️ {username} is already in this ticket",
+  "mention.topicCreateFailed": "❌ Could not create a topic for @{username}",
+  "mention.topicCreated": "✅ Created a topic for @{username}",
+  "mention.ticket": "🎫 Ticket: ",
+  "mention.title": "📝 Title: ",
+  "mention.invitedBy": "👤 Invited by: {name}",
+  "mention.userTopic": '🔗 Topic for @{username}: "{topicName}"',
+  "mention.syncNote": "💬 Messages are synced between the topics automatically",
+  "mention.invited": " has been invited to a ticket",
+  "mention.privateSpace":
+    "💬 This is the private conversation space for {name}",
+  "mention.syncWithPrimary":
+    "🔗 Messages are synced with the main topic automatically",
+  "mention.pleaseReply":
+    "📞 @{username}, please send a message to start the conversation",
+  "mention.success": "✅ Invited {username}",
+  "mention.cancelled": "Invitation cancelled",
+
+  "start.customer":
+    "👋 Hello! Welcome to customer support\n\n💬 Just type your problem or question and we'll open a ticket for our team\n📎 You can also send pictures or files",
+  "start.private":
+    "👋 Hello! I'm the Telegram Ticket Support Bot\n\n🎫 Add me to a group and make me an admin to get started\n📋 Use /create_ticket to create a new ticket\n❓ Use /help to see all commands",
+  "start.paired":
+    "✅ The bot is ready in this group!\n\n👤 {name} is now paired with this group\n🎫 Use /create_ticket <title> [description] to create a ticket\n❓ Use /help to see all commands\n🔗 When someone mentions you, your topic will be created in this group",
+  "start.group":
+    "✅ The bot is ready in this group!\n\n🎫 Use /create_ticket <title> [description] to create a ticket\n❓ Use /help to see all commands",
+
+  "help.title": "Available commands:",
+  "help.general":
+    "🎫 /create_ticket <title> [description] - Create a new ticket\n   Example: /create_ticket System issue Cannot log in\n   Send /create_ticket on its own for a step-by-step form\n\n📥 /my_tickets - Tickets assigned to you\n🔍 /search <query> - Search tickets and messages in this group\n⚙️ /settings - View/change group settings (closing tickets, attachments, language, etc.)\n👤 /role @username <role> - Set a member's role (agent, supervisor, customer)\n🔄 /sync_topics - Sync topics with Telegram\n🎮 /test_buttons - Test inline buttons\n❓ /help - Show this help",
+  "help.shortcuts": "Shortcuts:",
+  "help.topicTitle": "General commands:",
+  "help.topic":
+    "✅ /close_ticket - Close this topic\n🎮 /test_buttons - Test inline buttons\n❓ /help - Show help",
+  "help.ticketTitle": "Commands for ticket {ticketId}:",
+  "help.ticket":
+    "👥 /mention - List users in the system\n   /mention <username> - Invite someone to the ticket\n   Example: /mention john\n\n🔗 /link_topic <topic_id> - Link another topic\n   Example: /link_topic 123\n\n🔓 /unlink_topic - Unlink a topic\n\n🔄 /status - View and change the ticket status\n⏸️ /pending [reason] - Wait for customer information\n📜 /history - View the ticket history\n📄 /export [html|md|json] - Export the conversation as a file",
+  "help.reply": "💬 /reply [shortcut] - Reply with a canned response",
+  "help.reopen": "🔓 /reopen [reason] - Reopen the ticket",
+  "help.openTicket":
+    "👷 /assign - Choose who handles the ticket\n   /assign @username - Assign to a specific user\n🙅 /unassign - Remove the assignee\n\n✅ /close_ticket - Close this ticket",
+  "help.help": "❓ /help - Show this help",
+  "help.error": "❌ Could not show help",
+
+  "common.groupOnly": "❌ /{command} can only be used in a group",
+  "common.topicOnly": "❌ /{command} can only be used inside a topic",
+
+  "createTicket.supergroupOnly":
+    "❌ Tickets can only be created in a supergroup with topics enabled\n\n🔧 Please upgrade the group to a supergroup and enable topics",
+  "createTicket.botNotAdmin":
+    "❌ Could not create the ticket\n🔧 The bot is not an admin in this group\n\n👤 Please ask a group admin to grant the bot admin rights",
+  "createTicket.cannotManageTopics":
+    '❌ Could not create the topic\n🔧 The bot cannot manage topics\n\n📋 Please ask an admin to:\n• Enable topics in the group\n• Give the bot the "Manage Topics" permission',
+  "createTicket.topicCreated": '✅ Created topic "{topicName}"',
+  "createTicket.topicError":
+    "❌ Could not create the topic\n🔧 Please check that:\n• The group is a supergroup\n• Topics are enabled in the group\n• The bot can manage topics",
+  "createTicket.error": "❌ Could not create the ticket, please try again",
+
+  "closeTicket.openTopicHint":
+    "💡 Open the topic you want to close and run the command again",
+  "closeTicket.alreadyClosed": "ℹ️ This ticket is already closed",
+  "closeTicket.notAllowed":
+    "❌ You are not allowed to close this ticket (only its creator or a group admin can)",
+  "closeTicket.topicClosed": "ℹ️ This topic is already closed",
+  "closeTicket.error": "❌ Could not close the ticket, please try again",
+
+  "mention.usage":
+    "💡 Usage:\n• /mention - List users in the system\n• /mention <username> - Invite someone to the ticket\n\nExample: /mention john",
+  "mention.ticketTopicOnly":
+    "❌ /mention can only be used inside a ticket topic",
+  "mention.cannotInviteBot":
+    "❌ Bots can't be invited: {username}\n👤 Only real users can be invited",
+  "mention.error": "❌ Could not invite the user, please try again",
+
+  "common.cancel": "❌ Cancel",
+
+  "mention.inviteUser": "👥 Invite user",
+  "mention.chooseAction":
+    "🎯 Choose an action:\n\n👥 Invite user - Invite an internal user to this topic",
+  "mention.optionsError": "❌ Could not show the options",
+
+  "common.topicNotFound": "❌ Topic not found",
+
+  "userMenu.noneToAssign":
+    "ℹ️ There is nobody to assign\n\n💡 Users must send /start in a group before they can be assigned",
+  "userMenu.noneToInvite":
+    "ℹ️ There is nobody to invite\n\n💡 Everyone is already in this topic, or there are no users yet",
+  "userMenu.assignPrompt":
+    "👷 Choose who handles this ticket\n\n📋 Users available: {count}",
+  "userMenu.invitePrompt":
+    "👥 Choose a user to invite to this topic\n\n📋 Users available: {count}",
+  "userMenu.error": "❌ Could not show the user list",
+
+  "common.ticketTopicOnly":
+    "❌ /{command} can only be used inside a ticket topic",
+
+  "assign.closedTicket": "❌ A closed ticket can't be assigned",
+  "assign.userNotFoundHint": "💡 Use /assign to choose from the list of users",
+  "assign.alreadyAssigned": "ℹ️ {name} is already handling this ticket",
+  "assign.error": "❌ Could not assign the ticket, please try again",
+  "assign.cancelled": "Assignment cancelled",
+  "assign.success": "✅ Assigned to {name}",
+
+  "unassign.notAssigned": "ℹ️ This ticket has no assignee",
+  "unassign.error": "❌ Could not remove the assignee, please try again",
+
+  "search.missingTerms":
+    "❌ Please enter something to search for\n\n📝 Example: /search login error",
+  "search.noResults": '🔍 No results for "{terms}"',
+  "search.title": '🔍 Search results for "{terms}"',
+  "search.tickets": "🎫 Tickets ({count}):",
+  "search.messages": "💬 Messages ({count}):",
+  "search.error": "❌ Search failed, please try again",
+
+  "myTickets.none": "📭 You have no assigned tickets",
+  "myTickets.item": "   📌 Status: {status} | ⚡ Priority: {priority}",
+  "myTickets.title": "📥 Tickets assigned to you ({count}):",
+  "myTickets.sentToDm": "📬 Sent the ticket list to you in a private message",
+
+  "common.dmFailed":
+    "❌ Could not send you a private message\n\n💡 Please start a private chat with the bot (/start) and try again",
+
+  "myTickets.error": "❌ Could not load your tickets",
+
+  "assign.announced":
+    "👷 Ticket {ticketId} assigned to {assignee}\n👤 Assigned by: {assigner}",
+
+  "unassign.announced":
+    "🙅 Ticket {ticketId} no longer has an assignee\n👤 Removed by: {actor}",
+
+  "sla.firstResponse": "first response",
+  "sla.resolution": "resolution",
+  "sla.breached": "🚨 Ticket {ticketId} breached its SLA ({target})",
+  "sla.warning": "⚠️ Ticket {ticketId} is close to its SLA ({target})",
+  "sla.details": "📝 Title: {title}\n⚡ Priority: {priority}\n⏰ Due: {dueAt}",
+  "sla.remaining": " ({minutes} minutes left)",
+
+  "status.current":
+    "📌 Current status of ticket {ticketId}: {status}\n\n🔄 Choose a new status:\n💡 Use /close_ticket to close the ticket",
+  "status.invalid":
+    "❌ Invalid status: {status}\n\n📋 Valid statuses: open, in_progress, pending, resolved",
+  "status.useClose": "💡 Use /close_ticket to close the ticket",
+  "status.error": "❌ Could not change the status, please try again",
+  "status.cancelled": "Status change cancelled",
+  "status.changed": "✅ Status changed to {status}",
+  "status.notChanged": "❌ Could not change the status",
+
+  "pending.already": "ℹ️ This ticket is already waiting for the customer",
+
+  "reopen.notFoundInGroup": "❌ Ticket {ticketId} was not found in this group",
+  "reopen.notClosed": "ℹ️ Ticket {ticketId} is not closed ({status})",
+  "reopen.error": "❌ Could not reopen the ticket, please try again",
+
+  "history.title": "📜 History of ticket {ticketId}",
+  "history.empty": "No changes yet",
+  "history.error": "❌ Could not show the ticket history",
+
+  "export.invalidFormat":
+    "❌ Invalid file format\n\n📝 Use: /export html, /export md, /export json",
+  "export.caption": "📄 Conversation of ticket {ticketId}",
+  "export.error": "❌ Could not export the conversation, please try again",
+
+  "timeline.created": '🎫 Created ticket "{title}"',
+  "timeline.status": "status {from} → {to}",
+  "timeline.unassigned": "removed the assignee",
+  "timeline.closed": "🔒 Closed the ticket",
+  "timeline.reopened": "🔓 Reopened the ticket",
+  "timeline.assigned": "👷 Assigned to {name}",
+  "timeline.slaWarning": "⚠️ SLA almost due ({target})",
+  "timeline.slaBreached": "🚨 SLA breached ({target})",
+  "timeline.mentioned": "👥 Invited {name}",
+  "timeline.topicCreated": '📂 Created topic "{name}"',
+  "timeline.topicLinked": "🔗 Linked topics {topics}",
+  "timeline.topicUnlinked": "🔓 Unlinked topics {topics}",
+
+  "reply.closedTicket": "❌ This ticket is closed, use /reopen to reopen it",
+  "reply.none":
+    "📭 This group has no canned responses yet\n\n💡 Add them through the API: POST /api/v1/canned-responses",
+  "reply.choose": "💬 Choose a canned response:",
+  "reply.notFound":
+    '❌ Canned response "{shortcut}" not found\n\n💡 Use /reply to see the full list',
+  "reply.error": "❌ Could not send the canned response, please try again",
+  "reply.cancelled": "Cancelled",
+  "reply.missing": "❌ This canned response no longer exists",
+  "reply.noOpenTicket": "❌ There is no open ticket in this topic",
+  "reply.sent": "✅ Sent",
+
+  "status.transitionFailed": "❌ Can't change the status from {from} to {to}",
+  "status.open": "🟢 Open",
+  "status.in_progress": "🔧 In progress",
+  "status.pending": "⏸️ Waiting for customer",
+  "status.resolved": "✔️ Resolved",
+  "status.closed": "🔒 Closed",
+  "status.announced":
+    "🔄 Ticket {ticketId} status: {from} → {to}\n👤 Changed by: {actor}",
+
+  "common.reason": "📝 Reason: {reason}",
+
+  "customer.resolved":
+    "✅ Your request ({ticketId}) has been resolved\n💬 If you still need help, just send us a message",
+  "customer.staff": "Support",
+  "customer.relayFailed":
+    "⚠️ Could not deliver the message to the customer (they may have blocked the bot)",
+  "customer.closed":
+    "🔒 Your request ({ticketId}) has been closed. Thank you for contacting us\n💬 Send a new message any time to open a new request",
+
+  "close.title": "Ticket {ticketId} has been closed",
+  "close.closedAt": "📅 Closed at: {date}",
+  "close.closedBy": "👤 Closed by: {actor}",
+  "close.duration": "⏱️ Time spent: {duration}",
+  "close.hours": "{hours} hours",
+  "close.underAnHour": "less than an hour",
+  "close.reopenHint": "🔓 Use /reopen to reopen this ticket",
+  "close.deleteNotice": "🗑️ This topic will be deleted in {days} days",
+
+  "reopen.announced": "🔓 Ticket {ticketId} has been reopened",
+  "reopen.by": "👤 Reopened by: {actor}",
+  "reopen.recreated": "🆕 Created a new topic to replace the deleted one",
+  "reopen.historyKept": "📜 The previous message history is kept",
+
+  "settings.title": "⚙️ Group settings",
+  "settings.auto": "auto",
+  "settings.error": "❌ Failed to update settings",
+  "settings.saved": "✅ Settings saved",
+  "settings.attachmentsUsage":
+    "❌ Invalid format\n\n📝 Usage:\n/settings attachments download on|off\n/settings attachments maxsize <MB>|default\n/settings attachments types <image/*,application/pdf,...>|default\n/settings attachments block <.exe,.bat,...>|default\n/settings attachments retention <days> (0 = keep forever)",
+  "settings.attachmentsTitle": "📎 Group attachment policy",
+  "settings.attachmentsPolicy":
+    "⬇️ Store downloads: {download}\n📏 Max size: {maxSize}MB\n✅ Allowed types: {types}\n🚫 Blocked extensions: {blocked}\n🗑️ Keep files: {retention}",
+  "settings.on": "on",
+  "settings.off": "off",
+  "settings.days": "{days} days",
+  "settings.forever": "forever",
+  "settings.languageUsage":
+    "❌ Invalid format\n\n📝 Usage: /settings language {locales}|auto\n💡 auto = use each user's own language",
+  "settings.timezoneUsage":
+    "❌ Invalid time zone\n\n📝 Usage: /settings timezone <IANA>|default\n📝 Example: /settings timezone Asia/Bangkok",
+  "settings.localeSaved":
+    "✅ Settings saved\n\n🌐 Language: {language}\n🕒 Time zone: {timezone}",
+
+  "assign.dm":
+    "🔔 You have been assigned a new ticket!\n\n🎫 Ticket: {ticketId}\n📝 Title: {title}\n👤 Assigned by: {assigner}",
+  "assign.dmHint": "📥 Use /my_tickets to see all tickets assigned to you",
+
+  "customer.noSupportGroup":
+    "ℹ️ No support group has been set up yet - use /help to see how to get started",
+  "customer.followUpReason": "Customer sent a follow-up message",
+  "customer.unavailable":
+    "❌ We can't reach the support team right now. Please try again later",
+  "customer.received":
+    "✅ We have received your request\n\n🎫 Ticket ID: {ticketId}\n💬 Our team will reply in this chat. Feel free to send more messages at any time",
+  "customer.sendFailed": "❌ Failed to send your message. Please try again",
+  "customer.defaultTitle": "Contact from {name}",
+  "customer.topicHeader":
+    "📩 New ticket from a private chat\n\n🎫 Ticket ID: {ticketId}\n👤 Customer: {customer}\n\n💬 Messages in this topic are sent to the customer (except commands starting with / and internal notes starting with #note)",
+  "customer.name": "Customer",
+
+  "wizard.titlePrompt":
+    "📝 Please enter the ticket title:\n\nExamples:\n• Login problem\n• Printer repair request\n• Need help\n\n💡 Type /cancel to cancel",
+  "wizard.titleTooLong": "The title must be at most {max} characters",
+  "wizard.descriptionPrompt":
+    "📄 Describe the problem\n\n💡 Type /skip to skip",
+  "wizard.descriptionTooLong":
+    "The description must be at most {max} characters",
+  "wizard.priorityPrompt":
+    "⚡ Choose a priority\n\n💡 Type /skip to use the default",
+  "wizard.attachmentsPrompt":
+    "📎 Send related images or files (multiple files allowed)\n\n💡 Type /done when finished, or /skip if you have no files",
+  "wizard.cannotSkip": "This step cannot be skipped",
+  "wizard.answerFirst": "Please answer this question first",
+  "wizard.sendFile": "Please send a file, or type /done when finished",
+  "wizard.textOnly": "Please reply with text",
+  "wizard.chooseOne": "Please choose: {choices}",
+  "wizard.filesReceived":
+    "📎 Received {count} file(s) - send more or type /done",
+  "wizard.cancelled": "❌ Ticket creation cancelled",
+  "wizard.expired": "⌛ This step has expired. Please start again",
+
+  "createTicket.created": '✅ Created ticket {ticketId} "{title}"',
+  "createTicket.noTopicPermission":
+    "❌ The bot is not allowed to create topics\n\nPlease ask an admin to grant the bot permissions",
+
+  "topic.closedNotice": "ℹ️ This ticket is closed, but you can still chat here",
+
+  "attachments.rejected":
+    '⚠️ File "{fileName}" was not stored\n\n❌ Reason: {reason}\n💬 The message was still delivered to everyone - see the attachment policy with /settings attachments',
+
+  "common.user": "User",
+
+  "sync.from": "👤 From: {name}",
+  "sync.edited": "✏️ Edited",
+
+  "link.topicOnlyUsage":
+    "❌ /link_topic can only be used inside a topic\n\n💡 How to use:\n1. In the first topic, type /link_topic <topic_id>\n2. In the second topic, type /link_topic <topic_id of the first topic>\n\n📝 Example: /link_topic 123",
+  "link.missingId":
+    "❌ Please specify the topic ID to link\n\n📝 Example: /link_topic 123\n💡 Find the topic ID in the topic URL or ask an admin",
+
+  "common.topicIdNotNumber": "❌ The topic ID must be a number",
+
+  "link.sourceNotFound": "❌ This topic was not found",
+  "link.targetNotFound": "❌ Topic ID {topicId} was not found in this group",
+  "link.alreadyLinked": "ℹ️ This topic is already linked to topic {topicId}",
+  "link.successTitle": "Topics linked",
+  "link.linkedTitle": "Topic linked",
+  "link.linkedWith": "📋 This topic is now linked to topic {topicId}",
+  "link.by": "👤 Linked by: {name}",
+  "link.outgoing":
+    "💬 Messages in this topic will be sent to topic {topicId} automatically",
+  "link.incoming":
+    "💬 Messages in topic {topicId} will be sent to this topic automatically",
+  "link.error": "❌ Failed to link the topics",
+
+  "unlink.topicOnlyUsage":
+    "❌ /unlink_topic can only be used inside a topic\n\n💡 How to use: open the topic you want to unlink and type /unlink_topic",
+  "unlink.notLinked": "❌ This topic is not linked to topic {topicId}",
+  "unlink.error": "❌ Failed to unlink the topics",
+  "unlink.noLinks":
+    "ℹ️ This topic is not linked to any other topic\n\n🔗 Use /link_topic <topic_id> to link a topic",
+  "unlink.button": "🔓 Unlink topic {topicId}",
+  "unlink.menuTitle": "Linked topics",
+  "unlink.menuCount": "📋 This topic is linked to {count} topic(s):",
+  "unlink.menuPrompt": "🔓 Choose the topic to unlink:",
+  "unlink.menuError": "❌ Failed to show the linked topics",
+
+  "userNotFound.similar": "🔍 Similar users",
+  "userNotFound.all": "👥 Choose from all users",
+  "userNotFound.inlineReply": "💬 Use inline reply instead",
+  "userNotFound.title": "User not found: @{username}",
+  "userNotFound.internalOnly": "🔍 Only internal users can be invited",
+  "userNotFound.similarCount": "💡 Found {count} similar user(s)",
+  "userNotFound.chooseAction": "Choose an action:",
+  "userNotFound.fallback":
+    "❌ User not found: {username}\n🔍 Only internal users can be invited\n\n💡 The user must have used the bot in this group before",
+  "userNotFound.expired": "❌ This menu has expired",
+  "userNotFound.invalidAction": "❌ Invalid action",
+  "userNotFound.noSimilar": "❌ No similar users",
+
+  "common.back": "🔙 Back",
+
+  "userNotFound.similarTitle": 'Users similar to "@{username}":',
+  "userNotFound.similarFound": "Found {count} user(s) with similar names:",
+  "userNotFound.chooseInvitee": "Choose the user to invite:",
+  "userNotFound.showingSimilar": "Showing similar users",
+  "userNotFound.showingAll": "Showing all users",
+
+  "game.rock": "🔨 Rock",
+  "game.paper": "📄 Paper",
+  "game.scissors": "✂️ Scissors",
+  "game.title": "Inline buttons test",
+  "game.prompt": "Choose your weapon:",
+  "game.cancelled": "❌ Game cancelled",
+  "game.draw": "🤝 Draw!",
+  "game.win": "🎉 You win!",
+  "game.lose": "😢 The bot wins!",
+  "game.resultTitle": "Result",
+  "game.yourChoice": "You chose: {choice}",
+  "game.botChoice": "The bot chose: {choice}",
+
+  "sync.botNotAdmin": "❌ The bot needs admin rights to sync",
+  "sync.started": "🔄 Starting topic sync... please wait",
+  "sync.done":
+    "✅ Topic sync finished! Topics that no longer exist were removed from the database",
+  "sync.error": "❌ Failed to sync topics",
+
+  "mention.dm":
+    '🔔 You were mentioned in a support ticket!\n\n🎫 Ticket: {ticketId}\n📝 Title: {title}\n👤 Invited by: {inviter}\n\n💬 A personal topic is waiting for you in the group\n🔗 Open the group and look for the topic: "{topicName}"\n\n✨ Start chatting!',
+
+  "archive.invalidDays":
+    "❌ The number of days must be a positive number\n\n📝 Example: /archive 30 (deletes topics older than 30 days)",
+  "archive.startTitle": "Starting archive",
+  "archive.searching": "📅 Looking for topics older than {days} days...",
+
+  "common.pleaseWait": "⚠️ Please wait...",
+
+  "archive.noTopics": "📭 No topics found in this group",
+  "archive.doneTitle": "Archive finished",
+  "archive.summary": "Summary:",
+  "archive.deleted": "🗑️ Topics deleted: {count}",
+  "archive.unlinked": "🔗 Links removed: {count}",
+  "archive.errors": "⚠️ Errors: {count}",
+  "archive.criteria": "📅 Age threshold: older than {days} days",
+  "archive.by": "👤 Run by: {name}",
+  "archive.error": "❌ Failed to archive topics",
+
+  "debug.syncing": "🔄 Syncing topics...",
+  "debug.synced": "✅ Sync finished\n📊 Found {count} topics in this group",
+  "debug.clearing": "🗑️ Deleting all topics...",
+  "debug.cleared": "✅ Deletion finished\n🗑️ Deleted {count} topics",
+  "debug.clearFailed": " ({count} could not be deleted)",
+
+  "api.ticketWelcome": "📋 Ticket: {ticketId}\n📝 Title: {title}",
+  "api.description": "📖 Details: {description}",
+  "api.createdVia": "🔗 Created via API",
+  "api.mentionInvited": "has been invited to the ticket",
+  "api.mentionDetails": "🎫 Ticket: {ticketId}\n📝 Title: {title}",
+  "api.mentionMessage": "💬 Message: {message}",
+
+  "closeTicket.adminsOnly":
+    "❌ Only group admins can close tickets in this group",
+
+  "settings.menuBody":
+    "🕒 Time zone: {timezone}\n\n💡 Tap a button to change a value (group admins only)\n🕒 /settings timezone <IANA>|default - set the time zone\n📎 /settings attachments - attachment policy",
+  "settings.button.language": "🌐 Language: {value}",
+  "settings.button.topicCloseAction": "📁 Topic on close: {value}",
+  "settings.button.topicDeleteAfterDays": "🗑️ Delete topics after: {value}",
+  "settings.button.closePermission": "🔒 Who can close: {value}",
+  "settings.button.archiveAfterDays": "🗂️ /archive default: {value}",
+  "settings.button.defaultPriority": "⚡ Default priority: {value}",
+  "settings.button.download": "⬇️ Store attachments: {value}",
+  "settings.closeMenu": "✖️ Close menu",
+  "settings.closeAction.close": "close & lock",
+  "settings.closeAction.rename": "rename to ✅",
+  "settings.closeAction.delete": "delete",
+  "settings.closePermission.anyone": "anyone",
+  "settings.closePermission.creator_or_admin": "creator or admin",
+  "settings.closePermission.admins": "admins only",
+
+  "priority.low": "low",
+  "priority.medium": "medium",
+  "priority.high": "high",
+
+  "roles.denied": "❌ /{command} is only available to: {roles}",
+  "roles.operatorOnly": "❌ This command is only available to bot operators",
+  "roles.owner": "owner",
+  "roles.supervisor": "supervisor",
+  "roles.agent": "agent",
+  "roles.customer": "customer",
+  "roles.usage":
+    "ℹ️ Set a member's role:\n/role @username <agent|supervisor|customer|reset>\nor reply to the member's message with /role <role>\n\nreset = go back to the role from their Telegram status",
+  "roles.updated": "✅ {user} now has the {role} role in this group",
+  "roles.followsTelegram":
+    "ℹ️ {user} is a Telegram admin, so their role stays {role}",
+
+  "command.role": "👤 Set a member's role",
+};
@@ -0,0 +1,483 @@
+// ข้อความของ Bot ภาษาไทย (ภาษาหลัก) - key ที่เพิ่มที่นี่ต้องเพิ่มใน en.ts ด้วย
+// {name} ใน template จะถูกแทนด้วย params ของ Translator.t()
+export const th = {
+  "locale.intl": "th-TH",
+
+  "welcome.priority": "⚡ ความสำคัญ: {priority}",
+  "welcome.commandsTitle": "คำสั่งที่ใช้ได้:",
+  "welcome.commands":
+    "• /mention - เชิญคนเข้าร่วม Ticket\n• /assign - มอบหมายผู้รับผิดชอบ\n• /link_topic <id> - เชื่อมโยง Topic อื่น\n• /close_ticket - ปิด Ticket นี้\n• /help - ดูคำสั่งทั้งหมด",
+
+  "command.start": "🤖 เริ่มใช้งาน Bot",
+  "command.create_ticket": "🎫 สร้าง Ticket ใหม่",
+  "command.close_ticket": "✅ ปิด Ticket",
+  "command.status": "🔄 ดู/เปลี่ยนสถานะ Ticket",
+  "command.pending": "⏸️ รอข้อมูลจากลูกค้า",
+  "command.reopen": "🔓 เปิด Ticket อีกครั้ง",
+  "command.history": "📜 ดูประวัติการเปลี่ยนแปลง Ticket",
+  "command.export": "📄 Export บทสนทนาของ Ticket",
+  "command.mention": "👥 เชิญคนเข้าร่วม Ticket",
+  "command.assign": "👷 มอบหมายผู้รับผิดชอบ Ticket",
+  "command.unassign": "🙅 ยกเลิกผู้รับผิดชอบ Ticket",
+  "command.my_tickets": "📥 Ticket ที่ฉันรับผิดชอบ",
+  "command.search": "🔍 ค้นหา Ticket และข้อความ",
+  "command.settings": "⚙️ ตั้งค่ากลุ่ม",
+  "command.reply": "💬 ตอบด้วยข้อความสำเร็จรูป",
+  "command.link_topic": "🔗 เชื่อมโยง Topic",
+  "command.unlink_topic": "🔓 ยกเลิกการเชื่อมโยง Topic",
+  "command.sync_topics": "🔄 Sync Topics กับ Telegram",
+  "command.archive": "📦 Archive Ticket",
+  "command.help": "❓ ดูคำสั่งที่ใช้ได้",
+  "command.test_buttons": "🎮 ทดสอบ Inline Buttons",
+
+  "common.incompleteData": "❌ ข้อมูลไม่ครบถ้วน",
+  "common.error": "❌ เกิดข้อผิดพลาด",
+  "common.invalidTopicId": "❌ Topic ID ไม่ถูกต้อง",
+  "common.noTicketForTopic": "❌ ไม่พบ Ticket ที่เชื่อมโยงกับ Topic นี้",
+  "common.ticketNotFound": "❌ ไม่พบข้อมูล Ticket",
+
+  "unlink.sourceTitle": "ยกเลิกการเชื่อมโยง Topic",
+  "unlink.sourceBody": "📋 ยกเลิกการเชื่อมโยงกับ Topic {topicId} แล้ว",
+  "unlink.by": "👤 ยกเลิกโดย: {name}",
+  "unlink.sourceNote": "💬 ข้อความจะไม่ถูกส่งไป Topic {topicId} อีกต่อไป",
+  "unlink.targetTitle": "การเชื่อมโยงถูกยกเลิก",
+  "unlink.targetBody": "📋 การเชื่อมโยงกับ Topic {topicId} ถูกยกเลิกแล้ว",
+  "unlink.targetNote": "💬 ข้อความจาก Topic {topicId} จะไม่ถูกส่งมาอีกต่อไป",
+  "unlink.success": "✅ ยกเลิกการเชื่อมโยงกับ Topic {topicId} สำเร็จ",
+
+  "mention.closedTicket": "❌ ไม่สามารถเชิญคนเข้า Ticket ที่ปิดแล้ว",
+  "mention.userNotFound": "❌ ไม่พบ User: {username}",
+  "mention.alreadyInTicket": "ℹ️ {username} อยู่ใน Ticket นี้แล้ว",
+  "mention.topicCreateFailed": "❌ ไม่สามารถสร้าง Topic สำหรับ @{username} ได้",
+  "mention.topicCreated": "✅ สร้าง Topic สำหรับ @{username} แล้ว",
+  "mention.ticket": "🎫 Ticket: ",
+  "mention.title": "📝 หัวข้อ: ",
+  "mention.invitedBy": "👤 เชิญโดย: {name}",
+  "mention.userTopic": '🔗 Topic ของ @{username}: "{topicName}"',
+  "mention.syncNote": "💬 ข้อความจะถูก sync ระหว่าง topics อัตโนมัติ",
+  "mention.invited": " ได้รับการเชิญเข้าร่วม Ticket",
+  "mention.privateSpace": "💬 นี่คือพื้นที่สนทนาส่วนตัวสำหรับ {name}",
+  "mention.syncWithPrimary": "🔗 ข้อความจะถูก sync กับ Topic หลักอัตโนมัติ",
+  "mention.pleaseReply": "📞 @{username} กรุณาส่งข้อความเพื่อเริ่มการสนทนา",
+  "mention.success": "✅ เชิญ {username} สำเร็จ",
+  "mention.cancelled": "ยกเลิกการเชิญผู้ใช้",
+
+  "start.customer":
+    "👋 สวัสดี! ยินดีต้อนรับสู่ฝ่ายบริการลูกค้า\n\n💬 พิมพ์ปัญหาหรือคำถามของคุณได้เลย ระบบจะเปิด Ticket และส่งต่อให้ทีมงาน\n📎 สามารถส่งรูปภาพหรือไฟล์ประกอบได้",
+  "start.private":
+    "👋 สวัสดี! ฉันเป็น Telegram Ticket Support Bot\n\n🎫 เพิ่มฉันเข้ากลุ่มและให้สิทธิ์ Admin เพื่อเริ่มใช้งาน\n📋 ใช้คำสั่ง /create_ticket เพื่อสร้าง ticket ใหม่\n❓ ใช้คำสั่ง /help เพื่อดูคำสั่งทั้งหมด",
+  "start.paired":
+    "✅ Bot พร้อมใช้งานในกลุ่มนี้แล้ว!\n\n👤 {name} ได้ถูก pair กับกลุ่มนี้เรียบร้อยแล้ว\n🎫 ใช้ /create_ticket <หัวข้อ> [รายละเอียด] เพื่อสร้าง ticket\n❓ ใช้ /help เพื่อดูคำสั่งทั้งหมด\n🔗 เมื่อมีคนเรียกคุณ topic จะถูกสร้างในกลุ่มนี้",
+  "start.group":
+    "✅ Bot พร้อมใช้งานในกลุ่มนี้แล้ว!\n\n🎫 ใช้ /create_ticket <หัวข้อ> [รายละเอียด] เพื่อสร้าง ticket\n❓ ใช้ /help เพื่อดูคำสั่งทั้งหมด",
+
+  "help.title": "คำสั่งที่ใช้ได้:",
+  "help.general":
+    "🎫 /create_ticket <หัวข้อ> [รายละเอียด] - สร้าง Ticket ใหม่\n   ตัวอย่าง: /create_ticket ปัญหาระบบ ไม่สามารถล็อกอินได้\n   พิมพ์ /create_ticket เฉยๆ เพื่อสร้างแบบถามทีละขั้นตอน\n\n📥 /my_tickets - ดู Ticket ที่คุณรับผิดชอบ\n🔍 /search <คำค้นหา> - ค้นหา Ticket และข้อความในกลุ่ม\n⚙️ /settings - ดู/ตั้งค่าของกลุ่ม (การปิด Ticket, ไฟล์แนบ, ภาษา ฯลฯ)\n👤 /role @username <role> - ตั้ง role ให้สมาชิก (agent, supervisor, customer)\n🔄 /sync_topics - Sync Topics กับ Telegram\n🎮 /test_buttons - ทดสอบ Inline Buttons\n❓ /help - แสดงความช่วยเหลือนี้",
+  "help.shortcuts": "ย่อได้:",
+  "help.topicTitle": "คำสั่งทั่วไป:",
+  "help.topic":
+    "✅ /close_ticket - ปิด Topic นี้\n🎮 /test_buttons - ทดสอบ Inline Buttons\n❓ /help - แสดงความช่วยเหลือ",
+  "help.ticketTitle": "คำสั่งสำหรับ Ticket {ticketId}:",
+  "help.ticket":
+    "👥 /mention - แสดงรายชื่อผู้ใช้ในระบบ\n   /mention <username> - เชิญคนเข้าร่วม Ticket\n   ตัวอย่าง: /mention john\n\n🔗 /link_topic <topic_id> - เชื่อมโยง Topic อื่น\n   ตัวอย่าง: /link_topic 123\n\n🔓 /unlink_topic - ยกเลิกการเชื่อมโยง Topic\n\n🔄 /status - ดูและเปลี่ยนสถานะ Ticket\n⏸️ /pending [เหตุผล] - รอข้อมูลจากลูกค้า\n📜 /history - ดูประวัติการเปลี่ยนแปลง Ticket\n📄 /export [html|md|json] - Export บทสนทนาเป็นไฟล์",
+  "help.reply": "💬 /reply [shortcut] - ตอบด้วยข้อความสำเร็จรูป",
+  "help.reopen": "🔓 /reopen [เหตุผล] - เปิด Ticket อีกครั้ง",
+  "help.openTicket":
+    "👷 /assign - เลือกผู้รับผิดชอบ Ticket\n   /assign @username - มอบหมายให้ผู้ใช้ที่ระบุ\n🙅 /unassign - ยกเลิกผู้รับผิดชอบ\n\n✅ /close_ticket - ปิด Ticket นี้",
+  "help.help": "❓ /help - แสดงความช่วยเหลือนี้",
+  "help.error": "❌ เกิดข้อผิดพลาดในการแสดงความช่วยเหลือ",
+
+  "common.groupOnly": "❌ คำสั่ง /{command} ใช้ได้เฉพาะในกลุ่มเท่านั้น",
+  "common.topicOnly": "❌ คำสั่ง /{command} ใช้ได้เฉพาะใน Topic เท่านั้น",
+
+  "createTicket.supergroupOnly":
+    "❌ Ticket สามารถสร้างได้เฉพาะใน Supergroup ที่เปิดใช้ Topics เท่านั้น\n\n🔧 กรุณาอัพเกรดกลุ่มเป็น Supergroup และเปิดใช้ Topics",
+  "createTicket.botNotAdmin":
+    "❌ ไม่สามารถสร้าง Ticket ได้\n🔧 Bot ไม่มีสิทธิ์ Admin ในกลุ่มนี้\n\n👤 กรุณาให้ Admin ของกลุ่มตั้งค่าสิทธิ์ให้ Bot",
+  "createTicket.cannotManageTopics":
+    '❌ ไม่สามารถสร้าง Topic ได้\n🔧 Bot ไม่มีสิทธิ์จัดการ Topics\n\n📋 กรุณาให้ Admin ตั้งค่าสิทธิ์:\n• เปิดใช้ Topics ในกลุ่ม\n• ให้สิทธิ์ "Manage Topics" กับ Bot',
+  "createTicket.topicCreated": '✅ สร้าง Topic "{topicName}" แล้ว',
+  "createTicket.topicError":
+    "❌ ไม่สามารถสร้าง Topic ได้\n🔧 กรุณาตรวจสอบว่า:\n• กลุ่มเป็น Supergroup\n• เปิดใช้ Topics ในกลุ่ม\n• Bot มีสิทธิ์จัดการ Topics",
+  "createTicket.error":
+    "❌ เกิดข้อผิดพลาดในการสร้าง Ticket กรุณาลองใหม่อีกครั้ง",
+
+  "closeTicket.openTopicHint":
+    "💡 กรุณาเปิด Topic ที่ต้องการปิดแล้วใช้คำสั่งนี้ใหม่",
+  "closeTicket.alreadyClosed": "ℹ️ Ticket นี้ปิดแล้ว",
+  "closeTicket.notAllowed":
+    "❌ คุณไม่มีสิทธิ์ปิด Ticket นี้ (เฉพาะผู้สร้าง Ticket หรือ Admin ของกลุ่ม)",
+  "closeTicket.topicClosed": "ℹ️ Topic นี้ปิดแล้ว",
+  "closeTicket.error": "❌ เกิดข้อผิดพลาดในการปิด Ticket กรุณาลองใหม่อีกครั้ง",
+
+  "mention.usage":
+    "💡 วิธีใช้:\n• /mention - แสดงรายชื่อผู้ใช้ในระบบ\n• /mention <username> - เชิญคนเข้าร่วม Ticket\n\nตัวอย่าง: /mention john",
+  "mention.ticketTopicOnly":
+    "❌ คำสั่ง /mention ใช้ได้เฉพาะใน Topic ของ Ticket เท่านั้น",
+  "mention.cannotInviteBot":
+    "❌ ไม่สามารถเชิญ Bot ได้: {username}\n👤 สามารถเชิญได้เฉพาะผู้ใช้จริงเท่านั้น",
+  "mention.error": "❌ เกิดข้อผิดพลาดในการเชิญ User กรุณาลองใหม่อีกครั้ง",
+
+  "common.cancel": "❌ ยกเลิก",
+
+  "mention.inviteUser": "👥 เชิญผู้ใช้",
+  "mention.chooseAction":
+    "🎯 เลือกการกระทำ:\n\n👥 เชิญผู้ใช้ - เชิญ Internal User เข้าร่วม Topic",
+  "mention.optionsError": "❌ เกิดข้อผิดพลาดในการแสดงตัวเลือก",
+
+  "common.topicNotFound": "❌ ไม่พบข้อมูล Topic",
+
+  "userMenu.noneToAssign":
+    "ℹ️ ไม่มีผู้ใช้ที่สามารถมอบหมายได้\n\n💡 ผู้ใช้ต้องใช้ /start ในกลุ่มก่อนจึงจะถูกมอบหมายได้",
+  "userMenu.noneToInvite":
+    "ℹ️ ไม่มีผู้ใช้ที่สามารถเชิญได้\n\n💡 ผู้ใช้ทุกคนอยู่ใน Topic นี้แล้ว หรือยังไม่มีผู้ใช้ในระบบ",
+  "userMenu.assignPrompt":
+    "👷 เลือกผู้รับผิดชอบ Ticket นี้\n\n📋 ผู้ใช้ที่สามารถมอบหมายได้: {count} คน",
+  "userMenu.invitePrompt":
+    "👥 เลือกผู้ใช้ที่ต้องการเชิญเข้าร่วม Topic\n\n📋 ผู้ใช้ที่สามารถเชิญได้: {count} คน",
+  "userMenu.error": "❌ เกิดข้อผิดพลาดในการแสดงรายชื่อผู้ใช้",
+
+  "common.ticketTopicOnly":
+    "❌ คำสั่ง /{command} ใช้ได้เฉพาะใน Topic ของ Ticket เท่านั้น",
+
+  "assign.closedTicket": "❌ ไม่สามารถมอบหมาย Ticket ที่ปิดแล้ว",
+  "assign.userNotFoundHint": "💡 ใช้ /assign เพื่อเลือกจากรายชื่อผู้ใช้ในระบบ",
+  "assign.alreadyAssigned": "ℹ️ {name} เป็นผู้รับผิดชอบ Ticket นี้อยู่แล้ว",
+  "assign.error": "❌ เกิดข้อผิดพลาดในการมอบหมาย Ticket กรุณาลองใหม่อีกครั้ง",
+  "assign.cancelled": "ยกเลิกการมอบหมาย",
+  "assign.success": "✅ มอบหมายให้ {name} แล้ว",
+
+  "unassign.notAssigned": "ℹ️ Ticket นี้ยังไม่มีผู้รับผิดชอบ",
+  "unassign.error":
+    "❌ เกิดข้อผิดพลาดในการยกเลิกผู้รับผิดชอบ กรุณาลองใหม่อีกครั้ง",
+
+  "search.missingTerms":
+    "❌ กรุณาระบุคำค้นหา\n\n📝 ตัวอย่าง: /search login error",
+  "search.noResults": '🔍 ไม่พบผลลัพธ์สำหรับ "{terms}"',
+  "search.title": '🔍 ผลการค้นหา "{terms}"',
+  "search.tickets": "🎫 Tickets ({count}):",
+  "search.messages": "💬 ข้อความ ({count}):",
+  "search.error": "❌ เกิดข้อผิดพลาดในการค้นหา กรุณาลองใหม่อีกครั้ง",
+
+  "myTickets.none": "📭 คุณยังไม่มี Ticket ที่รับผิดชอบอยู่",
+  "myTickets.item": "   📌 สถานะ: {status} | ⚡ ความสำคัญ: {priority}",
+  "myTickets.title": "📥 Ticket ที่คุณรับผิดชอบ ({count}):",
+  "myTickets.sentToDm": "📬 ส่งรายการ Ticket ไปทางข้อความส่วนตัวแล้ว",
+
+  "common.dmFailed":
+    "❌ ไม่สามารถส่งข้อความส่วนตัวได้\n\n💡 กรุณาเริ่มแชทส่วนตัวกับ Bot (/start) แล้วลองใหม่อีกครั้ง",
+
+  "myTickets.error": "❌ เกิดข้อผิดพลาดในการดึงรายการ Ticket",
+
+  "assign.announced":
+    "👷 มอบหมาย Ticket {ticketId} ให้ {assignee} แล้ว\n👤 มอบหมายโดย: {assigner}",
+
+  "unassign.announced":
+    "🙅 ยกเลิกผู้รับผิดชอบ Ticket {ticketId} แล้ว\n👤 ยกเลิกโดย: {actor}",
+
+  "sla.firstResponse": "การตอบกลับครั้งแรก",
+  "sla.resolution": "การแก้ไขปัญหา",
+  "sla.breached": "🚨 Ticket {ticketId} เกินกำหนด SLA ({target})",
+  "sla.warning": "⚠️ Ticket {ticketId} ใกล้ครบกำหนด SLA ({target})",
+  "sla.details":
+    "📝 หัวข้อ: {title}\n⚡ ความสำคัญ: {priority}\n⏰ กำหนดเวลา: {dueAt}",
+  "sla.remaining": " (อีก {minutes} นาที)",
+
+  "status.current":
+    "📌 สถานะปัจจุบันของ Ticket {ticketId}: {status}\n\n🔄 เลือกสถานะใหม่:\n💡 ใช้ /close_ticket เพื่อปิด Ticket",
+  "status.invalid":
+    "❌ สถานะไม่ถูกต้อง: {status}\n\n📋 สถานะที่ใช้ได้: open, in_progress, pending, resolved",
+  "status.useClose": "💡 ใช้ /close_ticket เพื่อปิด Ticket",
+  "status.error": "❌ เกิดข้อผิดพลาดในการเปลี่ยนสถานะ กรุณาลองใหม่อีกครั้ง",
+  "status.cancelled": "ยกเลิกการเปลี่ยนสถานะ",
+  "status.changed": "✅ เปลี่ยนสถานะเป็น {status}",
+  "status.notChanged": "❌ เปลี่ยนสถานะไม่ได้",
+
+  "pending.already": "ℹ️ Ticket นี้อยู่ในสถานะรอข้อมูลจากลูกค้าอยู่แล้ว",
+
+  "reopen.notFoundInGroup": "❌ ไม่พบ Ticket {ticketId} ในกลุ่มนี้",
+  "reopen.notClosed": "ℹ️ Ticket {ticketId} ยังไม่ได้ปิด ({status})",
+  "reopen.error":
+    "❌ เกิดข้อผิดพลาดในการเปิด Ticket อีกครั้ง กรุณาลองใหม่อีกครั้ง",
+
+  "history.title": "📜 ประวัติ Ticket {ticketId}",
+  "history.empty": "ยังไม่มีประวัติการเปลี่ยนแปลง",
+  "history.error": "❌ เกิดข้อผิดพลาดในการแสดงประวัติ Ticket",
+
+  "export.invalidFormat":
+    "❌ รูปแบบไฟล์ไม่ถูกต้อง\n\n📝 ใช้ได้: /export html, /export md, /export json",
+  "export.caption": "📄 บทสนทนาของ Ticket {ticketId}",
+  "export.error": "❌ เกิดข้อผิดพลาดในการ Export บทสนทนา กรุณาลองใหม่อีกครั้ง",
+
+  "timeline.created": '🎫 สร้าง Ticket "{title}"',
+  "timeline.status": "สถานะ {from} → {to}",
+  "timeline.unassigned": "ยกเลิกผู้รับผิดชอบ",
+  "timeline.closed": "🔒 ปิด Ticket",
+  "timeline.reopened": "🔓 เปิด Ticket อีกครั้ง",
+  "timeline.assigned": "👷 มอบหมายให้ {name}",
+  "timeline.slaWarning": "⚠️ ใกล้ครบกำหนด SLA ({target})",
+  "timeline.slaBreached": "🚨 เกินกำหนด SLA ({target})",
+  "timeline.mentioned": "👥 เชิญ {name}",
+  "timeline.topicCreated": '📂 สร้าง Topic "{name}"',
+  "timeline.topicLinked": "🔗 เชื่อมโยง Topic {topics}",
+  "timeline.topicUnlinked": "🔓 ยกเลิกการเชื่อมโยง Topic {topics}",
+
+  "reply.closedTicket": "❌ Ticket นี้ถูกปิดแล้ว ใช้ /reopen เพื่อเปิดอีกครั้ง",
+  "reply.none":
+    "📭 กลุ่มนี้ยังไม่มีข้อความสำเร็จรูป\n\n💡 เพิ่มได้ผ่าน API: POST /api/v1/canned-responses",
+  "reply.choose": "💬 เลือกข้อความสำเร็จรูป:",
+  "reply.notFound":
+    '❌ ไม่พบข้อความสำเร็จรูป "{shortcut}"\n\n💡 ใช้ /reply เพื่อดูรายการทั้งหมด',
+  "reply.error":
+    "❌ เกิดข้อผิดพลาดในการส่งข้อความสำเร็จรูป กรุณาลองใหม่อีกครั้ง",
+  "reply.cancelled": "ยกเลิกการส่งข้อความ",
+  "reply.missing": "❌ ไม่พบข้อความสำเร็จรูปนี้",
+  "reply.noOpenTicket": "❌ ไม่พบ Ticket ที่เปิดอยู่ใน Topic นี้",
+  "reply.sent": "✅ ส่งข้อความแล้ว",
+
+  "status.transitionFailed": "❌ ไม่สามารถเปลี่ยนสถานะจาก {from} เป็น {to} ได้",
+  "status.open": "🟢 เปิด",
+  "status.in_progress": "🔧 กำลังดำเนินการ",
+  "status.pending": "⏸️ รอข้อมูลจากลูกค้า",
+  "status.resolved": "✔️ แก้ไขแล้ว",
+  "status.closed": "🔒 ปิดแล้ว",
+  "status.announced":
+    "🔄 สถานะ Ticket {ticketId}: {from} → {to}\n👤 เปลี่ยนโดย: {actor}",
+
+  "common.reason": "📝 เหตุผล: {reason}",
+
+  "customer.resolved":
+    "✅ เรื่องของคุณ ({ticketId}) ได้รับการแก้ไขแล้ว\n💬 หากยังมีปัญหา ส่งข้อความมาได้เลย",
+  "customer.staff": "ทีมงาน",
+  "customer.relayFailed":
+    "⚠️ ส่งข้อความถึงลูกค้าไม่สำเร็จ (ลูกค้าอาจบล็อก bot)",
+  "customer.closed":
+    "🔒 เรื่องของคุณ ({ticketId}) ถูกปิดแล้ว ขอบคุณที่ติดต่อเรา\n💬 ส่งข้อความใหม่เพื่อเปิดเรื่องใหม่ได้ทุกเมื่อ",
+
+  "close.title": "Ticket {ticketId} ได้รับการปิดแล้ว",
+  "close.closedAt": "📅 ปิดเมื่อ: {date}",
+  "close.closedBy": "👤 ปิดโดย: {actor}",
+  "close.duration": "⏱️ ระยะเวลาทำงาน: {duration}",
+  "close.hours": "{hours} ชั่วโมง",
+  "close.underAnHour": "น้อยกว่า 1 ชั่วโมง",
+  "close.reopenHint": "🔓 ใช้ /reopen เพื่อเปิด Ticket นี้อีกครั้ง",
+  "close.deleteNotice": "🗑️ Topic นี้จะถูกลบใน {days} วัน",
+
+  "reopen.announced": "🔓 Ticket {ticketId} ถูกเปิดอีกครั้ง",
+  "reopen.by": "👤 เปิดโดย: {actor}",
+  "reopen.recreated": "🆕 สร้าง Topic ใหม่แทน Topic เดิมที่ถูกลบไปแล้ว",
+  "reopen.historyKept": "📜 ประวัติข้อความเดิมยังถูกเก็บไว้ครบถ้วน",
+
+  "settings.title": "⚙️ การตั้งค่ากลุ่ม",
+  "settings.auto": "อัตโนมัติ",
+  "settings.error": "❌ เกิดข้อผิดพลาดในการตั้งค่า",
+  "settings.saved": "✅ บันทึกการตั้งค่าแล้ว",
+  "settings.attachmentsUsage":
+    "❌ รูปแบบไม่ถูกต้อง\n\n📝 ใช้ได้:\n/settings attachments download on|off\n/settings attachments maxsize <MB>|default\n/settings attachments types <image/*,application/pdf,...>|default\n/settings attachments block <.exe,.bat,...>|default\n/settings attachments retention <วัน> (0 = เก็บตลอด)",
+  "settings.attachmentsTitle": "📎 นโยบายไฟล์แนบของกลุ่ม",
+  "settings.attachmentsPolicy":
+    "⬇️ ดาวน์โหลดเก็บ: {download}\n📏 ขนาดสูงสุด: {maxSize}MB\n✅ ชนิดไฟล์ที่อนุญาต: {types}\n🚫 นามสกุลที่ห้าม: {blocked}\n🗑️ เก็บไฟล์: {retention}",
+  "settings.on": "เปิด",
+  "settings.off": "ปิด",
+  "settings.days": "{days} วัน",
+  "settings.forever": "ตลอด",
+  "settings.languageUsage":
+    "❌ รูปแบบไม่ถูกต้อง\n\n📝 ใช้ได้: /settings language {locales}|auto\n💡 auto = ใช้ภาษาของผู้ใช้แต่ละคน",
+  "settings.timezoneUsage":
+    "❌ เขตเวลาไม่ถูกต้อง\n\n📝 ใช้ได้: /settings timezone <IANA>|default\n📝 ตัวอย่าง: /settings timezone Asia/Bangkok",
+  "settings.localeSaved":
+    "✅ บันทึกการตั้งค่าแล้ว\n\n🌐 ภาษา: {language}\n🕒 เขตเวลา: {timezone}",
+
+  "assign.dm":
+    "🔔 คุณได้รับมอบหมาย Ticket ใหม่!\n\n🎫 Ticket: {ticketId}\n📝 หัวข้อ: {title}\n👤 มอบหมายโดย: {assigner}",
+  "assign.dmHint": "📥 ใช้ /my_tickets เพื่อดู Ticket ทั้งหมดที่คุณรับผิดชอบ",
+
+  "customer.noSupportGroup":
+    "ℹ️ ยังไม่ได้ตั้งค่ากลุ่มรับเรื่อง - ใช้ /help เพื่อดูวิธีใช้งาน",
+  "customer.followUpReason": "ลูกค้าส่งข้อความเพิ่มเติม",
+  "customer.unavailable":
+    "❌ ไม่สามารถส่งเรื่องถึงทีมงานได้ในขณะนี้ กรุณาลองใหม่ภายหลัง",
+  "customer.received":
+    "✅ ได้รับเรื่องของคุณแล้ว\n\n🎫 Ticket ID: {ticketId}\n💬 ทีมงานจะตอบกลับในแชทนี้ ส่งข้อความเพิ่มเติมได้ตลอดเวลา",
+  "customer.sendFailed":
+    "❌ เกิดข้อผิดพลาดในการส่งข้อความ กรุณาลองใหม่อีกครั้ง",
+  "customer.defaultTitle": "ติดต่อจาก {name}",
+  "customer.topicHeader":
+    "📩 Ticket ใหม่จากแชทส่วนตัว\n\n🎫 Ticket ID: {ticketId}\n👤 ลูกค้า: {customer}\n\n💬 ข้อความใน Topic นี้จะถูกส่งถึงลูกค้า (ยกเว้นคำสั่งที่ขึ้นต้นด้วย / และโน้ตภายในที่ขึ้นต้นด้วย #note)",
+  "customer.name": "ลูกค้า",
+
+  "wizard.titlePrompt":
+    "📝 กรุณาระบุหัวข้อ Ticket:\n\nตัวอย่าง:\n• ปัญหาระบบล็อกอิน\n• แจ้งซ่อมเครื่องปริ้น\n• ขอความช่วยเหลือ\n\n💡 พิมพ์ /cancel เพื่อยกเลิก",
+  "wizard.titleTooLong": "หัวข้อต้องยาวไม่เกิน {max} ตัวอักษร",
+  "wizard.descriptionPrompt":
+    "📄 อธิบายรายละเอียดของปัญหา\n\n💡 พิมพ์ /skip เพื่อข้าม",
+  "wizard.descriptionTooLong": "รายละเอียดต้องยาวไม่เกิน {max} ตัวอักษร",
+  "wizard.priorityPrompt":
+    "⚡ เลือกระดับความสำคัญ\n\n💡 พิมพ์ /skip เพื่อใช้ค่าเริ่มต้น",
+  "wizard.attachmentsPrompt":
+    "📎 ส่งรูปภาพหรือไฟล์ประกอบ (ส่งได้หลายไฟล์)\n\n💡 พิมพ์ /done เมื่อส่งครบ หรือ /skip ถ้าไม่มีไฟล์",
+  "wizard.cannotSkip": "ขั้นตอนนี้ข้ามไม่ได้",
+  "wizard.answerFirst": "กรุณาตอบคำถามนี้ก่อน",
+  "wizard.sendFile": "กรุณาส่งไฟล์ หรือพิมพ์ /done เมื่อเสร็จ",
+  "wizard.textOnly": "กรุณาตอบเป็นข้อความ",
+  "wizard.chooseOne": "กรุณาเลือก: {choices}",
+  "wizard.filesReceived":
+    "📎 รับไฟล์แล้ว {count} ไฟล์ - ส่งเพิ่มหรือพิมพ์ /done",
+  "wizard.cancelled": "❌ ยกเลิกการสร้าง Ticket แล้ว",
+  "wizard.expired": "⌛ ขั้นตอนนี้หมดอายุแล้ว กรุณาเริ่มใหม่",
+
+  "createTicket.created": '✅ สร้าง Ticket {ticketId} "{title}" แล้ว',
+  "createTicket.noTopicPermission":
+    "❌ Bot ไม่มีสิทธิ์สร้าง Topic\n\nกรุณาให้ Admin ตั้งค่าสิทธิ์ให้ Bot",
+
+  "topic.closedNotice": "ℹ️ Ticket นี้ปิดแล้ว แต่ยังสามารถสนทนาได้",
+
+  "attachments.rejected":
+    '⚠️ ไฟล์ "{fileName}" ไม่ถูกบันทึก\n\n❌ เหตุผล: {reason}\n💬 ข้อความยังส่งถึงทุกคนตามปกติ - ดูนโยบายไฟล์แนบด้วย /settings attachments',
+
+  "common.user": "ผู้ใช้",
+
+  "sync.from": "👤 จาก: {name}",
+  "sync.edited": "✏️ แก้ไขแล้ว",
+
+  "link.topicOnlyUsage":
+    "❌ คำสั่ง /link_topic ใช้ได้เฉพาะใน Topic เท่านั้น\n\n💡 วิธีใช้:\n1. เปิด Topic แรกพิมพ์ /link_topic <topic_id>\n2. เปิด Topic ที่สองพิมพ์ /link_topic <topic_id ของ Topic แรก>\n\n📝 ตัวอย่าง: /link_topic 123",
+  "link.missingId":
+    "❌ กรุณาระบุ Topic ID ที่ต้องการเชื่อมโยง\n\n📝 ตัวอย่าง: /link_topic 123\n💡 หา Topic ID: ดูที่ URL ของ Topic หรือถาม Admin",
+
+  "common.topicIdNotNumber": "❌ Topic ID ต้องเป็นตัวเลขเท่านั้น",
+
+  "link.sourceNotFound": "❌ ไม่พบข้อมูล Topic นี้",
+  "link.targetNotFound": "❌ ไม่พบ Topic ID: {topicId} ในกลุ่มนี้",
+  "link.alreadyLinked": "ℹ️ Topic นี้เชื่อมโยงกับ Topic {topicId} แล้ว",
+  "link.successTitle": "เชื่อมโยง Topic สำเร็จ",
+  "link.linkedTitle": "Topic ถูกเชื่อมโยง",
+  "link.linkedWith": "📋 Topic นี้เชื่อมโยงกับ Topic {topicId} แล้ว",
+  "link.by": "👤 เชื่อมโยงโดย: {name}",
+  "link.outgoing": "💬 ข้อความใน Topic นี้จะถูกส่งไป Topic {topicId} อัตโนมัติ",
+  "link.incoming": "💬 ข้อความใน Topic {topicId} จะถูกส่งมา Topic นี้อัตโนมัติ",
+  "link.error": "❌ เกิดข้อผิดพลาดในการเชื่อมโยง Topic",
+
+  "unlink.topicOnlyUsage":
+    "❌ คำสั่ง /unlink_topic ใช้ได้เฉพาะใน Topic เท่านั้น\n\n💡 วิธีใช้: เปิด Topic ที่ต้องการยกเลิกการเชื่อมโยง แล้วพิมพ์ /unlink_topic",
+  "unlink.notLinked": "❌ Topic นี้ไม่ได้เชื่อมโยงกับ Topic {topicId}",
+  "unlink.error": "❌ เกิดข้อผิดพลาดในการยกเลิกการเชื่อมโยง Topic",
+  "unlink.noLinks":
+    "ℹ️ Topic นี้ไม่ได้เชื่อมโยงกับ Topic อื่น\n\n🔗 ใช้ /link_topic <topic_id> เพื่อเชื่อมโยง Topic",
+  "unlink.button": "🔓 ยกเลิก Topic {topicId}",
+  "unlink.menuTitle": "Topic ที่เชื่อมโยงกัน",
+  "unlink.menuCount": "📋 Topic นี้เชื่อมโยงกับ {count} Topic:",
+  "unlink.menuPrompt": "🔓 เลือก Topic ที่ต้องการยกเลิกการเชื่อมโยง:",
+  "unlink.menuError": "❌ เกิดข้อผิดพลาดในการแสดงรายการ Topic ที่เชื่อมโยง",
+
+  "userNotFound.similar": "🔍 ผู้ใช้ที่คล้ายกัน",
+  "userNotFound.all": "👥 เลือกจากรายชื่อทั้งหมด",
+  "userNotFound.inlineReply": "💬 Inline Reply แทน",
+  "userNotFound.title": "ไม่พบผู้ใช้: @{username}",
+  "userNotFound.internalOnly": "🔍 สามารถเชิญได้เฉพาะ Internal Users เท่านั้น",
+  "userNotFound.similarCount": "💡 พบผู้ใช้ที่คล้ายกัน {count} คน",
+  "userNotFound.chooseAction": "เลือกการกระทำ:",
+  "userNotFound.fallback":
+    "❌ ไม่พบผู้ใช้ในระบบ: {username}\n🔍 สามารถเชิญได้เฉพาะ Internal Users เท่านั้น\n\n💡 ผู้ใช้ต้องเคยใช้งาน Bot ในกลุ่มนี้มาก่อน",
+  "userNotFound.expired": "❌ ข้อมูลหมดอายุแล้ว",
+  "userNotFound.invalidAction": "❌ การกระทำไม่ถูกต้อง",
+  "userNotFound.noSimilar": "❌ ไม่มีผู้ใช้ที่คล้ายกัน",
+
+  "common.back": "🔙 กลับ",
+
+  "userNotFound.similarTitle": 'ผู้ใช้ที่คล้ายกับ "@{username}":',
+  "userNotFound.similarFound": "พบ {count} คน ที่มีชื่อคล้ายกัน:",
+  "userNotFound.chooseInvitee": "เลือกผู้ใช้ที่ต้องการเชิญ:",
+  "userNotFound.showingSimilar": "แสดงผู้ใช้ที่คล้ายกัน",
+  "userNotFound.showingAll": "แสดงรายชื่อผู้ใช้ทั้งหมด",
+
+  "game.rock": "🔨 ค้อน",
+  "game.paper": "📄 กระดาษ",
+  "game.scissors": "✂️ กรรไกร",
+  "game.title": "ทดสอบ Inline Buttons",
+  "game.prompt": "เลือกอาวุธของคุณ:",
+  "game.cancelled": "❌ ยกเลิกเกม",
+  "game.draw": "🤝 เสมอ!",
+  "game.win": "🎉 คุณชนะ!",
+  "game.lose": "😢 Bot ชนะ!",
+  "game.resultTitle": "ผลการเล่น",
+  "game.yourChoice": "คุณเลือก: {choice}",
+  "game.botChoice": "Bot เลือก: {choice}",
+
+  "sync.botNotAdmin": "❌ Bot ต้องมีสิทธิ์ Admin เพื่อดำเนินการ sync",
+  "sync.started": "🔄 เริ่มต้น topic sync... กรุณารอสักครู่",
+  "sync.done":
+    "✅ Topic sync เสร็จสิ้น! Topics ที่ไม่มีอยู่จริงได้ถูกลบออกจาก database แล้ว",
+  "sync.error": "❌ เกิดข้อผิดพลาดในการ sync topics",
+
+  "mention.dm":
+    '🔔 คุณถูก mention ใน Ticket Support!\n\n🎫 Ticket: {ticketId}\n📝 หัวข้อ: {title}\n👤 เชิญโดย: {inviter}\n\n💬 มี Topic ส่วนตัวรอคุณอยู่ในกลุ่ม\n🔗 คลิกไปที่กลุ่มและหา Topic: "{topicName}"\n\n✨ เริ่มสนทนาได้เลย!',
+
+  "archive.invalidDays":
+    "❌ จำนวนวันต้องเป็นตัวเลขบวกเท่านั้น\n\n📝 ตัวอย่าง: /archive 30 (ลบ topics ที่อายุมากกว่า 30 วัน)",
+  "archive.startTitle": "เริ่มกระบวนการ Archive",
+  "archive.searching": "📅 กำลังค้นหา topics ที่อายุมากกว่า {days} วัน...",
+
+  "common.pleaseWait": "⚠️ กรุณารอสักครู่...",
+
+  "archive.noTopics": "📭 ไม่พบ topics ในกลุ่มนี้",
+  "archive.doneTitle": "กระบวนการ Archive เสร็จสิ้น",
+  "archive.summary": "สรุปผลลัพธ์:",
+  "archive.deleted": "🗑️ ลบ topics: {count} รายการ",
+  "archive.unlinked": "🔗 ยกเลิกการเชื่อมโยง: {count} รายการ",
+  "archive.errors": "⚠️ ข้อผิดพลาด: {count} รายการ",
+  "archive.criteria": "📅 เกณฑ์อายุ: มากกว่า {days} วัน",
+  "archive.by": "👤 ดำเนินการโดย: {name}",
+  "archive.error": "❌ เกิดข้อผิดพลาดในการ Archive topics",
+
+  "debug.syncing": "🔄 กำลัง sync topics...",
+  "debug.synced": "✅ Sync เสร็จสิ้น\n📊 พบ {count} topics ในกลุ่มนี้",
+  "debug.clearing": "🗑️ กำลังลบ topics ทั้งหมด...",
+  "debug.cleared": "✅ ลบเสร็จสิ้น\n🗑️ ลบ {count} topics",
+  "debug.clearFailed": " ({count} ลบไม่ได้)",
+
+  "api.ticketWelcome": "📋 Ticket: {ticketId}\n📝 หัวข้อ: {title}",
+  "api.description": "📖 รายละเอียด: {description}",
+  "api.createdVia": "🔗 สร้างผ่าน API",
+  "api.mentionInvited": "ได้รับการเชิญเข้าร่วม Ticket",
+  "api.mentionDetails": "🎫 Ticket: {ticketId}\n📝 หัวข้อ: {title}",
+  "api.mentionMessage": "💬 ข้อความ: {message}",
+
+  "closeTicket.adminsOnly": "❌ กลุ่มนี้อนุญาตให้เฉพาะ Admin ปิด Ticket ได้",
+
+  "settings.menuBody":
+    "🕒 เขตเวลา: {timezone}\n\n💡 กดปุ่มเพื่อเปลี่ยนค่า (เฉพาะ Admin ของกลุ่ม)\n🕒 /settings timezone <IANA>|default - ตั้งเขตเวลา\n📎 /settings attachments - นโยบายไฟล์แนบ",
+  "settings.button.language": "🌐 ภาษา: {value}",
+  "settings.button.topicCloseAction": "📁 Topic เมื่อปิด Ticket: {value}",
+  "settings.button.topicDeleteAfterDays": "🗑️ ลบ Topic หลังปิด: {value}",
+  "settings.button.closePermission": "🔒 ผู้ที่ปิด Ticket ได้: {value}",
+  "settings.button.archiveAfterDays": "🗂️ /archive เริ่มต้น: {value}",
+  "settings.button.defaultPriority": "⚡ ความสำคัญเริ่มต้น: {value}",
+  "settings.button.download": "⬇️ ดาวน์โหลดไฟล์แนบ: {value}",
+  "settings.closeMenu": "✖️ ปิดเมนู",
+  "settings.closeAction.close": "ปิดและล็อก",
+  "settings.closeAction.rename": "เปลี่ยนชื่อเป็น ✅",
+  "settings.closeAction.delete": "ลบทิ้ง",
+  "settings.closePermission.anyone": "ทุกคน",
+  "settings.closePermission.creator_or_admin": "ผู้สร้างหรือ Admin",
+  "settings.closePermission.admins": "Admin เท่านั้น",
+
+  "priority.low": "ต่ำ",
+  "priority.medium": "ปานกลาง",
+  "priority.high": "สูง",
+
+  "roles.denied": "❌ คำสั่ง /{command} ใช้ได้เฉพาะ: {roles}",
+  "roles.operatorOnly": "❌ คำสั่งนี้ใช้ได้เฉพาะผู้ดูแล Bot",
+  "roles.owner": "เจ้าของกลุ่ม",
+  "roles.supervisor": "หัวหน้าทีม",
+  "roles.agent": "เจ้าหน้าที่",
+  "roles.customer": "ลูกค้า",
+  "roles.usage":
+    "ℹ️ ตั้ง role ให้สมาชิก:\n/role @username <agent|supervisor|customer|reset>\nหรือตอบข้อความของสมาชิกด้วย /role <role>\n\nreset = กลับไปใช้ role ตามสถานะใน Telegram",
+  "roles.updated": "✅ {user} มี role {role} ในกลุ่มนี้แล้ว",
+  "roles.followsTelegram":
+    "ℹ️ {user} เป็น Admin ใน Telegram จึงใช้ role {role} ตาม Telegram",
+
+  "command.role": "👤 ตั้ง role ให้สมาชิก",
+};
@@ -0,0 +1,54 @@
+import { th } from "./locales/th";
+import { en } from "./locales/en";
+
+export type Locale = "th" | "en";
+
+export const SUPPORTED_LOCALES: Locale[] = ["th", "en"];
+
+export type TranslationKey = keyof typeof th;
+
+export type TranslationParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, Record<TranslationKey, string>> = { th, en };
+
+// แปลง language_code ของ Telegram (เช่น "en-US") หรือค่าที่ตั้งไว้ในกลุ่มเป็น Locale ที่รองรับ
+export function normalizeLocale(code?: string | null): Locale | null {
+  const base = code?.toLowerCase().split(/[-_]/)[0] as Locale;
+  return SUPPORTED_LOCALES.includes(base) ? base : null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ข้อความตามภาษาและเวลาตาม timezone ของแชทหนึ่งๆ
+export class Translator {
+  constructor(
+    readonly locale: Locale,
+    readonly timeZone: string,
+  ) {}
+
+  // แทนค่า {name} ใน template ด้วย params (placeholder ที่ไม่มีค่าคงไว้ตามเดิม)
+  t(key: TranslationKey, params?: TranslationParams): string {
+    const template = CATALOGS[this.locale][key] ?? th[key];
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+      params[name] !== undefined ? String(params[name]) : placeholder,
+    );
+  }
+
+  formatDate(
+    date: Date | string | number,
+    options?: Intl.DateTimeFormatOptions,
+  ): string {
+    return new Date(date).toLocaleString(this.t("locale.intl"), {
+      timeZone: this.timeZone,
+      ...options,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { LocksService } from "./locks.service";
+import { Lock, LockSchema } from "./schemas/lock.schema";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: Lock.name, schema: LockSchema }]),
+  ],
+  providers: [LocksService],
+  exports: [LocksService],
+})
+export class LocksModule {}
@@ -0,0 +1,85 @@
+import { Logger } from "@nestjs/common";
+import { LocksService } from "./locks.service";
+
+describe("LocksService.runExclusive", () => {
+  let findOneAndUpdate: jest.Mock;
+  let locks: LocksService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    findOneAndUpdate = jest.fn(() => ({
+      exec: jest.fn().mockResolvedValue(null),
+    }));
+    locks = new LocksService({ findOneAndUpdate } as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  // งานที่ทำงานนานเท่าที่กำหนด (ตาม fake timer)
+  const jobTaking = (ms: number) => () =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("skips the job when another instance holds the lock", async () => {
+    findOneAndUpdate.mockReturnValueOnce({
+      exec: jest.fn().mockRejectedValue({ code: 11000 }),
+    });
+    const job = jest.fn();
+
+    await expect(locks.runExclusive("job", 3000, job)).resolves.toBe(false);
+    expect(job).not.toHaveBeenCalled();
+  });
+
+  it("renews the lease while a long job is running", async () => {
+    const start = Date.now();
+    const run = locks.runExclusive("job", 3000, jobTaking(6500));
+
+    await jest.advanceTimersByTimeAsync(6500);
+    await expect(run).resolves.toBe(true);
+
+    // acquire ครั้งแรก + ต่ออายุที่ 1, 2, 3, 4, 5, 6 วินาที
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(7);
+    const [filter, update] = findOneAndUpdate.mock.calls[6];
+    expect(filter.$or).toContainEqual({ owner: locks.instanceId });
+    expect(update.expiresAt.getTime()).toBe(start + 6000 + 3000);
+  });
+
+  it("stops renewing once the job has finished", async () => {
+    await Promise.all([
+      locks.runExclusive("job", 3000, jobTaking(500)),
+      jest.advanceTimersByTimeAsync(500),
+    ]);
+
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops renewing when the job fails", async () => {
+    const run = locks.runExclusive("job", 3000, async () => {
+      throw new Error("boom");
+    });
+
+    await expect(run).rejects.toThrow("boom");
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it("logs when the lease was taken over during the job", async () => {
+    const warn = jest
+      .spyOn(Logger.prototype, "warn")
+      .mockImplementation(() => undefined);
+    const run = locks.runExclusive("job", 3000, jobTaking(1500));
+    findOneAndUpdate.mockReturnValueOnce({
+      exec: jest.fn().mockRejectedValue({ code: 11000 }),
+    });
+
+    await jest.advanceTimersByTimeAsync(1500);
+    await run;
+
+    expect(warn).toHaveBeenCalledWith(
+      "Lost lock job while the job was running",
+    );
+  });
+});
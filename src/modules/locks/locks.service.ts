@@ -0,0 +1,81 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import * as crypto from "crypto";
+import * as os from "os";
+import { Lock, LockDocument } from "./schemas/lock.schema";
+
+// Distributed lock บน MongoDB สำหรับรันหลาย instance พร้อมกัน
+@Injectable()
+export class LocksService {
+  private readonly logger = new Logger(LocksService.name);
+
+  readonly instanceId = `${os.hostname()}-${process.pid}-${crypto
+    .randomBytes(3)
+    .toString("hex")}`;
+
+  constructor(@InjectModel(Lock.name) private lockModel: Model<LockDocument>) {}
+
+  // ได้ lock เมื่อยังไม่มีใครถือ, lock เดิมหมดอายุแล้ว หรือเราถืออยู่เอง (ต่ออายุ)
+  async acquire(name: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    try {
+      await this.lockModel
+        .findOneAndUpdate(
+          {
+            name,
+            $or: [{ expiresAt: { $lte: now } }, { owner: this.instanceId }],
+          },
+          {
+            name,
+            owner: this.instanceId,
+            expiresAt: new Date(now.getTime() + ttlMs),
+          },
+          { upsert: true },
+        )
+        .exec();
+      return true;
+    } catch (error) {
+      // instance อื่นถือ lock อยู่ - upsert ชน unique index ของ name
+      if (error.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  async release(name: string): Promise<void> {
+    await this.lockModel.deleteOne({ name, owner: this.instanceId }).exec();
+  }
+
+  // รันงานตามรอบที่ instance เดียว: lease ไม่ถูกปล่อยหลังงานเสร็จ
+  // เพื่อให้ instance อื่นที่ timer ตรงรอบเดียวกันข้ามไป
+  // ระหว่างที่งานยังทำอยู่ต่ออายุ lease ทุก 1/3 ของ leaseMs ไม่ให้ instance อื่นเริ่มซ้อน
+  async runExclusive(
+    name: string,
+    leaseMs: number,
+    job: () => Promise<unknown>,
+  ): Promise<boolean> {
+    if (!(await this.acquire(name, leaseMs))) {
+      this.logger.debug(`Skipping ${name}: lock held by another instance`);
+      return false;
+    }
+
+    const renewal = setInterval(() => {
+      this.acquire(name, leaseMs)
+        .then((renewed) => {
+          if (!renewed) {
+            this.logger.warn(`Lost lock ${name} while the job was running`);
+          }
+        })
+        .catch((error) => {
+          this.logger.warn(`Could not renew lock ${name}: ${error.message}`);
+        });
+    }, leaseMs / 3);
+
+    try {
+      await job();
+    } finally {
+      clearInterval(renewal);
+    }
+    return true;
+  }
+}
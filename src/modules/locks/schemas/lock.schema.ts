@@ -0,0 +1,22 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document } from "mongoose";
+
+export type LockDocument = Lock & Document;
+
+// lease ของงานที่ต้องรันที่ instance เดียว (เช่น scheduled jobs)
+@Schema({ timestamps: true })
+export class Lock {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop({ required: true })
+  owner: string; // instanceId ของ instance ที่ถือ lock
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const LockSchema = SchemaFactory.createForClass(Lock);
+
+// ลบ lock ที่หมดอายุทิ้ง (ไม่ได้ใช้ตัดสินว่า lock ว่าง - ดูที่ expiresAt ตอน acquire)
+LockSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 3600 });
@@ -2,12 +2,14 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { MessagesService } from './messages.service';
 import { Message, MessageSchema } from './schemas/message.schema';
+import { EventsModule } from '../events/events.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Message.name, schema: MessageSchema }
-    ])
+    ]),
+    EventsModule,
   ],
   providers: [MessagesService],
   exports: [MessagesService],
@@ -2,16 +2,50 @@ import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Message, MessageDocument, MessageType } from './schemas/message.schema';
+import { DomainEventsService, DomainEventActor } from '../events/domain-events.service';
+import { HookEvent } from '../hooks/schemas/hook.schema';
 
 @Injectable()
 export class MessagesService {
   constructor(
     @InjectModel(Message.name) private messageModel: Model<MessageDocument>,
+    private domainEvents: DomainEventsService,
   ) {}
 
-  async saveMessage(messageData: Partial<Message>): Promise<Message> {
+  async saveMessage(
+    messageData: Partial<Message>,
+    actor?: DomainEventActor
+  ): Promise<Message> {
     const message = new this.messageModel(messageData);
-    return message.save();
+    const savedMessage = await message.save();
+
+    if (!savedMessage.isSystemMessage) {
+      this.domainEvents.emit(
+        HookEvent.MESSAGE_SENT,
+        {
+          ticketId: savedMessage.ticketId,
+          groupId: savedMessage.groupId,
+          topicId: savedMessage.topicId,
+          messageId: savedMessage.telegramMessageId,
+          messageType: savedMessage.messageType,
+          text: savedMessage.text,
+          caption: savedMessage.caption,
+          replyToMessageId: savedMessage.replyToMessageId,
+          sender: {
+            id: savedMessage.senderId,
+            username: savedMessage.senderUsername,
+            firstName: savedMessage.senderFirstName,
+          },
+        },
+        {
+          ticketId: savedMessage.ticketId,
+          groupId: savedMessage.groupId,
+          actor
+        }
+      );
+    }
+
+    return savedMessage;
   }
 
   async findByTelegramMessageId(
@@ -40,6 +74,52 @@ export class MessagesService {
       .exec();
   }
 
+  // ทุกข้อความของ ticket จากทุก topic (รวมที่ถูกลบ) เรียงตามเวลา - ใช้ทำ transcript
+  async findAllByTicketId(ticketId: string): Promise<Message[]> {
+    return this.messageModel
+      .find({ ticketId })
+      .sort({ createdAt: 1 })
+      .exec();
+  }
+
+  // ค้นหาข้อความด้วย text index เรียงตามคะแนนความเกี่ยวข้อง
+  async searchMessages(
+    query: string,
+    filters: {
+      groupId?: string;
+      ticketId?: string;
+      senderId?: string;
+      from?: Date;
+      to?: Date;
+      hasAttachments?: boolean;
+    },
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ items: Message[]; total: number }> {
+    const filter: any = { $text: { $search: query }, isDeleted: false };
+    if (filters.groupId) filter.groupId = filters.groupId;
+    if (filters.ticketId) filter.ticketId = filters.ticketId;
+    if (filters.senderId) filter.senderId = filters.senderId;
+    if (filters.hasAttachments !== undefined) filter.hasAttachments = filters.hasAttachments;
+    if (filters.from || filters.to) {
+      filter.createdAt = {};
+      if (filters.from) filter.createdAt.$gte = filters.from;
+      if (filters.to) filter.createdAt.$lte = filters.to;
+    }
+
+    const [items, total] = await Promise.all([
+      this.messageModel
+        .find(filter, { score: { $meta: 'textScore' } })
+        .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
+        .skip(offset)
+        .limit(limit)
+        .exec(),
+      this.messageModel.countDocuments(filter).exec()
+    ]);
+
+    return { items, total };
+  }
+
   async findRepliesTo(messageId: number, groupId: string, topicId: number): Promise<Message[]> {
     return this.messageModel
       .find({
@@ -68,16 +148,40 @@ export class MessagesService {
     telegramMessageId: number,
     groupId: string,
     topicId: number,
-    newText: string
+    newText: string,
+    newCaption?: string
+  ): Promise<Message | null> {
+    const update: any = {
+      isEdited: true,
+      editDate: new Date()
+    };
+    if (newText !== undefined) update.text = newText;
+    if (newCaption !== undefined) update.caption = newCaption;
+
+    return this.messageModel
+      .findOneAndUpdate(
+        { telegramMessageId, groupId, topicId },
+        update,
+        { new: true }
+      )
+      .exec();
+  }
+
+  async addMirroredMessage(
+    telegramMessageId: number,
+    groupId: string,
+    topicId: number,
+    mirror: {
+      groupId: string;
+      topicId: number;
+      messageId: number;
+      kind: 'text' | 'caption';
+    }
   ): Promise<void> {
     await this.messageModel
       .updateOne(
         { telegramMessageId, groupId, topicId },
-        {
-          text: newText,
-          isEdited: true,
-          editDate: new Date()
-        }
+        { $push: { mirroredMessages: mirror } }
       )
       .exec();
   }
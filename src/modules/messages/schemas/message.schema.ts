@@ -90,6 +90,25 @@ export class Message {
   @Prop({ type: [Number], default: [] })
   syncedToTopics: number[]; // Topics that received this message
 
+  // Copies of this message posted into linked topics (used to propagate edits)
+  @Prop({
+    type: [
+      {
+        groupId: { type: String, required: true },
+        topicId: { type: Number, required: true },
+        messageId: { type: Number, required: true },
+        kind: { type: String, enum: ['text', 'caption'], default: 'text' },
+      },
+    ],
+    default: [],
+  })
+  mirroredMessages: Array<{
+    groupId: string;
+    topicId: number;
+    messageId: number;
+    kind: 'text' | 'caption';
+  }>;
+
   @Prop({ default: false })
   isSystemMessage: boolean;
 
@@ -112,4 +131,14 @@ MessageSchema.index({ senderId: 1 });
 MessageSchema.index({ groupId: 1, topicId: 1 });
 MessageSchema.index({ createdAt: -1 });
 MessageSchema.index({ replyToMessageId: 1 });
-MessageSchema.index({ forwardFromMessageId: 1 });
\ No newline at end of file
+MessageSchema.index({ forwardFromMessageId: 1 });
+
+// Full-text search (default_language none - ไม่ stem คำภาษาอังกฤษ เพราะข้อความมีหลายภาษา)
+MessageSchema.index(
+  { text: 'text', caption: 'text' },
+  {
+    name: 'message_text_search',
+    weights: { text: 2, caption: 1 },
+    default_language: 'none',
+  },
+);
\ No newline at end of file
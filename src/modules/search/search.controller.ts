@@ -0,0 +1,36 @@
+import { Controller, Get, Query, UseGuards } from "@nestjs/common";
+import { SearchService } from "./search.service";
+import { SearchQueryDto } from "./dto/search-query.dto";
+import { ApiKeyGuard } from "../api/guards/api-key.guard";
+import { RequireScope } from "../../common/decorators/api-scope.decorator";
+import { ApiKeyScope } from "../api/schemas/api-key.schema";
+
+@Controller("api/v1/search")
+@UseGuards(ApiKeyGuard)
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @RequireScope(ApiKeyScope.READ)
+  async search(@Query() query: SearchQueryDto) {
+    const results = await this.searchService.search(query.q, {
+      groupId: query.groupId,
+      ticketId: query.ticketId,
+      senderId: query.senderId,
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+      hasAttachments: query.hasAttachments,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    return {
+      success: true,
+      data: results,
+      pagination: {
+        limit: query.limit,
+        offset: query.offset,
+      },
+    };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from "@nestjs/common";
+import { SearchController } from "./search.controller";
+import { SearchService } from "./search.service";
+import { TicketModule } from "../ticket/ticket.module";
+import { MessagesModule } from "../messages/messages.module";
+import { ApiModule } from "../api/api.module";
+
+@Module({
+  imports: [TicketModule, MessagesModule, ApiModule],
+  controllers: [SearchController],
+  providers: [SearchService],
+  exports: [SearchService],
+})
+export class SearchModule {}
@@ -0,0 +1,99 @@
+import { Injectable } from "@nestjs/common";
+import { TicketService } from "../ticket/ticket.service";
+import { Ticket } from "../ticket/schemas/ticket.schema";
+import { MessagesService } from "../messages/messages.service";
+import { Message } from "../messages/schemas/message.schema";
+
+export interface SearchOptions {
+  groupId?: string;
+  ticketId?: string;
+  senderId?: string;
+  from?: Date;
+  to?: Date;
+  hasAttachments?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MessageSearchResult {
+  message: Message;
+  score: number;
+  link: string | null; // ลิงก์ไปยังข้อความใน topic (เฉพาะ supergroup)
+}
+
+export interface SearchResults {
+  tickets: { items: Array<{ ticket: Ticket; score: number }>; total: number };
+  messages: { items: MessageSearchResult[]; total: number };
+}
+
+// ค้นหาทั้ง ticket (title/description) และข้อความ (text/caption) ด้วย MongoDB text index
+@Injectable()
+export class SearchService {
+  constructor(
+    private ticketService: TicketService,
+    private messagesService: MessagesService,
+  ) {}
+
+  async search(
+    query: string,
+    options: SearchOptions = {},
+  ): Promise<SearchResults> {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+
+    // hasAttachments ใช้กับข้อความเท่านั้น ticket จึงไม่ถูกค้นเมื่อกรองด้วย hasAttachments=true
+    const [tickets, messages] = await Promise.all([
+      options.hasAttachments
+        ? Promise.resolve({ items: [] as Ticket[], total: 0 })
+        : this.ticketService.searchTickets(
+            query,
+            {
+              groupId: options.groupId,
+              ticketId: options.ticketId,
+              createdBy: options.senderId,
+              from: options.from,
+              to: options.to,
+            },
+            limit,
+            offset,
+          ),
+      this.messagesService.searchMessages(
+        query,
+        {
+          groupId: options.groupId,
+          ticketId: options.ticketId,
+          senderId: options.senderId,
+          from: options.from,
+          to: options.to,
+          hasAttachments: options.hasAttachments,
+        },
+        limit,
+        offset,
+      ),
+    ]);
+
+    return {
+      tickets: {
+        items: tickets.items.map((ticket) => ({
+          ticket,
+          score: (ticket as any).get?.("score") ?? 0,
+        })),
+        total: tickets.total,
+      },
+      messages: {
+        items: messages.items.map((message) => ({
+          message,
+          score: (message as any).get?.("score") ?? 0,
+          link: this.buildMessageLink(message),
+        })),
+        total: messages.total,
+      },
+    };
+  }
+
+  // https://t.me/c/<chat id ไม่มี -100>/<topic id>/<message id>
+  buildMessageLink(message: Message): string | null {
+    if (!message.groupId.startsWith("-100")) return null;
+    return `https://t.me/c/${message.groupId.substring(4)}/${message.topicId}/${message.telegramMessageId}`;
+  }
+}
@@ -0,0 +1,21 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from "class-validator";
+
+export class UpsertSlaPolicyDto {
+  @IsInt()
+  @Min(1)
+  firstResponseMinutes: number;
+
+  @IsInt()
+  @Min(1)
+  resolutionMinutes: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(99)
+  warningPercent?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
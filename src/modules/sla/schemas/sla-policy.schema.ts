@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document } from "mongoose";
+import { TicketPriority } from "../../ticket/schemas/ticket.schema";
+
+export type SlaPolicyDocument = SlaPolicy & Document;
+
+@Schema({ timestamps: true })
+export class SlaPolicy {
+  @Prop({ required: true })
+  groupId: string; // Group Telegram ID
+
+  @Prop({ required: true, enum: TicketPriority })
+  priority: TicketPriority;
+
+  @Prop({ required: true })
+  firstResponseMinutes: number;
+
+  @Prop({ required: true })
+  resolutionMinutes: number;
+
+  @Prop({ default: 80 })
+  warningPercent: number; // แจ้งเตือนเมื่อเวลาผ่านไปกี่ % ของกำหนด
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const SlaPolicySchema = SchemaFactory.createForClass(SlaPolicy);
+
+SlaPolicySchema.index({ groupId: 1, priority: 1 }, { unique: true });
@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ParseEnumPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+} from "@nestjs/common";
+import { SlaService } from "./sla.service";
+import { ApiKeyGuard } from "../api/guards/api-key.guard";
+import { RequireScope } from "../../common/decorators/api-scope.decorator";
+import { ApiKeyScope } from "../api/schemas/api-key.schema";
+import { GroupsService } from "../groups/groups.service";
+import { TicketPriority } from "../ticket/schemas/ticket.schema";
+import { UpsertSlaPolicyDto } from "./dto/upsert-sla-policy.dto";
+
+@Controller("api/v1/groups/:groupId/sla-policies")
+@UseGuards(ApiKeyGuard)
+export class SlaController {
+  constructor(
+    private readonly slaService: SlaService,
+    private readonly groupsService: GroupsService,
+  ) {}
+
+  @Get()
+  @RequireScope(ApiKeyScope.READ)
+  async listPolicies(@Param("groupId") groupId: string) {
+    const policies = await this.slaService.findPoliciesByGroup(groupId);
+
+    return {
+      success: true,
+      data: policies,
+    };
+  }
+
+  @Put(":priority")
+  @RequireScope(ApiKeyScope.ADMIN)
+  async upsertPolicy(
+    @Param("groupId") groupId: string,
+    @Param("priority", new ParseEnumPipe(TicketPriority))
+    priority: TicketPriority,
+    @Body() upsertSlaPolicyDto: UpsertSlaPolicyDto,
+  ) {
+    const group = await this.groupsService.findByTelegramGroupId(groupId);
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+
+    const policy = await this.slaService.upsertPolicy(
+      groupId,
+      priority,
+      upsertSlaPolicyDto,
+    );
+
+    return {
+      success: true,
+      data: policy,
+    };
+  }
+
+  @Delete(":priority")
+  @RequireScope(ApiKeyScope.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async deletePolicy(
+    @Param("groupId") groupId: string,
+    @Param("priority", new ParseEnumPipe(TicketPriority))
+    priority: TicketPriority,
+  ) {
+    const deleted = await this.slaService.deletePolicy(groupId, priority);
+    if (!deleted) {
+      throw new NotFoundException(
+        `SLA policy for ${priority} priority not found in group ${groupId}`,
+      );
+    }
+
+    return {
+      success: true,
+      message: "SLA policy deleted successfully",
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { SlaController } from "./sla.controller";
+import { SlaService } from "./sla.service";
+import { SlaPolicy, SlaPolicySchema } from "./schemas/sla-policy.schema";
+import { TicketModule } from "../ticket/ticket.module";
+import { GroupsModule } from "../groups/groups.module";
+import { EventsModule } from "../events/events.module";
+import { LocksModule } from "../locks/locks.module";
+import { ApiModule } from "../api/api.module";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SlaPolicy.name, schema: SlaPolicySchema },
+    ]),
+    TicketModule,
+    GroupsModule,
+    EventsModule,
+    LocksModule,
+    ApiModule,
+  ],
+  controllers: [SlaController],
+  providers: [SlaService],
+  exports: [SlaService],
+})
+export class SlaModule {}
@@ -0,0 +1,175 @@
+import { SlaService } from "./sla.service";
+import { SlaTarget, TicketPriority } from "../ticket/schemas/ticket.schema";
+import { HookEvent } from "../hooks/schemas/hook.schema";
+import { TicketService } from "../ticket/ticket.service";
+import { DomainEventsService } from "../events/domain-events.service";
+import { LocksService } from "../locks/locks.service";
+
+const MINUTE = 60000;
+const CREATED_AT = new Date("2026-01-01T00:00:00Z");
+
+const at = (minutes: number) =>
+  new Date(CREATED_AT.getTime() + minutes * MINUTE);
+
+describe("SlaService deadline checker", () => {
+  let tickets: any[];
+  let ticketService: Record<string, jest.Mock>;
+  let domainEvents: { subscribe: jest.Mock; emit: jest.Mock };
+  let policyModel: { findOne: jest.Mock };
+  let service: SlaService;
+
+  beforeEach(() => {
+    jest
+      .spyOn(SlaService.prototype as any, "startDeadlineChecker")
+      .mockImplementation(() => undefined);
+
+    tickets = [];
+    ticketService = {
+      findTicketsWithPendingSla: jest.fn(async () => tickets),
+      // จำลอง update แบบมีเงื่อนไข: คืน null ถ้า target ถูก mark ไปแล้ว
+      markSla: jest.fn(async (ticketId, field, target) => {
+        const ticket = tickets.find((t) => t.ticketId === ticketId);
+        if (ticket[field].includes(target)) return null;
+        ticket[field].push(target);
+        return ticket;
+      }),
+    };
+    domainEvents = { subscribe: jest.fn(), emit: jest.fn() };
+    policyModel = {
+      findOne: jest.fn(() => ({
+        exec: jest.fn().mockResolvedValue({ warningPercent: 80 }),
+      })),
+    };
+
+    service = new SlaService(
+      policyModel as any,
+      ticketService as unknown as TicketService,
+      domainEvents as unknown as DomainEventsService,
+      {} as LocksService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const addTicket = (extra: any = {}) => {
+    const ticket = {
+      ticketId: `TK-${tickets.length + 1}`,
+      groupId: "-1001",
+      priority: TicketPriority.MEDIUM,
+      createdBy: "42",
+      createdAt: CREATED_AT,
+      slaWarnings: [],
+      slaBreaches: [],
+      ...extra,
+    };
+    tickets.push(ticket);
+    return ticket;
+  };
+
+  const emitted = () => domainEvents.emit.mock.calls.map((call) => call[0]);
+
+  it("does nothing before the warning threshold", async () => {
+    addTicket({ slaDueAt: at(100) });
+
+    await service.checkDeadlines(at(79));
+
+    expect(ticketService.markSla).not.toHaveBeenCalled();
+    expect(domainEvents.emit).not.toHaveBeenCalled();
+  });
+
+  it("warns once the warning percentage of the window has passed", async () => {
+    addTicket({ slaDueAt: at(100) });
+
+    await service.checkDeadlines(at(80));
+
+    expect(ticketService.markSla).toHaveBeenCalledWith(
+      "TK-1",
+      "slaWarnings",
+      SlaTarget.RESOLUTION,
+    );
+    expect(domainEvents.emit).toHaveBeenCalledWith(
+      HookEvent.TICKET_SLA_WARNING,
+      expect.objectContaining({
+        ticketId: "TK-1",
+        target: SlaTarget.RESOLUTION,
+        minutesRemaining: 20,
+      }),
+      expect.objectContaining({ ticketId: "TK-1" }),
+    );
+  });
+
+  it("uses the warning percentage of the group policy", async () => {
+    policyModel.findOne.mockReturnValue({
+      exec: jest.fn().mockResolvedValue({ warningPercent: 50 }),
+    });
+    addTicket({ slaDueAt: at(100) });
+
+    await service.checkDeadlines(at(50));
+
+    expect(emitted()).toEqual([HookEvent.TICKET_SLA_WARNING]);
+  });
+
+  it("breaches when the deadline has passed", async () => {
+    addTicket({ slaDueAt: at(100) });
+
+    await service.checkDeadlines(at(100));
+
+    expect(emitted()).toEqual([HookEvent.TICKET_SLA_BREACHED]);
+    expect(domainEvents.emit.mock.calls[0][1]).toMatchObject({
+      minutesRemaining: 0,
+    });
+  });
+
+  it("emits each warning and breach only once", async () => {
+    addTicket({ slaDueAt: at(100) });
+
+    await service.checkDeadlines(at(90));
+    await service.checkDeadlines(at(95));
+    await service.checkDeadlines(at(120));
+    await service.checkDeadlines(at(130));
+
+    expect(emitted()).toEqual([
+      HookEvent.TICKET_SLA_WARNING,
+      HookEvent.TICKET_SLA_BREACHED,
+    ]);
+  });
+
+  it("skips the event when another instance marked the target first", async () => {
+    addTicket({ slaDueAt: at(100) });
+    ticketService.markSla.mockResolvedValueOnce(null);
+
+    await service.checkDeadlines(at(120));
+
+    expect(domainEvents.emit).not.toHaveBeenCalled();
+  });
+
+  it("stops tracking first response once it is recorded", async () => {
+    addTicket({ firstResponseDueAt: at(30), slaDueAt: at(600) });
+    addTicket({
+      firstResponseDueAt: at(30),
+      firstResponseAt: at(10),
+      slaDueAt: at(600),
+    });
+
+    await service.checkDeadlines(at(45));
+
+    expect(ticketService.markSla).toHaveBeenCalledTimes(1);
+    expect(ticketService.markSla).toHaveBeenCalledWith(
+      "TK-1",
+      "slaBreaches",
+      SlaTarget.FIRST_RESPONSE,
+    );
+  });
+
+  it("looks up each group policy once per run", async () => {
+    addTicket({ slaDueAt: at(100) });
+    addTicket({ slaDueAt: at(100) });
+    addTicket({ slaDueAt: at(100), priority: TicketPriority.HIGH });
+
+    await service.checkDeadlines(at(10));
+
+    expect(policyModel.findOne).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,273 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import { SlaPolicy, SlaPolicyDocument } from "./schemas/sla-policy.schema";
+import { TicketService } from "../ticket/ticket.service";
+import {
+  Ticket,
+  TicketPriority,
+  SlaTarget,
+} from "../ticket/schemas/ticket.schema";
+import {
+  DomainEvent,
+  DomainEventsService,
+} from "../events/domain-events.service";
+import { HookEvent } from "../hooks/schemas/hook.schema";
+import { LocksService } from "../locks/locks.service";
+
+@Injectable()
+export class SlaService {
+  private readonly logger = new Logger(SlaService.name);
+
+  constructor(
+    @InjectModel(SlaPolicy.name)
+    private slaPolicyModel: Model<SlaPolicyDocument>,
+    private ticketService: TicketService,
+    private domainEvents: DomainEventsService,
+    private locksService: LocksService,
+  ) {
+    // คำนวณกำหนดเวลาและจับเวลาตอบกลับจาก domain events
+    this.domainEvents.subscribe((event) => this.handleDomainEvent(event));
+
+    // Start deadline checker
+    this.startDeadlineChecker();
+  }
+
+  // ==================== Policy Management ====================
+
+  async findPoliciesByGroup(groupId: string): Promise<SlaPolicy[]> {
+    return this.slaPolicyModel.find({ groupId }).sort({ priority: 1 }).exec();
+  }
+
+  async findPolicy(
+    groupId: string,
+    priority: TicketPriority,
+  ): Promise<SlaPolicy | null> {
+    return this.slaPolicyModel.findOne({ groupId, priority }).exec();
+  }
+
+  async upsertPolicy(
+    groupId: string,
+    priority: TicketPriority,
+    policyData: Partial<SlaPolicy>,
+  ): Promise<SlaPolicy> {
+    return this.slaPolicyModel
+      .findOneAndUpdate(
+        { groupId, priority },
+        { ...policyData, groupId, priority },
+        { new: true, upsert: true, setDefaultsOnInsert: true },
+      )
+      .exec();
+  }
+
+  async deletePolicy(
+    groupId: string,
+    priority: TicketPriority,
+  ): Promise<boolean> {
+    const result = await this.slaPolicyModel
+      .deleteOne({ groupId, priority })
+      .exec();
+    return result.deletedCount > 0;
+  }
+
+  // ==================== Deadlines ====================
+
+  // คำนวณกำหนดเวลาจาก createdAt ตาม policy ของกลุ่มและ priority ปัจจุบัน
+  async applyPolicy(ticketId: string): Promise<Ticket | null> {
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) return null;
+
+    const policy = await this.findPolicy(ticket.groupId, ticket.priority);
+    if (!policy?.isActive) {
+      return this.ticketService.setSlaDeadlines(ticketId, {});
+    }
+
+    const createdAt = new Date((ticket as any).createdAt).getTime();
+    return this.ticketService.setSlaDeadlines(ticketId, {
+      firstResponseDueAt: new Date(
+        createdAt + policy.firstResponseMinutes * 60 * 1000,
+      ),
+      slaDueAt: new Date(createdAt + policy.resolutionMinutes * 60 * 1000),
+    });
+  }
+
+  private async handleDomainEvent(event: DomainEvent): Promise<void> {
+    if (!event.ticketId) return;
+
+    switch (event.event) {
+      case HookEvent.TICKET_CREATED:
+        await this.applyPolicy(event.ticketId);
+        break;
+      case HookEvent.TICKET_UPDATED:
+        if (event.data.changes?.priority) {
+          await this.applyPolicy(event.ticketId);
+        }
+        break;
+      case HookEvent.MESSAGE_SENT:
+        await this.recordResponse(event);
+        break;
+    }
+  }
+
+  // ข้อความแรกจากคนที่ไม่ใช่ผู้สร้าง ticket นับเป็นการตอบกลับครั้งแรก
+  private async recordResponse(event: DomainEvent): Promise<void> {
+    const ticket = await this.ticketService.findByTicketId(event.ticketId);
+    if (!ticket || ticket.firstResponseAt) return;
+
+    const senderId = event.data.sender?.id;
+    if (!senderId || senderId === ticket.createdBy) return;
+
+    const updated = await this.ticketService.recordFirstResponse(
+      ticket.ticketId,
+      event.occurredAt,
+    );
+    if (updated) {
+      this.logger.log(
+        `[${new Date().toISOString()}] First response recorded for ${ticket.ticketId}`,
+      );
+    }
+  }
+
+  // ==================== Deadline Checker ====================
+
+  private startDeadlineChecker(): void {
+    // Check deadlines every minute
+    setInterval(async () => {
+      try {
+        await this.locksService.runExclusive("sla.deadline-check", 55000, () =>
+          this.checkDeadlines(),
+        );
+      } catch (error) {
+        this.logger.error("Error checking SLA deadlines:", error);
+      }
+    }, 60000);
+
+    this.logger.log("SLA deadline checker started");
+  }
+
+  async checkDeadlines(now: Date = new Date()): Promise<void> {
+    const tickets = await this.ticketService.findTicketsWithPendingSla();
+    if (tickets.length === 0) return;
+
+    // cache policy ต่อรอบ (กลุ่มเดียวกันมักมีหลาย ticket)
+    const policies = new Map<string, SlaPolicy | null>();
+
+    for (const ticket of tickets) {
+      const key = `${ticket.groupId}:${ticket.priority}`;
+      if (!policies.has(key)) {
+        policies.set(
+          key,
+          await this.findPolicy(ticket.groupId, ticket.priority),
+        );
+      }
+      const warningPercent = policies.get(key)?.warningPercent ?? 80;
+
+      if (ticket.firstResponseDueAt && !ticket.firstResponseAt) {
+        await this.checkTarget(
+          ticket,
+          SlaTarget.FIRST_RESPONSE,
+          ticket.firstResponseDueAt,
+          warningPercent,
+          now,
+        );
+      }
+
+      if (ticket.slaDueAt) {
+        await this.checkTarget(
+          ticket,
+          SlaTarget.RESOLUTION,
+          ticket.slaDueAt,
+          warningPercent,
+          now,
+        );
+      }
+    }
+  }
+
+  private async checkTarget(
+    ticket: Ticket,
+    target: SlaTarget,
+    dueAt: Date,
+    warningPercent: number,
+    now: Date,
+  ): Promise<void> {
+    if (ticket.slaBreaches?.includes(target)) return;
+
+    const dueTime = new Date(dueAt).getTime();
+
+    if (now.getTime() >= dueTime) {
+      // markSla คืน null ถ้า instance อื่นทำไปแล้ว
+      const breached = await this.ticketService.markSla(
+        ticket.ticketId,
+        "slaBreaches",
+        target,
+      );
+      if (breached) {
+        this.emitSlaEvent(
+          HookEvent.TICKET_SLA_BREACHED,
+          breached,
+          target,
+          dueAt,
+          now,
+        );
+      }
+      return;
+    }
+
+    if (ticket.slaWarnings?.includes(target)) return;
+
+    const createdAt = new Date((ticket as any).createdAt).getTime();
+    const warnAt = createdAt + ((dueTime - createdAt) * warningPercent) / 100;
+    if (now.getTime() < warnAt) return;
+
+    const warned = await this.ticketService.markSla(
+      ticket.ticketId,
+      "slaWarnings",
+      target,
+    );
+    if (warned) {
+      this.emitSlaEvent(
+        HookEvent.TICKET_SLA_WARNING,
+        warned,
+        target,
+        dueAt,
+        now,
+      );
+    }
+  }
+
+  private emitSlaEvent(
+    event: HookEvent,
+    ticket: Ticket,
+    target: SlaTarget,
+    dueAt: Date,
+    now: Date,
+  ): void {
+    this.logger.log(
+      `[${new Date().toISOString()}] ${event} (${target}) for ${ticket.ticketId}`,
+    );
+
+    this.domainEvents.emit(
+      event,
+      {
+        ticketId: ticket.ticketId,
+        title: ticket.title,
+        status: ticket.status,
+        priority: ticket.priority,
+        groupId: ticket.groupId,
+        assignedTo: ticket.assignedTo,
+        target,
+        dueAt: new Date(dueAt).toISOString(),
+        minutesRemaining: Math.round(
+          (new Date(dueAt).getTime() - now.getTime()) / 60000,
+        ),
+      },
+      {
+        ticketId: ticket.ticketId,
+        groupId: ticket.groupId,
+        ticketStatus: ticket.status,
+        actor: { id: "sla", source: "system" },
+      },
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { Prop, Schema, SchemaFactory } from "@nestjs/mongoose";
+import { Document } from "mongoose";
+
+export type OutboundMessageDocument = OutboundMessage & Document;
+
+export enum OutboundMessageStatus {
+  QUEUED = "queued",
+  SENT = "sent",
+  FAILED = "failed",
+}
+
+// ข้อความขาออกที่รอส่งผ่าน TelegramSenderService - ค้างอยู่หลัง restart จะถูกส่งต่อ
+@Schema({ timestamps: true })
+export class OutboundMessage {
+  @Prop({ required: true })
+  chatId: string;
+
+  @Prop({ required: true })
+  method: string; // ชื่อ method ของ Bot API เช่น sendMessage, copyMessage
+
+  @Prop({ type: [Object], default: [] })
+  args: any[];
+
+  @Prop()
+  dedupKey?: string; // ผู้เรียกกำหนด - ข้อความที่มี key ซ้ำจะไม่ถูกส่งซ้ำ
+
+  @Prop({ type: Object })
+  result?: any; // ผลจาก Bot API (เก็บเฉพาะข้อความที่มี dedupKey)
+
+  @Prop({ enum: OutboundMessageStatus, default: OutboundMessageStatus.QUEUED })
+  status: OutboundMessageStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop()
+  owner?: string; // instance ที่กำลังส่ง
+
+  @Prop({ required: true })
+  leaseExpiresAt: Date; // หลังเวลานี้ instance อื่นรับไปส่งต่อได้
+
+  @Prop()
+  errorMessage?: string;
+
+  @Prop()
+  completedAt?: Date;
+}
+
+export const OutboundMessageSchema =
+  SchemaFactory.createForClass(OutboundMessage);
+
+OutboundMessageSchema.index({ status: 1, leaseExpiresAt: 1 });
+OutboundMessageSchema.index({ dedupKey: 1 }, { unique: true, sparse: true });
+// เก็บประวัติที่ส่งเสร็จ/ล้มเหลวไว้ 7 วัน
+OutboundMessageSchema.index(
+  { completedAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60 },
+);
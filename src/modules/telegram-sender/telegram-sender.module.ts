@@ -0,0 +1,20 @@
+import { Module } from "@nestjs/common";
+import { MongooseModule } from "@nestjs/mongoose";
+import { TelegramSenderService } from "./telegram-sender.service";
+import {
+  OutboundMessage,
+  OutboundMessageSchema,
+} from "./schemas/outbound-message.schema";
+import { LocksModule } from "../locks/locks.module";
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OutboundMessage.name, schema: OutboundMessageSchema },
+    ]),
+    LocksModule,
+  ],
+  providers: [TelegramSenderService],
+  exports: [TelegramSenderService],
+})
+export class TelegramSenderModule {}
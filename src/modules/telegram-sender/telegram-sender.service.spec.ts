@@ -0,0 +1,270 @@
+import { ConfigService } from "@nestjs/config";
+import { TelegramSenderService } from "./telegram-sender.service";
+import { OutboundMessageStatus } from "./schemas/outbound-message.schema";
+import { LocksService } from "../locks/locks.service";
+
+const GROUP_ID = "-1001";
+
+const config: Record<string, unknown> = {
+  "telegram.botToken": "123:test",
+  "telegram.rateLimit.globalPerSecond": 30,
+  "telegram.rateLimit.groupPerMinute": 20,
+  "telegram.rateLimit.privatePerSecond": 1,
+};
+
+const query = <T>(value: T) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+function rateLimited(retryAfter: number) {
+  return Object.assign(new Error("429 Too Many Requests"), {
+    response: {
+      statusCode: 429,
+      body: { parameters: { retry_after: retryAfter } },
+    },
+  });
+}
+
+describe("TelegramSenderService", () => {
+  let model: Record<string, jest.Mock>;
+  let bot: Record<string, jest.Mock>;
+  let sender: TelegramSenderService;
+  let nextId: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    nextId = 0;
+    model = {
+      create: jest.fn(async (doc) => ({ _id: `msg-${++nextId}`, ...doc })),
+      updateOne: jest.fn(() => query({})),
+      updateMany: jest.fn(() => query({})),
+      findOne: jest.fn(() => query(null)),
+      findOneAndUpdate: jest.fn(() => query(null)),
+    };
+    bot = {
+      sendMessage: jest.fn(async (chatId, text) => ({
+        message_id: nextId,
+        chat: { id: chatId },
+        text,
+      })),
+      copyMessage: jest.fn(async () => ({ message_id: 99 })),
+    };
+
+    sender = new TelegramSenderService(
+      { get: (key: string) => config[key] } as ConfigService,
+      { instanceId: "instance-a" } as LocksService,
+      model as any,
+    );
+    (sender as any).bot = bot;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("persists each message and marks it sent", async () => {
+    const message = await sender.sendMessage(GROUP_ID, "hello");
+
+    expect(message.text).toBe("hello");
+    expect(model.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chatId: GROUP_ID,
+        method: "sendMessage",
+        args: [GROUP_ID, "hello"],
+        owner: "instance-a",
+      }),
+    );
+    expect(model.updateOne).toHaveBeenCalledWith(
+      { _id: "msg-1" },
+      expect.objectContaining({ status: OutboundMessageStatus.SENT }),
+    );
+  });
+
+  it("keeps the order of messages within a chat", async () => {
+    const sent = await Promise.all([
+      sender.sendMessage(GROUP_ID, "first"),
+      sender.sendMessage(GROUP_ID, "second"),
+      sender.sendMessage(GROUP_ID, "third"),
+    ]);
+
+    expect(sent.map((m) => m.text)).toEqual(["first", "second", "third"]);
+    expect(bot.sendMessage.mock.calls.map((call) => call[1])).toEqual([
+      "first",
+      "second",
+      "third",
+    ]);
+  });
+
+  it("waits retry_after seconds and resends after a 429", async () => {
+    bot.sendMessage.mockRejectedValueOnce(rateLimited(3));
+
+    const result = sender.sendMessage(GROUP_ID, "hello");
+    await jest.advanceTimersByTimeAsync(0);
+    expect(bot.sendMessage).toHaveBeenCalledTimes(1);
+    // lease ต่อออกไปเลยเวลาที่จะส่งใหม่
+    expect(model.updateOne).toHaveBeenCalledWith(
+      { _id: "msg-1" },
+      expect.objectContaining({ attempts: 1 }),
+    );
+
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(bot.sendMessage).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toMatchObject({ text: "hello" });
+    expect(bot.sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries network errors with backoff", async () => {
+    bot.sendMessage.mockRejectedValueOnce(
+      Object.assign(new Error("socket hang up"), { code: "ECONNRESET" }),
+    );
+
+    const result = sender.sendMessage(GROUP_ID, "hello");
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toMatchObject({ text: "hello" });
+    expect(bot.sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails without retrying on other errors", async () => {
+    bot.sendMessage.mockRejectedValueOnce(
+      Object.assign(new Error("400 Bad Request: chat not found"), {
+        response: { statusCode: 400 },
+      }),
+    );
+
+    await expect(sender.sendMessage(GROUP_ID, "hello")).rejects.toThrow(
+      "chat not found",
+    );
+    expect(bot.sendMessage).toHaveBeenCalledTimes(1);
+    expect(model.updateOne).toHaveBeenCalledWith(
+      { _id: "msg-1" },
+      expect.objectContaining({
+        status: OutboundMessageStatus.FAILED,
+        errorMessage: "400 Bad Request: chat not found",
+      }),
+    );
+  });
+
+  it("keeps Buffer uploads in memory only", async () => {
+    bot.sendDocument = jest.fn(async () => ({ message_id: 1 }));
+
+    await sender.sendDocument(GROUP_ID, Buffer.from("file"));
+
+    expect(bot.sendDocument).toHaveBeenCalled();
+    expect(model.create).not.toHaveBeenCalled();
+  });
+
+  describe("dedup keys", () => {
+    it("sends once when the same key is enqueued concurrently", async () => {
+      const [first, second] = await Promise.all([
+        sender.once("relay:1").sendMessage(GROUP_ID, "hello"),
+        sender.once("relay:1").sendMessage(GROUP_ID, "hello"),
+      ]);
+
+      expect(bot.sendMessage).toHaveBeenCalledTimes(1);
+      expect(model.create).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+    });
+
+    it("returns the stored result of a message that was already sent", async () => {
+      const stored = { message_id: 42 };
+      model.create.mockRejectedValueOnce({ code: 11000 });
+      model.findOne.mockReturnValueOnce(
+        query({ status: OutboundMessageStatus.SENT, result: stored }),
+      );
+
+      await expect(
+        sender.once("relay:1").sendMessage(GROUP_ID, "hello"),
+      ).resolves.toEqual(stored);
+      expect(bot.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it("takes over a duplicate whose lease has expired", async () => {
+      const doc = {
+        _id: "msg-old",
+        chatId: GROUP_ID,
+        method: "sendMessage",
+        args: [GROUP_ID, "hello"],
+        attempts: 1,
+        status: OutboundMessageStatus.QUEUED,
+      };
+      model.create.mockRejectedValueOnce({ code: 11000 });
+      model.findOne.mockReturnValueOnce(query(doc));
+      model.findOneAndUpdate.mockReturnValueOnce(query(doc));
+
+      await expect(
+        sender.once("relay:1").sendMessage(GROUP_ID, "hello"),
+      ).resolves.toMatchObject({ text: "hello" });
+
+      expect(model.findOneAndUpdate.mock.calls[0][1].$set).toMatchObject({
+        owner: "instance-a",
+        status: OutboundMessageStatus.QUEUED,
+      });
+      expect(bot.sendMessage).toHaveBeenCalledTimes(1);
+      expect(model.updateOne).toHaveBeenCalledWith(
+        { _id: "msg-old" },
+        expect.objectContaining({
+          status: OutboundMessageStatus.SENT,
+          result: expect.objectContaining({ text: "hello" }),
+        }),
+      );
+    });
+
+    it("waits for a duplicate still held by another instance", async () => {
+      const queued = { _id: "msg-old", status: OutboundMessageStatus.QUEUED };
+      model.create.mockRejectedValueOnce({ code: 11000 });
+      model.findOne
+        .mockReturnValueOnce(query(queued))
+        .mockReturnValueOnce(
+          query({ status: OutboundMessageStatus.SENT, result: { id: 7 } }),
+        );
+
+      const result = sender.once("relay:1").sendMessage(GROUP_ID, "hello");
+      await jest.advanceTimersByTimeAsync(1000);
+
+      await expect(result).resolves.toEqual({ id: 7 });
+      expect(bot.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("recovery", () => {
+    it("resends messages left behind by a stopped instance", async () => {
+      model.findOneAndUpdate
+        .mockReturnValueOnce(
+          query({
+            _id: "msg-old",
+            chatId: GROUP_ID,
+            method: "copyMessage",
+            args: [GROUP_ID, "555", 10],
+            attempts: 2,
+          }),
+        )
+        .mockReturnValueOnce(query(null));
+
+      await (sender as any).recoverPending();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(model.findOneAndUpdate.mock.calls[0][0]).toMatchObject({
+        status: OutboundMessageStatus.QUEUED,
+        leaseExpiresAt: { $lte: expect.any(Date) },
+      });
+      expect(bot.copyMessage).toHaveBeenCalledWith(GROUP_ID, "555", 10);
+      expect(model.updateOne).toHaveBeenCalledWith(
+        { _id: "msg-old" },
+        expect.objectContaining({
+          status: OutboundMessageStatus.SENT,
+          attempts: 3,
+        }),
+      );
+    });
+
+    it("renews the lease of messages queued on this instance", async () => {
+      await (sender as any).renewLeases();
+
+      expect(model.updateMany).toHaveBeenCalledWith(
+        { owner: "instance-a", status: OutboundMessageStatus.QUEUED },
+        { leaseExpiresAt: expect.any(Date) },
+      );
+    });
+  });
+});
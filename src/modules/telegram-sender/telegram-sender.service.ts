@@ -0,0 +1,574 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import * as TelegramBot from "node-telegram-bot-api";
+import { Stream } from "stream";
+import {
+  OutboundMessage,
+  OutboundMessageDocument,
+  OutboundMessageStatus,
+} from "./schemas/outbound-message.schema";
+import { TokenBucket } from "./token-bucket";
+import { LocksService } from "../locks/locks.service";
+
+const SEND_METHODS = [
+  "sendMessage",
+  "sendPhoto",
+  "sendDocument",
+  "sendVideo",
+  "sendAudio",
+  "sendVoice",
+  "sendVideoNote",
+  "sendAnimation",
+  "sendSticker",
+  "copyMessage",
+  "forwardMessage",
+] as const;
+
+type SendMethod = (typeof SEND_METHODS)[number];
+type QueuedMethod =
+  | SendMethod
+  | "editMessageText"
+  | "editMessageCaption"
+  | "editMessageReplyMarkup"
+  | "deleteMessage"
+  | "answerCallbackQuery";
+
+interface OutboundJob {
+  id?: string; // _id ของ OutboundMessage (ไม่มีถ้า payload เป็นไฟล์ที่ persist ไม่ได้)
+  method: QueuedMethod;
+  args: any[];
+  attempts: number;
+  dedupKey?: string;
+  resolve?: (result: any) => void;
+  reject?: (error: any) => void;
+}
+
+interface ChatQueue {
+  jobs: OutboundJob[];
+  busy: boolean;
+  pausedUntil: number;
+  bucket: TokenBucket;
+}
+
+const MAX_ATTEMPTS = 5;
+const LEASE_MS = 5 * 60 * 1000;
+const RECOVERY_INTERVAL_MS = 60000;
+const TRANSIENT_RETRY_MS = 1000; // network error / 5xx - รอ 1, 2, 4, ... วินาที
+const DUPLICATE_POLL_MS = 1000;
+const TRANSIENT_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EFATAL",
+];
+
+// ส่งข้อความขาออกทั้งหมดผ่านคิวเดียว: จำกัดอัตราต่อแชทและทั้งระบบ, รอตาม retry_after เมื่อโดน 429
+// และเก็บคิวใน MongoDB เพื่อให้ข้อความที่ยังไม่ได้ส่งไม่หายเมื่อ restart
+@Injectable()
+export class TelegramSenderService implements OnModuleInit {
+  private readonly logger = new Logger(TelegramSenderService.name);
+  private readonly bot: TelegramBot;
+
+  private readonly chats = new Map<string, ChatQueue>();
+  private readonly globalBucket: TokenBucket;
+  private readonly groupRatePerMinute: number;
+  private readonly privateRatePerSecond: number;
+  private globalPausedUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+  // enqueue ที่มี dedupKey และยังไม่เสร็จใน instance นี้
+  private readonly pendingByKey = new Map<string, Promise<any>>();
+
+  constructor(
+    private configService: ConfigService,
+    private locksService: LocksService,
+    @InjectModel(OutboundMessage.name)
+    private outboundMessageModel: Model<OutboundMessageDocument>,
+  ) {
+    this.bot = new TelegramBot(
+      this.configService.get<string>("telegram.botToken"),
+      { polling: false },
+    );
+    this.globalBucket = new TokenBucket(
+      this.configService.get<number>("telegram.rateLimit.globalPerSecond"),
+      1000,
+    );
+    this.groupRatePerMinute = this.configService.get<number>(
+      "telegram.rateLimit.groupPerMinute",
+    );
+    this.privateRatePerSecond = this.configService.get<number>(
+      "telegram.rateLimit.privatePerSecond",
+    );
+  }
+
+  async onModuleInit() {
+    await this.recoverPending();
+
+    setInterval(async () => {
+      try {
+        await this.renewLeases();
+        await this.recoverPending();
+      } catch (error) {
+        this.logger.error("Error recovering outbound messages:", error);
+      }
+    }, RECOVERY_INTERVAL_MS);
+  }
+
+  // ==================== Bot API ====================
+
+  sendMessage(...args: Parameters<TelegramBot["sendMessage"]>) {
+    return this.enqueue<TelegramBot.Message>("sendMessage", args);
+  }
+
+  sendPhoto(...args: Parameters<TelegramBot["sendPhoto"]>) {
+    return this.enqueue<TelegramBot.Message>("sendPhoto", args);
+  }
+
+  sendDocument(...args: Parameters<TelegramBot["sendDocument"]>) {
+    return this.enqueue<TelegramBot.Message>("sendDocument", args);
+  }
+
+  sendVideo(...args: Parameters<TelegramBot["sendVideo"]>) {
+    return this.enqueue<TelegramBot.Message>("sendVideo", args);
+  }
+
+  sendAudio(...args: Parameters<TelegramBot["sendAudio"]>) {
+    return this.enqueue<TelegramBot.Message>("sendAudio", args);
+  }
+
+  sendVoice(...args: Parameters<TelegramBot["sendVoice"]>) {
+    return this.enqueue<TelegramBot.Message>("sendVoice", args);
+  }
+
+  sendVideoNote(...args: Parameters<TelegramBot["sendVideoNote"]>) {
+    return this.enqueue<TelegramBot.Message>("sendVideoNote", args);
+  }
+
+  sendAnimation(...args: Parameters<TelegramBot["sendAnimation"]>) {
+    return this.enqueue<TelegramBot.Message>("sendAnimation", args);
+  }
+
+  sendSticker(...args: Parameters<TelegramBot["sendSticker"]>) {
+    return this.enqueue<TelegramBot.Message>("sendSticker", args);
+  }
+
+  copyMessage(...args: Parameters<TelegramBot["copyMessage"]>) {
+    return this.enqueue<TelegramBot.MessageId>("copyMessage", args);
+  }
+
+  forwardMessage(...args: Parameters<TelegramBot["forwardMessage"]>) {
+    return this.enqueue<TelegramBot.Message>("forwardMessage", args);
+  }
+
+  editMessageText(...args: Parameters<TelegramBot["editMessageText"]>) {
+    return this.enqueue<TelegramBot.Message | boolean>("editMessageText", args);
+  }
+
+  editMessageCaption(...args: Parameters<TelegramBot["editMessageCaption"]>) {
+    return this.enqueue<TelegramBot.Message | boolean>(
+      "editMessageCaption",
+      args,
+    );
+  }
+
+  editMessageReplyMarkup(
+    ...args: Parameters<TelegramBot["editMessageReplyMarkup"]>
+  ) {
+    return this.enqueue<TelegramBot.Message | boolean>(
+      "editMessageReplyMarkup",
+      args,
+    );
+  }
+
+  deleteMessage(...args: Parameters<TelegramBot["deleteMessage"]>) {
+    return this.enqueue<boolean>("deleteMessage", args);
+  }
+
+  answerCallbackQuery(
+    callbackQueryId: string,
+    options?: Partial<TelegramBot.AnswerCallbackQueryOptions>,
+  ) {
+    return this.enqueue<boolean>("answerCallbackQuery", [
+      callbackQueryId,
+      options,
+    ]);
+  }
+
+  // ส่งแบบ idempotent - enqueue ซ้ำด้วย dedupKey เดิม (เช่น update ที่ถูกประมวลผลใหม่หลัง crash)
+  // จะได้ผลของข้อความเดิมแทนการส่งซ้ำ
+  once(dedupKey: string): Pick<TelegramSenderService, SendMethod> {
+    const sender = {} as Record<SendMethod, (...args: any[]) => Promise<any>>;
+    for (const method of SEND_METHODS) {
+      sender[method] = (...args: any[]) => this.enqueue(method, args, dedupKey);
+    }
+    return sender as Pick<TelegramSenderService, SendMethod>;
+  }
+
+  getStats(): { chats: number; pending: number; globalPausedUntil?: Date } {
+    let pending = 0;
+    for (const chat of this.chats.values()) pending += chat.jobs.length;
+    return {
+      chats: this.chats.size,
+      pending,
+      globalPausedUntil:
+        this.globalPausedUntil > Date.now()
+          ? new Date(this.globalPausedUntil)
+          : undefined,
+    };
+  }
+
+  // ==================== Queue ====================
+
+  private enqueue<T>(
+    method: QueuedMethod,
+    args: any[],
+    dedupKey?: string,
+  ): Promise<T> {
+    if (!dedupKey) return this.createJob<T>(method, args);
+
+    const pending = this.pendingByKey.get(dedupKey);
+    if (pending) return pending;
+
+    const promise = this.createJob<T>(method, args, dedupKey);
+    this.pendingByKey.set(dedupKey, promise);
+    promise
+      .catch(() => undefined)
+      .finally(() => this.pendingByKey.delete(dedupKey));
+    return promise;
+  }
+
+  private async createJob<T>(
+    method: QueuedMethod,
+    args: any[],
+    dedupKey?: string,
+  ): Promise<T> {
+    const chatId = this.queueKey(method, args);
+
+    // ไฟล์ที่ส่งเป็น Buffer/Stream เก็บลง MongoDB ไม่ได้ - เข้าคิวในหน่วยความจำอย่างเดียว
+    let id: string | undefined;
+    if (this.isPersistable(method, args)) {
+      try {
+        const doc = await this.outboundMessageModel.create({
+          chatId,
+          method,
+          args,
+          dedupKey,
+          owner: this.locksService.instanceId,
+          leaseExpiresAt: new Date(Date.now() + LEASE_MS),
+        });
+        id = (doc as any)._id.toString();
+      } catch (error) {
+        if (dedupKey && error?.code === 11000) {
+          return this.resumeDuplicate<T>(dedupKey);
+        }
+        throw error;
+      }
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.push(chatId, {
+        id,
+        method,
+        args,
+        attempts: 0,
+        dedupKey,
+        resolve,
+        reject,
+      });
+    });
+  }
+
+  // dedupKey นี้เคยเข้าคิวแล้ว: ส่งแล้วคืนผลเดิม, ยังอยู่ในคิวของ instance อื่นก็รอผล
+  // ส่วนที่ lease หมด (instance เดิมตาย) หรือล้มเหลวไปแล้วรับมาส่งเอง
+  private async resumeDuplicate<T>(dedupKey: string): Promise<T> {
+    for (;;) {
+      const doc = await this.outboundMessageModel.findOne({ dedupKey }).exec();
+      if (!doc) {
+        throw new Error(`Outbound message ${dedupKey} was removed`);
+      }
+      if (doc.status === OutboundMessageStatus.SENT) return doc.result as T;
+
+      const claimed = await this.outboundMessageModel
+        .findOneAndUpdate(
+          {
+            _id: (doc as any)._id,
+            $or: [
+              { status: OutboundMessageStatus.FAILED },
+              {
+                status: OutboundMessageStatus.QUEUED,
+                leaseExpiresAt: { $lte: new Date() },
+              },
+            ],
+          },
+          {
+            $set: {
+              status: OutboundMessageStatus.QUEUED,
+              attempts:
+                doc.status === OutboundMessageStatus.FAILED ? 0 : doc.attempts,
+              owner: this.locksService.instanceId,
+              leaseExpiresAt: new Date(Date.now() + LEASE_MS),
+            },
+            $unset: { completedAt: "", errorMessage: "" },
+          },
+          { new: true },
+        )
+        .exec();
+
+      if (claimed) {
+        return new Promise<T>((resolve, reject) => {
+          this.push(claimed.chatId, {
+            id: (claimed as any)._id.toString(),
+            method: claimed.method as QueuedMethod,
+            args: claimed.args,
+            attempts: claimed.attempts,
+            dedupKey,
+            resolve,
+            reject,
+          });
+        });
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, DUPLICATE_POLL_MS));
+    }
+  }
+
+  // คิวแยกตามแชท - การแก้ไขข้อความระบุแชทใน options, answerCallbackQuery ไม่ผูกกับแชท
+  private queueKey(method: QueuedMethod, args: any[]): string {
+    switch (method) {
+      case "editMessageText":
+      case "editMessageCaption":
+      case "editMessageReplyMarkup":
+        return String(
+          args[1]?.chat_id ?? `inline:${args[1]?.inline_message_id}`,
+        );
+      case "answerCallbackQuery":
+        return `callback:${args[0]}`;
+      default:
+        return String(args[0]);
+    }
+  }
+
+  private push(chatId: string, job: OutboundJob) {
+    let chat = this.chats.get(chatId);
+    if (!chat) {
+      chat = {
+        jobs: [],
+        busy: false,
+        pausedUntil: 0,
+        bucket: this.createChatBucket(chatId),
+      };
+      this.chats.set(chatId, chat);
+    }
+    chat.jobs.push(job);
+    this.pump();
+  }
+
+  // กลุ่ม/supergroup มี chat id ติดลบ - Telegram จำกัดประมาณ 20 ข้อความต่อนาที, แชทส่วนตัว 1 ต่อวินาที
+  private createChatBucket(chatId: string): TokenBucket {
+    return chatId.startsWith("-")
+      ? new TokenBucket(this.groupRatePerMinute, 60000)
+      : new TokenBucket(this.privateRatePerSecond, 1000);
+  }
+
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let nextWake = Infinity;
+
+    for (const [chatId, chat] of this.chats) {
+      if (chat.busy) continue;
+      if (chat.jobs.length === 0) {
+        // เก็บ bucket ไว้จนกว่าจะเติมเต็ม ไม่งั้นแชทที่เพิ่งส่งรัวๆ จะได้ quota ใหม่ทันที
+        if (chat.bucket.isFull(now)) this.chats.delete(chatId);
+        continue;
+      }
+
+      const wait = Math.max(
+        chat.pausedUntil - now,
+        this.globalPausedUntil - now,
+        chat.bucket.timeUntilAvailable(now),
+        this.globalBucket.timeUntilAvailable(now),
+      );
+      if (wait > 0) {
+        nextWake = Math.min(nextWake, wait);
+        continue;
+      }
+
+      chat.bucket.take(now);
+      this.globalBucket.take(now);
+      this.process(chatId, chat);
+    }
+
+    if (nextWake !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), nextWake);
+    }
+  }
+
+  private async process(chatId: string, chat: ChatQueue) {
+    const job = chat.jobs[0];
+    chat.busy = true;
+    job.attempts++;
+
+    try {
+      const result = await (this.bot as any)[job.method](...job.args);
+      chat.jobs.shift();
+      await this.markCompleted(
+        job,
+        OutboundMessageStatus.SENT,
+        undefined,
+        result,
+      );
+      job.resolve?.(result);
+    } catch (error) {
+      const retryAfter = this.getRetryAfter(error);
+      const transient = retryAfter === null && this.isTransient(error);
+
+      if ((retryAfter !== null || transient) && job.attempts < MAX_ATTEMPTS) {
+        // job ยังอยู่หัวคิว - ส่งใหม่เมื่อครบเวลารอเพื่อรักษาลำดับ
+        const delayMs =
+          retryAfter !== null
+            ? retryAfter * 1000
+            : TRANSIENT_RETRY_MS * 2 ** (job.attempts - 1);
+        const pausedUntil = Date.now() + delayMs;
+        chat.pausedUntil = pausedUntil;
+        if (retryAfter > 1) {
+          // โดน limit นานแสดงว่าน่าจะเกิน global limit ด้วย
+          this.globalPausedUntil = Math.max(
+            this.globalPausedUntil,
+            pausedUntil,
+          );
+        }
+        this.logger.warn(
+          `[${new Date().toISOString()}] ⏳ ${job.method} to ${chatId} ${transient ? `failed (${error.code || error.message})` : "rate limited"}, retrying in ${delayMs / 1000}s`,
+        );
+        await this.renewLease(job, pausedUntil);
+      } else {
+        chat.jobs.shift();
+        await this.markCompleted(job, OutboundMessageStatus.FAILED, error);
+        job.reject?.(error);
+      }
+    } finally {
+      chat.busy = false;
+      this.pump();
+    }
+  }
+
+  private getRetryAfter(error: any): number | null {
+    const response = error?.response;
+    if (response?.statusCode !== 429 && response?.status !== 429) return null;
+    return response?.body?.parameters?.retry_after ?? 1;
+  }
+
+  // network error หรือ 5xx ฝั่ง Telegram - ส่งใหม่ได้
+  private isTransient(error: any): boolean {
+    const status = error?.response?.statusCode ?? error?.response?.status;
+    return TRANSIENT_ERROR_CODES.includes(error?.code) || status >= 500;
+  }
+
+  // callback query หมดอายุในไม่กี่วินาที ไม่มีประโยชน์ที่จะส่งต่อหลัง restart
+  private isPersistable(method: QueuedMethod, args: any[]): boolean {
+    return (
+      method !== "answerCallbackQuery" &&
+      !args.some((arg) => Buffer.isBuffer(arg) || arg instanceof Stream)
+    );
+  }
+
+  // ==================== Persistence ====================
+
+  private async markCompleted(
+    job: OutboundJob,
+    status: OutboundMessageStatus,
+    error?: any,
+    result?: any,
+  ) {
+    if (!job.id) return;
+    try {
+      await this.outboundMessageModel
+        .updateOne(
+          { _id: job.id },
+          {
+            status,
+            attempts: job.attempts,
+            completedAt: new Date(),
+            errorMessage: error?.message,
+            // เก็บผลไว้ตอบ enqueue ซ้ำด้วย dedupKey เดิม
+            result: job.dedupKey ? result : undefined,
+          },
+        )
+        .exec();
+    } catch (err) {
+      this.logger.warn(
+        `Could not update outbound message ${job.id}: ${err.message}`,
+      );
+    }
+  }
+
+  private async renewLease(job: OutboundJob, until: number) {
+    if (!job.id) return;
+    await this.outboundMessageModel
+      .updateOne(
+        { _id: job.id },
+        {
+          attempts: job.attempts,
+          leaseExpiresAt: new Date(until + LEASE_MS),
+        },
+      )
+      .exec()
+      .catch(() => {});
+  }
+
+  // ต่ออายุ lease ของข้อความที่ยังรออยู่ในคิวของ instance นี้ (คิวยาวในกลุ่มอาจรอเกิน LEASE_MS)
+  private async renewLeases(): Promise<void> {
+    await this.outboundMessageModel
+      .updateMany(
+        {
+          owner: this.locksService.instanceId,
+          status: OutboundMessageStatus.QUEUED,
+        },
+        { leaseExpiresAt: new Date(Date.now() + LEASE_MS) },
+      )
+      .exec();
+  }
+
+  // รับข้อความที่ค้างจาก instance ที่ปิดไป (lease หมดอายุ) มาส่งต่อ - claim ทีละรายการแบบ atomic
+  private async recoverPending(): Promise<void> {
+    let recovered = 0;
+
+    for (;;) {
+      const doc = await this.outboundMessageModel
+        .findOneAndUpdate(
+          {
+            status: OutboundMessageStatus.QUEUED,
+            leaseExpiresAt: { $lte: new Date() },
+          },
+          {
+            owner: this.locksService.instanceId,
+            leaseExpiresAt: new Date(Date.now() + LEASE_MS),
+          },
+          { new: true, sort: { createdAt: 1 } },
+        )
+        .exec();
+      if (!doc) break;
+
+      this.push(doc.chatId, {
+        id: (doc as any)._id.toString(),
+        method: doc.method as QueuedMethod,
+        args: doc.args,
+        attempts: doc.attempts,
+        dedupKey: doc.dedupKey,
+      });
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      this.logger.log(
+        `[${new Date().toISOString()}] 📤 Recovered ${recovered} pending outbound messages`,
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { TokenBucket } from "./token-bucket";
+
+describe("TokenBucket", () => {
+  const start = 1_000_000;
+
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockReturnValue(start);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("starts full and allows a burst up to capacity", () => {
+    const bucket = new TokenBucket(3, 1000);
+    expect(bucket.isFull(start)).toBe(true);
+
+    for (let i = 0; i < 3; i++) {
+      expect(bucket.timeUntilAvailable(start)).toBe(0);
+      bucket.take(start);
+    }
+    expect(bucket.timeUntilAvailable(start)).toBeGreaterThan(0);
+  });
+
+  it("waits intervalMs / capacity for the next token once empty", () => {
+    const bucket = new TokenBucket(2, 1000);
+    bucket.take(start);
+    bucket.take(start);
+
+    expect(bucket.timeUntilAvailable(start)).toBe(500);
+    expect(bucket.timeUntilAvailable(start + 250)).toBe(250);
+    expect(bucket.timeUntilAvailable(start + 500)).toBe(0);
+  });
+
+  it("refills gradually but never beyond capacity", () => {
+    const bucket = new TokenBucket(2, 1000);
+    bucket.take(start);
+    bucket.take(start);
+
+    expect(bucket.isFull(start + 500)).toBe(false);
+    expect(bucket.isFull(start + 1000)).toBe(true);
+
+    // หลังรอนานก็ยังส่งติดกันได้แค่ capacity ครั้ง
+    bucket.take(start + 10000);
+    bucket.take(start + 10000);
+    expect(bucket.timeUntilAvailable(start + 10000)).toBe(500);
+  });
+
+  it("ignores clocks that move backwards", () => {
+    const bucket = new TokenBucket(1, 1000);
+    bucket.take(start);
+
+    expect(bucket.timeUntilAvailable(start - 5000)).toBe(1000);
+    expect(bucket.timeUntilAvailable(start + 1000)).toBe(0);
+  });
+});
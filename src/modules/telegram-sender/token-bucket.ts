@@ -0,0 +1,40 @@
+// Token bucket สำหรับจำกัดอัตราการส่ง: เก็บได้สูงสุด capacity และเติมทีละ 1 ทุก intervalMs / capacity
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly intervalMs: number,
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  // เวลาที่ต้องรอ (ms) จนกว่าจะมี token ว่าง - 0 คือส่งได้ทันที
+  timeUntilAvailable(now: number = Date.now()): number {
+    this.refill(now);
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) * this.intervalMs) / this.capacity);
+  }
+
+  take(now: number = Date.now()): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  isFull(now: number = Date.now()): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number) {
+    const elapsed = now - this.lastRefill;
+    if (elapsed <= 0) return;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (elapsed * this.capacity) / this.intervalMs,
+    );
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type TicketEventDocument = TicketEvent & Document;
+
+// บันทึกเหตุการณ์ของ ticket สำหรับ audit trail / timeline
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class TicketEvent {
+  @Prop({ required: true, index: true })
+  ticketId: string;
+
+  @Prop({ required: true })
+  event: string; // HookEvent เช่น ticket.updated, topic.linked
+
+  @Prop()
+  actorId?: string; // Telegram User ID หรือ API key ID
+
+  @Prop()
+  actorName?: string;
+
+  @Prop()
+  source?: string; // bot, api หรือ system
+
+  @Prop({ type: Object })
+  changes?: Record<string, { from: any; to: any }>;
+
+  @Prop({ type: Object })
+  details?: Record<string, any>;
+
+  @Prop({ required: true })
+  occurredAt: Date;
+
+  createdAt?: Date;
+}
+
+export const TicketEventSchema = SchemaFactory.createForClass(TicketEvent);
+TicketEventSchema.index({ ticketId: 1, occurredAt: 1 });
@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { TicketStatus } from './ticket.schema';
+
+export type TicketStatusHistoryDocument = TicketStatusHistory & Document;
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class TicketStatusHistory {
+  @Prop({ required: true, index: true })
+  ticketId: string;
+
+  @Prop({ enum: TicketStatus, required: true })
+  fromStatus: TicketStatus;
+
+  @Prop({ enum: TicketStatus, required: true })
+  toStatus: TicketStatus;
+
+  @Prop()
+  changedBy?: string; // Telegram User ID หรือ API key ID
+
+  @Prop()
+  source?: string; // bot, api หรือ system
+
+  @Prop()
+  reason?: string;
+
+  createdAt?: Date;
+}
+
+export const TicketStatusHistorySchema =
+  SchemaFactory.createForClass(TicketStatusHistory);
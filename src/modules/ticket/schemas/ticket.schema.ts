@@ -5,8 +5,15 @@ export type TicketDocument = Ticket & Document;
 
 export enum TicketStatus {
   OPEN = 'open',
+  IN_PROGRESS = 'in_progress',
+  PENDING = 'pending', // รอข้อมูลจากลูกค้า
+  RESOLVED = 'resolved',
   CLOSED = 'closed',
-  PENDING = 'pending',
+}
+
+export enum SlaTarget {
+  FIRST_RESPONSE = 'first_response',
+  RESOLUTION = 'resolution',
 }
 
 export enum TicketPriority {
@@ -15,6 +22,13 @@ export enum TicketPriority {
   HIGH = 'high',
 }
 
+// ช่องทางที่ ticket ถูกเปิด
+export enum TicketSource {
+  GROUP = 'group', // /create_ticket ในกลุ่ม
+  PRIVATE_CHAT = 'private_chat', // ลูกค้าทักแชทส่วนตัวกับ bot
+  API = 'api',
+}
+
 @Schema({ timestamps: true })
 export class Ticket {
   @Prop({ required: true, unique: true })
@@ -38,9 +52,21 @@ export class Ticket {
   @Prop()
   assignedTo?: string; // Telegram User ID
 
+  @Prop()
+  assignedAt?: Date;
+
+  @Prop()
+  assignedBy?: string; // Telegram User ID หรือ API key ที่มอบหมาย
+
   @Prop({ required: true })
   groupId: string; // Primary Group Telegram ID (where ticket was created)
 
+  @Prop({ enum: TicketSource, default: TicketSource.GROUP })
+  source: TicketSource;
+
+  @Prop({ index: true })
+  customerChatId?: string; // แชทส่วนตัวของลูกค้า (เฉพาะ source = private_chat)
+
   // เปลี่ยนจาก topicId เดียว เป็น array ของ topics
   @Prop({
     type: [{
@@ -72,8 +98,40 @@ export class Ticket {
   @Prop()
   lastActivityAt?: Date; // อัปเดตเมื่อมีข้อความใหม่ใน topic ใดๆ
 
+  @Prop()
+  resolvedAt?: Date;
+
   @Prop()
   closedAt?: Date;
+
+  @Prop({ default: 0 })
+  reopenCount: number;
+
+  // SLA - กำหนดเวลาคำนวณจาก SlaPolicy ของกลุ่มตาม priority
+  @Prop()
+  firstResponseAt?: Date; // ข้อความแรกจากคนที่ไม่ใช่ผู้สร้าง ticket
+
+  @Prop()
+  firstResponseDueAt?: Date;
+
+  @Prop()
+  slaDueAt?: Date; // กำหนดเวลาแก้ไขให้เสร็จ
+
+  @Prop({ type: [String], enum: SlaTarget, default: [] })
+  slaWarnings: SlaTarget[]; // เป้าหมายที่แจ้งเตือนไปแล้ว
+
+  @Prop({ type: [String], enum: SlaTarget, default: [] })
+  slaBreaches: SlaTarget[]; // เป้าหมายที่เกินกำหนดแล้ว
 }
 
-export const TicketSchema = SchemaFactory.createForClass(Ticket);
\ No newline at end of file
+export const TicketSchema = SchemaFactory.createForClass(Ticket);
+
+// Full-text search บนหัวข้อและรายละเอียด ticket
+TicketSchema.index(
+  { title: 'text', description: 'text' },
+  {
+    name: 'ticket_text_search',
+    weights: { title: 3, description: 1 },
+    default_language: 'none',
+  },
+);
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { TicketStatus } from "./schemas/ticket.schema";
+import {
+  TICKET_STATUS_TRANSITIONS,
+  canTransitionTicketStatus,
+} from "./ticket-status";
+
+describe("canTransitionTicketStatus", () => {
+  it("follows the open → in_progress → pending → resolved → closed workflow", () => {
+    expect(
+      canTransitionTicketStatus(TicketStatus.OPEN, TicketStatus.IN_PROGRESS),
+    ).toBe(true);
+    expect(
+      canTransitionTicketStatus(TicketStatus.IN_PROGRESS, TicketStatus.PENDING),
+    ).toBe(true);
+    expect(
+      canTransitionTicketStatus(TicketStatus.PENDING, TicketStatus.RESOLVED),
+    ).toBe(true);
+    expect(
+      canTransitionTicketStatus(TicketStatus.RESOLVED, TicketStatus.CLOSED),
+    ).toBe(true);
+  });
+
+  it("allows reopening resolved and closed tickets", () => {
+    expect(
+      canTransitionTicketStatus(TicketStatus.RESOLVED, TicketStatus.OPEN),
+    ).toBe(true);
+    expect(
+      canTransitionTicketStatus(TicketStatus.CLOSED, TicketStatus.OPEN),
+    ).toBe(true);
+  });
+
+  it("rejects transitions outside the workflow", () => {
+    expect(
+      canTransitionTicketStatus(TicketStatus.CLOSED, TicketStatus.RESOLVED),
+    ).toBe(false);
+    expect(
+      canTransitionTicketStatus(TicketStatus.CLOSED, TicketStatus.IN_PROGRESS),
+    ).toBe(false);
+    expect(
+      canTransitionTicketStatus(TicketStatus.RESOLVED, TicketStatus.PENDING),
+    ).toBe(false);
+    expect(
+      canTransitionTicketStatus(TicketStatus.IN_PROGRESS, TicketStatus.OPEN),
+    ).toBe(false);
+  });
+
+  it("never allows a transition to the same status", () => {
+    for (const status of Object.values(TicketStatus)) {
+      expect(canTransitionTicketStatus(status, status)).toBe(false);
+    }
+  });
+
+  it("defines transitions for every status", () => {
+    for (const status of Object.values(TicketStatus)) {
+      expect(TICKET_STATUS_TRANSITIONS[status]).toBeDefined();
+    }
+  });
+
+  it("rejects unknown statuses", () => {
+    expect(
+      canTransitionTicketStatus("archived" as TicketStatus, TicketStatus.OPEN),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+import { TicketStatus } from "./schemas/ticket.schema";
+
+// การเปลี่ยนสถานะที่อนุญาต
+// open → in_progress → pending (รอลูกค้า) → resolved → closed และ reopen กลับเป็น open
+export const TICKET_STATUS_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  [TicketStatus.OPEN]: [
+    TicketStatus.IN_PROGRESS,
+    TicketStatus.PENDING,
+    TicketStatus.RESOLVED,
+    TicketStatus.CLOSED,
+  ],
+  [TicketStatus.IN_PROGRESS]: [
+    TicketStatus.PENDING,
+    TicketStatus.RESOLVED,
+    TicketStatus.CLOSED,
+  ],
+  [TicketStatus.PENDING]: [
+    TicketStatus.IN_PROGRESS,
+    TicketStatus.RESOLVED,
+    TicketStatus.CLOSED,
+  ],
+  [TicketStatus.RESOLVED]: [TicketStatus.OPEN, TicketStatus.CLOSED],
+  [TicketStatus.CLOSED]: [TicketStatus.OPEN],
+};
+
+export function canTransitionTicketStatus(
+  from: TicketStatus,
+  to: TicketStatus,
+): boolean {
+  return TICKET_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
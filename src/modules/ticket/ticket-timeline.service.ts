@@ -0,0 +1,145 @@
+import { Injectable } from "@nestjs/common";
+import { InjectModel } from "@nestjs/mongoose";
+import { Model } from "mongoose";
+import {
+  TicketEvent,
+  TicketEventDocument,
+} from "./schemas/ticket-event.schema";
+import {
+  DomainEvent,
+  DomainEventsService,
+} from "../events/domain-events.service";
+import { HookEvent } from "../hooks/schemas/hook.schema";
+
+// events ที่บันทึกลง timeline (message events มีใน collection messages อยู่แล้ว)
+const TIMELINE_EVENTS = new Set<HookEvent>([
+  HookEvent.TICKET_CREATED,
+  HookEvent.TICKET_UPDATED,
+  HookEvent.TICKET_CLOSED,
+  HookEvent.TICKET_REOPENED,
+  HookEvent.TICKET_ASSIGNED,
+  HookEvent.TICKET_SLA_WARNING,
+  HookEvent.TICKET_SLA_BREACHED,
+  HookEvent.USER_MENTIONED,
+  HookEvent.TOPIC_CREATED,
+  HookEvent.TOPIC_LINKED,
+  HookEvent.TOPIC_UNLINKED,
+]);
+
+@Injectable()
+export class TicketTimelineService {
+  constructor(
+    @InjectModel(TicketEvent.name)
+    private ticketEventModel: Model<TicketEventDocument>,
+    private domainEvents: DomainEventsService,
+  ) {
+    // ทุกการเปลี่ยนแปลงจาก TicketService / TopicsService ผ่าน domain events
+    this.domainEvents.subscribe((event) => this.recordEvent(event));
+  }
+
+  async getTimeline(ticketId: string, limit?: number): Promise<TicketEvent[]> {
+    if (limit) {
+      // เอา event ล่าสุด แล้วเรียงจากเก่าไปใหม่
+      const latest = await this.ticketEventModel
+        .find({ ticketId })
+        .sort({ occurredAt: -1 })
+        .limit(limit)
+        .exec();
+      return latest.reverse();
+    }
+
+    return this.ticketEventModel
+      .find({ ticketId })
+      .sort({ occurredAt: 1 })
+      .exec();
+  }
+
+  private async recordEvent(event: DomainEvent): Promise<void> {
+    if (!event.ticketId || !TIMELINE_EVENTS.has(event.event)) return;
+
+    const { changes, details } = this.describe(event);
+    await this.ticketEventModel.create({
+      ticketId: event.ticketId,
+      event: event.event,
+      actorId: event.actor?.id,
+      actorName: event.actor?.firstName || event.actor?.username,
+      source: event.actor?.source || "system",
+      changes,
+      details,
+      occurredAt: event.occurredAt,
+    });
+  }
+
+  // แปลง payload ของ domain event เป็น diff + รายละเอียดที่จำเป็นสำหรับ timeline
+  private describe(event: DomainEvent): {
+    changes?: Record<string, { from: any; to: any }>;
+    details?: Record<string, any>;
+  } {
+    const data = event.data;
+
+    switch (event.event) {
+      case HookEvent.TICKET_CREATED:
+        return {
+          details: {
+            title: data.title,
+            priority: data.priority,
+            groupId: data.groupId,
+          },
+        };
+
+      case HookEvent.TICKET_UPDATED:
+        return {
+          changes: data.changes,
+          details: data.reason ? { reason: data.reason } : undefined,
+        };
+
+      case HookEvent.TICKET_CLOSED:
+      case HookEvent.TICKET_REOPENED:
+        return {
+          changes: { status: { from: data.previousStatus, to: data.status } },
+          details: data.reason ? { reason: data.reason } : undefined,
+        };
+
+      case HookEvent.TICKET_ASSIGNED:
+        return {
+          changes: {
+            assignedTo: {
+              from: data.previousAssignee,
+              to: data.assignee?.telegramId,
+            },
+          },
+          details: { assignee: data.assignee },
+        };
+
+      case HookEvent.TICKET_SLA_WARNING:
+      case HookEvent.TICKET_SLA_BREACHED:
+        return { details: { target: data.target, dueAt: data.dueAt } };
+
+      case HookEvent.USER_MENTIONED:
+        return {
+          details: {
+            mentionedUser: data.mentionedUser,
+            topicId: data.topicId,
+            topicGroupId: data.topicGroupId,
+          },
+        };
+
+      case HookEvent.TOPIC_CREATED:
+        return {
+          details: {
+            topicId: data.topicId,
+            groupId: data.groupId,
+            name: data.name,
+            isPrimary: data.isPrimary,
+          },
+        };
+
+      case HookEvent.TOPIC_LINKED:
+      case HookEvent.TOPIC_UNLINKED:
+        return { details: { topics: data.topics } };
+
+      default:
+        return {};
+    }
+  }
+}
@@ -1,13 +1,25 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Ticket, TicketSchema } from './schemas/ticket.schema';
+import {
+  TicketStatusHistory,
+  TicketStatusHistorySchema,
+} from './schemas/ticket-status-history.schema';
+import { TicketEvent, TicketEventSchema } from './schemas/ticket-event.schema';
 import { TicketService } from './ticket.service';
+import { TicketTimelineService } from './ticket-timeline.service';
+import { EventsModule } from '../events/events.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: Ticket.name, schema: TicketSchema }]),
+    MongooseModule.forFeature([
+      { name: Ticket.name, schema: TicketSchema },
+      { name: TicketStatusHistory.name, schema: TicketStatusHistorySchema },
+      { name: TicketEvent.name, schema: TicketEventSchema },
+    ]),
+    EventsModule,
   ],
-  providers: [TicketService],
-  exports: [TicketService],
+  providers: [TicketService, TicketTimelineService],
+  exports: [TicketService, TicketTimelineService],
 })
 export class TicketModule {}
\ No newline at end of file
@@ -1,16 +1,38 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, BadRequestException } from "@nestjs/common";
 import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
-import { Ticket, TicketDocument, TicketStatus } from "./schemas/ticket.schema";
+import {
+  Ticket,
+  TicketDocument,
+  TicketStatus,
+  TicketSource,
+  SlaTarget,
+} from "./schemas/ticket.schema";
+import {
+  TicketStatusHistory,
+  TicketStatusHistoryDocument,
+} from "./schemas/ticket-status-history.schema";
+import { canTransitionTicketStatus } from "./ticket-status";
 import { v4 as uuidv4 } from "uuid";
+import {
+  DomainEventsService,
+  DomainEventActor,
+} from "../events/domain-events.service";
+import { HookEvent } from "../hooks/schemas/hook.schema";
 
 @Injectable()
 export class TicketService {
   constructor(
     @InjectModel(Ticket.name) private ticketModel: Model<TicketDocument>,
+    @InjectModel(TicketStatusHistory.name)
+    private statusHistoryModel: Model<TicketStatusHistoryDocument>,
+    private domainEvents: DomainEventsService,
   ) {}
 
-  async createTicket(ticketData: Partial<Ticket>): Promise<Ticket> {
+  async createTicket(
+    ticketData: Partial<Ticket>,
+    actor?: DomainEventActor,
+  ): Promise<Ticket> {
     const ticketId = this.generateTicketId();
     const ticket = new this.ticketModel({
       ...ticketData,
@@ -20,7 +42,20 @@ export class TicketService {
       totalMessages: 0,
       lastActivityAt: new Date(),
     });
-    return ticket.save();
+    const savedTicket = await ticket.save();
+
+    this.domainEvents.emit(
+      HookEvent.TICKET_CREATED,
+      this.toEventData(savedTicket),
+      {
+        ticketId,
+        groupId: savedTicket.groupId,
+        ticketStatus: savedTicket.status,
+        actor,
+      },
+    );
+
+    return savedTicket;
   }
 
   async findByTicketId(ticketId: string): Promise<Ticket | null> {
@@ -43,17 +78,405 @@ export class TicketService {
   async updateTicket(
     ticketId: string,
     updateData: Partial<Ticket>,
+    actor?: DomainEventActor,
+  ): Promise<Ticket> {
+    const previous = await this.findByTicketId(ticketId);
+    if (!previous) return previous;
+
+    // สถานะต้องผ่าน state machine เสมอ
+    const { status, ...fields } = updateData;
+    if (status && status !== previous.status) {
+      await this.transitionStatus(ticketId, status, actor);
+    }
+    if (Object.keys(fields).length === 0) {
+      return this.findByTicketId(ticketId);
+    }
+
+    const updatedTicket = await this.applyUpdate(ticketId, fields);
+    if (!updatedTicket) return updatedTicket;
+
+    // เก็บเฉพาะ field ที่เปลี่ยนจริง
+    const changes: Record<string, { from: any; to: any }> = {};
+    for (const field of Object.keys(fields)) {
+      const from = previous[field];
+      const to = updatedTicket[field];
+      if (String(from) !== String(to)) {
+        changes[field] = { from, to };
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      this.domainEvents.emit(
+        HookEvent.TICKET_UPDATED,
+        { ...this.toEventData(updatedTicket), changes },
+        {
+          ticketId,
+          groupId: updatedTicket.groupId,
+          ticketStatus: updatedTicket.status,
+          actor,
+        },
+      );
+    }
+
+    return updatedTicket;
+  }
+
+  // เปลี่ยนสถานะตาม TICKET_STATUS_TRANSITIONS และบันทึกประวัติ
+  // throw BadRequestException ถ้าเปลี่ยนสถานะแบบนี้ไม่ได้
+  async transitionStatus(
+    ticketId: string,
+    toStatus: TicketStatus,
+    actor?: DomainEventActor,
+    reason?: string,
+  ): Promise<Ticket> {
+    const ticket = await this.findByTicketId(ticketId);
+    if (!ticket) return ticket;
+
+    const fromStatus = ticket.status;
+    if (!canTransitionTicketStatus(fromStatus, toStatus)) {
+      throw new BadRequestException(
+        `Cannot change ticket status from ${fromStatus} to ${toStatus}`,
+      );
+    }
+
+    const now = new Date();
+    const isReopen =
+      toStatus === TicketStatus.OPEN &&
+      (fromStatus === TicketStatus.RESOLVED ||
+        fromStatus === TicketStatus.CLOSED);
+
+    const update: Record<string, any> = {
+      status: toStatus,
+      lastActivityAt: now,
+    };
+    if (toStatus === TicketStatus.RESOLVED) update.resolvedAt = now;
+    if (toStatus === TicketStatus.CLOSED) update.closedAt = now;
+    if (isReopen) {
+      update.$unset = { resolvedAt: "", closedAt: "" };
+      update.$inc = { reopenCount: 1 };
+    }
+
+    // เงื่อนไข status เดิม กันการเปลี่ยนสถานะซ้อนกัน
+    const updatedTicket = await this.ticketModel
+      .findOneAndUpdate({ ticketId, status: fromStatus }, update, {
+        new: true,
+      })
+      .exec();
+    if (!updatedTicket) {
+      throw new BadRequestException(
+        `Ticket ${ticketId} status was changed by someone else`,
+      );
+    }
+
+    await this.statusHistoryModel.create({
+      ticketId,
+      fromStatus,
+      toStatus,
+      changedBy: actor?.id,
+      source: actor?.source,
+      reason,
+    });
+
+    const eventOptions = {
+      ticketId,
+      groupId: updatedTicket.groupId,
+      ticketStatus: updatedTicket.status,
+      actor,
+    };
+
+    if (toStatus === TicketStatus.CLOSED) {
+      // ระยะเวลาที่ ticket เปิดอยู่ (ชั่วโมง)
+      const createdAt = new Date((updatedTicket as any).createdAt);
+      const duration = Math.round(
+        (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60),
+      );
+
+      this.domainEvents.emit(
+        HookEvent.TICKET_CLOSED,
+        {
+          ...this.toEventData(updatedTicket),
+          previousStatus: fromStatus,
+          closedAt: now.toISOString(),
+          duration,
+          reason,
+        },
+        eventOptions,
+      );
+    } else if (isReopen) {
+      this.domainEvents.emit(
+        HookEvent.TICKET_REOPENED,
+        {
+          ...this.toEventData(updatedTicket),
+          previousStatus: fromStatus,
+          reopenCount: updatedTicket.reopenCount,
+          reason,
+        },
+        eventOptions,
+      );
+    } else {
+      this.domainEvents.emit(
+        HookEvent.TICKET_UPDATED,
+        {
+          ...this.toEventData(updatedTicket),
+          changes: { status: { from: fromStatus, to: toStatus } },
+          reason,
+        },
+        eventOptions,
+      );
+    }
+
+    return updatedTicket;
+  }
+
+  async closeTicket(
+    ticketId: string,
+    actor?: DomainEventActor,
+  ): Promise<Ticket> {
+    return this.transitionStatus(ticketId, TicketStatus.CLOSED, actor);
+  }
+
+  async reopenTicket(
+    ticketId: string,
+    actor?: DomainEventActor,
+    reason?: string,
+  ): Promise<Ticket> {
+    return this.transitionStatus(ticketId, TicketStatus.OPEN, actor, reason);
+  }
+
+  async getStatusHistory(ticketId: string): Promise<TicketStatusHistory[]> {
+    return this.statusHistoryModel
+      .find({ ticketId })
+      .sort({ createdAt: 1 })
+      .exec();
+  }
+
+  // บันทึกการเชิญ user เข้า ticket (เพิ่ม participant และแจ้ง event)
+  async recordMention(
+    ticketId: string,
+    mentionedUser: {
+      telegramId: string;
+      username?: string;
+      firstName?: string;
+    },
+    topic: { topicId: number; groupId: string },
+    actor?: DomainEventActor,
+  ): Promise<Ticket> {
+    const ticket = await this.addParticipant(
+      ticketId,
+      mentionedUser.telegramId,
+    );
+    if (!ticket) return ticket;
+
+    this.domainEvents.emit(
+      HookEvent.USER_MENTIONED,
+      {
+        ticketId,
+        title: ticket.title,
+        mentionedUser,
+        topicId: topic.topicId,
+        topicGroupId: topic.groupId,
+      },
+      {
+        ticketId,
+        groupId: ticket.groupId,
+        ticketStatus: ticket.status,
+        actor,
+      },
+    );
+
+    return ticket;
+  }
+
+  // มอบหมาย ticket ให้ผู้รับผิดชอบ (ผู้รับผิดชอบจะกลายเป็น participant ด้วย)
+  async assignTicket(
+    ticketId: string,
+    assignee: {
+      telegramId: string;
+      username?: string;
+      firstName?: string;
+    },
+    actor?: DomainEventActor,
+  ): Promise<Ticket> {
+    const previous = await this.findByTicketId(ticketId);
+    if (!previous) return previous;
+
+    const assignedTicket = await this.ticketModel
+      .findOneAndUpdate(
+        { ticketId },
+        {
+          assignedTo: assignee.telegramId,
+          assignedAt: new Date(),
+          assignedBy: actor?.id,
+          $addToSet: { participants: assignee.telegramId },
+          lastActivityAt: new Date(),
+        },
+        { new: true },
+      )
+      .exec();
+
+    this.domainEvents.emit(
+      HookEvent.TICKET_ASSIGNED,
+      {
+        ...this.toEventData(assignedTicket),
+        assignee,
+        previousAssignee: previous.assignedTo || null,
+      },
+      {
+        ticketId,
+        groupId: assignedTicket.groupId,
+        ticketStatus: assignedTicket.status,
+        actor,
+      },
+    );
+
+    return assignedTicket;
+  }
+
+  // ยกเลิกผู้รับผิดชอบ - แจ้งเป็น ticket.updated เพราะไม่มีผู้รับผิดชอบใหม่
+  async unassignTicket(
+    ticketId: string,
+    actor?: DomainEventActor,
+  ): Promise<Ticket> {
+    const previous = await this.findByTicketId(ticketId);
+    if (!previous?.assignedTo) return previous;
+
+    const unassignedTicket = await this.ticketModel
+      .findOneAndUpdate(
+        { ticketId },
+        { $unset: { assignedTo: "", assignedAt: "", assignedBy: "" } },
+        { new: true },
+      )
+      .exec();
+
+    this.domainEvents.emit(
+      HookEvent.TICKET_UPDATED,
+      {
+        ...this.toEventData(unassignedTicket),
+        changes: { assignedTo: { from: previous.assignedTo, to: null } },
+      },
+      {
+        ticketId,
+        groupId: unassignedTicket.groupId,
+        ticketStatus: unassignedTicket.status,
+        actor,
+      },
+    );
+
+    return unassignedTicket;
+  }
+
+  // tickets ที่ยังไม่ปิดซึ่ง user เป็นผู้รับผิดชอบ
+  async findAssignedTickets(telegramId: string): Promise<Ticket[]> {
+    return this.ticketModel
+      .find({ assignedTo: telegramId, status: { $ne: TicketStatus.CLOSED } })
+      .sort({ lastActivityAt: -1 })
+      .exec();
+  }
+
+  // ticket ล่าสุดที่ยังไม่ปิดของลูกค้าที่ติดต่อผ่านแชทส่วนตัว
+  async findActiveCustomerTicket(
+    customerChatId: string,
+  ): Promise<Ticket | null> {
+    return this.ticketModel
+      .findOne({
+        source: TicketSource.PRIVATE_CHAT,
+        customerChatId,
+        status: { $ne: TicketStatus.CLOSED },
+      })
+      .sort({ lastActivityAt: -1 })
+      .exec();
+  }
+
+  // ตั้งกำหนดเวลา SLA ใหม่ (undefined = ไม่มี policy) และล้างการแจ้งเตือนเดิม
+  async setSlaDeadlines(
+    ticketId: string,
+    deadlines: { firstResponseDueAt?: Date; slaDueAt?: Date },
+  ): Promise<Ticket> {
+    const $set: Record<string, any> = { slaWarnings: [] };
+    const $unset: Record<string, any> = {};
+
+    for (const field of ["firstResponseDueAt", "slaDueAt"]) {
+      if (deadlines[field]) {
+        $set[field] = deadlines[field];
+      } else {
+        $unset[field] = "";
+      }
+    }
+
+    return this.ticketModel
+      .findOneAndUpdate({ ticketId }, { $set, $unset }, { new: true })
+      .exec();
+  }
+
+  // บันทึกเวลาตอบกลับครั้งแรก - คืน null ถ้าเคยบันทึกไปแล้ว
+  async recordFirstResponse(
+    ticketId: string,
+    respondedAt: Date,
+  ): Promise<Ticket | null> {
+    return this.ticketModel
+      .findOneAndUpdate(
+        { ticketId, firstResponseAt: { $exists: false } },
+        { firstResponseAt: respondedAt },
+        { new: true },
+      )
+      .exec();
+  }
+
+  // tickets ที่ยังไม่ปิดและยังมีกำหนด SLA ที่ต้องติดตาม
+  async findTicketsWithPendingSla(): Promise<Ticket[]> {
+    return this.ticketModel
+      .find({
+        status: { $nin: [TicketStatus.RESOLVED, TicketStatus.CLOSED] },
+        $or: [
+          {
+            firstResponseDueAt: { $exists: true },
+            firstResponseAt: { $exists: false },
+            slaBreaches: { $ne: SlaTarget.FIRST_RESPONSE },
+          },
+          {
+            slaDueAt: { $exists: true },
+            slaBreaches: { $ne: SlaTarget.RESOLUTION },
+          },
+        ],
+      })
+      .exec();
+  }
+
+  // ทำเครื่องหมายแจ้งเตือน/เกินกำหนด - คืน null ถ้าเคยทำไปแล้ว (กันแจ้งซ้ำ)
+  async markSla(
+    ticketId: string,
+    field: "slaWarnings" | "slaBreaches",
+    target: SlaTarget,
+  ): Promise<Ticket | null> {
+    return this.ticketModel
+      .findOneAndUpdate(
+        { ticketId, [field]: { $ne: target } },
+        { $addToSet: { [field]: target } },
+        { new: true },
+      )
+      .exec();
+  }
+
+  private async applyUpdate(
+    ticketId: string,
+    updateData: Partial<Ticket>,
   ): Promise<Ticket> {
     return this.ticketModel
       .findOneAndUpdate({ ticketId }, updateData, { new: true })
       .exec();
   }
 
-  async closeTicket(ticketId: string): Promise<Ticket> {
-    return this.updateTicket(ticketId, {
-      status: TicketStatus.CLOSED,
-      closedAt: new Date(),
-    });
+  private toEventData(ticket: Ticket): Record<string, any> {
+    return {
+      ticketId: ticket.ticketId,
+      title: ticket.title,
+      description: ticket.description,
+      status: ticket.status,
+      priority: ticket.priority,
+      groupId: ticket.groupId,
+      createdBy: ticket.createdBy,
+      assignedTo: ticket.assignedTo,
+    };
   }
 
   // เปลี่ยนจาก linkTicketToTopic เป็น addTopicToTicket
@@ -77,6 +500,22 @@ export class TicketService {
       .exec();
   }
 
+  // อัปเดตชื่อ topic ที่เก็บไว้ใน ticket
+  async updateTopicName(
+    ticketId: string,
+    topicId: number,
+    groupId: string,
+    name: string,
+  ): Promise<Ticket> {
+    return this.ticketModel
+      .findOneAndUpdate(
+        { ticketId, topics: { $elemMatch: { topicId, groupId } } },
+        { $set: { "topics.$.name": name } },
+        { new: true },
+      )
+      .exec();
+  }
+
   // ลบ topic ออกจาก ticket
   async removeTopicFromTicket(
     ticketId: string,
@@ -170,6 +609,47 @@ export class TicketService {
       .exec();
   }
 
+  // ค้นหา ticket ด้วย text index (title/description) เรียงตามคะแนนความเกี่ยวข้อง
+  async searchTickets(
+    query: string,
+    filters: {
+      groupId?: string;
+      ticketId?: string;
+      createdBy?: string;
+      from?: Date;
+      to?: Date;
+    },
+    limit: number = 20,
+    offset: number = 0,
+  ): Promise<{ items: Ticket[]; total: number }> {
+    const filter: any = { $text: { $search: query } };
+    if (filters.groupId) {
+      filter.$or = [
+        { groupId: filters.groupId },
+        { "topics.groupId": filters.groupId },
+      ];
+    }
+    if (filters.ticketId) filter.ticketId = filters.ticketId;
+    if (filters.createdBy) filter.createdBy = filters.createdBy;
+    if (filters.from || filters.to) {
+      filter.createdAt = {};
+      if (filters.from) filter.createdAt.$gte = filters.from;
+      if (filters.to) filter.createdAt.$lte = filters.to;
+    }
+
+    const [items, total] = await Promise.all([
+      this.ticketModel
+        .find(filter, { score: { $meta: "textScore" } })
+        .sort({ score: { $meta: "textScore" }, lastActivityAt: -1 })
+        .skip(offset)
+        .limit(limit)
+        .exec(),
+      this.ticketModel.countDocuments(filter).exec(),
+    ]);
+
+    return { items, total };
+  }
+
   async countWithFilters(filter: any): Promise<number> {
     return this.ticketModel.countDocuments(filter).exec();
   }
@@ -38,6 +38,9 @@ export class Topic {
   @Prop()
   lastMessageAt?: Date;
 
+  @Prop()
+  closedAt?: Date; // เวลาที่ topic ถูกปิดพร้อม ticket (ใช้นับ retention)
+
   // Timestamps added by mongoose when timestamps: true
   createdAt?: Date;
   updatedAt?: Date;
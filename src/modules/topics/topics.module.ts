@@ -3,11 +3,13 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { Topic, TopicSchema } from './schemas/topic.schema';
 import { TopicsService } from './topics.service';
 import { TicketModule } from '../ticket/ticket.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: Topic.name, schema: TopicSchema }]),
     forwardRef(() => TicketModule),
+    EventsModule,
   ],
   providers: [TopicsService],
   exports: [TopicsService],
@@ -3,6 +3,11 @@ import { InjectModel } from "@nestjs/mongoose";
 import { Model } from "mongoose";
 import { Topic, TopicDocument } from "./schemas/topic.schema";
 import { TicketService } from "../ticket/ticket.service";
+import {
+  DomainEventsService,
+  DomainEventActor,
+} from "../events/domain-events.service";
+import { HookEvent } from "../hooks/schemas/hook.schema";
 
 @Injectable()
 export class TopicsService {
@@ -11,9 +16,13 @@ export class TopicsService {
   constructor(
     @InjectModel(Topic.name) private topicModel: Model<TopicDocument>,
     private ticketService: TicketService,
+    private domainEvents: DomainEventsService,
   ) {}
 
-  async createTopic(topicData: Partial<Topic>): Promise<Topic> {
+  async createTopic(
+    topicData: Partial<Topic>,
+    actor?: DomainEventActor,
+  ): Promise<Topic> {
     // ตรวจสอบว่า ticketId ต้องมี
     if (!topicData.ticketId) {
       throw new Error("ticketId is required for creating topic");
@@ -30,6 +39,19 @@ export class TopicsService {
       isPrimary: topicData.isPrimary || false,
     });
 
+    this.domainEvents.emit(
+      HookEvent.TOPIC_CREATED,
+      {
+        ticketId: savedTopic.ticketId,
+        topicId: savedTopic.telegramTopicId,
+        groupId: savedTopic.groupId,
+        name: savedTopic.name,
+        isPrimary: savedTopic.isPrimary,
+        createdBy: savedTopic.createdBy,
+      },
+      { ticketId: savedTopic.ticketId, groupId: savedTopic.groupId, actor },
+    );
+
     return savedTopic;
   }
 
@@ -52,6 +74,7 @@ export class TopicsService {
     topicId1: number,
     topicId2: number,
     groupId: string,
+    actor?: DomainEventActor,
   ): Promise<void> {
     // สำหรับ cross-group support: ต้องหา topic แต่ละตัวใน group ที่ถูกต้อง
     this.logger.log(
@@ -109,12 +132,25 @@ export class TopicsService {
       .exec();
 
     this.logger.log(`  ✅ Topics linked successfully`);
+
+    this.domainEvents.emit(
+      HookEvent.TOPIC_LINKED,
+      {
+        ticketId: topic1.ticketId,
+        topics: [
+          { topicId: topicId1, groupId: topic1.groupId, name: topic1.name },
+          { topicId: topicId2, groupId: topic2.groupId, name: topic2.name },
+        ],
+      },
+      { ticketId: topic1.ticketId, groupId: topic1.groupId, actor },
+    );
   }
 
   async unlinkTopics(
     topicId1: number,
     topicId2: number,
     groupId: string,
+    actor?: DomainEventActor,
   ): Promise<void> {
     // สำหรับ cross-group support: ต้องหา topic แต่ละตัวใน group ที่ถูกต้อง
     this.logger.log(
@@ -172,6 +208,18 @@ export class TopicsService {
       .exec();
 
     this.logger.log(`  ✅ Topics unlinked successfully`);
+
+    this.domainEvents.emit(
+      HookEvent.TOPIC_UNLINKED,
+      {
+        ticketId: topic1.ticketId,
+        topics: [
+          { topicId: topicId1, groupId: topic1.groupId, name: topic1.name },
+          { topicId: topicId2, groupId: topic2.groupId, name: topic2.name },
+        ],
+      },
+      { ticketId: topic1.ticketId, groupId: topic1.groupId, actor },
+    );
   }
 
   // เปลี่ยน getLinkedTopics ให้ใช้ ticket เป็นตัวกลาง
@@ -250,12 +298,36 @@ export class TopicsService {
     return this.topicModel
       .findOneAndUpdate(
         { telegramTopicId, groupId },
-        { isActive: false },
+        { isActive: false, closedAt: new Date() },
         { new: true },
       )
       .exec();
   }
 
+  // topics ที่ถูกปิดก่อนเวลาที่กำหนด (สำหรับ retention job)
+  async findClosedTopicsBefore(
+    groupId: string,
+    before: Date,
+  ): Promise<Topic[]> {
+    return this.topicModel
+      .find({ groupId, isActive: false, closedAt: { $lte: before } })
+      .exec();
+  }
+
+  // ลบ topic ออกจาก ticket และ database แม้ topic document จะถูกลบไปก่อนแล้ว
+  async detachTopic(
+    ticketId: string,
+    telegramTopicId: number,
+    groupId: string,
+  ): Promise<void> {
+    await this.ticketService.removeTopicFromTicket(
+      ticketId,
+      telegramTopicId,
+      groupId,
+    );
+    await this.deleteTopic(telegramTopicId, groupId);
+  }
+
   async findByTelegramTopicIdGlobal(telegramTopicId: number): Promise<Topic[]> {
     return this.topicModel.find({ telegramTopicId }).exec();
   }
@@ -400,7 +472,10 @@ export class TopicsService {
   ): Promise<void> {
     try {
       await this.topicModel
-        .updateOne({ telegramTopicId, groupId }, { isActive })
+        .updateOne(
+          { telegramTopicId, groupId },
+          isActive ? { isActive, $unset: { closedAt: "" } } : { isActive },
+        )
         .exec();
 
       this.logger.log(
@@ -414,6 +489,26 @@ export class TopicsService {
     }
   }
 
+  // เปลี่ยนชื่อ topic ทั้งใน collection topics และใน ticket
+  async renameTopic(
+    telegramTopicId: number,
+    groupId: string,
+    name: string,
+  ): Promise<void> {
+    const topic = await this.topicModel
+      .findOneAndUpdate({ telegramTopicId, groupId }, { name })
+      .exec();
+
+    if (topic?.ticketId) {
+      await this.ticketService.updateTopicName(
+        topic.ticketId,
+        telegramTopicId,
+        groupId,
+        name,
+      );
+    }
+  }
+
   // เพิ่ม method สำหรับเพิ่ม topic ใหม่เข้า ticket ที่มีอยู่
   async addTopicToExistingTicket(
     ticketId: string,
@@ -423,12 +518,16 @@ export class TopicsService {
       groupId: string;
       createdBy?: string;
     },
+    actor?: DomainEventActor,
   ): Promise<Topic> {
-    const topic = await this.createTopic({
-      ...topicData,
-      ticketId,
-      isPrimary: false,
-    });
+    const topic = await this.createTopic(
+      {
+        ...topicData,
+        ticketId,
+        isPrimary: false,
+      },
+      actor,
+    );
 
     return topic;
   }
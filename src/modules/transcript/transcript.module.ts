@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { TranscriptService } from "./transcript.service";
+import { TicketModule } from "../ticket/ticket.module";
+import { MessagesModule } from "../messages/messages.module";
+import { AttachmentsModule } from "../attachments/attachments.module";
+
+@Module({
+  imports: [TicketModule, MessagesModule, AttachmentsModule],
+  providers: [TranscriptService],
+  exports: [TranscriptService],
+})
+export class TranscriptModule {}
@@ -0,0 +1,354 @@
+import { Injectable } from "@nestjs/common";
+import { TicketService } from "../ticket/ticket.service";
+import { Ticket } from "../ticket/schemas/ticket.schema";
+import { MessagesService } from "../messages/messages.service";
+import { Message } from "../messages/schemas/message.schema";
+import { AttachmentsService } from "../attachments/attachments.service";
+import { Attachment } from "../attachments/schemas/attachment.schema";
+
+export enum TranscriptFormat {
+  HTML = "html",
+  MARKDOWN = "md",
+  JSON = "json",
+}
+
+export interface TranscriptFile {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+interface TranscriptAttachment {
+  fileName: string;
+  fileType: string;
+  mimeType?: string;
+  fileSize: number;
+  link?: string; // signed URL ของไฟล์ที่เก็บไว้แล้ว
+}
+
+interface TranscriptEntry {
+  messageId: number;
+  groupId: string;
+  topicId: number;
+  topicName?: string;
+  sentAt: Date;
+  sender: string;
+  messageType: string;
+  text?: string;
+  replyTo?: { messageId: number; sender?: string; text?: string };
+  forward?: {
+    fromChatId?: string;
+    fromMessageId?: number;
+    fromSender?: string;
+    date?: Date;
+  };
+  isEdited: boolean;
+  editedAt?: Date;
+  isDeleted: boolean;
+  attachments: TranscriptAttachment[];
+}
+
+// สร้างไฟล์บทสนทนาของ ticket จากข้อความในทุก topic ที่เชื่อมโยงกัน
+@Injectable()
+export class TranscriptService {
+  constructor(
+    private ticketService: TicketService,
+    private messagesService: MessagesService,
+    private attachmentsService: AttachmentsService,
+  ) {}
+
+  async buildTranscript(
+    ticketId: string,
+    format: TranscriptFormat,
+  ): Promise<TranscriptFile | null> {
+    const ticket = await this.ticketService.findByTicketId(ticketId);
+    if (!ticket) return null;
+
+    const entries = await this.collectEntries(ticket);
+    const baseName = `${ticket.ticketId}-transcript`;
+
+    switch (format) {
+      case TranscriptFormat.JSON:
+        return {
+          fileName: `${baseName}.json`,
+          contentType: "application/json",
+          content: JSON.stringify(
+            {
+              ticket: this.summarizeTicket(ticket),
+              exportedAt: new Date().toISOString(),
+              messages: entries,
+            },
+            null,
+            2,
+          ),
+        };
+      case TranscriptFormat.MARKDOWN:
+        return {
+          fileName: `${baseName}.md`,
+          contentType: "text/markdown; charset=utf-8",
+          content: this.renderMarkdown(ticket, entries),
+        };
+      default:
+        return {
+          fileName: `${baseName}.html`,
+          contentType: "text/html; charset=utf-8",
+          content: this.renderHtml(ticket, entries),
+        };
+    }
+  }
+
+  private async collectEntries(ticket: Ticket): Promise<TranscriptEntry[]> {
+    const [messages, attachments] = await Promise.all([
+      this.messagesService.findAllByTicketId(ticket.ticketId),
+      this.attachmentsService.findByTicketId(ticket.ticketId),
+    ]);
+
+    const attachmentsById = new Map<string, Attachment>(
+      attachments.map((a) => [(a as any)._id.toString(), a]),
+    );
+    const topicNames = new Map<string, string>(
+      ticket.topics.map((t) => [`${t.groupId}:${t.topicId}`, t.name]),
+    );
+
+    return messages.map((message) =>
+      this.toEntry(
+        message,
+        topicNames.get(`${message.groupId}:${message.topicId}`),
+        this.findAttachments(message, attachments, attachmentsById),
+      ),
+    );
+  }
+
+  // ใช้ attachmentIds ของข้อความก่อน ถ้าไม่มีให้จับคู่จาก message_id ใน topic เดียวกัน
+  private findAttachments(
+    message: Message,
+    attachments: Attachment[],
+    attachmentsById: Map<string, Attachment>,
+  ): Attachment[] {
+    if (message.attachmentIds?.length > 0) {
+      return message.attachmentIds
+        .map((id) => attachmentsById.get(id))
+        .filter(Boolean);
+    }
+    if (!message.hasAttachments) return [];
+
+    return attachments.filter(
+      (a) =>
+        a.messageId === message.telegramMessageId &&
+        a.groupId === message.groupId &&
+        a.topicId === message.topicId,
+    );
+  }
+
+  private toEntry(
+    message: Message,
+    topicName: string | undefined,
+    attachments: Attachment[],
+  ): TranscriptEntry {
+    const sender =
+      [message.senderFirstName, message.senderLastName]
+        .filter(Boolean)
+        .join(" ") ||
+      (message.senderUsername ? `@${message.senderUsername}` : "") ||
+      message.senderId;
+
+    return {
+      messageId: message.telegramMessageId,
+      groupId: message.groupId,
+      topicId: message.topicId,
+      topicName,
+      sentAt: (message as any).createdAt,
+      sender,
+      messageType: message.messageType,
+      text: message.text || message.caption,
+      replyTo: message.replyToMessageId
+        ? {
+            messageId: message.replyToMessageId,
+            sender: message.replyToSender,
+            text: message.replyToText,
+          }
+        : undefined,
+      forward:
+        message.forwardFromChatId || message.forwardFromSender
+          ? {
+              fromChatId: message.forwardFromChatId,
+              fromMessageId: message.forwardFromMessageId,
+              fromSender: message.forwardFromSender,
+              date: message.forwardDate,
+            }
+          : undefined,
+      isEdited: message.isEdited,
+      editedAt: message.editDate,
+      isDeleted: message.isDeleted,
+      attachments: attachments.map((a) => ({
+        fileName: a.fileName,
+        fileType: a.fileType,
+        mimeType: a.mimeType,
+        fileSize: a.fileSize,
+        link: a.isDownloaded
+          ? this.attachmentsService.createSignedDownloadUrl(
+              (a as any)._id.toString(),
+            ).url
+          : undefined,
+      })),
+    };
+  }
+
+  private summarizeTicket(ticket: Ticket): Record<string, any> {
+    return {
+      ticketId: ticket.ticketId,
+      title: ticket.title,
+      description: ticket.description,
+      status: ticket.status,
+      priority: ticket.priority,
+      groupId: ticket.groupId,
+      createdBy: ticket.createdBy,
+      assignedTo: ticket.assignedTo,
+      createdAt: (ticket as any).createdAt,
+      closedAt: ticket.closedAt,
+      topics: ticket.topics.map((t) => ({
+        topicId: t.topicId,
+        groupId: t.groupId,
+        name: t.name,
+        isPrimary: t.isPrimary,
+      })),
+    };
+  }
+
+  private formatDate(date?: Date): string {
+    return date
+      ? new Date(date).toISOString().replace("T", " ").slice(0, 19)
+      : "";
+  }
+
+  private formatFlags(entry: TranscriptEntry): string[] {
+    const flags: string[] = [];
+    if (entry.isEdited) {
+      flags.push(
+        `edited${entry.editedAt ? " " + this.formatDate(entry.editedAt) : ""}`,
+      );
+    }
+    if (entry.isDeleted) flags.push("deleted");
+    return flags;
+  }
+
+  private renderMarkdown(ticket: Ticket, entries: TranscriptEntry[]): string {
+    const lines: string[] = [
+      `# ${ticket.ticketId}: ${ticket.title}`,
+      "",
+      `- Status: ${ticket.status}`,
+      `- Priority: ${ticket.priority}`,
+      `- Created: ${this.formatDate((ticket as any).createdAt)}`,
+      `- Exported: ${this.formatDate(new Date())}`,
+      `- Messages: ${entries.length}`,
+      "",
+    ];
+    if (ticket.description) lines.push(ticket.description, "");
+    lines.push("---", "");
+
+    for (const entry of entries) {
+      const flags = this.formatFlags(entry);
+      lines.push(
+        `### ${entry.sender} · ${this.formatDate(entry.sentAt)}` +
+          (entry.topicName ? ` · ${entry.topicName}` : "") +
+          (flags.length > 0 ? ` _(${flags.join(", ")})_` : ""),
+        "",
+      );
+
+      if (entry.forward) {
+        lines.push(
+          `> ↪️ Forwarded from ${entry.forward.fromSender || entry.forward.fromChatId}`,
+          "",
+        );
+      }
+      if (entry.replyTo) {
+        lines.push(
+          `> 💬 Reply to ${entry.replyTo.sender || "message " + entry.replyTo.messageId}` +
+            (entry.replyTo.text
+              ? `: ${entry.replyTo.text.replace(/\n/g, " ")}`
+              : ""),
+          "",
+        );
+      }
+      if (entry.text) lines.push(entry.text, "");
+      for (const attachment of entry.attachments) {
+        lines.push(
+          attachment.link
+            ? `📎 [${attachment.fileName}](${encodeURI(attachment.link)})`
+            : `📎 ${attachment.fileName} (not downloaded)`,
+        );
+      }
+      if (entry.attachments.length > 0) lines.push("");
+    }
+
+    return lines.join("\n");
+  }
+
+  private renderHtml(ticket: Ticket, entries: TranscriptEntry[]): string {
+    const escape = (value?: string) =>
+      (value || "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+    const items = entries.map((entry) => {
+      const flags = this.formatFlags(entry);
+      const parts: string[] = [
+        `<div class="meta"><strong>${escape(entry.sender)}</strong> · ${this.formatDate(entry.sentAt)}` +
+          (entry.topicName ? ` · ${escape(entry.topicName)}` : "") +
+          (flags.length > 0 ? ` <em>(${flags.join(", ")})</em>` : "") +
+          `</div>`,
+      ];
+
+      if (entry.forward) {
+        parts.push(
+          `<div class="forward">↪️ Forwarded from ${escape(entry.forward.fromSender || entry.forward.fromChatId)}</div>`,
+        );
+      }
+      if (entry.replyTo) {
+        parts.push(
+          `<blockquote>💬 ${escape(entry.replyTo.sender || "message " + entry.replyTo.messageId)}` +
+            (entry.replyTo.text ? `: ${escape(entry.replyTo.text)}` : "") +
+            `</blockquote>`,
+        );
+      }
+      if (entry.text) {
+        parts.push(`<div class="text">${escape(entry.text)}</div>`);
+      }
+      for (const attachment of entry.attachments) {
+        parts.push(
+          attachment.link
+            ? `<div class="attachment">📎 <a href="${escape(encodeURI(attachment.link))}">${escape(attachment.fileName)}</a></div>`
+            : `<div class="attachment">📎 ${escape(attachment.fileName)} (not downloaded)</div>`,
+        );
+      }
+
+      return `<div class="message${entry.isDeleted ? " deleted" : ""}">${parts.join("")}</div>`;
+    });
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escape(ticket.ticketId)} - ${escape(ticket.title)}</title>
+<style>
+body { font-family: sans-serif; max-width: 800px; margin: 2em auto; }
+.message { border-bottom: 1px solid #ddd; padding: 0.5em 0; }
+.message.deleted { opacity: 0.5; }
+.meta { color: #555; font-size: 0.9em; }
+.text { white-space: pre-wrap; margin-top: 0.3em; }
+blockquote { border-left: 3px solid #ccc; margin: 0.3em 0; padding-left: 0.5em; color: #666; }
+.forward { color: #666; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${escape(ticket.ticketId)}: ${escape(ticket.title)}</h1>
+<p>Status: ${escape(ticket.status)} · Priority: ${escape(ticket.priority)} · Created: ${this.formatDate((ticket as any).createdAt)} · Exported: ${this.formatDate(new Date())}</p>
+${ticket.description ? `<p>${escape(ticket.description)}</p>` : ""}
+${items.join("\n")}
+</body>
+</html>
+`;
+  }
+}
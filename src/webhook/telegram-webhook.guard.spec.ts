@@ -0,0 +1,112 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import {
+  TELEGRAM_SECRET_HEADER,
+  TelegramWebhookGuard,
+} from "./telegram-webhook.guard";
+import { WebhookRejectionReason, WebhookService } from "./webhook.service";
+
+describe("TelegramWebhookGuard", () => {
+  let recordRejection: jest.Mock;
+
+  const createGuard = (secret?: string, allowedIps: string[] = []) => {
+    const config: Record<string, unknown> = {
+      "telegram.webhookSecret": secret,
+      "telegram.webhookAllowedIps": allowedIps,
+    };
+    recordRejection = jest.fn();
+    return new TelegramWebhookGuard(
+      { get: (key: string) => config[key] } as ConfigService,
+      { recordRejection } as unknown as WebhookService,
+    );
+  };
+
+  const contextFor = (ip: string, headers: Record<string, string> = {}) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ ip, headers }) }),
+    }) as ExecutionContext;
+
+  describe("secret token", () => {
+    const guard = () => createGuard("s3cret");
+
+    it("accepts the configured secret", () => {
+      expect(
+        guard().canActivate(
+          contextFor("1.2.3.4", { [TELEGRAM_SECRET_HEADER]: "s3cret" }),
+        ),
+      ).toBe(true);
+    });
+
+    it("rejects a request without the secret header", () => {
+      const g = guard();
+
+      expect(() => g.canActivate(contextFor("1.2.3.4"))).toThrow(
+        UnauthorizedException,
+      );
+      expect(recordRejection).toHaveBeenCalledWith(
+        WebhookRejectionReason.MISSING_SECRET,
+        "1.2.3.4",
+      );
+    });
+
+    it.each(["wrong!", "s3cre", "s3cret-and-more"])(
+      "rejects the secret %p",
+      (token) => {
+        const g = guard();
+
+        expect(() =>
+          g.canActivate(
+            contextFor("1.2.3.4", { [TELEGRAM_SECRET_HEADER]: token }),
+          ),
+        ).toThrow(UnauthorizedException);
+        expect(recordRejection).toHaveBeenCalledWith(
+          WebhookRejectionReason.INVALID_SECRET,
+          "1.2.3.4",
+        );
+      },
+    );
+
+    it("lets every request through when no secret is configured", () => {
+      expect(createGuard().canActivate(contextFor("1.2.3.4"))).toBe(true);
+    });
+  });
+
+  describe("IP allowlist", () => {
+    const guard = () =>
+      createGuard(undefined, ["149.154.160.0/20", "91.108.4.0/22", "::1"]);
+
+    it.each(["149.154.167.50", "91.108.6.1", "::1"])("allows %s", (ip) => {
+      expect(guard().canActivate(contextFor(ip))).toBe(true);
+    });
+
+    it("treats IPv4-mapped IPv6 addresses as IPv4", () => {
+      expect(guard().canActivate(contextFor("::ffff:149.154.167.50"))).toBe(
+        true,
+      );
+    });
+
+    it.each(["10.0.0.1", "149.154.176.1", "::2"])("blocks %s", (ip) => {
+      const g = guard();
+
+      expect(() => g.canActivate(contextFor(ip))).toThrow(ForbiddenException);
+      expect(recordRejection).toHaveBeenCalledWith(
+        WebhookRejectionReason.IP_NOT_ALLOWED,
+        ip,
+      );
+    });
+
+    it("checks the IP before the secret", () => {
+      const g = createGuard("s3cret", ["149.154.160.0/20"]);
+
+      expect(() =>
+        g.canActivate(
+          contextFor("10.0.0.1", { [TELEGRAM_SECRET_HEADER]: "s3cret" }),
+        ),
+      ).toThrow(ForbiddenException);
+    });
+  });
+});
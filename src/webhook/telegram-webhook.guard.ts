@@ -0,0 +1,96 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as crypto from "crypto";
+import { BlockList, isIPv4, isIPv6 } from "net";
+import { WebhookRejectionReason, WebhookService } from "./webhook.service";
+
+export const TELEGRAM_SECRET_HEADER = "x-telegram-bot-api-secret-token";
+
+// ตรวจว่า request ที่เข้ามาที่ webhook มาจาก Telegram จริง
+@Injectable()
+export class TelegramWebhookGuard implements CanActivate {
+  private readonly secret?: string;
+  private readonly allowedIps: BlockList | null = null;
+
+  constructor(
+    private configService: ConfigService,
+    private webhookService: WebhookService,
+  ) {
+    this.secret = this.configService.get<string>("telegram.webhookSecret");
+
+    const ranges =
+      this.configService.get<string[]>("telegram.webhookAllowedIps") || [];
+    if (ranges.length > 0) {
+      this.allowedIps = new BlockList();
+      for (const range of ranges) {
+        const [address, prefix] = range.split("/");
+        const type = isIPv6(address) ? "ipv6" : "ipv4";
+        if (prefix) {
+          this.allowedIps.addSubnet(address, parseInt(prefix, 10), type);
+        } else {
+          this.allowedIps.addAddress(address, type);
+        }
+      }
+    }
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const ip = this.normalizeIp(request.ip || request.socket?.remoteAddress);
+
+    if (this.allowedIps && !this.isAllowedIp(ip)) {
+      this.webhookService.recordRejection(
+        WebhookRejectionReason.IP_NOT_ALLOWED,
+        ip,
+      );
+      throw new ForbiddenException("IP address not allowed");
+    }
+
+    if (!this.secret) return true;
+
+    const token = request.headers[TELEGRAM_SECRET_HEADER];
+    if (!token) {
+      this.webhookService.recordRejection(
+        WebhookRejectionReason.MISSING_SECRET,
+        ip,
+      );
+      throw new UnauthorizedException("Missing webhook secret token");
+    }
+    if (!this.matchesSecret(String(token))) {
+      this.webhookService.recordRejection(
+        WebhookRejectionReason.INVALID_SECRET,
+        ip,
+      );
+      throw new UnauthorizedException("Invalid webhook secret token");
+    }
+
+    return true;
+  }
+
+  private isAllowedIp(ip?: string): boolean {
+    if (!ip) return false;
+    if (isIPv4(ip)) return this.allowedIps.check(ip, "ipv4");
+    if (isIPv6(ip)) return this.allowedIps.check(ip, "ipv6");
+    return false;
+  }
+
+  // Express ให้ IPv4 ในรูป IPv4-mapped IPv6 (::ffff:1.2.3.4) เมื่อฟังบน dual-stack
+  private normalizeIp(ip?: string): string | undefined {
+    return ip?.startsWith("::ffff:") ? ip.substring(7) : ip;
+  }
+
+  private matchesSecret(token: string): boolean {
+    const expected = Buffer.from(this.secret);
+    const actual = Buffer.from(token);
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+}
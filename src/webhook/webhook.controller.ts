@@ -1,5 +1,6 @@
-import { Body, Controller, Get, Post } from "@nestjs/common";
+import { Body, Controller, Get, Post, UseGuards } from "@nestjs/common";
 import { WebhookService } from "./webhook.service";
+import { TelegramWebhookGuard } from "./telegram-webhook.guard";
 
 @Controller("webhook")
 export class WebhookController {
@@ -7,10 +8,15 @@ export class WebhookController {
 
   @Get("telegram")
   healthCheck() {
-    return { status: "ok", message: "Telegram webhook is ready" };
+    return {
+      status: "ok",
+      message: "Telegram webhook is ready",
+      ...this.webhookService.getHealth(),
+    };
   }
 
   @Post("telegram")
+  @UseGuards(TelegramWebhookGuard)
   async handleTelegramWebhook(@Body() body: any) {
     await this.webhookService.processUpdate(body);
     return { status: "ok" };
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { WebhookController } from './webhook.controller';
 import { WebhookService } from './webhook.service';
 import { BotModule } from '../modules/bot/bot.module';
+import { TelegramSenderModule } from '../modules/telegram-sender/telegram-sender.module';
 
 @Module({
-  imports: [BotModule],
+  imports: [BotModule, TelegramSenderModule],
   controllers: [WebhookController],
   providers: [WebhookService],
   exports: [WebhookService],
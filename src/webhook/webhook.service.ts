@@ -1,11 +1,40 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { BotService } from '../modules/bot/bot.service';
+import { TelegramPollingService } from '../modules/bot/telegram-polling.service';
+import { TelegramSenderService } from '../modules/telegram-sender/telegram-sender.service';
+
+export enum WebhookRejectionReason {
+  MISSING_SECRET = 'missing_secret',
+  INVALID_SECRET = 'invalid_secret',
+  IP_NOT_ALLOWED = 'ip_not_allowed',
+}
 
 @Injectable()
 export class WebhookService {
   private readonly logger = new Logger(WebhookService.name);
+  private readonly rejections: Record<WebhookRejectionReason, number> = {
+    [WebhookRejectionReason.MISSING_SECRET]: 0,
+    [WebhookRejectionReason.INVALID_SECRET]: 0,
+    [WebhookRejectionReason.IP_NOT_ALLOWED]: 0,
+  };
+  private lastRejectedAt?: Date;
+
+  constructor(
+    private botService: BotService,
+    private pollingService: TelegramPollingService,
+    private telegramSender: TelegramSenderService,
+  ) {}
 
-  constructor(private botService: BotService) {}
+  // สถานะสำหรับ health check: โหมดรับ update, คิวข้อความขาออก และ request ที่ถูกปฏิเสธ
+  getHealth() {
+    const mode = this.botService.getMode();
+    return {
+      mode,
+      polling: mode === 'polling' ? this.pollingService.getStatus() : undefined,
+      outbound: this.telegramSender.getStats(),
+      rejectedRequests: this.getRejectionStats(),
+    };
+  }
 
   async processUpdate(body: any) {
     try {
@@ -15,4 +44,21 @@ export class WebhookService {
       throw error;
     }
   }
+
+  // นับ request ที่ถูก TelegramWebhookGuard ปฏิเสธ (ต่อ instance)
+  recordRejection(reason: WebhookRejectionReason, ip?: string) {
+    this.rejections[reason]++;
+    this.lastRejectedAt = new Date();
+    this.logger.warn(
+      `[${new Date().toISOString()}] Rejected webhook request from ${ip || 'unknown'}: ${reason} (total ${this.rejections[reason]})`,
+    );
+  }
+
+  getRejectionStats() {
+    return {
+      total: Object.values(this.rejections).reduce((sum, n) => sum + n, 0),
+      byReason: { ...this.rejections },
+      lastRejectedAt: this.lastRejectedAt,
+    };
+  }
 }
\ No newline at end of file